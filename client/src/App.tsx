@@ -23,6 +23,14 @@ import PaperTypesPage from "@/pages/paper-types";
 import MaintenancePage from "@/pages/maintenance";
 import AnalyticsPage from "@/pages/analytics";
 import TonerInventoryPage from "@/pages/toner-inventory";
+import QuotasPage from "@/pages/quotas";
+import ApprovalsPage from "@/pages/approvals";
+import StoragePage from "@/pages/storage";
+import CupsImportPage from "@/pages/cups-import";
+import MeterReadingsPage from "@/pages/meter-readings";
+import LocationsPage from "@/pages/locations";
+import PurchaseOrdersPage from "@/pages/purchase-orders";
+import SuppliersPage from "@/pages/suppliers";
 import { useEffect } from "react";
 import { Loader2 } from "lucide-react";
 
@@ -67,6 +75,16 @@ function AuthenticatedLayout() {
                   <PaperTypesPage />
                 </ProtectedRoute>
               </Route>
+              <Route path="/purchase-orders">
+                <ProtectedRoute allowedRoles={["admin", "operator"]}>
+                  <PurchaseOrdersPage />
+                </ProtectedRoute>
+              </Route>
+              <Route path="/suppliers">
+                <ProtectedRoute allowedRoles={["admin", "operator"]}>
+                  <SuppliersPage />
+                </ProtectedRoute>
+              </Route>
               <Route path="/maintenance">
                 <ProtectedRoute allowedRoles={["admin", "operator"]}>
                   <MaintenancePage />
@@ -82,6 +100,36 @@ function AuthenticatedLayout() {
                   <TonerInventoryPage />
                 </ProtectedRoute>
               </Route>
+              <Route path="/approvals">
+                <ProtectedRoute allowedRoles={["admin"]}>
+                  <ApprovalsPage />
+                </ProtectedRoute>
+              </Route>
+              <Route path="/quotas">
+                <ProtectedRoute allowedRoles={["admin"]}>
+                  <QuotasPage />
+                </ProtectedRoute>
+              </Route>
+              <Route path="/storage">
+                <ProtectedRoute allowedRoles={["admin", "super-admin"]}>
+                  <StoragePage />
+                </ProtectedRoute>
+              </Route>
+              <Route path="/cups">
+                <ProtectedRoute allowedRoles={["admin"]}>
+                  <CupsImportPage />
+                </ProtectedRoute>
+              </Route>
+              <Route path="/meters">
+                <ProtectedRoute allowedRoles={["admin", "operator"]}>
+                  <MeterReadingsPage />
+                </ProtectedRoute>
+              </Route>
+              <Route path="/locations">
+                <ProtectedRoute allowedRoles={["admin"]}>
+                  <LocationsPage />
+                </ProtectedRoute>
+              </Route>
               <Route component={NotFound} />
             </Switch>
           </div>
@@ -10,6 +10,14 @@ import {
   Wrench,
   Package,
   Droplets,
+  Gauge,
+  ClipboardCheck,
+  HardDrive,
+  FileInput,
+  Calculator,
+  MapPin,
+  ShoppingCart,
+  Truck,
 } from "lucide-react";
 import {
   Sidebar,
@@ -51,6 +59,12 @@ export function AppSidebar() {
       icon: Printer,
       roles: ["admin", "operator"],
     },
+    {
+      title: "Aprobaciones",
+      url: "/approvals",
+      icon: ClipboardCheck,
+      roles: ["admin"],
+    },
   ];
 
   const managementItems = [
@@ -72,6 +86,36 @@ export function AppSidebar() {
       icon: Settings,
       roles: ["admin"],
     },
+    {
+      title: "Ubicaciones",
+      url: "/locations",
+      icon: MapPin,
+      roles: ["admin"],
+    },
+    {
+      title: "Contadores",
+      url: "/meters",
+      icon: Calculator,
+      roles: ["admin", "operator"],
+    },
+    {
+      title: "Cuotas",
+      url: "/quotas",
+      icon: Gauge,
+      roles: ["admin"],
+    },
+    {
+      title: "Almacenamiento",
+      url: "/storage",
+      icon: HardDrive,
+      roles: ["admin", "super-admin"],
+    },
+    {
+      title: "Importación CUPS",
+      url: "/cups",
+      icon: FileInput,
+      roles: ["admin"],
+    },
   ];
 
   const inventoryItems = [
@@ -87,6 +131,18 @@ export function AppSidebar() {
       icon: Droplets,
       roles: ["admin"],
     },
+    {
+      title: "Órdenes de Compra",
+      url: "/purchase-orders",
+      icon: ShoppingCart,
+      roles: ["admin"],
+    },
+    {
+      title: "Proveedores",
+      url: "/suppliers",
+      icon: Truck,
+      roles: ["admin"],
+    },
     {
       title: "Periféricos",
       url: "/maintenance",
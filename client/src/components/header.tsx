@@ -1,4 +1,5 @@
-import { LogOut, Menu } from "lucide-react";
+import { useState } from "react";
+import { LogOut, Menu, KeyRound } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { useAuth } from "@/lib/auth";
@@ -12,9 +13,11 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { ReleasePinDialog } from "@/components/release-pin-dialog";
 
 export function Header() {
   const { user, logout } = useAuth();
+  const [isPinDialogOpen, setIsPinDialogOpen] = useState(false);
 
   const getInitials = (name: string) => {
     return name
@@ -57,6 +60,10 @@ export function Header() {
                 </div>
               </DropdownMenuLabel>
               <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setIsPinDialogOpen(true)} data-testid="button-release-pin">
+                <KeyRound className="mr-2 h-4 w-4" />
+                <span>PIN de Liberación</span>
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={logout} data-testid="button-logout">
                 <LogOut className="mr-2 h-4 w-4" />
                 <span>Cerrar Sesión</span>
@@ -64,6 +71,7 @@ export function Header() {
             </DropdownMenuContent>
           </DropdownMenu>
         )}
+        <ReleasePinDialog open={isPinDialogOpen} onOpenChange={setIsPinDialogOpen} />
       </div>
     </header>
   );
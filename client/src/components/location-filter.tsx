@@ -0,0 +1,142 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { LOCATION_LEVELS, formatLocationPath } from "@shared/schema";
+import type { Location, LocationLevel, LocationUsageRow } from "@shared/schema";
+
+export const LOCATION_LEVEL_LABELS: Record<LocationLevel, string> = {
+  site: "Sede",
+  building: "Edificio",
+  floor: "Piso",
+  room: "Sala",
+};
+
+export type LocationFilterValue = {
+  locationId?: string;
+  groupBy?: LocationLevel;
+};
+
+// Parámetros de consulta que entienden /api/dashboard, /api/consumption y /api/analytics
+export function toLocationQuery(filter: LocationFilterValue): string {
+  const params = new URLSearchParams();
+  if (filter.locationId) params.set("locationId", filter.locationId);
+  if (filter.groupBy) params.set("groupBy", filter.groupBy);
+  return params.toString();
+}
+
+// Nodos ordenados como árbol (cada uno seguido de los que contiene) con su ruta completa
+export function useLocationOptions() {
+  const { data: locationList } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const byId = new Map((locationList || []).map((location) => [location.id, location]));
+  const options = (locationList || [])
+    .map((location) => ({ location, path: formatLocationPath(location.id, byId) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  return { locationList: locationList || [], options };
+}
+
+export function LocationFilter({
+  value,
+  onChange,
+}: {
+  value: LocationFilterValue;
+  onChange: (value: LocationFilterValue) => void;
+}) {
+  const { options } = useLocationOptions();
+
+  // Sin jerarquía configurada el filtro no aporta nada
+  if (options.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Select
+        value={value.locationId || "all"}
+        onValueChange={(locationId) => onChange({ ...value, locationId: locationId === "all" ? undefined : locationId })}
+      >
+        <SelectTrigger className="w-[240px]" data-testid="select-location-filter">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Todas las ubicaciones</SelectItem>
+          {options.map(({ location, path }) => (
+            <SelectItem key={location.id} value={location.id}>
+              {path}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={value.groupBy || "none"}
+        onValueChange={(groupBy) => onChange({ ...value, groupBy: groupBy === "none" ? undefined : (groupBy as LocationLevel) })}
+      >
+        <SelectTrigger className="w-[180px]" data-testid="select-location-group-by">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Sin agrupar</SelectItem>
+          {LOCATION_LEVELS.map((level) => (
+            <SelectItem key={level} value={level}>
+              Por {LOCATION_LEVEL_LABELS[level].toLowerCase()}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export function LocationBreakdownTable({ rows }: { rows: LocationUsageRow[] }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">Sin trabajos en el periodo.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Ubicación</TableHead>
+            <TableHead className="text-right">Trabajos</TableHead>
+            <TableHead className="text-right">Páginas</TableHead>
+            <TableHead className="text-right">Páginas color</TableHead>
+            <TableHead className="text-right">Hojas</TableHead>
+            <TableHead className="text-right">Costo</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.locationId || "none"} data-testid={`row-location-usage-${row.locationId || "none"}`}>
+              <TableCell>
+                <div className="font-medium">{row.name}</div>
+                {row.path && row.path !== row.name && (
+                  <div className="text-xs text-muted-foreground">{row.path}</div>
+                )}
+              </TableCell>
+              <TableCell className="text-right">{row.jobs.toLocaleString()}</TableCell>
+              <TableCell className="text-right">{row.pages.toLocaleString()}</TableCell>
+              <TableCell className="text-right">{row.colorPages.toLocaleString()}</TableCell>
+              <TableCell className="text-right">{row.sheets.toLocaleString()}</TableCell>
+              <TableCell className="text-right">${row.totalCost.toFixed(2)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Radar } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useLocationOptions } from "@/components/location-filter";
+import type { DiscoveredPrinter, DiscoveryImportResult, PrinterDiscoveryResult } from "@shared/schema";
+
+const PROTOCOL_LABELS: Record<DiscoveredPrinter["protocols"][number], string> = {
+  ipp: "IPP",
+  jetdirect: "JetDirect",
+  snmp: "SNMP",
+};
+
+function defaultName(device: DiscoveredPrinter): string {
+  return device.sysName || device.model || `Impresora ${device.ipAddress}`;
+}
+
+export function PrinterDiscoveryDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { options: locationOptions } = useLocationOptions();
+  const [cidr, setCidr] = useState("");
+  const [result, setResult] = useState<PrinterDiscoveryResult | null>(null);
+  // Equipos marcados para importar, con el nombre que se les dará
+  const [selected, setSelected] = useState<Record<string, string>>({});
+  const [location, setLocation] = useState("");
+  const [locationId, setLocationId] = useState<string | null>(null);
+
+  const scanMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<PrinterDiscoveryResult>("POST", "/api/printers/discovery", { cidr });
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      setSelected(
+        Object.fromEntries(
+          data.devices
+            .filter((device) => !device.registeredPrinterId)
+            .map((device) => [device.ipAddress, defaultName(device)])
+        )
+      );
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error en la exploración", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const devices = (result?.devices || [])
+        .filter((device) => selected[device.ipAddress] !== undefined)
+        .map((device) => ({
+          ipAddress: device.ipAddress,
+          name: selected[device.ipAddress],
+          location,
+          model: device.model || "Desconocido",
+          serialNumber: device.serialNumber,
+          manufacturer: device.manufacturer,
+          locationId,
+        }));
+      return await apiRequest<DiscoveryImportResult>("POST", "/api/printers/discovery/import", { devices });
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/printers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      toast({
+        title: "Impresoras importadas",
+        description:
+          data.skipped.length > 0
+            ? `${data.created.length} agregada(s), ${data.skipped.length} omitida(s) por estar ya registradas`
+            : `${data.created.length} agregada(s)`,
+      });
+      setResult(null);
+      setSelected({});
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error al importar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleDevice = (device: DiscoveredPrinter, checked: boolean) => {
+    setSelected((current) => {
+      const next = { ...current };
+      if (checked) next[device.ipAddress] = defaultName(device);
+      else delete next[device.ipAddress];
+      return next;
+    });
+  };
+
+  const selectedCount = Object.keys(selected).length;
+  const hasEmptyName = Object.values(selected).some((name) => !name.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Descubrir Impresoras</DialogTitle>
+          <DialogDescription>
+            Explora un rango de la red (IPP, JetDirect y SNMP) y agrega en bloque las impresoras que aún no están registradas
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            value={cidr}
+            onChange={(e) => setCidr(e.target.value)}
+            placeholder="192.168.1.0/24"
+            data-testid="input-discovery-cidr"
+          />
+          <Button
+            onClick={() => scanMutation.mutate()}
+            disabled={!cidr.trim() || scanMutation.isPending}
+            data-testid="button-start-discovery"
+          >
+            {scanMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Radar className="mr-2 h-4 w-4" />
+            )}
+            Explorar
+          </Button>
+        </div>
+
+        {scanMutation.isPending && (
+          <p className="text-sm text-muted-foreground">
+            Explorando la red; puede tardar hasta un minuto en rangos grandes...
+          </p>
+        )}
+
+        {result && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {result.devices.length} equipo(s) encontrado(s) en {result.scanned} direcciones de {result.cidr}
+            </p>
+            {result.devices.length > 0 && (
+              <div className="max-h-80 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" />
+                      <TableHead>Dirección IP</TableHead>
+                      <TableHead>Nombre</TableHead>
+                      <TableHead>Modelo</TableHead>
+                      <TableHead>N.º de serie</TableHead>
+                      <TableHead>Protocolos</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.devices.map((device) => {
+                      const isSelected = selected[device.ipAddress] !== undefined;
+                      return (
+                        <TableRow key={device.ipAddress} data-testid={`row-discovered-${device.ipAddress}`}>
+                          <TableCell>
+                            <Checkbox
+                              checked={isSelected}
+                              disabled={!!device.registeredPrinterId}
+                              onCheckedChange={(checked) => toggleDevice(device, checked === true)}
+                              data-testid={`checkbox-discovered-${device.ipAddress}`}
+                            />
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">{device.ipAddress}</TableCell>
+                          <TableCell>
+                            {device.registeredPrinterId ? (
+                              <Badge variant="secondary">Ya registrada</Badge>
+                            ) : (
+                              <Input
+                                value={selected[device.ipAddress] ?? defaultName(device)}
+                                disabled={!isSelected}
+                                onChange={(e) =>
+                                  setSelected((current) => ({ ...current, [device.ipAddress]: e.target.value }))
+                                }
+                                className="h-8"
+                              />
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {device.model || <span className="text-muted-foreground">Desconocido</span>}
+                            {device.manufacturer && (
+                              <div className="text-xs text-muted-foreground">{device.manufacturer}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm">{device.serialNumber || "—"}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {device.protocols.map((protocol) => (
+                                <Badge key={protocol} variant="outline" className="text-xs">
+                                  {PROTOCOL_LABELS[protocol]}
+                                </Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {selectedCount > 0 && (
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="discovery-location">Ubicación</Label>
+                  <Input
+                    id="discovery-location"
+                    value={location}
+                    onChange={(e) => setLocation(e.target.value)}
+                    placeholder="Oficina Central"
+                    data-testid="input-discovery-location"
+                  />
+                </div>
+                {locationOptions.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Nodo de la jerarquía (Opcional)</Label>
+                    <Select
+                      value={locationId || "none"}
+                      onValueChange={(value) => {
+                        const nextId = value === "none" ? null : value;
+                        setLocationId(nextId);
+                        const path = locationOptions.find((option) => option.location.id === nextId)?.path;
+                        if (path && !location) setLocation(path);
+                      }}
+                    >
+                      <SelectTrigger data-testid="select-discovery-location-node">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Sin ubicación</SelectItem>
+                        {locationOptions.map(({ location: node, path }) => (
+                          <SelectItem key={node.id} value={node.id}>
+                            {path}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cerrar
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={selectedCount === 0 || hasEmptyName || !location.trim() || importMutation.isPending}
+            data-testid="button-import-discovered"
+          >
+            {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Importar {selectedCount > 0 ? `(${selectedCount})` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
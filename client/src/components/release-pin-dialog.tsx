@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+export function ReleasePinDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+  const [pin, setPin] = useState("");
+
+  const setPinMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", "/api/users/me/release-pin", { password, pin });
+    },
+    onSuccess: () => {
+      toast({
+        title: "PIN actualizado",
+        description: "Ya puedes liberar tus trabajos retenidos en la impresora",
+      });
+      setPassword("");
+      setPin("");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al guardar el PIN",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>PIN de Liberación</DialogTitle>
+          <DialogDescription>
+            Lo usarás en la impresora para liberar los trabajos de impresión segura
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="release-pin">Nuevo PIN (4 a 8 dígitos)</Label>
+            <Input
+              id="release-pin"
+              type="password"
+              inputMode="numeric"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              data-testid="input-release-pin"
+            />
+          </div>
+          <div>
+            <Label htmlFor="release-pin-password">Contraseña actual</Label>
+            <Input
+              id="release-pin-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              data-testid="input-release-pin-password"
+            />
+          </div>
+          <div className="flex gap-3 justify-end">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => setPinMutation.mutate()}
+              disabled={setPinMutation.isPending || !pin || !password}
+              data-testid="button-save-release-pin"
+            >
+              {setPinMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Guardar
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,438 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Loader2, Scale } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  StockItemType,
+  StockMovementType,
+  StockMovementWithDetails,
+  StockReconciliationRow,
+} from "@shared/schema";
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  receipt: "Recepción",
+  consumption: "Consumo",
+  adjustment: "Ajuste",
+  transfer: "Transferencia",
+  write_off: "Baja",
+};
+
+const ITEM_QUERY_KEYS: Record<StockItemType, string> = {
+  paper: "/api/paper-types",
+  toner: "/api/toner-inventory",
+};
+
+const EXPENSE_TYPES: Record<StockItemType, string> = {
+  paper: "paper_removal",
+  toner: "toner_removal",
+};
+
+// Datos mínimos de un insumo (tipo de papel o toner) para registrar movimientos
+export type StockDialogItem = {
+  id: string;
+  name: string;
+  stock: number;
+  unitPrice: number | null;
+};
+
+function invalidateStockQueries(queryClient: ReturnType<typeof useQueryClient>, itemType: StockItemType) {
+  queryClient.invalidateQueries({ queryKey: [ITEM_QUERY_KEYS[itemType]] });
+  queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/stock-movements/reconciliation"] });
+}
+
+export function StockMovementDialog({
+  itemType,
+  item,
+  items,
+  unitLabel,
+  onOpenChange,
+}: {
+  itemType: StockItemType;
+  item: StockDialogItem | null;
+  items: StockDialogItem[];
+  unitLabel: string;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [movementType, setMovementType] = useState<StockMovementType>("receipt");
+  const [direction, setDirection] = useState<"increase" | "decrease">("increase");
+  const [quantity, setQuantity] = useState(1);
+  const [toItemId, setToItemId] = useState("");
+  const [reason, setReason] = useState("");
+  const [reference, setReference] = useState("");
+
+  const close = () => {
+    setMovementType("receipt");
+    setDirection("increase");
+    setQuantity(1);
+    setToItemId("");
+    setReason("");
+    setReference("");
+    onOpenChange(false);
+  };
+
+  const isOutflow =
+    movementType === "consumption" ||
+    movementType === "write_off" ||
+    movementType === "transfer" ||
+    (movementType === "adjustment" && direction === "decrease");
+  const delta = isOutflow ? -quantity : quantity;
+  const reasonRequired = movementType === "adjustment" || movementType === "write_off";
+  const destinations = items.filter((candidate) => candidate.id !== item?.id);
+
+  const movementMutation = useMutation({
+    mutationFn: async () => {
+      if (!item) return;
+      if (movementType === "transfer") {
+        return await apiRequest("POST", "/api/stock-movements/transfer", {
+          itemType,
+          fromItemId: item.id,
+          toItemId,
+          quantity,
+          reason: reason || undefined,
+          reference: reference || undefined,
+        });
+      }
+
+      const movement = await apiRequest("POST", "/api/stock-movements", {
+        itemType,
+        itemId: item.id,
+        movementType,
+        quantity: movementType === "adjustment" ? delta : quantity,
+        reason: reason || undefined,
+        reference: reference || undefined,
+      });
+
+      // Las salidas por consumo o baja se registran también como gasto
+      if ((movementType === "consumption" || movementType === "write_off") && item.unitPrice) {
+        await apiRequest("POST", "/api/consumption-expenses", {
+          expenseType: EXPENSE_TYPES[itemType],
+          amount: (item.unitPrice * quantity).toString(),
+          description: `${STOCK_MOVEMENT_LABELS[movementType]} de ${item.name}: ${quantity} ${unitLabel}`,
+        }).catch((e) => console.error("Error registering expense:", e));
+        queryClient.invalidateQueries({ queryKey: ["/api/consumption"] });
+      }
+
+      return movement;
+    },
+    onSuccess: () => {
+      invalidateStockQueries(queryClient, itemType);
+      toast({
+        title: "Movimiento registrado",
+        description: `${STOCK_MOVEMENT_LABELS[movementType]}: ${delta > 0 ? "+" : ""}${delta} ${unitLabel}`,
+      });
+      close();
+    },
+    onError: (error: Error) => {
+      toast({ title: "No se pudo registrar el movimiento", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const isValid =
+    quantity > 0 &&
+    (!reasonRequired || reason.trim().length > 0) &&
+    (movementType !== "transfer" || !!toItemId);
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Registrar Movimiento</DialogTitle>
+          <DialogDescription>
+            {item?.name} · Stock actual: {item?.stock} {unitLabel}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Tipo de movimiento</Label>
+              <Select value={movementType} onValueChange={(value) => setMovementType(value as StockMovementType)}>
+                <SelectTrigger data-testid="select-movement-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(STOCK_MOVEMENT_LABELS).map(([key, label]) => (
+                    <SelectItem key={key} value={key} disabled={key === "transfer" && destinations.length === 0}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="movement-quantity">Cantidad</Label>
+              <Input
+                id="movement-quantity"
+                type="number"
+                min="1"
+                value={quantity}
+                onChange={(e) => setQuantity(parseInt(e.target.value) || 0)}
+                data-testid="input-movement-quantity"
+              />
+            </div>
+          </div>
+
+          {movementType === "adjustment" && (
+            <div className="space-y-2">
+              <Label>Sentido del ajuste</Label>
+              <Select value={direction} onValueChange={(value) => setDirection(value as "increase" | "decrease")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="increase">Sumar al stock</SelectItem>
+                  <SelectItem value="decrease">Restar del stock</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {movementType === "transfer" && (
+            <div className="space-y-2">
+              <Label>Destino</Label>
+              <Select value={toItemId} onValueChange={setToItemId}>
+                <SelectTrigger data-testid="select-transfer-destination">
+                  <SelectValue placeholder="Selecciona el insumo de destino" />
+                </SelectTrigger>
+                <SelectContent>
+                  {destinations.map((destination) => (
+                    <SelectItem key={destination.id} value={destination.id}>
+                      {destination.name} ({destination.stock} {unitLabel})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="movement-reason">Motivo{reasonRequired ? "" : " (Opcional)"}</Label>
+            <Input
+              id="movement-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={movementType === "write_off" ? "Ej: Resmas dañadas por humedad" : "Ej: Conteo físico mensual"}
+              data-testid="input-movement-reason"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="movement-reference">Referencia (Opcional)</Label>
+            <Input
+              id="movement-reference"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="Ej: Remito 0001-00012345"
+            />
+          </div>
+
+          {item && (
+            <div className="bg-muted p-3 rounded text-sm">
+              Nuevo stock: <strong>{item.stock + delta} {unitLabel}</strong>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={() => movementMutation.mutate()}
+            disabled={!isValid || movementMutation.isPending}
+            data-testid="button-save-movement"
+          >
+            {movementMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Registrar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function StockMovementHistoryDialog({
+  itemType,
+  item,
+  onOpenChange,
+}: {
+  itemType: StockItemType;
+  item: StockDialogItem | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { data: movements, isLoading } = useQuery<StockMovementWithDetails[]>({
+    queryKey: ["/api/stock-movements", itemType, item?.id],
+    queryFn: () => apiRequest("GET", `/api/stock-movements?itemType=${itemType}&itemId=${item?.id}`),
+    enabled: !!item,
+  });
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Historial de Movimientos</DialogTitle>
+          <DialogDescription>{item?.name}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : movements && movements.length > 0 ? (
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fecha</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead className="text-right">Cantidad</TableHead>
+                  <TableHead className="text-right">Saldo</TableHead>
+                  <TableHead>Motivo</TableHead>
+                  <TableHead>Usuario</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {movements.map((movement) => (
+                  <TableRow key={movement.id} data-testid={`row-stock-movement-${movement.id}`}>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {format(new Date(movement.createdAt), "dd MMM yyyy HH:mm", { locale: es })}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {STOCK_MOVEMENT_LABELS[movement.movementType as StockMovementType] || movement.movementType}
+                      </Badge>
+                    </TableCell>
+                    <TableCell
+                      className={`text-right font-medium ${movement.quantity < 0 ? "text-red-600" : "text-green-600"}`}
+                    >
+                      {movement.quantity > 0 ? "+" : ""}
+                      {movement.quantity}
+                    </TableCell>
+                    <TableCell className="text-right">{movement.balanceAfter}</TableCell>
+                    <TableCell className="text-sm">
+                      {movement.reason || "—"}
+                      {movement.reference && (
+                        <div className="text-xs text-muted-foreground">Ref.: {movement.reference}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{movement.userName || "Sistema"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="py-8 text-center text-sm text-muted-foreground">Sin movimientos registrados.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Insumos cuyo stock no coincide con el saldo del libro; solo se muestra si hay diferencias
+export function StockReconciliationCard({ itemType, unitLabel }: { itemType: StockItemType; unitLabel: string }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: rows } = useQuery<StockReconciliationRow[]>({
+    queryKey: ["/api/stock-movements/reconciliation"],
+  });
+
+  const reconcileMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<{ adjusted: number }>("POST", "/api/stock-movements/reconcile");
+    },
+    onSuccess: (data) => {
+      invalidateStockQueries(queryClient, itemType);
+      toast({ title: "Libro conciliado", description: `${data.adjusted} ajuste(s) registrado(s)` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "No se pudo conciliar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const mismatches = (rows || []).filter((row) => row.itemType === itemType && row.difference !== 0);
+  if (mismatches.length === 0) return null;
+
+  return (
+    <Card className="border-orange-300">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Scale className="w-5 h-5 text-orange-600" />
+          Diferencias con el libro de movimientos
+        </CardTitle>
+        <Button
+          size="sm"
+          onClick={() => reconcileMutation.mutate()}
+          disabled={reconcileMutation.isPending}
+          data-testid="button-reconcile-stock"
+        >
+          {reconcileMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Registrar ajustes
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-muted-foreground mb-4">
+          El stock de estos insumos cambió sin un movimiento registrado. Al conciliar se agrega un ajuste por la diferencia.
+        </p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Insumo</TableHead>
+              <TableHead className="text-right">Stock</TableHead>
+              <TableHead className="text-right">Saldo del libro</TableHead>
+              <TableHead className="text-right">Diferencia</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {mismatches.map((row) => (
+              <TableRow key={row.itemId}>
+                <TableCell className="font-medium">{row.name}</TableCell>
+                <TableCell className="text-right">{row.stock} {unitLabel}</TableCell>
+                <TableCell className="text-right">{row.ledgerBalance} {unitLabel}</TableCell>
+                <TableCell className="text-right font-medium text-orange-600">
+                  {row.difference > 0 ? "+" : ""}
+                  {row.difference}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
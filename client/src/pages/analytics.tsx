@@ -1,16 +1,31 @@
+import { useState } from "react";
 import { useAuth } from "@/lib/auth";
 import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Loader2, Download, AlertCircle } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Download, AlertCircle, Copy } from "lucide-react";
+import {
+  LocationFilter,
+  LocationBreakdownTable,
+  LOCATION_LEVEL_LABELS,
+  toLocationQuery,
+  type LocationFilterValue,
+} from "@/components/location-filter";
 
 export default function AnalyticsPage() {
   const { user } = useAuth();
   const companyId = user?.companyId;
+  const [locationFilter, setLocationFilter] = useState<LocationFilterValue>({});
 
-  const { data: analytics, isLoading, error } = useQuery({
-    queryKey: ["/api/analytics", companyId],
+  const { data: analytics, isLoading, error } = useQuery<any>({
+    queryKey: ["/api/analytics", companyId, locationFilter],
+    queryFn: async () => {
+      const locationQuery = toLocationQuery(locationFilter);
+      return apiRequest("GET", `/api/analytics${locationQuery ? `?${locationQuery}` : ""}`);
+    },
     enabled: !!companyId,
   });
 
@@ -29,7 +44,8 @@ export default function AnalyticsPage() {
         body: JSON.stringify({ 
           companyId,
           startDate: new Date(Date.now() - 30*24*60*60*1000),
-          endDate: new Date()
+          endDate: new Date(),
+          ...locationFilter,
         }),
       });
       const blob = await response.blob();
@@ -49,10 +65,13 @@ export default function AnalyticsPage() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-3xl font-bold">Analytics</h1>
-        <Button onClick={exportPDF} className="gap-2">
-          <Download className="w-4 h-4" />
-          Exportar Reporte
-        </Button>
+        <div className="flex flex-wrap gap-2">
+          <LocationFilter value={locationFilter} onChange={setLocationFilter} />
+          <Button onClick={exportPDF} className="gap-2">
+            <Download className="w-4 h-4" />
+            Exportar Reporte
+          </Button>
+        </div>
       </div>
 
       {/* Alerts Section */}
@@ -93,6 +112,9 @@ export default function AnalyticsPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{analytics?.totalPages || 0}</div>
+            <p className="text-xs text-gray-500 mt-1">
+              {analytics?.totalSheets || 0} sheets · {analytics?.totalImpressions || 0} impressions
+            </p>
           </CardContent>
         </Card>
         <Card>
@@ -105,14 +127,29 @@ export default function AnalyticsPage() {
         </Card>
         <Card>
           <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium text-gray-500">Estimated Cost</CardTitle>
+            <CardTitle className="text-sm font-medium text-gray-500">Print Cost</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-green-600">${analytics?.costEstimate?.toFixed(2) || "0.00"}</div>
+            <p className="text-xs text-gray-500 mt-1">
+              Paper ${analytics?.costBreakdown?.paper?.toFixed(2) || "0.00"} · Toner $
+              {analytics?.costBreakdown?.toner?.toFixed(2) || "0.00"} · Clicks ${analytics?.costBreakdown?.click?.toFixed(2) || "0.00"}
+            </p>
           </CardContent>
         </Card>
       </div>
 
+      {locationFilter.groupBy && analytics?.locationBreakdown && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Uso por {LOCATION_LEVEL_LABELS[locationFilter.groupBy]}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <LocationBreakdownTable rows={analytics.locationBreakdown} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Top Printers */}
@@ -169,6 +206,59 @@ export default function AnalyticsPage() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Duplicate Prints */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex gap-2 items-center">
+            <Copy className="w-5 h-5" />
+            Impresiones Duplicadas
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <div className="text-sm text-gray-500">Reimpresiones</div>
+              <div className="text-2xl font-bold" data-testid="text-duplicate-jobs">{analytics?.duplicates?.duplicateJobs || 0}</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500">Páginas desperdiciadas</div>
+              <div className="text-2xl font-bold text-orange-600" data-testid="text-duplicate-pages">{analytics?.duplicates?.wastedPages || 0}</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500">Costo desperdiciado</div>
+              <div className="text-2xl font-bold text-red-600" data-testid="text-duplicate-cost">${analytics?.duplicates?.wastedCost?.toFixed(2) || "0.00"}</div>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Se cuenta como reimpresión cuando el mismo usuario envía el mismo archivo dentro de {analytics?.duplicates?.windowDays || 7} días del envío anterior.
+          </p>
+          {analytics?.duplicates?.topDocuments?.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Documento</TableHead>
+                  <TableHead>Usuario</TableHead>
+                  <TableHead className="text-right">Reimpresiones</TableHead>
+                  <TableHead className="text-right">Páginas</TableHead>
+                  <TableHead className="text-right">Costo</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analytics.duplicates.topDocuments.map((doc: any) => (
+                  <TableRow key={`${doc.username}-${doc.documentName}`}>
+                    <TableCell className="font-medium">{doc.documentName}</TableCell>
+                    <TableCell>{doc.username}</TableCell>
+                    <TableCell className="text-right">{doc.duplicates}</TableCell>
+                    <TableCell className="text-right">{doc.wastedPages}</TableCell>
+                    <TableCell className="text-right">${doc.wastedCost.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
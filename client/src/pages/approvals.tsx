@@ -0,0 +1,373 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Check, X, Plus, Trash2, ClipboardCheck, ShieldCheck, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDistanceToNow } from "date-fns";
+import type { ApprovalPolicy, PrintJobWithDetails } from "@shared/schema";
+
+type PolicyFormState = {
+  name: string;
+  minTotalPages: string;
+  minCopies: string;
+  requireForColor: boolean;
+};
+
+const emptyPolicyForm: PolicyFormState = {
+  name: "",
+  minTotalPages: "",
+  minCopies: "",
+  requireForColor: false,
+};
+
+export default function ApprovalsPage() {
+  const [isPolicyOpen, setIsPolicyOpen] = useState(false);
+  const [policyForm, setPolicyForm] = useState<PolicyFormState>(emptyPolicyForm);
+  const [rejectingJob, setRejectingJob] = useState<PrintJobWithDetails | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: pendingJobs, isLoading } = useQuery<PrintJobWithDetails[]>({
+    queryKey: ["/api/approvals"],
+  });
+
+  const { data: policies } = useQuery<ApprovalPolicy[]>({
+    queryKey: ["/api/approval-policies"],
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision, reason }: { id: string; decision: "approve" | "reject"; reason?: string }) => {
+      return await apiRequest("POST", `/api/print-jobs/${id}/${decision}`, { reason });
+    },
+    onSuccess: (_, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/approvals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/print-jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/paper-types"] });
+      toast({
+        title: decision === "approve" ? "Trabajo aprobado" : "Trabajo rechazado",
+        description: decision === "approve"
+          ? "El trabajo pasó a la cola de impresión"
+          : "Se notificó el rechazo en el historial del trabajo",
+      });
+      setRejectingJob(null);
+      setRejectReason("");
+    },
+    onError,
+  });
+
+  const createPolicyMutation = useMutation({
+    mutationFn: async (form: PolicyFormState) => {
+      return await apiRequest("POST", "/api/approval-policies", {
+        name: form.name,
+        minTotalPages: form.minTotalPages ? parseInt(form.minTotalPages) : null,
+        minCopies: form.minCopies ? parseInt(form.minCopies) : null,
+        requireForColor: form.requireForColor,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/approval-policies"] });
+      toast({ title: "Política creada", description: "Los nuevos trabajos se evaluarán con esta política" });
+      setPolicyForm(emptyPolicyForm);
+      setIsPolicyOpen(false);
+    },
+    onError,
+  });
+
+  const togglePolicyMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      return await apiRequest("PUT", `/api/approval-policies/${id}`, { enabled });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/approval-policies"] });
+    },
+    onError,
+  });
+
+  const deletePolicyMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/approval-policies/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/approval-policies"] });
+      toast({ title: "Eliminada", description: "Se removió la política" });
+    },
+    onError,
+  });
+
+  const describePolicy = (policy: ApprovalPolicy) => {
+    const criteria: string[] = [];
+    if (policy.minTotalPages) criteria.push(`${policy.minTotalPages}+ páginas`);
+    if (policy.minCopies) criteria.push(`${policy.minCopies}+ copias`);
+    if (policy.requireForColor) criteria.push("a color");
+    return criteria.join(" o ");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-3xl font-bold">Aprobaciones</h1>
+        <p className="text-muted-foreground mt-1">
+          Trabajos que esperan autorización antes de imprimirse
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5" />
+            Bandeja de Aprobación
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="p-8 text-center">Cargando trabajos...</div>
+          ) : pendingJobs && pendingJobs.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Documento</TableHead>
+                    <TableHead>Usuario</TableHead>
+                    <TableHead className="text-right">Páginas</TableHead>
+                    <TableHead>Modo</TableHead>
+                    <TableHead>Motivo</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pendingJobs.map((job) => (
+                    <TableRow key={job.id} data-testid={`row-approval-${job.id}`}>
+                      <TableCell>
+                        <p className="font-medium">{job.documentName}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(job.printedAt), { addSuffix: true })}
+                        </p>
+                      </TableCell>
+                      <TableCell>{job.user.fullName}</TableCell>
+                      <TableCell className="text-right">
+                        {job.pageCount} × {job.copies}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={job.colorMode === "color" ? "default" : "secondary"}>
+                          {job.colorMode === "color" ? "Color" : "B/N"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{job.approvalReason}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex gap-1 justify-end">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={reviewMutation.isPending}
+                            onClick={() => reviewMutation.mutate({ id: job.id, decision: "approve" })}
+                            title="Aprobar"
+                            data-testid={`button-approve-${job.id}`}
+                          >
+                            <Check className="w-4 h-4 text-green-600" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={reviewMutation.isPending}
+                            onClick={() => setRejectingJob(job)}
+                            title="Rechazar"
+                            data-testid={`button-reject-${job.id}`}
+                          >
+                            <X className="w-4 h-4 text-red-600" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-center text-muted-foreground py-8">No hay trabajos pendientes de aprobación</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            Políticas de Aprobación
+          </CardTitle>
+          <Dialog open={isPolicyOpen} onOpenChange={setIsPolicyOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm" className="gap-2" onClick={() => setPolicyForm(emptyPolicyForm)}>
+                <Plus className="w-4 h-4" />
+                Nueva Política
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Nueva Política de Aprobación</DialogTitle>
+                <DialogDescription>
+                  Un trabajo requiere aprobación si cumple cualquiera de los criterios definidos
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="policyName">Nombre</Label>
+                  <Input
+                    id="policyName"
+                    value={policyForm.name}
+                    onChange={(e) => setPolicyForm({ ...policyForm, name: e.target.value })}
+                    placeholder="Ej: Trabajos grandes"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="minTotalPages">Desde páginas totales</Label>
+                    <Input
+                      id="minTotalPages"
+                      type="number"
+                      min="1"
+                      value={policyForm.minTotalPages}
+                      onChange={(e) => setPolicyForm({ ...policyForm, minTotalPages: e.target.value })}
+                      placeholder="Ej: 100"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="minCopies">Desde copias</Label>
+                    <Input
+                      id="minCopies"
+                      type="number"
+                      min="1"
+                      value={policyForm.minCopies}
+                      onChange={(e) => setPolicyForm({ ...policyForm, minCopies: e.target.value })}
+                      placeholder="Ej: 20"
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="requireForColor"
+                    checked={policyForm.requireForColor}
+                    onCheckedChange={(checked) => setPolicyForm({ ...policyForm, requireForColor: checked === true })}
+                  />
+                  <Label htmlFor="requireForColor">Todos los trabajos a color</Label>
+                </div>
+                <div className="flex gap-3 justify-end">
+                  <Button variant="outline" onClick={() => setIsPolicyOpen(false)}>
+                    Cancelar
+                  </Button>
+                  <Button
+                    onClick={() => createPolicyMutation.mutate(policyForm)}
+                    disabled={createPolicyMutation.isPending || !policyForm.name.trim()}
+                  >
+                    Crear
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nombre</TableHead>
+                <TableHead>Criterios</TableHead>
+                <TableHead>Activa</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies?.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    No hay políticas configuradas
+                  </TableCell>
+                </TableRow>
+              )}
+              {policies?.map((policy) => (
+                <TableRow key={policy.id}>
+                  <TableCell className="font-medium">{policy.name}</TableCell>
+                  <TableCell>{describePolicy(policy)}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={policy.enabled}
+                      onCheckedChange={(enabled) => togglePolicyMutation.mutate({ id: policy.id, enabled })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => deletePolicyMutation.mutate(policy.id)}>
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Diálogo de rechazo */}
+      <Dialog open={!!rejectingJob} onOpenChange={() => setRejectingJob(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rechazar Trabajo</DialogTitle>
+            <DialogDescription>{rejectingJob?.documentName}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Textarea
+              placeholder="Motivo del rechazo"
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              data-testid="input-reject-reason"
+            />
+            <div className="flex gap-3 justify-end">
+              <Button variant="outline" onClick={() => setRejectingJob(null)}>
+                Cancelar
+              </Button>
+              <Button
+                variant="destructive"
+                disabled={reviewMutation.isPending || !rejectReason.trim()}
+                onClick={() =>
+                  rejectingJob &&
+                  reviewMutation.mutate({ id: rejectingJob.id, decision: "reject", reason: rejectReason })
+                }
+              >
+                {reviewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Rechazar
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
-import { BarChart3, FileText, Droplet, PaperclipIcon } from "lucide-react";
+import { BarChart3, FileText, Droplet, PaperclipIcon, ShieldCheck, DollarSign } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
@@ -9,17 +9,43 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { ConsumptionStats } from "@shared/schema";
+import type { ConsumptionStats, PullPrintingReport } from "@shared/schema";
 import { useState } from "react";
 import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import {
+  LocationFilter,
+  LocationBreakdownTable,
+  LOCATION_LEVEL_LABELS,
+  toLocationQuery,
+  type LocationFilterValue,
+} from "@/components/location-filter";
+
+const periodDays: Record<string, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90,
+  year: 365,
+};
 
 export default function ConsumptionPage() {
   const [period, setPeriod] = useState<string>("month");
+  const [locationFilter, setLocationFilter] = useState<LocationFilterValue>({});
+  const { user } = useAuth();
+
+  const { data: pullReport } = useQuery<PullPrintingReport & { expiryHours: number }>({
+    queryKey: ["/api/reports/pull-printing", period],
+    queryFn: async () => {
+      return apiRequest("GET", `/api/reports/pull-printing?days=${periodDays[period]}`);
+    },
+    enabled: user?.role === "admin",
+  });
 
   const { data: stats, isLoading } = useQuery<ConsumptionStats>({
-    queryKey: ["/api/consumption", period],
+    queryKey: ["/api/consumption", period, locationFilter],
     queryFn: async () => {
-      return apiRequest<ConsumptionStats>("GET", `/api/consumption?period=${period}`);
+      const locationQuery = toLocationQuery(locationFilter);
+      return apiRequest<ConsumptionStats>("GET", `/api/consumption?period=${period}${locationQuery ? `&${locationQuery}` : ""}`);
     },
   });
 
@@ -65,17 +91,20 @@ export default function ConsumptionPage() {
             Monitorea el uso de papel e tinta en tu organización
           </p>
         </div>
-        <Select value={period} onValueChange={setPeriod}>
-          <SelectTrigger className="w-[180px]" data-testid="select-period">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="week">Esta Semana</SelectItem>
-            <SelectItem value="month">Este Mes</SelectItem>
-            <SelectItem value="quarter">Este Trimestre</SelectItem>
-            <SelectItem value="year">Este Año</SelectItem>
-          </SelectContent>
-        </Select>
+        <div className="flex flex-wrap gap-2">
+          <LocationFilter value={locationFilter} onChange={setLocationFilter} />
+          <Select value={period} onValueChange={setPeriod}>
+            <SelectTrigger className="w-[180px]" data-testid="select-period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="week">Esta Semana</SelectItem>
+              <SelectItem value="month">Este Mes</SelectItem>
+              <SelectItem value="quarter">Este Trimestre</SelectItem>
+              <SelectItem value="year">Este Año</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
@@ -127,7 +156,8 @@ export default function ConsumptionPage() {
                     </span>
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    Basado en {stats?.totalPages?.toLocaleString() || 0} páginas impresas
+                    {stats?.totalImpressions?.toLocaleString() || 0} impresiones de{" "}
+                    {stats?.totalPages?.toLocaleString() || 0} páginas (considera dúplex y páginas por cara)
                   </p>
                 </div>
 
@@ -202,7 +232,7 @@ export default function ConsumptionPage() {
                     </span>
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    Estimado basado en trabajos de impresión
+                    Estimado según las impresiones (caras) de cada trabajo
                   </p>
                 </div>
 
@@ -243,6 +273,90 @@ export default function ConsumptionPage() {
           </CardContent>
         </Card>
       </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+          <CardTitle>Costo de Impresión</CardTitle>
+          <DollarSign className="h-5 w-5 text-chart-1" />
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : (
+            <div className="grid gap-4 md:grid-cols-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Papel</p>
+                <p className="text-2xl font-bold">${(stats?.totalPaperCost || 0).toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Toner</p>
+                <p className="text-2xl font-bold">${(stats?.totalTonerCost || 0).toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Cargo por clic</p>
+                <p className="text-2xl font-bold">${(stats?.totalClickCost || 0).toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Total</p>
+                <p className="text-2xl font-bold" data-testid="stat-print-cost">
+                  ${(stats?.totalPrintCost || 0).toFixed(2)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Calculado con los precios vigentes al crear cada trabajo
+                </p>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {locationFilter.groupBy && stats?.locationBreakdown && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Consumo por {LOCATION_LEVEL_LABELS[locationFilter.groupBy]}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <LocationBreakdownTable rows={stats.locationBreakdown} />
+          </CardContent>
+        </Card>
+      )}
+
+      {pullReport && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+            <CardTitle>Impresión Segura</CardTitle>
+            <ShieldCheck className="h-5 w-5 text-chart-2" />
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 md:grid-cols-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Liberados</p>
+                <p className="text-2xl font-bold">{pullReport.releasedJobs}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Pendientes de liberar</p>
+                <p className="text-2xl font-bold">{pullReport.heldJobs}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Vencidos sin imprimir</p>
+                <p className="text-2xl font-bold">{pullReport.expiredJobs}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Papel ahorrado</p>
+                <p className="text-2xl font-bold" data-testid="stat-sheets-saved">
+                  {pullReport.sheetsSaved.toLocaleString()} hojas
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {pullReport.pagesSaved.toLocaleString()} páginas no impresas
+                </p>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground mt-4">
+              Los trabajos retenidos vencen si no se liberan en {pullReport.expiryHours} horas
+            </p>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
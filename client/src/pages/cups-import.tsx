@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { FileUp, Loader2, Link2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { CupsIngestSummary, CupsUnmatchedName, Printer, User } from "@shared/schema";
+
+// El archivo completo se envía como texto plano: el límite de JSON del servidor es bajo para un page_log
+async function uploadPageLog(log: string): Promise<CupsIngestSummary> {
+  const token = localStorage.getItem("authToken");
+  const headers: HeadersInit = { "Content-Type": "text/plain" };
+  if (token) {
+    headers["Authorization"] = `Bearer ${token}`;
+  }
+
+  const res = await fetch("/api/cups/page-log", { method: "POST", headers, body: log });
+  if (!res.ok) {
+    throw new Error((await res.text()) || "Failed to import CUPS page_log");
+  }
+  return res.json();
+}
+
+function UnmatchedRow({
+  entry,
+  printers,
+  users,
+}: {
+  entry: CupsUnmatchedName;
+  printers: Printer[];
+  users: User[];
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [targetId, setTargetId] = useState("");
+
+  const mapMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/cups/mappings", { kind: entry.kind, name: entry.name, targetId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cups/unmatched"] });
+      queryClient.invalidateQueries({ queryKey: [entry.kind === "queue" ? "/api/printers" : "/api/users"] });
+      toast({
+        title: "Asociación guardada",
+        description: "Vuelve a importar el page_log para registrar los trabajos que se omitieron",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const options =
+    entry.kind === "queue"
+      ? printers.map((printer) => ({ id: printer.id, label: `${printer.name} · ${printer.location}` }))
+      : users.map((user) => ({ id: user.id, label: `${user.fullName} (${user.username})` }));
+
+  return (
+    <TableRow data-testid={`row-cups-unmatched-${entry.id}`}>
+      <TableCell>
+        <Badge variant="outline">{entry.kind === "queue" ? "Cola" : "Usuario"}</Badge>
+      </TableCell>
+      <TableCell className="font-mono">{entry.name}</TableCell>
+      <TableCell className="text-right">{entry.skippedJobs}</TableCell>
+      <TableCell className="text-sm text-muted-foreground">
+        {entry.lastJobName}
+        <div>{format(new Date(entry.lastSeenAt), "dd/MM/yyyy HH:mm")}</div>
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center gap-2">
+          <Select value={targetId} onValueChange={setTargetId}>
+            <SelectTrigger className="w-64" data-testid={`select-cups-target-${entry.id}`}>
+              <SelectValue placeholder={entry.kind === "queue" ? "Selecciona impresora" : "Selecciona usuario"} />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            onClick={() => mapMutation.mutate()}
+            disabled={!targetId || mapMutation.isPending}
+            data-testid={`button-cups-map-${entry.id}`}
+          >
+            {mapMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+          </Button>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function CupsImportPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [log, setLog] = useState("");
+  const [lastSummary, setLastSummary] = useState<CupsIngestSummary | null>(null);
+
+  const { data: unmatched, isLoading } = useQuery<CupsUnmatchedName[]>({
+    queryKey: ["/api/cups/unmatched"],
+  });
+
+  const { data: printers } = useQuery<Printer[]>({
+    queryKey: ["/api/printers"],
+  });
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const importMutation = useMutation({
+    mutationFn: uploadPageLog,
+    onSuccess: (summary) => {
+      setLastSummary(summary);
+      setLog("");
+      queryClient.invalidateQueries({ queryKey: ["/api/cups/unmatched"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/print-jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      toast({
+        title: "Importación completada",
+        description: `${summary.created} trabajo(s) registrados de ${summary.jobs} encontrados`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error al importar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      importMutation.mutate(await file.text());
+    }
+    event.target.value = "";
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-3xl font-bold">Importación CUPS</h1>
+        <p className="text-muted-foreground mt-1">
+          Registra automáticamente los trabajos del page_log del servidor de impresión
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Importar page_log</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Textarea
+            value={log}
+            onChange={(e) => setLog(e.target.value)}
+            rows={8}
+            className="font-mono text-xs"
+            placeholder="Laser juan 1042 [19/Oct/2026:10:21:05 -0500] 1 1 - 10.0.0.12 informe.pdf na_letter_8.5x11in one-sided"
+            data-testid="textarea-cups-log"
+          />
+          <p className="text-sm text-muted-foreground">
+            Los trabajos ya importados se omiten, así que puedes volver a enviar el archivo completo. Las colas y
+            usuarios que no coinciden con una impresora o usuario aparecen abajo para asociarlos.
+          </p>
+          <div className="flex flex-wrap justify-end gap-2">
+            <label htmlFor="cups-log-file">
+              <Button type="button" variant="outline" asChild disabled={importMutation.isPending}>
+                <span>
+                  <FileUp className="mr-2 h-4 w-4" />
+                  Subir archivo
+                </span>
+              </Button>
+            </label>
+            <input id="cups-log-file" type="file" className="hidden" onChange={handleFileChange} />
+            <Button
+              onClick={() => importMutation.mutate(log)}
+              disabled={!log.trim() || importMutation.isPending}
+              data-testid="button-import-cups-log"
+            >
+              {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Importar
+            </Button>
+          </div>
+          {lastSummary && (
+            <div className="grid gap-4 rounded-md border p-4 text-sm sm:grid-cols-3 md:grid-cols-6" data-testid="cups-import-summary">
+              <div><div className="text-muted-foreground">Líneas</div><div className="font-semibold">{lastSummary.lines}</div></div>
+              <div><div className="text-muted-foreground">Inválidas</div><div className="font-semibold">{lastSummary.invalidLines}</div></div>
+              <div><div className="text-muted-foreground">Trabajos</div><div className="font-semibold">{lastSummary.jobs}</div></div>
+              <div><div className="text-muted-foreground">Registrados</div><div className="font-semibold text-green-600">{lastSummary.created}</div></div>
+              <div><div className="text-muted-foreground">Ya importados</div><div className="font-semibold">{lastSummary.duplicates}</div></div>
+              <div><div className="text-muted-foreground">Sin coincidencia</div><div className="font-semibold text-orange-600">{lastSummary.unmatched}</div></div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Colas y Usuarios sin Coincidencia</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : unmatched && unmatched.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Nombre en CUPS</TableHead>
+                    <TableHead className="text-right">Trabajos omitidos</TableHead>
+                    <TableHead>Último trabajo</TableHead>
+                    <TableHead>Asociar a</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {unmatched.map((entry) => (
+                    <UnmatchedRow key={entry.id} entry={entry} printers={printers || []} users={users || []} />
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Todas las colas y usuarios importados tienen coincidencia.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { LayoutDashboard, FileText, Users, Printer, TrendingUp } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -14,11 +15,24 @@ import { Badge } from "@/components/ui/badge";
 import type { DashboardStats } from "@shared/schema";
 import { formatDistanceToNow } from "date-fns";
 import { useAuth } from "@/lib/auth";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  LocationFilter,
+  LocationBreakdownTable,
+  LOCATION_LEVEL_LABELS,
+  toLocationQuery,
+  type LocationFilterValue,
+} from "@/components/location-filter";
 
 export default function DashboardPage() {
   const { user } = useAuth();
+  const [locationFilter, setLocationFilter] = useState<LocationFilterValue>({});
   const { data: stats, isLoading } = useQuery<DashboardStats>({
-    queryKey: ["/api/dashboard"],
+    queryKey: ["/api/dashboard", locationFilter],
+    queryFn: async () => {
+      const locationQuery = toLocationQuery(locationFilter);
+      return apiRequest<DashboardStats>("GET", `/api/dashboard${locationQuery ? `?${locationQuery}` : ""}`);
+    },
   });
 
   const statCards = user?.role === "super-admin" 
@@ -74,13 +88,18 @@ export default function DashboardPage() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="font-display text-3xl font-bold" data-testid="text-page-title">
-          Panel de Control
-        </h1>
-        <p className="text-muted-foreground mt-1">
-          Resumen de tu sistema de gestión de impresión
-        </p>
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="font-display text-3xl font-bold" data-testid="text-page-title">
+            Panel de Control
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Resumen de tu sistema de gestión de impresión
+          </p>
+        </div>
+        {user?.role !== "super-admin" && (
+          <LocationFilter value={locationFilter} onChange={setLocationFilter} />
+        )}
       </div>
 
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
@@ -105,6 +124,17 @@ export default function DashboardPage() {
         ))}
       </div>
 
+      {locationFilter.groupBy && stats?.locationBreakdown && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Impresión por {LOCATION_LEVEL_LABELS[locationFilter.groupBy]}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <LocationBreakdownTable rows={stats.locationBreakdown} />
+          </CardContent>
+        </Card>
+      )}
+
       {(user?.role === "operator" || user?.role === "viewer") && (
       <Card>
         <CardHeader>
@@ -0,0 +1,341 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Pencil, Trash2, Loader2, MapPin } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { LOCATION_LEVEL_LABELS, useLocationOptions } from "@/components/location-filter";
+import { LOCATION_LEVELS } from "@shared/schema";
+import type { Location, Printer, User } from "@shared/schema";
+
+// Diálogo para crear un nodo (bajo parent, o una sede si parent es null) o renombrar uno existente
+type LocationDialogState =
+  | { mode: "create"; parent: Location | null }
+  | { mode: "rename"; location: Location };
+
+function LocationNode({
+  location,
+  locationList,
+  printers,
+  depth,
+  onAdd,
+  onRename,
+  onDelete,
+}: {
+  location: Location;
+  locationList: Location[];
+  printers: Printer[];
+  depth: number;
+  onAdd: (parent: Location) => void;
+  onRename: (location: Location) => void;
+  onDelete: (location: Location) => void;
+}) {
+  const children = locationList
+    .filter((child) => child.parentId === location.id)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const printerCount = printers.filter((printer) => printer.locationId === location.id).length;
+  const levelIndex = LOCATION_LEVELS.indexOf(location.level as (typeof LOCATION_LEVELS)[number]);
+  const childLevel = LOCATION_LEVELS[levelIndex + 1];
+
+  return (
+    <div>
+      <div
+        className="flex items-center justify-between gap-2 rounded-md py-1 pr-1 hover:bg-muted/50"
+        style={{ paddingLeft: `${depth * 1.5}rem` }}
+        data-testid={`location-node-${location.id}`}
+      >
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="text-xs">
+            {LOCATION_LEVEL_LABELS[location.level as keyof typeof LOCATION_LEVEL_LABELS] || location.level}
+          </Badge>
+          <span className="font-medium">{location.name}</span>
+          {printerCount > 0 && (
+            <span className="text-xs text-muted-foreground">{printerCount} impresora(s)</span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {childLevel && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onAdd(location)}
+              data-testid={`button-add-child-${location.id}`}
+            >
+              <Plus className="mr-1 h-3 w-3" />
+              {LOCATION_LEVEL_LABELS[childLevel]}
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" onClick={() => onRename(location)} title="Renombrar">
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onDelete(location)}
+            title="Eliminar"
+            data-testid={`button-delete-location-${location.id}`}
+          >
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      </div>
+      {children.map((child) => (
+        <LocationNode
+          key={child.id}
+          location={child}
+          locationList={locationList}
+          printers={printers}
+          depth={depth + 1}
+          onAdd={onAdd}
+          onRename={onRename}
+          onDelete={onDelete}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default function LocationsPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [dialog, setDialog] = useState<LocationDialogState | null>(null);
+  const [name, setName] = useState("");
+
+  const { data: locationList, isLoading } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+  const { options } = useLocationOptions();
+
+  const { data: printers } = useQuery<Printer[]>({
+    queryKey: ["/api/printers"],
+  });
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const openDialog = (state: LocationDialogState) => {
+    setName(state.mode === "rename" ? state.location.name : "");
+    setDialog(state);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!dialog) return;
+      if (dialog.mode === "rename") {
+        return await apiRequest("PATCH", `/api/locations/${dialog.location.id}`, { name });
+      }
+      const parentLevel = dialog.parent ? LOCATION_LEVELS.indexOf(dialog.parent.level as (typeof LOCATION_LEVELS)[number]) : -1;
+      return await apiRequest("POST", "/api/locations", {
+        name,
+        level: LOCATION_LEVELS[parentLevel + 1],
+        parentId: dialog.parent?.id ?? null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      setDialog(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/locations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/printers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Ubicación eliminada" });
+    },
+    onError,
+  });
+
+  const assignUserMutation = useMutation({
+    mutationFn: async ({ userId, locationId }: { userId: string; locationId: string | null }) => {
+      return await apiRequest("PATCH", `/api/users/${userId}/location`, { locationId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError,
+  });
+
+  const sites = (locationList || [])
+    .filter((location) => !location.parentId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const dialogTitle = !dialog
+    ? ""
+    : dialog.mode === "rename"
+      ? `Renombrar ${dialog.location.name}`
+      : dialog.parent
+        ? `Nuevo nivel en ${dialog.parent.name}`
+        : "Nueva sede";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="font-display text-3xl font-bold">Ubicaciones</h1>
+          <p className="text-muted-foreground mt-1">
+            Organiza impresoras y usuarios por sede, edificio, piso y sala
+          </p>
+        </div>
+        <Button onClick={() => openDialog({ mode: "create", parent: null })} data-testid="button-add-site">
+          <Plus className="mr-2 h-4 w-4" />
+          Agregar Sede
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Jerarquía</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-8 w-full" />
+              ))}
+            </div>
+          ) : sites.length > 0 ? (
+            <div className="space-y-1">
+              {sites.map((site) => (
+                <LocationNode
+                  key={site.id}
+                  location={site}
+                  locationList={locationList || []}
+                  printers={printers || []}
+                  depth={0}
+                  onAdd={(parent) => openDialog({ mode: "create", parent })}
+                  onRename={(location) => openDialog({ mode: "rename", location })}
+                  onDelete={(location) => deleteMutation.mutate(location.id)}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <MapPin className="h-12 w-12 text-muted-foreground/50 mb-4" />
+              <h3 className="font-semibold text-lg">Sin ubicaciones registradas</h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                Agrega una sede y dentro de ella sus edificios, pisos y salas
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Ubicación de Usuarios</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground mb-4">
+            Opcional: permite agrupar el consumo por la ubicación del usuario además de la de la impresora.
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Usuario</TableHead>
+                <TableHead>Ubicación</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users?.map((u) => (
+                <TableRow key={u.id}>
+                  <TableCell>{u.fullName}</TableCell>
+                  <TableCell>
+                    <Select
+                      value={u.locationId || "none"}
+                      onValueChange={(value) =>
+                        assignUserMutation.mutate({
+                          userId: u.id,
+                          locationId: value === "none" ? null : value,
+                        })
+                      }
+                    >
+                      <SelectTrigger className="w-72" data-testid={`select-user-location-${u.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Sin ubicación</SelectItem>
+                        {options.map(({ location, path }) => (
+                          <SelectItem key={location.id} value={location.id}>
+                            {path}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialogTitle}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="location-name">Nombre</Label>
+            <Input
+              id="location-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-location-name"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!name.trim() || saveMutation.isPending}
+              data-testid="button-save-location"
+            >
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
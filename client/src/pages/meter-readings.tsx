@@ -0,0 +1,360 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { AlertTriangle, History, Loader2, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest } from "@/lib/queryClient";
+import type { MeterReconciliationRow, PrinterMeterReading } from "@shared/schema";
+
+function formatReading(reading: MeterReconciliationRow["startReading"]) {
+  if (!reading) return "—";
+  return `${reading.totalCount.toLocaleString()} · ${format(new Date(reading.readAt), "dd/MM/yyyy HH:mm")}`;
+}
+
+function MeterReadingDialog({
+  printer,
+  onClose,
+}: {
+  printer: MeterReconciliationRow | null;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [totalCount, setTotalCount] = useState("");
+  const [monoCount, setMonoCount] = useState("");
+  const [colorCount, setColorCount] = useState("");
+  const [readAt, setReadAt] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const reset = () => {
+    setTotalCount("");
+    setMonoCount("");
+    setColorCount("");
+    setReadAt("");
+    setNotes("");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<PrinterMeterReading>("POST", `/api/printers/${printer!.printerId}/meter-readings`, {
+        totalCount: parseInt(totalCount, 10),
+        monoCount: monoCount ? parseInt(monoCount, 10) : null,
+        colorCount: colorCount ? parseInt(colorCount, 10) : null,
+        readAt: readAt ? new Date(readAt).toISOString() : undefined,
+        notes: notes || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/meter-reconciliation"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/printers", printer!.printerId, "meter-readings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+      toast({
+        title: "Lectura registrada",
+        description: `Contador de ${printer!.printerName} actualizado`,
+      });
+      reset();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error al registrar la lectura", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={printer !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Registrar Lectura</DialogTitle>
+          <DialogDescription>
+            {printer?.printerName} · Última lectura: {formatReading(printer?.endReading ?? null)}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="meter-total">Contador total</Label>
+            <Input
+              id="meter-total"
+              type="number"
+              min={0}
+              value={totalCount}
+              onChange={(e) => setTotalCount(e.target.value)}
+              data-testid="input-meter-total"
+            />
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="meter-mono">B/N (Opcional)</Label>
+              <Input id="meter-mono" type="number" min={0} value={monoCount} onChange={(e) => setMonoCount(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="meter-color">Color (Opcional)</Label>
+              <Input id="meter-color" type="number" min={0} value={colorCount} onChange={(e) => setColorCount(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="meter-read-at">Fecha de lectura (vacío = ahora)</Label>
+            <Input id="meter-read-at" type="datetime-local" value={readAt} onChange={(e) => setReadAt(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="meter-notes">Notas (Opcional)</Label>
+            <Input id="meter-notes" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Lectura del técnico" />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!totalCount || createMutation.isPending}
+            data-testid="button-submit-meter-reading"
+          >
+            {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Registrar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MeterReadingHistory({ printer }: { printer: MeterReconciliationRow }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const { data: readings, isLoading } = useQuery<PrinterMeterReading[]>({
+    queryKey: ["/api/printers", printer.printerId, "meter-readings"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/meter-readings/${id}`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/printers", printer.printerId, "meter-readings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/meter-reconciliation"] });
+      toast({ title: "Lectura eliminada" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error al eliminar la lectura", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Historial de {printer.printerName}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : readings && readings.length > 0 ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fecha</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">B/N</TableHead>
+                  <TableHead className="text-right">Color</TableHead>
+                  <TableHead>Origen</TableHead>
+                  <TableHead>Notas</TableHead>
+                  {user?.role === "admin" && <TableHead className="text-right">Acciones</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {readings.map((reading) => (
+                  <TableRow key={reading.id} data-testid={`row-meter-reading-${reading.id}`}>
+                    <TableCell>{format(new Date(reading.readAt), "dd/MM/yyyy HH:mm")}</TableCell>
+                    <TableCell className="text-right font-medium">{reading.totalCount.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{reading.monoCount?.toLocaleString() ?? "—"}</TableCell>
+                    <TableCell className="text-right">{reading.colorCount?.toLocaleString() ?? "—"}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{reading.source === "snmp" ? "SNMP" : "Manual"}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{reading.notes || "—"}</TableCell>
+                    {user?.role === "admin" && (
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteMutation.mutate(reading.id)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-meter-reading-${reading.id}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Todavía no hay lecturas de esta impresora.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function MeterReadingsPage() {
+  const [from, setFrom] = useState(format(subDays(new Date(), 30), "yyyy-MM-dd"));
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [readingPrinter, setReadingPrinter] = useState<MeterReconciliationRow | null>(null);
+  const [historyPrinterId, setHistoryPrinterId] = useState<string | null>(null);
+
+  const { data: report, isLoading } = useQuery<MeterReconciliationRow[]>({
+    queryKey: ["/api/meter-reconciliation", from, to],
+    queryFn: () => {
+      // El día final se incluye completo
+      const params = new URLSearchParams({
+        from: new Date(`${from}T00:00:00`).toISOString(),
+        to: new Date(`${to}T23:59:59`).toISOString(),
+      });
+      return apiRequest("GET", `/api/meter-reconciliation?${params}`);
+    },
+    enabled: Boolean(from && to),
+  });
+
+  const historyPrinter = report?.find((row) => row.printerId === historyPrinterId);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-3xl font-bold">Contadores de Páginas</h1>
+        <p className="text-muted-foreground mt-1">
+          Compara el contador de cada impresora con los trabajos registrados para detectar impresión no registrada
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between flex-wrap gap-4 space-y-0">
+          <CardTitle>Conciliación</CardTitle>
+          <div className="flex items-center gap-2">
+            <Input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className="w-40" data-testid="input-meter-from" />
+            <span className="text-muted-foreground">a</span>
+            <Input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className="w-40" data-testid="input-meter-to" />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : report && report.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Impresora</TableHead>
+                    <TableHead>Lectura inicial</TableHead>
+                    <TableHead>Lectura final</TableHead>
+                    <TableHead className="text-right">Según contador</TableHead>
+                    <TableHead className="text-right">Registradas</TableHead>
+                    <TableHead className="text-right">Sin registrar</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.map((row) => (
+                    <TableRow key={row.printerId} data-testid={`row-meter-${row.printerId}`}>
+                      <TableCell>
+                        <div className="font-medium">{row.printerName}</div>
+                        <div className="text-sm text-muted-foreground">{row.location}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">{formatReading(row.startReading)}</TableCell>
+                      <TableCell className="text-sm">{formatReading(row.endReading)}</TableCell>
+                      <TableCell className="text-right">
+                        {row.meterPages !== null ? row.meterPages.toLocaleString() : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.recordedPages.toLocaleString()}
+                        <div className="text-xs text-muted-foreground">
+                          B/N {row.recordedBwPages.toLocaleString()} · Color {row.recordedColorPages.toLocaleString()}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.unrecordedPages !== null ? (
+                          <div className="flex items-center justify-end gap-2">
+                            {row.flagged && (
+                              <Badge variant="destructive">
+                                <AlertTriangle className="mr-1 h-3 w-3" />
+                                Revisar
+                              </Badge>
+                            )}
+                            <span className={row.flagged ? "font-semibold text-destructive" : ""}>
+                              {row.unrecordedPages.toLocaleString()}
+                              {row.gapPercent !== null && ` (${row.gapPercent}%)`}
+                            </span>
+                          </div>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">Faltan lecturas</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Registrar lectura"
+                            onClick={() => setReadingPrinter(row)}
+                            data-testid={`button-add-meter-reading-${row.printerId}`}
+                          >
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant={historyPrinterId === row.printerId ? "secondary" : "ghost"}
+                            size="icon"
+                            title="Historial"
+                            onClick={() => setHistoryPrinterId(historyPrinterId === row.printerId ? null : row.printerId)}
+                            data-testid={`button-meter-history-${row.printerId}`}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No hay impresoras registradas.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {historyPrinter && <MeterReadingHistory printer={historyPrinter} />}
+
+      <MeterReadingDialog printer={readingPrinter} onClose={() => setReadingPrinter(null)} />
+    </div>
+  );
+}
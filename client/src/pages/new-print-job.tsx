@@ -1,10 +1,18 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { Upload, Loader2, FileText, X } from "lucide-react";
-import { insertPrintJobSchema } from "@shared/schema";
+import { format } from "date-fns";
+import { Upload, Loader2, FileText, X, Copy } from "lucide-react";
+import {
+  insertPrintJobSchema,
+  nUpOptions,
+  paperSizes,
+  paperSizeLabels,
+  calculateSheetsUsed,
+  calculateImpressions,
+} from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -16,6 +24,8 @@ import {
   FormDescription,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import {
   Select,
   SelectContent,
@@ -24,23 +34,55 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth";
 import { apiRequest } from "@/lib/queryClient";
-import type { Printer, PrintJob } from "@shared/schema";
+import type { Printer, PrintJob, PaperType, QuotaStatus, DuplicatePrintMatch } from "@shared/schema";
 import type { z } from "zod";
 
+type DuplicateCheck = {
+  windowDays: number;
+  matches: DuplicatePrintMatch[];
+};
+
+// Misma huella que calcula el servidor al recibir el archivo
+async function hashFile(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
 export default function NewPrintJobPage() {
   const { user } = useAuth();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [contentHash, setContentHash] = useState<string | null>(null);
+  const hashingFile = useRef<File | null>(null);
+  const [overrideStock, setOverrideStock] = useState(false);
+  const [pullPrinting, setPullPrinting] = useState(false);
 
   const { data: printers } = useQuery<Printer[]>({
     queryKey: ["/api/printers"],
   });
 
+  const { data: paperTypes } = useQuery<PaperType[]>({
+    queryKey: ["/api/paper-types"],
+  });
+
+  const { data: quotaStatuses } = useQuery<QuotaStatus[]>({
+    queryKey: ["/api/quotas/me"],
+  });
+
+  const { data: duplicateCheck } = useQuery<DuplicateCheck>({
+    queryKey: ["/api/print-jobs/duplicates", contentHash],
+    queryFn: () => apiRequest("GET", `/api/print-jobs/duplicates?hash=${contentHash}`),
+    enabled: !!contentHash,
+  });
+
   const form = useForm<z.infer<typeof insertPrintJobSchema>>({
     resolver: zodResolver(insertPrintJobSchema),
     defaultValues: {
@@ -52,12 +94,47 @@ export default function NewPrintJobPage() {
       fileSize: 0,
       pageCount: 1,
       copies: 1,
+      duplex: false,
+      stapled: false,
+      nUp: 1,
       colorMode: "bw",
       paperSize: "letter",
-      status: "completed",
     },
   });
 
+  const [pageCount, copies, nUp, duplex] = form.watch(["pageCount", "copies", "nUp", "duplex"]);
+  const layout = { pageCount: pageCount || 1, copies, nUp, duplex };
+
+  // Solo se ofrecen las opciones que la impresora elegida puede imprimir
+  const selectedPrinter = printers?.find((printer) => printer.id === form.watch("printerId"));
+  const availablePaperSizes = paperSizes.filter(
+    (size) => !selectedPrinter?.supportedPaperSizes?.length || selectedPrinter.supportedPaperSizes.includes(size)
+  );
+  const availablePaperTypes = (paperTypes || []).filter(
+    (paperType) => selectedPrinter?.maxPaperWeight == null || paperType.weight <= selectedPrinter.maxPaperWeight
+  );
+
+  // Al cambiar de impresora se descartan las opciones que la nueva no admite
+  useEffect(() => {
+    if (!selectedPrinter) return;
+    if (!selectedPrinter.supportsColor && form.getValues("colorMode") === "color") {
+      form.setValue("colorMode", "bw");
+    }
+    if (!selectedPrinter.supportsDuplex && form.getValues("duplex")) {
+      form.setValue("duplex", false);
+    }
+    if (!selectedPrinter.supportsStapling && form.getValues("stapled")) {
+      form.setValue("stapled", false);
+    }
+    if (!availablePaperSizes.includes(form.getValues("paperSize"))) {
+      form.setValue("paperSize", availablePaperSizes[0]);
+    }
+    const paperTypeId = form.getValues("paperTypeId");
+    if (paperTypeId && !availablePaperTypes.some((paperType) => paperType.id === paperTypeId)) {
+      form.setValue("paperTypeId", undefined);
+    }
+  }, [selectedPrinter?.id]);
+
   const createJobMutation = useMutation({
     mutationFn: async (formData: FormData) => {
       const token = localStorage.getItem("authToken");
@@ -78,13 +155,32 @@ export default function NewPrintJobPage() {
         return res.json();
       });
     },
-    onSuccess: () => {
+    onSuccess: (job: PrintJob) => {
       queryClient.invalidateQueries({ queryKey: ["/api/print-jobs"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
-      toast({
-        title: "Trabajo registrado",
-        description: "El trabajo de impresión se ha registrado exitosamente",
-      });
+      queryClient.invalidateQueries({ queryKey: ["/api/paper-types"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quotas/me"] });
+      if (job.status === "pending_approval") {
+        toast({
+          title: "Trabajo pendiente de aprobación",
+          description: `Un administrador debe aprobar este trabajo. Motivo: ${job.approvalReason}`,
+        });
+      } else if (job.status === "held" && job.releaseExpiresAt) {
+        toast({
+          title: "Trabajo retenido",
+          description: "Libéralo en la impresora con tu PIN o credencial antes de que venza",
+        });
+      } else if (job.pageCountMismatch) {
+        toast({
+          title: "Trabajo registrado con diferencias",
+          description: `Declaraste ${job.declaredPageCount} página(s), pero el archivo tiene ${job.detectedPageCount}. Se registraron las páginas detectadas.`,
+        });
+      } else {
+        toast({
+          title: "Trabajo registrado",
+          description: "El trabajo de impresión se ha registrado exitosamente",
+        });
+      }
       setLocation("/print-jobs");
     },
     onError: (error: Error) => {
@@ -100,6 +196,14 @@ export default function NewPrintJobPage() {
     const file = event.target.files?.[0];
     if (file) {
       setSelectedFile(file);
+      setContentHash(null);
+      hashingFile.current = file;
+      // Si el navegador no permite calcular la huella, simplemente no se avisa de duplicados
+      hashFile(file)
+        .then((hash) => {
+          if (hashingFile.current === file) setContentHash(hash);
+        })
+        .catch(() => {});
       form.setValue("fileName", file.name);
       form.setValue("fileSize", file.size);
       if (!form.getValues("documentName")) {
@@ -121,8 +225,16 @@ export default function NewPrintJobPage() {
     const formData = new FormData();
     formData.append("file", selectedFile);
     Object.entries(data).forEach(([key, value]) => {
-      formData.append(key, String(value));
+      if (value !== undefined) {
+        formData.append(key, String(value));
+      }
     });
+    if (overrideStock) {
+      formData.append("overrideStock", "true");
+    }
+    if (pullPrinting) {
+      formData.append("pullPrinting", "true");
+    }
 
     createJobMutation.mutate(formData);
   };
@@ -136,6 +248,34 @@ export default function NewPrintJobPage() {
         </p>
       </div>
 
+      {quotaStatuses && quotaStatuses.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Cuota Mensual Disponible</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {quotaStatuses.map((status) => (
+              <div
+                key={status.quota.id}
+                className="flex justify-between text-sm"
+                data-testid={`quota-${status.quota.scope}`}
+              >
+                <span className="text-muted-foreground">
+                  {status.quota.scope === "user" ? "Cuota personal" : "Cuota del departamento"}
+                </span>
+                <span className="font-medium">
+                  {status.remainingPages !== null
+                    ? `${Math.max(0, status.remainingPages)} de ${status.quota.monthlyPageLimit} páginas`
+                    : "Páginas sin límite"}
+                  {status.remainingColorPages !== null &&
+                    ` · ${Math.max(0, status.remainingColorPages)} de ${status.quota.monthlyColorPageLimit} a color`}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Detalles del Trabajo</CardTitle>
@@ -189,6 +329,67 @@ export default function NewPrintJobPage() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="paperTypeId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo de Papel (Opcional)</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-paper-type">
+                          <SelectValue placeholder="Selecciona un tipo de papel" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {availablePaperTypes.map((paperType) => (
+                          <SelectItem key={paperType.id} value={paperType.id}>
+                            {paperType.name} ({paperType.stock} hojas disponibles)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Las hojas usadas se descuentan del inventario
+                      {selectedPrinter?.maxPaperWeight != null &&
+                        `. Esta impresora admite hasta ${selectedPrinter.maxPaperWeight} g/m²`}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  id="pull-printing"
+                  checked={pullPrinting}
+                  onCheckedChange={(checked) => setPullPrinting(checked === true)}
+                  data-testid="checkbox-pull-printing"
+                />
+                <div className="space-y-1">
+                  <Label htmlFor="pull-printing" className="text-sm font-normal">
+                    Impresión segura
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    El trabajo queda retenido hasta que lo liberes en la impresora con tu PIN o credencial
+                  </p>
+                </div>
+              </div>
+
+              {user?.role === "admin" && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="override-stock"
+                    checked={overrideStock}
+                    onCheckedChange={(checked) => setOverrideStock(checked === true)}
+                    data-testid="checkbox-override-stock"
+                  />
+                  <Label htmlFor="override-stock" className="text-sm font-normal">
+                    Registrar aunque no haya stock suficiente de papel
+                  </Label>
+                </div>
+              )}
+
               <div className="grid gap-6 md:grid-cols-2">
                 <FormField
                   control={form.control}
@@ -207,6 +408,9 @@ export default function NewPrintJobPage() {
                           data-testid="input-page-count"
                         />
                       </FormControl>
+                      <FormDescription>
+                        Se verifica contra el archivo cargado
+                      </FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -250,7 +454,9 @@ export default function NewPrintJobPage() {
                         </FormControl>
                         <SelectContent>
                           <SelectItem value="bw">Black & White</SelectItem>
-                          <SelectItem value="color">Color</SelectItem>
+                          <SelectItem value="color" disabled={selectedPrinter && !selectedPrinter.supportsColor}>
+                            Color
+                          </SelectItem>
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -271,10 +477,11 @@ export default function NewPrintJobPage() {
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          <SelectItem value="letter">Letter (8.5" × 11")</SelectItem>
-                          <SelectItem value="legal">Legal (8.5" × 14")</SelectItem>
-                          <SelectItem value="a4">A4</SelectItem>
-                          <SelectItem value="a3">A3</SelectItem>
+                          {availablePaperSizes.map((size) => (
+                            <SelectItem key={size} value={size}>
+                              {paperSizeLabels[size]}
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -283,6 +490,77 @@ export default function NewPrintJobPage() {
                 />
               </div>
 
+              <div className="grid gap-6 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="nUp"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Páginas por Cara</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(parseInt(value))}
+                        value={String(field.value ?? 1)}
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid="select-n-up">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {nUpOptions.map((option) => (
+                            <SelectItem key={option} value={String(option)}>
+                              {option === 1 ? "1 (normal)" : `${option} por cara`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="duplex"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-2 space-y-0 md:pt-8">
+                      <FormControl>
+                        <Checkbox
+                          checked={!!field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                          disabled={selectedPrinter && !selectedPrinter.supportsDuplex}
+                          data-testid="checkbox-duplex"
+                        />
+                      </FormControl>
+                      <FormLabel className="font-normal">Doble cara (dúplex)</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {selectedPrinter?.supportsStapling && (
+                <FormField
+                  control={form.control}
+                  name="stapled"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-2 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={!!field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                          data-testid="checkbox-stapled"
+                        />
+                      </FormControl>
+                      <FormLabel className="font-normal">Engrapar</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <p className="text-sm text-muted-foreground" data-testid="text-sheet-estimate">
+                Se usarán {calculateSheetsUsed(layout)} hoja(s) de papel y {calculateImpressions(layout)} impresión(es)
+              </p>
+
               <div className="border-2 border-dashed rounded-lg p-8 text-center">
                 {selectedFile ? (
                   <div className="space-y-4">
@@ -298,7 +576,11 @@ export default function NewPrintJobPage() {
                         type="button"
                         variant="ghost"
                         size="icon"
-                        onClick={() => setSelectedFile(null)}
+                        onClick={() => {
+                          setSelectedFile(null);
+                          setContentHash(null);
+                          hashingFile.current = null;
+                        }}
                         data-testid="button-remove-file"
                       >
                         <X className="h-4 w-4" />
@@ -324,19 +606,43 @@ export default function NewPrintJobPage() {
                         type="file"
                         onChange={handleFileChange}
                         className="hidden"
-                        accept=".pdf,.doc,.docx,.txt,.jpg,.jpeg,.png"
+                        accept=".pdf,.doc,.docx,.txt,.jpg,.jpeg,.png,.gif,.webp,.bmp,.tif,.tiff"
                       />
                       <p className="text-sm text-muted-foreground mt-2">
                         or drag and drop
                       </p>
                     </div>
                     <p className="text-xs text-muted-foreground">
-                      PDF, DOC, DOCX, TXT, JPG, PNG up to 10MB
+                      PDF, DOC, DOCX, TXT, JPG, PNG, GIF, WEBP, BMP, TIFF up to 10MB
                     </p>
                   </div>
                 )}
               </div>
 
+              {selectedFile && contentHash && duplicateCheck && duplicateCheck.matches.length > 0 && (
+                <Alert data-testid="alert-duplicate-print">
+                  <Copy className="h-4 w-4" />
+                  <AlertTitle>Ya imprimiste este documento</AlertTitle>
+                  <AlertDescription>
+                    <p>
+                      Este archivo ya se envió{" "}
+                      {duplicateCheck.matches.length === 1
+                        ? "una vez"
+                        : `${duplicateCheck.matches.length}${duplicateCheck.matches.length >= 5 ? " o más" : ""} veces`}{" "}
+                      en los últimos {duplicateCheck.windowDays} días. Verifica que necesitas otra copia antes de continuar.
+                    </p>
+                    <ul className="mt-2 space-y-1 text-xs">
+                      {duplicateCheck.matches.map((match) => (
+                        <li key={match.id}>
+                          {format(new Date(match.printedAt), "dd/MM/yyyy HH:mm")} · {match.documentName} · {match.printerName} ·{" "}
+                          {match.pageCount * match.copies} página(s)
+                        </li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
               <div className="flex gap-4 justify-end">
                 <Button
                   type="button"
@@ -3,7 +3,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Plus, Pencil, Trash2, ArrowUp, ArrowDown, Gauge } from "lucide-react";
+import { Plus, Pencil, Trash2, ArrowUpDown, History, Gauge } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -42,6 +42,13 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import {
+  StockMovementDialog,
+  StockMovementHistoryDialog,
+  StockReconciliationCard,
+  type StockDialogItem,
+} from "@/components/stock-movement-dialog";
 import type { PaperType } from "@shared/schema";
 
 const paperTypeSchema = z.object({
@@ -63,15 +70,25 @@ const sizeLabels: Record<string, string> = {
   a5: "A5",
 };
 
+function toStockItem(type: PaperType): StockDialogItem {
+  return {
+    id: type.id,
+    name: type.name,
+    stock: type.stock,
+    unitPrice: type.pricePerSheet ? parseFloat(type.pricePerSheet as unknown as string) : null,
+  };
+}
+
 export default function PaperTypesPage() {
   const [isOpen, setIsOpen] = useState(false);
   const [editingType, setEditingType] = useState<PaperType | null>(null);
   const [deletingType, setDeletingType] = useState<PaperType | null>(null);
-  const [adjustingStock, setAdjustingStock] = useState<PaperType | null>(null);
-  const [adjustmentQuantity, setAdjustmentQuantity] = useState(0);
-  const [adjustmentType, setAdjustmentType] = useState<"add" | "remove">("add");
+  const [movingType, setMovingType] = useState<PaperType | null>(null);
+  const [historyType, setHistoryType] = useState<PaperType | null>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user } = useAuth();
+  const canReconcile = user?.role === "admin" || user?.role === "super-admin";
 
   const { data: paperTypes, isLoading } = useQuery<PaperType[]>({
     queryKey: ["/api/paper-types"],
@@ -135,8 +152,12 @@ export default function PaperTypesPage() {
           "Content-Type": "application/json",
           Authorization: `Bearer ${token}`,
         },
+        // El stock solo cambia con movimientos de inventario
         body: JSON.stringify({
-          ...data,
+          name: data.name,
+          size: data.size,
+          color: data.color,
+          pricePerSheet: data.pricePerSheet,
           weight: parseInt(data.weight),
         }),
       });
@@ -155,62 +176,6 @@ export default function PaperTypesPage() {
     },
   });
 
-  const adjustStockMutation = useMutation({
-    mutationFn: async () => {
-      if (!adjustingStock) return;
-      const token = localStorage.getItem("authToken");
-      const newStock = adjustmentType === "add" 
-        ? (adjustingStock.stock as number) + adjustmentQuantity
-        : (adjustingStock.stock as number) - adjustmentQuantity;
-      
-      const res = await fetch(`/api/paper-types/${adjustingStock.id}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          stock: newStock.toString(),
-        }),
-      });
-      if (!res.ok) throw new Error("Error al ajustar");
-      
-      // Register expense when removing stock
-      if (adjustmentType === "remove" && adjustingStock.pricePerSheet) {
-        const expenseAmount = parseFloat(adjustingStock.pricePerSheet as unknown as string) * adjustmentQuantity;
-        await fetch("/api/consumption-expenses", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
-          },
-          body: JSON.stringify({
-            expenseType: "paper_removal",
-            amount: expenseAmount.toString(),
-            description: `Consumo de ${adjustingStock.name}: ${adjustmentQuantity} resmas`,
-          }),
-        }).catch(e => console.error("Error registering expense:", e));
-        
-        // Invalidate consumption query to show updated expenses
-        queryClient.invalidateQueries({ queryKey: ["/api/consumption"] });
-      }
-      
-      return res.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/paper-types"] });
-      toast({ 
-        title: "Stock actualizado", 
-        description: `${adjustmentType === "add" ? "Agregadas" : "Removidas"} ${adjustmentQuantity} resmas` 
-      });
-      setAdjustingStock(null);
-      setAdjustmentQuantity(0);
-    },
-    onError: () => {
-      toast({ title: "Error", description: "No se pudo ajustar stock", variant: "destructive" });
-    },
-  });
-
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
       const token = localStorage.getItem("authToken");
@@ -331,13 +296,15 @@ export default function PaperTypesPage() {
                   <Label htmlFor="price">Precio ($)</Label>
                   <Input id="price" type="number" step="0.01" {...form.register("pricePerSheet")} placeholder="0.50" />
                 </div>
-                <div>
-                  <Label htmlFor="stock">Stock (Resmas)</Label>
-                  <Input id="stock" type="number" {...form.register("stock")} placeholder="0" />
-                  {form.formState.errors.stock && (
-                    <p className="text-red-500 text-sm">{form.formState.errors.stock.message}</p>
-                  )}
-                </div>
+                {!editingType && (
+                  <div>
+                    <Label htmlFor="stock">Stock Inicial (Resmas)</Label>
+                    <Input id="stock" type="number" {...form.register("stock")} placeholder="0" />
+                    {form.formState.errors.stock && (
+                      <p className="text-red-500 text-sm">{form.formState.errors.stock.message}</p>
+                    )}
+                  </div>
+                )}
               </div>
 
               <div className="flex gap-3 justify-end">
@@ -353,6 +320,8 @@ export default function PaperTypesPage() {
         </Dialog>
       </div>
 
+      {canReconcile && <StockReconciliationCard itemType="paper" unitLabel="resmas" />}
+
       {isLoading ? (
         <Card>
           <CardContent className="p-8 text-center">Cargando insumos...</CardContent>
@@ -412,26 +381,19 @@ export default function PaperTypesPage() {
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => {
-                              setAdjustingStock(type);
-                              setAdjustmentType("add");
-                              setAdjustmentQuantity(1);
-                            }}
-                            title="Agregar unidades"
+                            onClick={() => setMovingType(type)}
+                            title="Registrar movimiento"
+                            data-testid={`button-stock-movement-${type.id}`}
                           >
-                            <ArrowUp className="w-4 h-4 text-green-600" />
+                            <ArrowUpDown className="w-4 h-4" />
                           </Button>
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => {
-                              setAdjustingStock(type);
-                              setAdjustmentType("remove");
-                              setAdjustmentQuantity(1);
-                            }}
-                            title="Remover unidades"
+                            onClick={() => setHistoryType(type)}
+                            title="Historial de movimientos"
                           >
-                            <ArrowDown className="w-4 h-4 text-red-600" />
+                            <History className="w-4 h-4" />
                           </Button>
                           <Button
                             variant="ghost"
@@ -458,54 +420,19 @@ export default function PaperTypesPage() {
         </Card>
       )}
 
-      {/* Diálogo para ajustar stock */}
-      <Dialog open={!!adjustingStock} onOpenChange={() => setAdjustingStock(null)}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>
-              {adjustmentType === "add" ? "➕ Agregar Unidades" : "➖ Remover Unidades"}
-            </DialogTitle>
-          </DialogHeader>
-          <div className="space-y-4">
-            <div>
-              <Label>Insumo: <strong>{adjustingStock?.name}</strong></Label>
-            </div>
-            <div>
-              <Label>Stock Actual: <strong>{adjustingStock?.stock} unidades</strong></Label>
-            </div>
-            <div>
-              <Label htmlFor="qty">Cantidad</Label>
-              <Input
-                id="qty"
-                type="number"
-                min="1"
-                value={adjustmentQuantity}
-                onChange={(e) => setAdjustmentQuantity(parseInt(e.target.value) || 0)}
-                placeholder="0"
-              />
-            </div>
-            <div className="bg-blue-50 p-3 rounded text-sm">
-              Nuevo stock: <strong>{
-                adjustmentType === "add"
-                  ? (adjustingStock?.stock as number) + adjustmentQuantity
-                  : (adjustingStock?.stock as number) - adjustmentQuantity
-              } unidades</strong>
-            </div>
-            <div className="flex gap-3 justify-end">
-              <Button variant="outline" onClick={() => setAdjustingStock(null)}>
-                Cancelar
-              </Button>
-              <Button
-                onClick={() => adjustStockMutation.mutate()}
-                disabled={adjustStockMutation.isPending || adjustmentQuantity <= 0}
-                className={adjustmentType === "add" ? "bg-green-600" : "bg-red-600"}
-              >
-                {adjustmentType === "add" ? "Agregar" : "Remover"}
-              </Button>
-            </div>
-          </div>
-        </DialogContent>
-      </Dialog>
+      <StockMovementDialog
+        itemType="paper"
+        item={movingType ? toStockItem(movingType) : null}
+        items={(paperTypes || []).map(toStockItem)}
+        unitLabel="resmas"
+        onOpenChange={(open) => !open && setMovingType(null)}
+      />
+
+      <StockMovementHistoryDialog
+        itemType="paper"
+        item={historyType ? toStockItem(historyType) : null}
+        onOpenChange={(open) => !open && setHistoryType(null)}
+      />
 
       {/* Diálogo de eliminación */}
       <AlertDialog open={!!deletingType} onOpenChange={() => setDeletingType(null)}>
@@ -1,6 +1,19 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { FileText, Filter, Search, Download, Eye } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import {
+  FileText,
+  Filter,
+  Search,
+  Download,
+  Eye,
+  History,
+  Loader2,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
+} from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -21,37 +34,336 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { PrintJobWithDetails } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { printJobTransitions, printJobSortFields } from "@shared/schema";
+import type {
+  PrintJobWithDetails,
+  PrintJobEventWithUser,
+  PrintJobStatus,
+  PaginatedResult,
+  User,
+  Printer,
+  PaperType,
+} from "@shared/schema";
 import { formatDistanceToNow, format } from "date-fns";
 import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+const statusLabels: Record<string, string> = {
+  pending_approval: "Pendiente de aprobación",
+  queued: "En cola",
+  held: "Retenido",
+  printing: "Imprimiendo",
+  completed: "Completado",
+  failed: "Fallido",
+  cancelled: "Cancelado",
+  rejected: "Rechazado",
+  expired: "Vencido",
+};
+
+const actionLabels: Record<string, string> = {
+  queued: "Liberar",
+  held: "Retener",
+  printing: "Imprimir",
+  completed: "Completar",
+  failed: "Marcar fallido",
+  cancelled: "Cancelar",
+  rejected: "Rechazar",
+};
+
+const getStatusBadgeVariant = (status: string) => {
+  switch (status) {
+    case "completed":
+      return "default";
+    case "failed":
+    case "cancelled":
+    case "rejected":
+    case "expired":
+      return "destructive";
+    case "pending_approval":
+      return "outline";
+    default:
+      return "secondary";
+  }
+};
+
+function JobTimelineDialog({
+  job,
+  onOpenChange,
+}: {
+  job: PrintJobWithDetails | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState("");
+
+  const { data: events, isLoading } = useQuery<PrintJobEventWithUser[]>({
+    queryKey: ["/api/print-jobs", job?.id, "events"],
+    enabled: !!job,
+  });
+
+  const changeStatusMutation = useMutation({
+    mutationFn: async (status: PrintJobStatus) => {
+      return await apiRequest("PATCH", `/api/print-jobs/${job?.id}/status`, {
+        status,
+        reason: reason || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/print-jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/paper-types"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/approvals"] });
+      toast({
+        title: "Estado actualizado",
+        description: "El estado del trabajo se ha actualizado",
+      });
+      setReason("");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al cambiar el estado",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canManage =
+    !!job &&
+    (user?.role === "admin" || (user?.role === "operator" && job.userId === user.id));
+
+  const availableTransitions = job
+    ? (Object.entries(printJobTransitions[job.status as PrintJobStatus] || {}) as Array<[PrintJobStatus, string[]]>)
+        .filter(([, roles]) => !!user && roles.includes(user.role))
+        .map(([status]) => status)
+    : [];
+
+  return (
+    <Dialog open={!!job} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Historial del Trabajo</DialogTitle>
+          <DialogDescription>{job?.documentName}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : (
+          <ol className="relative border-l pl-6 space-y-4">
+            {events?.map((event) => (
+              <li key={event.id} data-testid={`event-${event.id}`}>
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+                <div className="flex items-center gap-2 flex-wrap">
+                  {event.fromStatus && (
+                    <>
+                      <Badge variant="outline">{statusLabels[event.fromStatus] || event.fromStatus}</Badge>
+                      <span className="text-muted-foreground">→</span>
+                    </>
+                  )}
+                  <Badge variant={getStatusBadgeVariant(event.toStatus)}>
+                    {statusLabels[event.toStatus] || event.toStatus}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground mt-1">
+                  {event.user?.fullName || "Sistema"} · {format(new Date(event.createdAt), "dd/MM/yyyy HH:mm")}
+                </p>
+                {event.reason && <p className="text-sm mt-1">{event.reason}</p>}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {canManage && availableTransitions.length > 0 && (
+          <div className="space-y-3 border-t pt-4">
+            <Textarea
+              placeholder="Motivo del cambio (opcional)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-status-reason"
+            />
+            <div className="flex flex-wrap gap-2 justify-end">
+              {availableTransitions.map((status) => (
+                <Button
+                  key={status}
+                  variant={["failed", "cancelled", "rejected"].includes(status) ? "destructive" : "outline"}
+                  size="sm"
+                  disabled={changeStatusMutation.isPending}
+                  onClick={() => changeStatusMutation.mutate(status)}
+                  data-testid={`button-status-${status}`}
+                >
+                  {changeStatusMutation.isPending && changeStatusMutation.variables === status && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  {actionLabels[status]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const PAGE_SIZE = 25;
+
+type SortField = (typeof printJobSortFields)[number];
 
 export default function PrintJobsPage() {
   const { user } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [colorFilter, setColorFilter] = useState<string>("all");
+  const [userFilter, setUserFilter] = useState<string>("all");
+  const [printerFilter, setPrinterFilter] = useState<string>("all");
+  const [paperTypeFilter, setPaperTypeFilter] = useState<string>("all");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [sortBy, setSortBy] = useState<SortField>("printedAt");
+  const [sortDir, setSortDir] = useState<"asc" | "desc">("desc");
+  const [page, setPage] = useState(1);
+  const [timelineJob, setTimelineJob] = useState<PrintJobWithDetails | null>(null);
+
+  const { toast } = useToast();
 
   const canCreateJobs = user?.role !== "viewer";
+  const canFilterByUser = user?.role === "admin" || user?.role === "super-admin";
+
+  // Esperar a que el usuario termine de escribir antes de consultar
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Cualquier cambio de filtro u orden vuelve a la primera página
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, statusFilter, colorFilter, userFilter, printerFilter, paperTypeFilter, dateFrom, dateTo, sortBy, sortDir]);
 
-  const { data: jobs, isLoading } = useQuery<PrintJobWithDetails[]>({
-    queryKey: ["/api/print-jobs"],
+  const params = new URLSearchParams({
+    page: String(page),
+    pageSize: String(PAGE_SIZE),
+    sortBy,
+    sortDir,
   });
+  if (debouncedSearch) params.set("search", debouncedSearch);
+  if (statusFilter !== "all") params.set("status", statusFilter);
+  if (colorFilter !== "all") params.set("colorMode", colorFilter);
+  if (userFilter !== "all") params.set("userId", userFilter);
+  if (printerFilter !== "all") params.set("printerId", printerFilter);
+  if (paperTypeFilter !== "all") params.set("paperTypeId", paperTypeFilter);
+  if (dateFrom) params.set("from", new Date(`${dateFrom}T00:00:00`).toISOString());
+  if (dateTo) params.set("to", new Date(`${dateTo}T23:59:59.999`).toISOString());
+  const queryString = params.toString();
 
-  const filteredJobs = jobs?.filter((job) => {
-    const matchesSearch =
-      job.documentName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      job.user.fullName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      job.printer.name.toLowerCase().includes(searchQuery.toLowerCase());
+  const { data, isLoading, isFetching } = useQuery<PaginatedResult<PrintJobWithDetails>>({
+    queryKey: ["/api/print-jobs", queryString],
+    queryFn: async () => {
+      return apiRequest<PaginatedResult<PrintJobWithDetails>>("GET", `/api/print-jobs?${queryString}`);
+    },
+    placeholderData: keepPreviousData,
+  });
 
-    const matchesStatus =
-      statusFilter === "all" || job.status === statusFilter;
+  const { data: users } = useQuery<Pick<User, "id" | "fullName">[]>({
+    queryKey: ["/api/users"],
+    enabled: canFilterByUser,
+  });
 
-    const matchesColor =
-      colorFilter === "all" || job.colorMode === colorFilter;
+  const { data: printers } = useQuery<Printer[]>({
+    queryKey: ["/api/printers"],
+  });
 
-    return matchesSearch && matchesStatus && matchesColor;
+  const { data: paperTypes } = useQuery<PaperType[]>({
+    queryKey: ["/api/paper-types"],
   });
 
+  const jobs = data?.items;
+  const total = data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const hasFilters =
+    !!debouncedSearch ||
+    statusFilter !== "all" ||
+    colorFilter !== "all" ||
+    userFilter !== "all" ||
+    printerFilter !== "all" ||
+    paperTypeFilter !== "all" ||
+    !!dateFrom ||
+    !!dateTo;
+
+  const toggleSort = (field: SortField) => {
+    if (sortBy === field) {
+      setSortDir(sortDir === "asc" ? "desc" : "asc");
+    } else {
+      setSortBy(field);
+      setSortDir(field === "documentName" ? "asc" : "desc");
+    }
+  };
+
+  const SortableHead = ({ field, label, className }: { field: SortField; label: string; className?: string }) => (
+    <TableHead className={className}>
+      <button
+        type="button"
+        className="inline-flex items-center gap-1 hover:text-foreground"
+        onClick={() => toggleSort(field)}
+        data-testid={`sort-${field}`}
+      >
+        {label}
+        {sortBy === field ? (
+          sortDir === "asc" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
+        ) : (
+          <ArrowUpDown className="h-3 w-3 opacity-50" />
+        )}
+      </button>
+    </TableHead>
+  );
+
+  // Los documentos solo se sirven con un enlace firmado que vence a los pocos minutos
+  const getFileUnavailableReason = (job: PrintJobWithDetails) => {
+    if (!job.filePath) return "Trabajo importado de CUPS, sin documento";
+    if (job.fileDeletedAt) return "Documento eliminado por la política de retención";
+    return undefined;
+  };
+
+  const openJobFile = async (job: PrintJobWithDetails, disposition: "view" | "download") => {
+    // La pestaña se abre antes de la petición para que el navegador no la bloquee
+    const viewer = disposition === "view" ? window.open("", "_blank") : null;
+    try {
+      const { url } = await apiRequest<{ url: string; expiresAt: string }>(
+        "GET",
+        `/api/print-jobs/${job.id}/file-url?disposition=${disposition}`
+      );
+      if (viewer) {
+        viewer.location.href = url;
+      } else {
+        window.location.assign(url);
+      }
+    } catch (error) {
+      viewer?.close();
+      toast({
+        title: "No se pudo abrir el documento",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return `${bytes} B`;
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
@@ -78,13 +390,13 @@ export default function PrintJobsPage() {
       </div>
 
       <Card>
-        <CardHeader>
+        <CardHeader className="space-y-4">
           <div className="flex items-center gap-4 flex-wrap">
             <div className="flex-1 min-w-[200px]">
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Buscar documentos, usuarios o impresoras..."
+                  placeholder="Buscar por nombre de documento..."
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="pl-9"
@@ -100,9 +412,11 @@ export default function PrintJobsPage() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">Todos</SelectItem>
-                  <SelectItem value="completed">Completado</SelectItem>
-                  <SelectItem value="pending">Pendiente</SelectItem>
-                  <SelectItem value="failed">Fallido</SelectItem>
+                  {Object.entries(statusLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <Select value={colorFilter} onValueChange={setColorFilter}>
@@ -117,6 +431,68 @@ export default function PrintJobsPage() {
               </Select>
             </div>
           </div>
+          <div className="flex items-center gap-2 flex-wrap">
+            {canFilterByUser && (
+              <Select value={userFilter} onValueChange={setUserFilter}>
+                <SelectTrigger className="w-[180px]" data-testid="select-user-filter">
+                  <SelectValue placeholder="Usuario" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos los usuarios</SelectItem>
+                  {users?.map((u) => (
+                    <SelectItem key={u.id} value={u.id}>
+                      {u.fullName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={printerFilter} onValueChange={setPrinterFilter}>
+              <SelectTrigger className="w-[180px]" data-testid="select-printer-filter">
+                <SelectValue placeholder="Impresora" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas las impresoras</SelectItem>
+                {printers?.map((printer) => (
+                  <SelectItem key={printer.id} value={printer.id}>
+                    {printer.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={paperTypeFilter} onValueChange={setPaperTypeFilter}>
+              <SelectTrigger className="w-[180px]" data-testid="select-paper-type-filter">
+                <SelectValue placeholder="Tipo de papel" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos los papeles</SelectItem>
+                {paperTypes?.map((paperType) => (
+                  <SelectItem key={paperType.id} value={paperType.id}>
+                    {paperType.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={dateFrom}
+                onChange={(e) => setDateFrom(e.target.value)}
+                className="w-[160px]"
+                aria-label="Desde"
+                data-testid="input-date-from"
+              />
+              <span className="text-sm text-muted-foreground">a</span>
+              <Input
+                type="date"
+                value={dateTo}
+                onChange={(e) => setDateTo(e.target.value)}
+                className="w-[160px]"
+                aria-label="Hasta"
+                data-testid="input-date-to"
+              />
+            </div>
+          </div>
         </CardHeader>
         <CardContent>
           {isLoading ? (
@@ -125,31 +501,47 @@ export default function PrintJobsPage() {
                 <Skeleton key={i} className="h-16 w-full" />
               ))}
             </div>
-          ) : filteredJobs && filteredJobs.length > 0 ? (
+          ) : jobs && jobs.length > 0 ? (
             <div className="overflow-x-auto">
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Documento</TableHead>
+                    <SortableHead field="documentName" label="Documento" />
                     <TableHead>Usuario</TableHead>
                     <TableHead>Impresora</TableHead>
-                    <TableHead>Fecha</TableHead>
-                    <TableHead className="text-right">Páginas</TableHead>
+                    <SortableHead field="printedAt" label="Fecha" />
+                    <SortableHead field="pageCount" label="Páginas" className="text-right" />
                     <TableHead className="text-right">Tamaño</TableHead>
+                    <SortableHead field="totalCost" label="Costo" className="text-right" />
                     <TableHead>Color</TableHead>
-                    <TableHead>Estado</TableHead>
+                    <SortableHead field="status" label="Estado" />
                     <TableHead className="text-right">Acciones</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredJobs.map((job) => (
+                  {jobs.map((job) => (
                     <TableRow key={job.id} data-testid={`row-job-${job.id}`}>
                       <TableCell>
-                        <div>
-                          <p className="font-medium">{job.documentName}</p>
-                          <p className="text-sm text-muted-foreground">
-                            {job.fileName}
-                          </p>
+                        <div className="flex items-center gap-3">
+                          <div className="flex h-12 w-9 shrink-0 items-center justify-center overflow-hidden rounded border bg-muted">
+                            {job.thumbnailUrl ? (
+                              <img
+                                src={job.thumbnailUrl}
+                                alt=""
+                                loading="lazy"
+                                className="h-full w-full object-cover"
+                                data-testid={`img-thumbnail-${job.id}`}
+                              />
+                            ) : (
+                              <FileText className="h-4 w-4 text-muted-foreground" />
+                            )}
+                          </div>
+                          <div>
+                            <p className="font-medium">{job.documentName}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {job.source === "cups" ? "Importado de CUPS" : job.fileName}
+                            </p>
+                          </div>
                         </div>
                       </TableCell>
                       <TableCell>{job.user.fullName}</TableCell>
@@ -174,82 +566,122 @@ export default function PrintJobsPage() {
                         </div>
                       </TableCell>
                       <TableCell className="text-right">
-                        {job.pageCount} × {job.copies}
+                        <div>
+                          <p>{job.pageCount} × {job.copies}</p>
+                          {(job.duplex || job.nUp > 1) && (
+                            <p className="text-xs text-muted-foreground">
+                              {[job.duplex && "Dúplex", job.nUp > 1 && `${job.nUp}-up`].filter(Boolean).join(" · ")}
+                            </p>
+                          )}
+                          {job.pageCountMismatch && (
+                            <Badge
+                              variant="destructive"
+                              className="mt-1"
+                              data-testid={`badge-page-mismatch-${job.id}`}
+                            >
+                              Declaradas: {job.declaredPageCount}
+                            </Badge>
+                          )}
+                        </div>
                       </TableCell>
                       <TableCell className="text-right">
                         {formatFileSize(job.fileSize)}
                       </TableCell>
+                      <TableCell
+                        className="text-right"
+                        title={`Papel $${parseFloat(job.paperCost).toFixed(2)} · Toner $${parseFloat(job.tonerCost).toFixed(2)} · Clic $${parseFloat(job.clickCost).toFixed(2)}`}
+                        data-testid={`text-cost-${job.id}`}
+                      >
+                        ${parseFloat(job.totalCost).toFixed(2)}
+                      </TableCell>
                       <TableCell>
                         <Badge variant="outline">
                           {job.colorMode === "bw" ? "B&W" : "Color"}
                         </Badge>
                       </TableCell>
                       <TableCell>
-                        <Badge
-                          variant={
-                            job.status === "completed"
-                              ? "default"
-                              : job.status === "pending"
-                              ? "secondary"
-                              : "destructive"
-                          }
-                        >
-                          {job.status}
+                        <Badge variant={getStatusBadgeVariant(job.status)}>
+                          {statusLabels[job.status] || job.status}
                         </Badge>
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex items-center justify-end gap-2">
-                          {(() => {
-                            const filename = job.filePath.split('/').pop();
-                            return (
-                              <>
-                                <Button
-                                  variant="ghost"
-                                  size="icon"
-                                  data-testid={`button-view-${job.id}`}
-                                  asChild
-                                >
-                                  <a
-                                    href={filename ? `/api/files/view/${filename}` : '#'}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                  >
-                                    <Eye className="h-4 w-4" />
-                                  </a>
-                                </Button>
-                                <Button
-                                  variant="ghost"
-                                  size="icon"
-                                  data-testid={`button-download-${job.id}`}
-                                  asChild
-                                >
-                                  <a
-                                    href={filename ? `/api/files/download/${filename}` : '#'}
-                                    download
-                                  >
-                                    <Download className="h-4 w-4" />
-                                  </a>
-                                </Button>
-                              </>
-                            );
-                          })()}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setTimelineJob(job)}
+                            data-testid={`button-history-${job.id}`}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openJobFile(job, "view")}
+                            disabled={!!getFileUnavailableReason(job)}
+                            title={getFileUnavailableReason(job)}
+                            data-testid={`button-view-${job.id}`}
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openJobFile(job, "download")}
+                            disabled={!!getFileUnavailableReason(job)}
+                            title={getFileUnavailableReason(job)}
+                            data-testid={`button-download-${job.id}`}
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
                         </div>
                       </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
+              <div className="flex items-center justify-between gap-4 pt-4">
+                <p className="text-sm text-muted-foreground" data-testid="text-pagination">
+                  Mostrando {(page - 1) * PAGE_SIZE + 1}–{Math.min(page * PAGE_SIZE, total)} de {total} trabajos
+                </p>
+                <div className="flex items-center gap-2">
+                  {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                    data-testid="button-previous-page"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    Anterior
+                  </Button>
+                  <span className="text-sm">
+                    Página {page} de {totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= totalPages}
+                    data-testid="button-next-page"
+                  >
+                    Siguiente
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
             </div>
           ) : (
             <div className="flex flex-col items-center justify-center py-12 text-center">
               <FileText className="h-12 w-12 text-muted-foreground/50 mb-4" />
               <h3 className="font-semibold text-lg">Sin trabajos encontrados</h3>
               <p className="text-sm text-muted-foreground mt-1">
-                {searchQuery || statusFilter !== "all" || colorFilter !== "all"
+                {hasFilters
                   ? "Intenta ajustar los filtros"
                   : "Comienza creando tu primer trabajo de impresión"}
               </p>
-              {!searchQuery && statusFilter === "all" && colorFilter === "all" && canCreateJobs && (
+              {!hasFilters && canCreateJobs && (
                 <Button asChild className="mt-4">
                   <a href="/print-jobs/new">Crear Trabajo</a>
                 </Button>
@@ -258,6 +690,11 @@ export default function PrintJobsPage() {
           )}
         </CardContent>
       </Card>
+
+      <JobTimelineDialog
+        job={timelineJob}
+        onOpenChange={(open) => !open && setTimelineJob(null)}
+      />
     </div>
   );
 }
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, Pencil, Trash2, Loader2, Printer as PrinterIcon } from "lucide-react";
+import { Plus, Pencil, Trash2, Loader2, RefreshCw, Download, Radar, Printer as PrinterIcon } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -40,15 +40,195 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { insertPrinterSchema } from "@shared/schema";
-import type { Printer } from "@shared/schema";
+import { useAuth } from "@/lib/auth";
+import { useLocationOptions } from "@/components/location-filter";
+import { PrinterDiscoveryDialog } from "@/components/printer-discovery-dialog";
+import {
+  insertPrinterSchema,
+  isTonerCompatible,
+  calculatePrinterDepreciation,
+  paperSizes,
+  paperSizeLabels,
+} from "@shared/schema";
+import type {
+  Printer,
+  PrinterAvailability,
+  PrinterPollResult,
+  PrinterSupplyLevel,
+  TonerInventoryWithCompatibility,
+} from "@shared/schema";
 import type { z } from "zod";
-import { format } from "date-fns";
+import { format, formatDistanceToNow, differenceInCalendarDays } from "date-fns";
+import { es } from "date-fns/locale";
+
+const STATUS_LABELS: Record<string, string> = {
+  active: "Activo",
+  inactive: "Inactivo",
+  maintenance: "Mantenimiento",
+  offline: "Sin conexión",
+};
+
+const SUPPLY_COLORS: Record<string, string> = {
+  black: "bg-neutral-800",
+  cyan: "bg-cyan-500",
+  magenta: "bg-fuchsia-500",
+  yellow: "bg-yellow-400",
+};
+
+function CapabilityBadges({ printer }: { printer: Printer }) {
+  const labels = [
+    printer.supportsColor ? "Color" : "B/N",
+    printer.supportsDuplex && "Dúplex",
+    printer.supportsStapling && "Engrapado",
+    printer.supportedPaperSizes?.length && printer.supportedPaperSizes.map((size) => paperSizeLabels[size as keyof typeof paperSizeLabels] || size).join("/"),
+    printer.maxPaperWeight != null && `≤ ${printer.maxPaperWeight} g/m²`,
+  ].filter(Boolean);
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {labels.map((label) => (
+        <Badge key={String(label)} variant="secondary" className="text-xs font-normal">
+          {label}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+function SupplyLevels({ supplies }: { supplies: PrinterSupplyLevel[] }) {
+  if (supplies.length === 0) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  return (
+    <div className="space-y-1 min-w-40">
+      {supplies.map((supply) => (
+        <div key={supply.id} className="flex items-center gap-2 text-xs" title={supply.description}>
+          <div className="h-2 w-20 rounded-full bg-muted overflow-hidden">
+            <div
+              className={`h-full ${(supply.color && SUPPLY_COLORS[supply.color]) || "bg-primary"}`}
+              style={{ width: `${supply.levelPercent ?? 0}%` }}
+            />
+          </div>
+          <span className={supply.levelPercent !== null && supply.levelPercent <= 10 ? "text-destructive font-medium" : "text-muted-foreground"}>
+            {supply.levelPercent !== null ? `${supply.levelPercent}%` : "?"}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function CompatibleToners({ toners }: { toners: TonerInventoryWithCompatibility[] }) {
+  if (toners.length === 0) {
+    return <div className="text-xs text-muted-foreground mt-1">Sin toner compatible registrado</div>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {toners.map((toner) => (
+        <Badge
+          key={toner.id}
+          variant={toner.stock <= toner.minStock ? "destructive" : "outline"}
+          className="text-xs font-normal"
+          title={toner.name}
+        >
+          {toner.model} · {toner.stock}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+function PrinterAvailabilityCell({ availability }: { availability?: PrinterAvailability }) {
+  if (!availability) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  return (
+    <div>
+      <span
+        className={availability.availabilityPercent < 95 ? "font-medium text-destructive" : ""}
+        data-testid={`text-availability-${availability.printerId}`}
+      >
+        {availability.availabilityPercent}%
+      </span>
+      <div className="text-xs text-muted-foreground">
+        {availability.offlineSince
+          ? `Caída desde hace ${formatDistanceToNow(new Date(availability.offlineSince), { locale: es })}`
+          : `${availability.outages} caída(s)`}
+      </div>
+    </div>
+  );
+}
+
+// Días antes del vencimiento en que la garantía se marca como próxima a vencer (igual que las alertas)
+const WARRANTY_WARNING_DAYS = 30;
+
+function PrinterAssetCell({ printer }: { printer: Printer }) {
+  const depreciation = calculatePrinterDepreciation(printer);
+  const warrantyDays = printer.warrantyEndDate
+    ? differenceInCalendarDays(new Date(printer.warrantyEndDate), new Date())
+    : null;
+
+  return (
+    <div className="space-y-1 text-sm">
+      {printer.ownership === "leased" ? (
+        <Badge variant="outline">Arrendada</Badge>
+      ) : depreciation ? (
+        <div data-testid={`text-book-value-${printer.id}`}>
+          ${depreciation.bookValue.toFixed(2)}
+          <div className="text-xs text-muted-foreground">
+            {depreciation.fullyDepreciated
+              ? "Totalmente depreciada"
+              : `de $${parseFloat(printer.purchasePrice!.toString()).toFixed(2)} · ${depreciation.monthsInService}/${printer.expectedLifetimeMonths} meses`}
+          </div>
+        </div>
+      ) : (
+        <span className="text-muted-foreground">—</span>
+      )}
+      {warrantyDays !== null && (
+        <Badge
+          variant={warrantyDays < 0 ? "outline" : warrantyDays <= WARRANTY_WARNING_DAYS ? "destructive" : "secondary"}
+          className="text-xs"
+          data-testid={`badge-warranty-${printer.id}`}
+        >
+          {warrantyDays < 0
+            ? "Garantía vencida"
+            : `Garantía hasta ${format(new Date(printer.warrantyEndDate!), "dd/MM/yyyy")}`}
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+// El registro se descarga con fetch para enviar el token; un enlace directo no lo incluiría
+async function downloadAssetRegister(): Promise<void> {
+  const token = localStorage.getItem("authToken");
+  const headers: HeadersInit = {};
+  if (token) {
+    headers["Authorization"] = `Bearer ${token}`;
+  }
+
+  const res = await fetch("/api/printers/asset-register", { headers });
+  if (!res.ok) {
+    throw new Error((await res.text()) || "Failed to export asset register");
+  }
+  const url = window.URL.createObjectURL(await res.blob());
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `registro-activos-${format(new Date(), "yyyy-MM-dd")}.csv`;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
 
 export default function PrintersPage() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isDiscoveryOpen, setIsDiscoveryOpen] = useState(false);
+  const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -56,6 +236,20 @@ export default function PrintersPage() {
     queryKey: ["/api/printers"],
   });
 
+  const { data: supplyLevels } = useQuery<PrinterSupplyLevel[]>({
+    queryKey: ["/api/printers/supply-levels"],
+  });
+
+  const { data: availability } = useQuery<PrinterAvailability[]>({
+    queryKey: ["/api/printers/availability"],
+  });
+
+  const { data: toners } = useQuery<TonerInventoryWithCompatibility[]>({
+    queryKey: ["/api/toner-inventory"],
+  });
+
+  const { options: locationOptions } = useLocationOptions();
+
   const form = useForm<z.infer<typeof insertPrinterSchema>>({
     resolver: zodResolver(insertPrinterSchema),
     defaultValues: {
@@ -63,7 +257,22 @@ export default function PrintersPage() {
       location: "",
       model: "",
       ipAddress: "",
+      locationId: null,
       status: "active",
+      clickChargeBw: "",
+      clickChargeColor: "",
+      serialNumber: "",
+      manufacturer: "",
+      ownership: "owned",
+      purchaseDate: null,
+      purchasePrice: "",
+      expectedLifetimeMonths: null,
+      warrantyEndDate: null,
+      supportsColor: true,
+      supportsDuplex: true,
+      supportedPaperSizes: null,
+      maxPaperWeight: null,
+      supportsStapling: false,
     },
   });
 
@@ -111,16 +320,65 @@ export default function PrintersPage() {
     },
   });
 
+  const pollPrinterMutation = useMutation({
+    mutationFn: async (printerId: string) => {
+      return await apiRequest<{ printer: Printer; result: PrinterPollResult }>("POST", `/api/printers/${printerId}/poll`, undefined);
+    },
+    onSuccess: ({ result }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/printers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/printers/supply-levels"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/printers/availability"] });
+      toast({
+        title: result.reachable
+          ? "Impresora consultada"
+          : result.deviceStatus === "unreachable"
+            ? "La impresora no responde"
+            : "La impresora responde, pero no por SNMP",
+        description: result.reachable
+          ? `${result.supplies.length} consumible(s) leídos por SNMP`
+          : result.error,
+        variant: result.reachable ? "default" : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al consultar la impresora",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: z.infer<typeof insertPrinterSchema>) => {
-    createPrinterMutation.mutate(data);
+    createPrinterMutation.mutate({
+      ...data,
+      clickChargeBw: data.clickChargeBw || undefined,
+      clickChargeColor: data.clickChargeColor || undefined,
+      serialNumber: data.serialNumber || null,
+      manufacturer: data.manufacturer || null,
+      purchasePrice: data.purchasePrice || null,
+    });
   };
 
+  const exportAssetsMutation = useMutation({
+    mutationFn: downloadAssetRegister,
+    onError: (error: Error) => {
+      toast({
+        title: "Error al exportar el registro de activos",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const getStatusBadgeVariant = (status: string) => {
     switch (status) {
       case "active":
         return "default";
       case "maintenance":
         return "secondary";
+      case "offline":
+        return "destructive";
       default:
         return "outline";
     }
@@ -135,139 +393,458 @@ export default function PrintersPage() {
             Gestiona impresoras y sus configuraciones
           </p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button data-testid="button-add-printer">
-              <Plus className="mr-2 h-4 w-4" />
-              Agregar Impresora
+        <div className="flex flex-wrap gap-2">
+          {(user?.role === "admin" || user?.role === "super-admin") && (
+            <Button
+              variant="outline"
+              onClick={() => exportAssetsMutation.mutate()}
+              disabled={exportAssetsMutation.isPending}
+              data-testid="button-export-assets"
+            >
+              {exportAssetsMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              Registro de Activos
             </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Registrar Nueva Impresora</DialogTitle>
-              <DialogDescription>
-                Agrega una nueva impresora al sistema para monitorear
-              </DialogDescription>
-            </DialogHeader>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="name"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Nombre de la Impresora</FormLabel>
-                      <FormControl>
-                        <Input
-                          {...field}
-                          placeholder="HP LaserJet Pro"
-                          data-testid="input-name"
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="location"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Ubicación</FormLabel>
-                      <FormControl>
-                        <Input
-                          {...field}
-                          placeholder="Oficina 2do Piso"
-                          data-testid="input-location"
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="model"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Modelo</FormLabel>
-                      <FormControl>
-                        <Input
-                          {...field}
-                          placeholder="LaserJet Pro MFP M428fdw"
-                          data-testid="input-model"
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="ipAddress"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Dirección IP (Opcional)</FormLabel>
-                      <FormControl>
-                        <Input
-                          {...field}
-                          placeholder="192.168.1.100"
-                          data-testid="input-ip"
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="status"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Estado</FormLabel>
-                      <Select onValueChange={field.onChange} value={field.value}>
+          )}
+          {user?.role === "admin" && (
+            <Button variant="outline" onClick={() => setIsDiscoveryOpen(true)} data-testid="button-discover-printers">
+              <Radar className="mr-2 h-4 w-4" />
+              Descubrir en la Red
+            </Button>
+          )}
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button data-testid="button-add-printer">
+                <Plus className="mr-2 h-4 w-4" />
+                Agregar Impresora
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Registrar Nueva Impresora</DialogTitle>
+                <DialogDescription>
+                  Agrega una nueva impresora al sistema para monitorear
+                </DialogDescription>
+              </DialogHeader>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nombre de la Impresora</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            placeholder="HP LaserJet Pro"
+                            data-testid="input-name"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="location"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Ubicación</FormLabel>
                         <FormControl>
-                          <SelectTrigger data-testid="select-status">
-                            <SelectValue />
-                          </SelectTrigger>
+                          <Input
+                            {...field}
+                            placeholder="Oficina 2do Piso"
+                            data-testid="input-location"
+                          />
                         </FormControl>
-                        <SelectContent>
-                          <SelectItem value="active">Activo</SelectItem>
-                          <SelectItem value="inactive">Inactivo</SelectItem>
-                          <SelectItem value="maintenance">Mantenimiento</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {locationOptions.length > 0 && (
+                    <FormField
+                      control={form.control}
+                      name="locationId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Sede / Edificio / Piso / Sala (Opcional)</FormLabel>
+                          <Select
+                            value={field.value || "none"}
+                            onValueChange={(value) => {
+                              field.onChange(value === "none" ? null : value);
+                              // Sin descripción escrita se usa la ruta del nodo elegido
+                              const option = locationOptions.find(({ location }) => location.id === value);
+                              if (option && !form.getValues("location")) {
+                                form.setValue("location", option.path);
+                              }
+                            }}
+                          >
+                            <FormControl>
+                              <SelectTrigger data-testid="select-location-id">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="none">Sin asignar</SelectItem>
+                              {locationOptions.map(({ location, path }) => (
+                                <SelectItem key={location.id} value={location.id}>
+                                  {path}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   )}
-                />
-                <DialogFooter>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => setIsDialogOpen(false)}
-                  >
-                    Cancelar
-                  </Button>
-                  <Button
-                    type="submit"
-                    disabled={createPrinterMutation.isPending}
-                    data-testid="button-submit"
-                  >
-                    {createPrinterMutation.isPending ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Agregando...
-                      </>
-                    ) : (
-                      "Agregar Impresora"
+                  <FormField
+                    control={form.control}
+                    name="model"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Modelo</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            placeholder="LaserJet Pro MFP M428fdw"
+                            data-testid="input-model"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="ipAddress"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Dirección IP (Opcional)</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            placeholder="192.168.1.100"
+                            data-testid="input-ip"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="status"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Estado</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-status">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="active">Activo</SelectItem>
+                            <SelectItem value="inactive">Inactivo</SelectItem>
+                            <SelectItem value="maintenance">Mantenimiento</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
                     )}
-                  </Button>
-                </DialogFooter>
-              </form>
-            </Form>
-          </DialogContent>
-        </Dialog>
+                  />
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <FormField
+                      control={form.control}
+                      name="clickChargeBw"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Cargo por Clic B/N (Opcional)</FormLabel>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              value={field.value ?? ""}
+                              placeholder="0.0000"
+                              data-testid="input-click-charge-bw"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="clickChargeColor"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Cargo por Clic Color (Opcional)</FormLabel>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              value={field.value ?? ""}
+                              placeholder="0.0000"
+                              data-testid="input-click-charge-color"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <FormField
+                      control={form.control}
+                      name="serialNumber"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Número de Serie (Opcional)</FormLabel>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              value={field.value ?? ""}
+                              placeholder=""
+                              data-testid="input-serial-number"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="manufacturer"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Fabricante (Opcional)</FormLabel>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              value={field.value ?? ""}
+                              placeholder="HP, Brother, Canon..."
+                              data-testid="input-manufacturer"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="ownership"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Propiedad</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-ownership">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="owned">Propia</SelectItem>
+                              <SelectItem value="leased">Arrendada</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="warrantyEndDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Fin de Garantía (Opcional)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="date"
+                              value={field.value ? format(new Date(field.value), "yyyy-MM-dd") : ""}
+                              onChange={(e) => field.onChange(e.target.value ? new Date(`${e.target.value}T00:00:00`) : null)}
+                              data-testid="input-warranty-end-date"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="purchaseDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Fecha de Compra (Opcional)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="date"
+                              value={field.value ? format(new Date(field.value), "yyyy-MM-dd") : ""}
+                              onChange={(e) => field.onChange(e.target.value ? new Date(`${e.target.value}T00:00:00`) : null)}
+                              data-testid="input-purchase-date"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="purchasePrice"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Precio de Compra (Opcional)</FormLabel>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              value={field.value ?? ""}
+                              placeholder="0.00"
+                              data-testid="input-purchase-price"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="expectedLifetimeMonths"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Vida Útil en Meses (Opcional)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={1}
+                              value={field.value ?? ""}
+                              onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value, 10) : null)}
+                              placeholder="60"
+                              data-testid="input-expected-lifetime"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <div className="space-y-3 rounded-md border p-3">
+                    <p className="text-sm font-medium">Capacidades</p>
+                    <div className="flex flex-wrap gap-4">
+                      {(
+                        [
+                          ["supportsColor", "Color"],
+                          ["supportsDuplex", "Dúplex"],
+                          ["supportsStapling", "Engrapado"],
+                        ] as const
+                      ).map(([name, label]) => (
+                        <FormField
+                          key={name}
+                          control={form.control}
+                          name={name}
+                          render={({ field }) => (
+                            <FormItem className="flex items-center gap-2 space-y-0">
+                              <FormControl>
+                                <Checkbox
+                                  checked={!!field.value}
+                                  onCheckedChange={(checked) => field.onChange(checked === true)}
+                                  data-testid={`checkbox-${name}`}
+                                />
+                              </FormControl>
+                              <FormLabel className="font-normal">{label}</FormLabel>
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                    </div>
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <FormField
+                        control={form.control}
+                        name="supportedPaperSizes"
+                        render={({ field }) => {
+                          // Sin selección la impresora acepta cualquier tamaño
+                          const selected = field.value ?? [];
+                          const toggle = (size: (typeof paperSizes)[number]) => {
+                            const next = selected.includes(size)
+                              ? selected.filter((s) => s !== size)
+                              : [...selected, size];
+                            field.onChange(next.length > 0 ? next : null);
+                          };
+                          return (
+                            <FormItem>
+                              <FormLabel>Tamaños de Papel</FormLabel>
+                              <div className="flex flex-wrap gap-2">
+                                {paperSizes.map((size) => (
+                                  <Badge
+                                    key={size}
+                                    variant={selected.includes(size) ? "default" : "outline"}
+                                    className="cursor-pointer"
+                                    onClick={() => toggle(size)}
+                                    data-testid={`toggle-paper-size-${size}`}
+                                  >
+                                    {paperSizeLabels[size]}
+                                  </Badge>
+                                ))}
+                              </div>
+                              <p className="text-xs text-muted-foreground">
+                                {selected.length === 0 ? "Todos los tamaños" : "Solo los seleccionados"}
+                              </p>
+                              <FormMessage />
+                            </FormItem>
+                          );
+                        }}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="maxPaperWeight"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Gramaje Máximo g/m² (Opcional)</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={1}
+                                value={field.value ?? ""}
+                                onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value, 10) : null)}
+                                placeholder="220"
+                                data-testid="input-max-paper-weight"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  </div>
+                  <DialogFooter>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => setIsDialogOpen(false)}
+                    >
+                      Cancelar
+                    </Button>
+                    <Button
+                      type="submit"
+                      disabled={createPrinterMutation.isPending}
+                      data-testid="button-submit"
+                    >
+                      {createPrinterMutation.isPending ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Agregando...
+                        </>
+                      ) : (
+                        "Agregar Impresora"
+                      )}
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <Card>
@@ -291,6 +868,10 @@ export default function PrintersPage() {
                     <TableHead>Modelo</TableHead>
                     <TableHead>Dirección IP</TableHead>
                     <TableHead>Estado</TableHead>
+                    <TableHead>Consumibles</TableHead>
+                    <TableHead className="text-right">Contador</TableHead>
+                    <TableHead className="text-right">Disponibilidad (30 días)</TableHead>
+                    <TableHead>Activo</TableHead>
                     <TableHead>Agregada</TableHead>
                     <TableHead className="text-right">Acciones</TableHead>
                   </TableRow>
@@ -300,22 +881,73 @@ export default function PrintersPage() {
                     <TableRow key={printer.id} data-testid={`row-printer-${printer.id}`}>
                       <TableCell className="font-medium">
                         {printer.name}
+                        {printer.serialNumber && (
+                          <div className="text-xs font-normal text-muted-foreground">
+                            S/N {printer.serialNumber}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {printer.location}
+                        {printer.locationId && (
+                          <div className="text-xs text-muted-foreground">
+                            {locationOptions.find(({ location }) => location.id === printer.locationId)?.path}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {printer.model}
+                        <CapabilityBadges printer={printer} />
+                        <CompatibleToners
+                          toners={(toners || []).filter((toner) => isTonerCompatible(toner, printer.model))}
+                        />
                       </TableCell>
-                      <TableCell>{printer.location}</TableCell>
-                      <TableCell>{printer.model}</TableCell>
                       <TableCell className="text-muted-foreground">
                         {printer.ipAddress || "—"}
                       </TableCell>
                       <TableCell>
                         <Badge variant={getStatusBadgeVariant(printer.status)}>
-                          {printer.status === "active" ? "Activo" : printer.status === "inactive" ? "Inactivo" : "Mantenimiento"}
+                          {STATUS_LABELS[printer.status] || printer.status}
                         </Badge>
+                        {printer.lastPolledAt && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            Consultada {format(new Date(printer.lastPolledAt), "dd/MM/yyyy HH:mm")}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <SupplyLevels
+                          supplies={(supplyLevels || []).filter((supply) => supply.printerId === printer.id)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {printer.pageCounter !== null ? printer.pageCounter.toLocaleString() : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <PrinterAvailabilityCell
+                          availability={availability?.find((entry) => entry.printerId === printer.id)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <PrinterAssetCell printer={printer} />
                       </TableCell>
                       <TableCell className="text-muted-foreground text-sm">
                         {format(new Date(printer.createdAt), "dd/MM/yyyy")}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex items-center justify-end gap-2">
+                          {printer.ipAddress && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Consultar ahora"
+                              onClick={() => pollPrinterMutation.mutate(printer.id)}
+                              disabled={pollPrinterMutation.isPending}
+                              data-testid={`button-poll-${printer.id}`}
+                            >
+                              <RefreshCw className={`h-4 w-4 ${pollPrinterMutation.isPending && pollPrinterMutation.variables === printer.id ? "animate-spin" : ""}`} />
+                            </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="icon"
@@ -350,6 +982,8 @@ export default function PrintersPage() {
           )}
         </CardContent>
       </Card>
+
+      <PrinterDiscoveryDialog open={isDiscoveryOpen} onOpenChange={setIsDiscoveryOpen} />
     </div>
   );
 }
@@ -0,0 +1,651 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Plus, Pencil, Trash2, Loader2, Send, PackageCheck, Ban, Eye, ShoppingCart, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatPurchaseOrderNumber, purchaseOrderStatusLabels } from "@shared/schema";
+import type {
+  PaperType,
+  PurchaseOrderStatus,
+  PurchaseOrderWithDetails,
+  StockItemType,
+  SupplierWithItems,
+  TonerInventoryWithCompatibility,
+} from "@shared/schema";
+
+const STATUS_VARIANTS: Record<PurchaseOrderStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  draft: "outline",
+  sent: "secondary",
+  partially_received: "secondary",
+  received: "default",
+  cancelled: "destructive",
+};
+
+type LineDraft = {
+  itemKey: string; // "paper:<id>" o "toner:<id>"
+  quantityOrdered: string;
+  unitPrice: string;
+};
+
+type OrderDraft = {
+  supplierId: string | null;
+  supplier: string;
+  expectedDate: string;
+  notes: string;
+  lines: LineDraft[];
+};
+
+const emptyDraft: OrderDraft = { supplierId: null, supplier: "", expectedDate: "", notes: "", lines: [] };
+
+type ItemOption = { key: string; label: string; price: string };
+
+function toMoney(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function isReceivable(order: PurchaseOrderWithDetails): boolean {
+  return order.status === "sent" || order.status === "partially_received";
+}
+
+export default function PurchaseOrdersPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<PurchaseOrderWithDetails | "new" | null>(null);
+  const [draft, setDraft] = useState<OrderDraft>(emptyDraft);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [received, setReceived] = useState<Record<string, string>>({});
+  const [reference, setReference] = useState("");
+
+  const { data: orders, isLoading } = useQuery<PurchaseOrderWithDetails[]>({
+    queryKey: ["/api/purchase-orders"],
+  });
+
+  const { data: paperTypes } = useQuery<PaperType[]>({
+    queryKey: ["/api/paper-types"],
+  });
+
+  const { data: toners } = useQuery<TonerInventoryWithCompatibility[]>({
+    queryKey: ["/api/toner-inventory"],
+  });
+
+  const { data: supplierList } = useQuery<SupplierWithItems[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const itemOptions: ItemOption[] = [
+    ...(paperTypes || []).map((paper) => ({
+      key: `paper:${paper.id}`,
+      label: `Papel · ${paper.name}`,
+      price: paper.pricePerSheet ? parseFloat(paper.pricePerSheet.toString()).toFixed(2) : "",
+    })),
+    ...(toners || []).map((toner) => ({
+      key: `toner:${toner.id}`,
+      label: `Toner · ${toner.name}`,
+      price: toner.pricePerUnit ? parseFloat(toner.pricePerUnit.toString()).toFixed(2) : "",
+    })),
+  ];
+
+  // Precio sugerido de un insumo: el del catálogo del proveedor elegido o, si no lo tiene, el del inventario
+  const suggestedPrice = (itemKey: string): string => {
+    const catalogItem = supplierList
+      ?.find((supplier) => supplier.id === draft.supplierId)
+      ?.items.find((item) => `${item.itemType}:${item.itemId}` === itemKey);
+    if (catalogItem?.unitPrice) return parseFloat(catalogItem.unitPrice.toString()).toFixed(2);
+    return itemOptions.find((option) => option.key === itemKey)?.price || "";
+  };
+
+  const viewing = orders?.find((order) => order.id === viewingId) || null;
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const invalidateOrders = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+  };
+
+  const openEditor = (order: PurchaseOrderWithDetails | "new") => {
+    setDraft(
+      order === "new"
+        ? { ...emptyDraft, lines: [{ itemKey: "", quantityOrdered: "1", unitPrice: "" }] }
+        : {
+            supplierId: order.supplierId,
+            supplier: order.supplier,
+            expectedDate: order.expectedDate ? format(new Date(order.expectedDate), "yyyy-MM-dd") : "",
+            notes: order.notes || "",
+            lines: order.lines.map((line) => ({
+              itemKey: `${line.itemType}:${line.itemId}`,
+              quantityOrdered: line.quantityOrdered.toString(),
+              unitPrice: parseFloat(line.unitPrice.toString()).toFixed(2),
+            })),
+          }
+    );
+    setEditing(order);
+  };
+
+  const openViewer = (order: PurchaseOrderWithDetails) => {
+    setReceived(
+      Object.fromEntries(
+        order.lines.map((line) => [line.id, Math.max(line.quantityOrdered - line.quantityReceived, 0).toString()])
+      )
+    );
+    setReference("");
+    setViewingId(order.id);
+  };
+
+  const updateLine = (index: number, changes: Partial<LineDraft>) => {
+    setDraft((current) => ({
+      ...current,
+      lines: current.lines.map((line, i) => (i === index ? { ...line, ...changes } : line)),
+    }));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        supplierId: draft.supplierId,
+        supplier: draft.supplier,
+        expectedDate: draft.expectedDate || null,
+        notes: draft.notes || null,
+        lines: draft.lines.map((line) => {
+          const [itemType, itemId] = line.itemKey.split(":");
+          return {
+            itemType: itemType as StockItemType,
+            itemId,
+            quantityOrdered: parseInt(line.quantityOrdered) || 0,
+            unitPrice: line.unitPrice,
+          };
+        }),
+      };
+      if (editing && editing !== "new") {
+        return await apiRequest("PUT", `/api/purchase-orders/${editing.id}`, body);
+      }
+      return await apiRequest("POST", "/api/purchase-orders", body);
+    },
+    onSuccess: () => {
+      invalidateOrders();
+      toast({ title: editing === "new" ? "Orden de compra creada" : "Orden de compra actualizada" });
+      setEditing(null);
+    },
+    onError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: "sent" | "cancelled" }) => {
+      return await apiRequest("PATCH", `/api/purchase-orders/${id}/status`, { status });
+    },
+    onSuccess: (_, { status }) => {
+      invalidateOrders();
+      toast({ title: status === "sent" ? "Orden enviada al proveedor" : "Orden cancelada" });
+    },
+    onError,
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async () => {
+      if (!viewing) return;
+      return await apiRequest("POST", `/api/purchase-orders/${viewing.id}/receive`, {
+        lines: Object.entries(received).map(([lineId, quantity]) => ({ lineId, quantity: parseInt(quantity) || 0 })),
+        reference: reference || undefined,
+      });
+    },
+    onSuccess: () => {
+      invalidateOrders();
+      queryClient.invalidateQueries({ queryKey: ["/api/paper-types"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/toner-inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/consumption"] });
+      toast({ title: "Recepción registrada", description: "El stock y el gasto se actualizaron" });
+      setViewingId(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/purchase-orders/${id}`);
+    },
+    onSuccess: () => {
+      invalidateOrders();
+      toast({ title: "Orden de compra eliminada" });
+    },
+    onError,
+  });
+
+  const usedKeys = new Set(draft.lines.map((line) => line.itemKey));
+  const draftTotal = draft.lines.reduce(
+    (total, line) => total + (parseInt(line.quantityOrdered) || 0) * (parseFloat(line.unitPrice) || 0),
+    0
+  );
+  const isDraftValid =
+    draft.supplier.trim().length > 0 &&
+    draft.lines.length > 0 &&
+    draft.lines.every(
+      (line) => line.itemKey && (parseInt(line.quantityOrdered) || 0) > 0 && /^\d+(\.\d{1,2})?$/.test(line.unitPrice)
+    );
+  const receivingCount = Object.values(received).filter((quantity) => (parseInt(quantity) || 0) > 0).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="font-display text-3xl font-bold">Órdenes de Compra</h1>
+          <p className="text-muted-foreground mt-1">
+            Pide papel y toner a tus proveedores y registra lo recibido en el inventario
+          </p>
+        </div>
+        <Button onClick={() => openEditor("new")} data-testid="button-add-purchase-order">
+          <Plus className="mr-2 h-4 w-4" />
+          Nueva Orden
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Órdenes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : orders && orders.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>N.º</TableHead>
+                    <TableHead>Proveedor</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead>Fecha esperada</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Recibido</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {orders.map((order) => {
+                    const status = order.status as PurchaseOrderStatus;
+                    return (
+                      <TableRow key={order.id} data-testid={`row-purchase-order-${order.id}`}>
+                        <TableCell className="font-mono text-sm">{formatPurchaseOrderNumber(order.orderNumber)}</TableCell>
+                        <TableCell className="font-medium">{order.supplier}</TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_VARIANTS[status] || "outline"}>
+                            {purchaseOrderStatusLabels[status] || order.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {order.expectedDate
+                            ? format(new Date(order.expectedDate), "dd MMM yyyy", { locale: es })
+                            : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">{toMoney(order.total)}</TableCell>
+                        <TableCell className="text-right">{toMoney(order.receivedTotal)}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex gap-1 justify-end">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openViewer(order)}
+                              title={isReceivable(order) ? "Recibir" : "Ver detalle"}
+                              data-testid={`button-view-purchase-order-${order.id}`}
+                            >
+                              {isReceivable(order) ? <PackageCheck className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                            </Button>
+                            {status === "draft" && (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => statusMutation.mutate({ id: order.id, status: "sent" })}
+                                  title="Marcar como enviada"
+                                >
+                                  <Send className="w-4 h-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => openEditor(order)} title="Editar">
+                                  <Pencil className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => deleteMutation.mutate(order.id)}
+                                  title="Eliminar"
+                                >
+                                  <Trash2 className="w-4 h-4 text-red-500" />
+                                </Button>
+                              </>
+                            )}
+                            {(status === "sent" || status === "partially_received") && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => statusMutation.mutate({ id: order.id, status: "cancelled" })}
+                                title="Cancelar lo pendiente"
+                              >
+                                <Ban className="w-4 h-4 text-red-500" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <ShoppingCart className="h-12 w-12 text-muted-foreground/50 mb-4" />
+              <h3 className="font-semibold text-lg">Sin órdenes de compra</h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                Crea una orden con el papel y el toner que necesitas reponer
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>
+              {editing && editing !== "new"
+                ? `Editar ${formatPurchaseOrderNumber(editing.orderNumber)}`
+                : "Nueva Orden de Compra"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {supplierList && supplierList.length > 0 && (
+              <div className="space-y-2">
+                <Label>Proveedor del catálogo (Opcional)</Label>
+                <Select
+                  value={draft.supplierId || "none"}
+                  onValueChange={(value) => {
+                    const selected = supplierList.find((supplier) => supplier.id === value);
+                    setDraft({
+                      ...draft,
+                      supplierId: selected?.id ?? null,
+                      supplier: selected?.name ?? draft.supplier,
+                    });
+                  }}
+                >
+                  <SelectTrigger data-testid="select-po-supplier">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Otro proveedor</SelectItem>
+                    {supplierList.map((supplier) => (
+                      <SelectItem key={supplier.id} value={supplier.id}>
+                        {supplier.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="po-supplier">Proveedor</Label>
+                <Input
+                  id="po-supplier"
+                  value={draft.supplier}
+                  onChange={(e) => setDraft({ ...draft, supplier: e.target.value })}
+                  placeholder="Ej: Distribuidora Central"
+                  data-testid="input-po-supplier"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="po-expected-date">Fecha esperada (Opcional)</Label>
+                <Input
+                  id="po-expected-date"
+                  type="date"
+                  value={draft.expectedDate}
+                  onChange={(e) => setDraft({ ...draft, expectedDate: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Insumos</Label>
+              {draft.lines.map((line, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                  <Select
+                    value={line.itemKey}
+                    onValueChange={(itemKey) =>
+                      updateLine(index, {
+                        itemKey,
+                        unitPrice: line.unitPrice || suggestedPrice(itemKey),
+                      })
+                    }
+                  >
+                    <SelectTrigger className="flex-1" data-testid={`select-po-item-${index}`}>
+                      <SelectValue placeholder="Selecciona un insumo" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {itemOptions.map((option) => (
+                        <SelectItem
+                          key={option.key}
+                          value={option.key}
+                          disabled={option.key !== line.itemKey && usedKeys.has(option.key)}
+                        >
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="1"
+                    className="w-24"
+                    value={line.quantityOrdered}
+                    onChange={(e) => updateLine(index, { quantityOrdered: e.target.value })}
+                    placeholder="Cant."
+                    data-testid={`input-po-quantity-${index}`}
+                  />
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    className="w-28"
+                    value={line.unitPrice}
+                    onChange={(e) => updateLine(index, { unitPrice: e.target.value })}
+                    placeholder="Precio"
+                    data-testid={`input-po-price-${index}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDraft({ ...draft, lines: draft.lines.filter((_, i) => i !== index) })}
+                    title="Quitar"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setDraft({ ...draft, lines: [...draft.lines, { itemKey: "", quantityOrdered: "1", unitPrice: "" }] })
+                  }
+                  disabled={draft.lines.length >= itemOptions.length}
+                >
+                  <Plus className="mr-1 h-3 w-3" />
+                  Agregar insumo
+                </Button>
+                <span className="text-sm">
+                  Total: <strong>{toMoney(draftTotal)}</strong>
+                </span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="po-notes">Notas (Opcional)</Label>
+              <Textarea
+                id="po-notes"
+                value={draft.notes}
+                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!isDraftValid || saveMutation.isPending}
+              data-testid="button-save-purchase-order"
+            >
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewingId(null)}>
+        <DialogContent className="max-w-3xl">
+          {viewing && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {formatPurchaseOrderNumber(viewing.orderNumber)} · {viewing.supplier}
+                </DialogTitle>
+                <DialogDescription>
+                  {purchaseOrderStatusLabels[viewing.status as PurchaseOrderStatus] || viewing.status}
+                  {viewing.notes ? ` · ${viewing.notes}` : ""}
+                </DialogDescription>
+              </DialogHeader>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Insumo</TableHead>
+                    <TableHead className="text-right">Pedido</TableHead>
+                    <TableHead className="text-right">Recibido</TableHead>
+                    <TableHead className="text-right">Precio</TableHead>
+                    {isReceivable(viewing) && <TableHead className="w-28">Recibir ahora</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {viewing.lines.map((line) => {
+                    const pending = line.quantityOrdered - line.quantityReceived;
+                    return (
+                      <TableRow key={line.id}>
+                        <TableCell>
+                          {line.itemName || <span className="text-muted-foreground">Insumo eliminado</span>}
+                          <div className="text-xs text-muted-foreground">{line.itemType === "paper" ? "Papel" : "Toner"}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{line.quantityOrdered}</TableCell>
+                        <TableCell className="text-right">{line.quantityReceived}</TableCell>
+                        <TableCell className="text-right">{toMoney(parseFloat(line.unitPrice.toString()))}</TableCell>
+                        {isReceivable(viewing) && (
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              max={pending}
+                              className="h-8"
+                              value={received[line.id] ?? "0"}
+                              disabled={pending <= 0}
+                              onChange={(e) => setReceived({ ...received, [line.id]: e.target.value })}
+                              data-testid={`input-receive-${line.id}`}
+                            />
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              {isReceivable(viewing) && (
+                <div className="space-y-2">
+                  <Label htmlFor="po-reference">Remito o factura (Opcional)</Label>
+                  <Input
+                    id="po-reference"
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                    placeholder="Ej: Remito 0001-00012345"
+                  />
+                </div>
+              )}
+
+              {viewing.expenses.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Gastos registrados</Label>
+                  <div className="space-y-1">
+                    {viewing.expenses.map((expense) => (
+                      <div key={expense.id} className="flex justify-between text-sm">
+                        <span>
+                          {format(new Date(expense.date), "dd MMM yyyy", { locale: es })} · {expense.description}
+                        </span>
+                        <span className="font-medium">{toMoney(parseFloat(expense.amount.toString()))}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setViewingId(null)}>
+                  Cerrar
+                </Button>
+                {isReceivable(viewing) && (
+                  <Button
+                    onClick={() => receiveMutation.mutate()}
+                    disabled={receivingCount === 0 || receiveMutation.isPending}
+                    data-testid="button-receive-purchase-order"
+                  >
+                    {receiveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Registrar recepción
+                  </Button>
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,435 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Trash2, Gauge, Building } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Department, PrintQuota, User } from "@shared/schema";
+
+const enforcementLabels: Record<string, string> = {
+  block: "Bloquear",
+  approval: "Requiere aprobación",
+};
+
+type QuotaFormState = {
+  scope: "user" | "department";
+  targetId: string;
+  monthlyPageLimit: string;
+  monthlyColorPageLimit: string;
+  enforcement: "block" | "approval";
+  alertThresholds: string;
+};
+
+const emptyQuotaForm: QuotaFormState = {
+  scope: "user",
+  targetId: "",
+  monthlyPageLimit: "",
+  monthlyColorPageLimit: "",
+  enforcement: "block",
+  alertThresholds: "80, 100",
+};
+
+export default function QuotasPage() {
+  const [isQuotaOpen, setIsQuotaOpen] = useState(false);
+  const [quotaForm, setQuotaForm] = useState<QuotaFormState>(emptyQuotaForm);
+  const [departmentName, setDepartmentName] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: quotas, isLoading } = useQuery<PrintQuota[]>({
+    queryKey: ["/api/quotas"],
+  });
+
+  const { data: departmentList } = useQuery<Department[]>({
+    queryKey: ["/api/departments"],
+  });
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createQuotaMutation = useMutation({
+    mutationFn: async (form: QuotaFormState) => {
+      return await apiRequest("POST", "/api/quotas", {
+        scope: form.scope,
+        userId: form.scope === "user" ? form.targetId : undefined,
+        departmentId: form.scope === "department" ? form.targetId : undefined,
+        monthlyPageLimit: form.monthlyPageLimit ? parseInt(form.monthlyPageLimit) : null,
+        monthlyColorPageLimit: form.monthlyColorPageLimit ? parseInt(form.monthlyColorPageLimit) : null,
+        enforcement: form.enforcement,
+        alertThresholds: form.alertThresholds
+          .split(",")
+          .map((value) => parseInt(value.trim()))
+          .filter((value) => !isNaN(value)),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotas"] });
+      toast({ title: "Cuota creada", description: "La cuota mensual quedó activa" });
+      setQuotaForm(emptyQuotaForm);
+      setIsQuotaOpen(false);
+    },
+    onError,
+  });
+
+  const deleteQuotaMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/quotas/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotas"] });
+      toast({ title: "Eliminada", description: "Se removió la cuota" });
+    },
+    onError,
+  });
+
+  const createDepartmentMutation = useMutation({
+    mutationFn: async (name: string) => {
+      return await apiRequest("POST", "/api/departments", { name });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/departments"] });
+      setDepartmentName("");
+    },
+    onError,
+  });
+
+  const deleteDepartmentMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/departments/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/departments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quotas"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError,
+  });
+
+  const assignDepartmentMutation = useMutation({
+    mutationFn: async ({ userId, departmentId }: { userId: string; departmentId: string | null }) => {
+      return await apiRequest("PATCH", `/api/users/${userId}/department`, { departmentId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError,
+  });
+
+  const getTargetName = (quota: PrintQuota) => {
+    if (quota.scope === "user") {
+      return users?.find((u) => u.id === quota.userId)?.fullName || "Usuario";
+    }
+    return departmentList?.find((d) => d.id === quota.departmentId)?.name || "Departamento";
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Cuotas de Impresión</h1>
+        <Dialog open={isQuotaOpen} onOpenChange={setIsQuotaOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => setQuotaForm(emptyQuotaForm)} className="gap-2">
+              <Plus className="w-4 h-4" />
+              Nueva Cuota
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Nueva Cuota Mensual</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Aplica a</Label>
+                  <Select
+                    value={quotaForm.scope}
+                    onValueChange={(value) =>
+                      setQuotaForm({ ...quotaForm, scope: value as QuotaFormState["scope"], targetId: "" })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="user">Usuario</SelectItem>
+                      <SelectItem value="department">Departamento</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>{quotaForm.scope === "user" ? "Usuario" : "Departamento"}</Label>
+                  <Select
+                    value={quotaForm.targetId}
+                    onValueChange={(value) => setQuotaForm({ ...quotaForm, targetId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Seleccionar" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {quotaForm.scope === "user"
+                        ? users?.map((u) => (
+                            <SelectItem key={u.id} value={u.id}>
+                              {u.fullName}
+                            </SelectItem>
+                          ))
+                        : departmentList?.map((d) => (
+                            <SelectItem key={d.id} value={d.id}>
+                              {d.name}
+                            </SelectItem>
+                          ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="pageLimit">Páginas por mes</Label>
+                  <Input
+                    id="pageLimit"
+                    type="number"
+                    min="1"
+                    value={quotaForm.monthlyPageLimit}
+                    onChange={(e) => setQuotaForm({ ...quotaForm, monthlyPageLimit: e.target.value })}
+                    placeholder="Sin límite"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="colorLimit">Páginas a color por mes</Label>
+                  <Input
+                    id="colorLimit"
+                    type="number"
+                    min="1"
+                    value={quotaForm.monthlyColorPageLimit}
+                    onChange={(e) => setQuotaForm({ ...quotaForm, monthlyColorPageLimit: e.target.value })}
+                    placeholder="Sin límite"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Al exceder la cuota</Label>
+                  <Select
+                    value={quotaForm.enforcement}
+                    onValueChange={(value) =>
+                      setQuotaForm({ ...quotaForm, enforcement: value as QuotaFormState["enforcement"] })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(enforcementLabels).map(([key, label]) => (
+                        <SelectItem key={key} value={key}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="thresholds">Alertas (%)</Label>
+                  <Input
+                    id="thresholds"
+                    value={quotaForm.alertThresholds}
+                    onChange={(e) => setQuotaForm({ ...quotaForm, alertThresholds: e.target.value })}
+                    placeholder="80, 100"
+                  />
+                </div>
+              </div>
+
+              <div className="flex gap-3 justify-end">
+                <Button variant="outline" onClick={() => setIsQuotaOpen(false)}>
+                  Cancelar
+                </Button>
+                <Button
+                  onClick={() => createQuotaMutation.mutate(quotaForm)}
+                  disabled={createQuotaMutation.isPending || !quotaForm.targetId}
+                >
+                  Crear
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {isLoading ? (
+        <Card>
+          <CardContent className="p-8 text-center">Cargando cuotas...</CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Gauge className="w-5 h-5" />
+              Cuotas Mensuales
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Aplica a</TableHead>
+                    <TableHead className="text-right">Páginas</TableHead>
+                    <TableHead className="text-right">Color</TableHead>
+                    <TableHead>Al exceder</TableHead>
+                    <TableHead>Alertas</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {quotas?.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        No hay cuotas configuradas
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {quotas?.map((quota) => (
+                    <TableRow key={quota.id}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="secondary">
+                            {quota.scope === "user" ? "Usuario" : "Departamento"}
+                          </Badge>
+                          {getTargetName(quota)}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{quota.monthlyPageLimit ?? "—"}</TableCell>
+                      <TableCell className="text-right">{quota.monthlyColorPageLimit ?? "—"}</TableCell>
+                      <TableCell>{enforcementLabels[quota.enforcement] || quota.enforcement}</TableCell>
+                      <TableCell>{quota.alertThresholds.map((t) => `${t}%`).join(", ")}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteQuotaMutation.mutate(quota.id)}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building className="w-5 h-5" />
+            Departamentos
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Input
+              value={departmentName}
+              onChange={(e) => setDepartmentName(e.target.value)}
+              placeholder="Nombre del departamento"
+            />
+            <Button
+              onClick={() => createDepartmentMutation.mutate(departmentName)}
+              disabled={createDepartmentMutation.isPending || !departmentName.trim()}
+              className="gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Agregar
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {departmentList?.map((department) => (
+              <Badge key={department.id} variant="outline" className="gap-1">
+                {department.name}
+                <button
+                  type="button"
+                  onClick={() => deleteDepartmentMutation.mutate(department.id)}
+                  title="Eliminar departamento"
+                >
+                  <Trash2 className="w-3 h-3 text-red-500" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Usuario</TableHead>
+                <TableHead>Departamento</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users?.map((u) => (
+                <TableRow key={u.id}>
+                  <TableCell>{u.fullName}</TableCell>
+                  <TableCell>
+                    <Select
+                      value={u.departmentId || "none"}
+                      onValueChange={(value) =>
+                        assignDepartmentMutation.mutate({
+                          userId: u.id,
+                          departmentId: value === "none" ? null : value,
+                        })
+                      }
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Sin departamento</SelectItem>
+                        {departmentList?.map((d) => (
+                          <SelectItem key={d.id} value={d.id}>
+                            {d.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { HardDrive, Loader2, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { supportedUploadTypes } from "@shared/schema";
+import type { StorageReportRow, UpdateRetention, UpdateUploadPolicy } from "@shared/schema";
+
+type PurgeSummary = {
+  expiredFiles: number;
+  orphanedFiles: number;
+  purgedJobs: number;
+  freedBytes: number;
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const formatRetention = (days: number | null) => (days === null ? "Sin límite" : `${days} días`);
+
+const uploadTypeLabels: Record<string, string> = {
+  "application/pdf": "PDF",
+  "image/png": "PNG",
+  "image/jpeg": "JPEG",
+  "image/gif": "GIF",
+  "image/webp": "WEBP",
+  "image/bmp": "BMP",
+  "image/tiff": "TIFF",
+  "text/plain": "Texto plano (TXT)",
+  "application/msword": "Word 97-2003 (DOC)",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "Word (DOCX)",
+};
+
+function UploadPolicyCard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [allowed, setAllowed] = useState<string[]>([]);
+
+  const { data: policy, isLoading } = useQuery<UpdateUploadPolicy>({
+    queryKey: ["/api/upload-policy"],
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setAllowed(policy.allowedUploadTypes);
+    }
+  }, [policy]);
+
+  const toggleType = (type: string, checked: boolean) => {
+    setAllowed((current) => (checked ? [...current, type] : current.filter((t) => t !== type)));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", "/api/upload-policy", { allowedUploadTypes: allowed });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/upload-policy"] });
+      toast({ title: "Tipos de archivo actualizados", description: "Se aplicarán a las próximas subidas" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tipos de Archivo Permitidos</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-3 sm:grid-cols-2 md:grid-cols-3">
+              {supportedUploadTypes.map((type) => (
+                <div key={type} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`upload-type-${type}`}
+                    checked={allowed.includes(type)}
+                    onCheckedChange={(checked) => toggleType(type, checked === true)}
+                    data-testid={`checkbox-upload-type-${type}`}
+                  />
+                  <Label htmlFor={`upload-type-${type}`} className="font-normal">
+                    {uploadTypeLabels[type]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              El tipo se verifica por el contenido del archivo, no por su extensión. Los ejecutables se rechazan siempre.
+            </p>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || allowed.length === 0}
+                data-testid="button-save-upload-policy"
+              >
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Guardar
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RetentionSettingsCard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [documentDays, setDocumentDays] = useState("");
+  const [metadataDays, setMetadataDays] = useState("");
+
+  const { data: retention, isLoading } = useQuery<UpdateRetention>({
+    queryKey: ["/api/retention"],
+  });
+
+  useEffect(() => {
+    if (retention) {
+      setDocumentDays(retention.documentRetentionDays?.toString() ?? "");
+      setMetadataDays(retention.metadataRetentionDays?.toString() ?? "");
+    }
+  }, [retention]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", "/api/retention", {
+        documentRetentionDays: documentDays ? parseInt(documentDays) : null,
+        metadataRetentionDays: metadataDays ? parseInt(metadataDays) : null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/retention"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/storage"] });
+      toast({ title: "Retención actualizada", description: "Los cambios se aplicarán en la próxima purga" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Política de Retención</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <Label htmlFor="document-retention">Conservar documentos (días)</Label>
+                <Input
+                  id="document-retention"
+                  type="number"
+                  min={1}
+                  value={documentDays}
+                  onChange={(e) => setDocumentDays(e.target.value)}
+                  placeholder="Sin límite"
+                  data-testid="input-document-retention"
+                />
+              </div>
+              <div>
+                <Label htmlFor="metadata-retention">Conservar historial de trabajos (días)</Label>
+                <Input
+                  id="metadata-retention"
+                  type="number"
+                  min={30}
+                  value={metadataDays}
+                  onChange={(e) => setMetadataDays(e.target.value)}
+                  placeholder="Sin límite"
+                  data-testid="input-metadata-retention"
+                />
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Los archivos subidos se eliminan del servidor al vencer su plazo; el registro del trabajo se conserva
+              hasta que vence el plazo del historial. Deja un campo vacío para no aplicar límite.
+            </p>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending}
+                data-testid="button-save-retention"
+              >
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Guardar
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function StoragePage() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const isSuperAdmin = user?.role === "super-admin";
+
+  const { data: report, isLoading } = useQuery<StorageReportRow[]>({
+    queryKey: ["/api/reports/storage"],
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<PurgeSummary>("POST", "/api/retention/purge");
+    },
+    onSuccess: (summary) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/storage"] });
+      toast({
+        title: "Purga completada",
+        description: `${summary.expiredFiles} documentos vencidos, ${summary.orphanedFiles} archivos huérfanos y ${summary.purgedJobs} trabajos eliminados (${formatBytes(summary.freedBytes)} liberados)`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const totalBytes = report?.reduce((sum, row) => sum + row.storedBytes, 0) || 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="font-display text-3xl font-bold">Almacenamiento</h1>
+          <p className="text-muted-foreground mt-1">
+            Espacio usado por los documentos subidos, política de retención y tipos de archivo permitidos
+          </p>
+        </div>
+        {isSuperAdmin && (
+          <Button
+            variant="outline"
+            onClick={() => purgeMutation.mutate()}
+            disabled={purgeMutation.isPending}
+            data-testid="button-purge-uploads"
+          >
+            {purgeMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Trash2 className="mr-2 h-4 w-4" />
+            )}
+            Purgar ahora
+          </Button>
+        )}
+      </div>
+
+      {!isSuperAdmin && <RetentionSettingsCard />}
+
+      {!isSuperAdmin && <UploadPolicyCard />}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+          <CardTitle>Uso por Empresa</CardTitle>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <HardDrive className="h-4 w-4" />
+            <span data-testid="text-total-storage">{formatBytes(totalBytes)}</span>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Empresa</TableHead>
+                    <TableHead className="text-right">Documentos</TableHead>
+                    <TableHead className="text-right">Espacio</TableHead>
+                    <TableHead className="text-right">Eliminados</TableHead>
+                    <TableHead>Retención documentos</TableHead>
+                    <TableHead>Retención historial</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report?.map((row) => (
+                    <TableRow key={row.companyId} data-testid={`row-storage-${row.companyId}`}>
+                      <TableCell className="font-medium">{row.companyName}</TableCell>
+                      <TableCell className="text-right">{row.storedFiles.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{formatBytes(row.storedBytes)}</TableCell>
+                      <TableCell className="text-right">{row.deletedFiles.toLocaleString()}</TableCell>
+                      <TableCell>{formatRetention(row.documentRetentionDays)}</TableCell>
+                      <TableCell>{formatRetention(row.metadataRetentionDays)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
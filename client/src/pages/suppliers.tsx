@@ -0,0 +1,479 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Pencil, Trash2, Loader2, Truck, Package, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { PaperType, StockItemType, SupplierWithItems, TonerInventoryWithCompatibility } from "@shared/schema";
+
+type SupplierDraft = {
+  name: string;
+  contactName: string;
+  email: string;
+  phone: string;
+  leadTimeDays: string;
+  notes: string;
+};
+
+const emptyDraft: SupplierDraft = { name: "", contactName: "", email: "", phone: "", leadTimeDays: "7", notes: "" };
+
+type CatalogDraft = {
+  itemKey: string; // "paper:<id>" o "toner:<id>"
+  unitPrice: string;
+  leadTimeDays: string; // vacío: se usa el plazo general del proveedor
+  preferred: boolean;
+};
+
+export default function SuppliersPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<SupplierWithItems | "new" | null>(null);
+  const [draft, setDraft] = useState<SupplierDraft>(emptyDraft);
+  const [catalogId, setCatalogId] = useState<string | null>(null);
+  const [catalog, setCatalog] = useState<CatalogDraft[]>([]);
+
+  const { data: supplierList, isLoading } = useQuery<SupplierWithItems[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const { data: paperTypes } = useQuery<PaperType[]>({
+    queryKey: ["/api/paper-types"],
+  });
+
+  const { data: toners } = useQuery<TonerInventoryWithCompatibility[]>({
+    queryKey: ["/api/toner-inventory"],
+  });
+
+  const itemOptions = [
+    ...(paperTypes || []).map((paper) => ({ key: `paper:${paper.id}`, label: `Papel · ${paper.name}` })),
+    ...(toners || []).map((toner) => ({ key: `toner:${toner.id}`, label: `Toner · ${toner.name}` })),
+  ];
+
+  const catalogSupplier = supplierList?.find((supplier) => supplier.id === catalogId) || null;
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const invalidateSuppliers = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/supply-projections"] });
+  };
+
+  const openEditor = (supplier: SupplierWithItems | "new") => {
+    setDraft(
+      supplier === "new"
+        ? emptyDraft
+        : {
+            name: supplier.name,
+            contactName: supplier.contactName || "",
+            email: supplier.email || "",
+            phone: supplier.phone || "",
+            leadTimeDays: supplier.leadTimeDays.toString(),
+            notes: supplier.notes || "",
+          }
+    );
+    setEditing(supplier);
+  };
+
+  const openCatalog = (supplier: SupplierWithItems) => {
+    setCatalog(
+      supplier.items.map((item) => ({
+        itemKey: `${item.itemType}:${item.itemId}`,
+        unitPrice: item.unitPrice ? parseFloat(item.unitPrice.toString()).toFixed(2) : "",
+        leadTimeDays: item.leadTimeDays?.toString() ?? "",
+        preferred: item.preferred,
+      }))
+    );
+    setCatalogId(supplier.id);
+  };
+
+  const updateCatalogItem = (index: number, changes: Partial<CatalogDraft>) => {
+    setCatalog((current) => current.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: draft.name,
+        contactName: draft.contactName || null,
+        email: draft.email || null,
+        phone: draft.phone || null,
+        leadTimeDays: parseInt(draft.leadTimeDays) || 0,
+        notes: draft.notes || null,
+      };
+      if (editing && editing !== "new") {
+        return await apiRequest("PUT", `/api/suppliers/${editing.id}`, body);
+      }
+      return await apiRequest("POST", "/api/suppliers", body);
+    },
+    onSuccess: () => {
+      invalidateSuppliers();
+      toast({ title: editing === "new" ? "Proveedor creado" : "Proveedor actualizado" });
+      setEditing(null);
+    },
+    onError,
+  });
+
+  const catalogMutation = useMutation({
+    mutationFn: async () => {
+      if (!catalogSupplier) return;
+      return await apiRequest("PUT", `/api/suppliers/${catalogSupplier.id}/items`, {
+        items: catalog.map((item) => {
+          const [itemType, itemId] = item.itemKey.split(":");
+          return {
+            itemType: itemType as StockItemType,
+            itemId,
+            unitPrice: item.unitPrice || null,
+            leadTimeDays: item.leadTimeDays === "" ? null : parseInt(item.leadTimeDays) || 0,
+            preferred: item.preferred,
+          };
+        }),
+      });
+    },
+    onSuccess: () => {
+      invalidateSuppliers();
+      toast({ title: "Catálogo actualizado" });
+      setCatalogId(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/suppliers/${id}`);
+    },
+    onSuccess: () => {
+      invalidateSuppliers();
+      toast({ title: "Proveedor eliminado" });
+    },
+    onError,
+  });
+
+  const usedKeys = new Set(catalog.map((item) => item.itemKey));
+  const isDraftValid = draft.name.trim().length > 0 && /^\d+$/.test(draft.leadTimeDays);
+  const isCatalogValid = catalog.every(
+    (item) =>
+      item.itemKey &&
+      (item.unitPrice === "" || /^\d+(\.\d{1,2})?$/.test(item.unitPrice)) &&
+      (item.leadTimeDays === "" || /^\d+$/.test(item.leadTimeDays))
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="font-display text-3xl font-bold">Proveedores</h1>
+          <p className="text-muted-foreground mt-1">
+            Contactos, precios y plazos de entrega con los que se calcula cuándo reponer cada insumo
+          </p>
+        </div>
+        <Button onClick={() => openEditor("new")} data-testid="button-add-supplier">
+          <Plus className="mr-2 h-4 w-4" />
+          Agregar Proveedor
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Proveedores</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : supplierList && supplierList.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nombre</TableHead>
+                    <TableHead>Contacto</TableHead>
+                    <TableHead className="text-right">Plazo de entrega</TableHead>
+                    <TableHead>Insumos</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {supplierList.map((supplier) => (
+                    <TableRow key={supplier.id} data-testid={`row-supplier-${supplier.id}`}>
+                      <TableCell className="font-medium">{supplier.name}</TableCell>
+                      <TableCell>
+                        {supplier.contactName || <span className="text-muted-foreground">—</span>}
+                        {(supplier.email || supplier.phone) && (
+                          <div className="text-xs text-muted-foreground">
+                            {[supplier.email, supplier.phone].filter(Boolean).join(" · ")}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{supplier.leadTimeDays} día(s)</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {supplier.items.map((item) => (
+                            <Badge key={item.id} variant={item.preferred ? "default" : "outline"} className="text-xs">
+                              {item.itemName || "Insumo eliminado"}
+                            </Badge>
+                          ))}
+                          {supplier.items.length === 0 && <span className="text-sm text-muted-foreground">Sin catálogo</span>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex gap-1 justify-end">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openCatalog(supplier)}
+                            title="Catálogo"
+                            data-testid={`button-supplier-catalog-${supplier.id}`}
+                          >
+                            <Package className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => openEditor(supplier)} title="Editar">
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteMutation.mutate(supplier.id)}
+                            title="Eliminar"
+                            data-testid={`button-delete-supplier-${supplier.id}`}
+                          >
+                            <Trash2 className="w-4 h-4 text-red-500" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <Truck className="h-12 w-12 text-muted-foreground/50 mb-4" />
+              <h3 className="font-semibold text-lg">Sin proveedores registrados</h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                Sin proveedor, las alertas de reposición usan el plazo de entrega por defecto
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing && editing !== "new" ? `Editar ${editing.name}` : "Nuevo Proveedor"}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplier-name">Nombre</Label>
+              <Input
+                id="supplier-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Ej: Distribuidora Central"
+                data-testid="input-supplier-name"
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="supplier-contact">Contacto (Opcional)</Label>
+                <Input
+                  id="supplier-contact"
+                  value={draft.contactName}
+                  onChange={(e) => setDraft({ ...draft, contactName: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier-lead-time">Plazo de entrega (días)</Label>
+                <Input
+                  id="supplier-lead-time"
+                  type="number"
+                  min="0"
+                  value={draft.leadTimeDays}
+                  onChange={(e) => setDraft({ ...draft, leadTimeDays: e.target.value })}
+                  data-testid="input-supplier-lead-time"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier-email">Correo electrónico (Opcional)</Label>
+                <Input
+                  id="supplier-email"
+                  type="email"
+                  value={draft.email}
+                  onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier-phone">Teléfono (Opcional)</Label>
+                <Input
+                  id="supplier-phone"
+                  value={draft.phone}
+                  onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-notes">Notas (Opcional)</Label>
+              <Textarea
+                id="supplier-notes"
+                value={draft.notes}
+                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!isDraftValid || saveMutation.isPending}
+              data-testid="button-save-supplier"
+            >
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!catalogSupplier} onOpenChange={(open) => !open && setCatalogId(null)}>
+        <DialogContent className="max-w-3xl">
+          {catalogSupplier && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Catálogo de {catalogSupplier.name}</DialogTitle>
+                <DialogDescription>
+                  Deja el plazo vacío para usar el general del proveedor ({catalogSupplier.leadTimeDays} día(s)). El
+                  proveedor preferido de un insumo es el que se usa para calcular cuándo reponerlo.
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-2">
+                {catalog.map((item, index) => (
+                  <div key={index} className="flex gap-2 items-center">
+                    <Select value={item.itemKey} onValueChange={(itemKey) => updateCatalogItem(index, { itemKey })}>
+                      <SelectTrigger className="flex-1" data-testid={`select-catalog-item-${index}`}>
+                        <SelectValue placeholder="Selecciona un insumo" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {itemOptions.map((option) => (
+                          <SelectItem
+                            key={option.key}
+                            value={option.key}
+                            disabled={option.key !== item.itemKey && usedKeys.has(option.key)}
+                          >
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      className="w-28"
+                      value={item.unitPrice}
+                      onChange={(e) => updateCatalogItem(index, { unitPrice: e.target.value })}
+                      placeholder="Precio"
+                      data-testid={`input-catalog-price-${index}`}
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      className="w-24"
+                      value={item.leadTimeDays}
+                      onChange={(e) => updateCatalogItem(index, { leadTimeDays: e.target.value })}
+                      placeholder="Días"
+                      data-testid={`input-catalog-lead-time-${index}`}
+                    />
+                    <div className="flex items-center gap-1">
+                      <Checkbox
+                        id={`catalog-preferred-${index}`}
+                        checked={item.preferred}
+                        onCheckedChange={(checked) => updateCatalogItem(index, { preferred: checked === true })}
+                      />
+                      <Label htmlFor={`catalog-preferred-${index}`} className="text-sm font-normal">
+                        Preferido
+                      </Label>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setCatalog(catalog.filter((_, i) => i !== index))}
+                      title="Quitar"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setCatalog([...catalog, { itemKey: "", unitPrice: "", leadTimeDays: "", preferred: false }])
+                  }
+                  disabled={catalog.length >= itemOptions.length}
+                >
+                  <Plus className="mr-1 h-3 w-3" />
+                  Agregar insumo
+                </Button>
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setCatalogId(null)}>
+                  Cancelar
+                </Button>
+                <Button
+                  onClick={() => catalogMutation.mutate()}
+                  disabled={!isCatalogValid || catalogMutation.isPending}
+                  data-testid="button-save-catalog"
+                >
+                  {catalogMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Guardar
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
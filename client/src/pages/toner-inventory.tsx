@@ -3,7 +3,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Plus, Pencil, Trash2 } from "lucide-react";
+import { Plus, Pencil, Trash2, ArrowUpDown, History } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -42,7 +42,15 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import type { TonerInventory } from "@shared/schema";
+import { useAuth } from "@/lib/auth";
+import {
+  StockMovementDialog,
+  StockMovementHistoryDialog,
+  StockReconciliationCard,
+  type StockDialogItem,
+} from "@/components/stock-movement-dialog";
+import { normalizePrinterModel } from "@shared/schema";
+import type { TonerInventoryWithCompatibility, Printer } from "@shared/schema";
 
 const tonerSchema = z.object({
   name: z.string().min(1, "El nombre es requerido"),
@@ -52,10 +60,16 @@ const tonerSchema = z.object({
   stock: z.string().default("0"),
   minStock: z.string().default("5"),
   pricePerUnit: z.string().optional(),
+  pageYield: z.string().optional(),
+  compatibleModels: z.string().default(""), // modelos separados por coma
 });
 
 type TonerFormData = z.infer<typeof tonerSchema>;
 
+function parseModels(value: string): string[] {
+  return value.split(",").map((model) => model.trim()).filter(Boolean);
+}
+
 const colorLabels: Record<string, string> = {
   black: "Negro",
   cyan: "Cian",
@@ -64,14 +78,27 @@ const colorLabels: Record<string, string> = {
   tricolor: "Tricolor",
 };
 
+function toStockItem(toner: TonerInventoryWithCompatibility): StockDialogItem {
+  return {
+    id: toner.id,
+    name: toner.name,
+    stock: toner.stock,
+    unitPrice: toner.pricePerUnit ? parseFloat(toner.pricePerUnit as unknown as string) : null,
+  };
+}
+
 export default function TonerInventoryPage() {
   const [isOpen, setIsOpen] = useState(false);
-  const [editingToner, setEditingToner] = useState<TonerInventory | null>(null);
-  const [deletingToner, setDeletingToner] = useState<TonerInventory | null>(null);
+  const [editingToner, setEditingToner] = useState<TonerInventoryWithCompatibility | null>(null);
+  const [deletingToner, setDeletingToner] = useState<TonerInventoryWithCompatibility | null>(null);
+  const [movingToner, setMovingToner] = useState<TonerInventoryWithCompatibility | null>(null);
+  const [historyToner, setHistoryToner] = useState<TonerInventoryWithCompatibility | null>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user } = useAuth();
+  const canReconcile = user?.role === "admin" || user?.role === "super-admin";
 
-  const { data: tonerList, isLoading } = useQuery<TonerInventory[]>({
+  const { data: tonerList, isLoading } = useQuery<TonerInventoryWithCompatibility[]>({
     queryKey: ["/api/toner-inventory"],
     queryFn: async () => {
       const token = localStorage.getItem("authToken");
@@ -83,6 +110,10 @@ export default function TonerInventoryPage() {
     },
   });
 
+  const { data: printers } = useQuery<Printer[]>({
+    queryKey: ["/api/printers"],
+  });
+
   const form = useForm<TonerFormData>({
     resolver: zodResolver(tonerSchema),
     defaultValues: {
@@ -93,9 +124,25 @@ export default function TonerInventoryPage() {
       stock: "0",
       minStock: "5",
       pricePerUnit: "",
+      pageYield: "",
+      compatibleModels: "",
     },
   });
 
+  // Modelos de las impresoras registradas, para marcarlos sin escribirlos
+  const printerModels = Array.from(
+    new Map((printers || []).map((printer) => [normalizePrinterModel(printer.model), printer.model])).values()
+  ).sort();
+
+  const toggleModel = (model: string) => {
+    const current = parseModels(form.getValues("compatibleModels"));
+    const exists = current.some((entry) => normalizePrinterModel(entry) === normalizePrinterModel(model));
+    const next = exists
+      ? current.filter((entry) => normalizePrinterModel(entry) !== normalizePrinterModel(model))
+      : [...current, model];
+    form.setValue("compatibleModels", next.join(", "));
+  };
+
   const createMutation = useMutation({
     mutationFn: async (data: TonerFormData) => {
       const token = localStorage.getItem("authToken");
@@ -109,6 +156,8 @@ export default function TonerInventoryPage() {
           ...data,
           stock: parseInt(data.stock),
           minStock: parseInt(data.minStock),
+          pageYield: data.pageYield ? parseInt(data.pageYield) : null,
+          compatibleModels: parseModels(data.compatibleModels),
         }),
       });
       if (!res.ok) throw new Error("Error al crear toner");
@@ -134,10 +183,13 @@ export default function TonerInventoryPage() {
           "Content-Type": "application/json",
           Authorization: `Bearer ${token}`,
         },
+        // El stock solo cambia con movimientos de inventario
         body: JSON.stringify({
           ...data,
-          stock: parseInt(data.stock),
+          stock: undefined,
           minStock: parseInt(data.minStock),
+          pageYield: data.pageYield ? parseInt(data.pageYield) : null,
+          compatibleModels: parseModels(data.compatibleModels),
         }),
       });
       if (!res.ok) throw new Error("Error al actualizar toner");
@@ -175,7 +227,7 @@ export default function TonerInventoryPage() {
     },
   });
 
-  const handleEdit = (toner: TonerInventory) => {
+  const handleEdit = (toner: TonerInventoryWithCompatibility) => {
     setEditingToner(toner);
     form.reset({
       name: toner.name,
@@ -185,6 +237,8 @@ export default function TonerInventoryPage() {
       stock: toner.stock.toString(),
       minStock: toner.minStock.toString(),
       pricePerUnit: toner.pricePerUnit?.toString() || "",
+      pageYield: toner.pageYield?.toString() || "",
+      compatibleModels: toner.compatibleModels.join(", "),
     });
     setIsOpen(true);
   };
@@ -197,65 +251,6 @@ export default function TonerInventoryPage() {
     }
   };
 
-  const [adjustingToner, setAdjustingToner] = useState<TonerInventory | null>(null);
-  const [adjustmentType, setAdjustmentType] = useState<"add" | "remove">("add");
-  const [adjustmentQuantity, setAdjustmentQuantity] = useState(0);
-
-  const adjustStockMutation = useMutation({
-    mutationFn: async () => {
-      if (!adjustingToner) return;
-      const token = localStorage.getItem("authToken");
-      const newStock = adjustmentType === "add" 
-        ? (adjustingToner.stock as number) + adjustmentQuantity
-        : (adjustingToner.stock as number) - adjustmentQuantity;
-      
-      const res = await fetch(`/api/toner-inventory/${adjustingToner.id}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          stock: newStock.toString(),
-        }),
-      });
-      if (!res.ok) throw new Error("Error al ajustar");
-      
-      // Register expense when removing stock
-      if (adjustmentType === "remove" && adjustingToner.pricePerUnit) {
-        const expenseAmount = parseFloat(adjustingToner.pricePerUnit as unknown as string) * adjustmentQuantity;
-        await fetch("/api/consumption-expenses", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
-          },
-          body: JSON.stringify({
-            expenseType: "toner_removal",
-            amount: expenseAmount.toString(),
-            description: `Consumo de ${adjustingToner.name}: ${adjustmentQuantity} unidades`,
-          }),
-        }).catch(e => console.error("Error registering expense:", e));
-        
-        queryClient.invalidateQueries({ queryKey: ["/api/consumption"] });
-      }
-      
-      return res.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/toner-inventory"] });
-      toast({ 
-        title: "Stock actualizado", 
-        description: `${adjustmentType === "add" ? "Agregadas" : "Removidas"} ${adjustmentQuantity} unidades` 
-      });
-      setAdjustingToner(null);
-      setAdjustmentQuantity(0);
-    },
-    onError: () => {
-      toast({ title: "Error", description: "No se pudo ajustar stock", variant: "destructive" });
-    },
-  });
-
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -323,10 +318,12 @@ export default function TonerInventoryPage() {
                 </Select>
               </div>
 
-              <div>
-                <Label htmlFor="stock">Stock Actual</Label>
-                <Input id="stock" type="number" {...form.register("stock")} placeholder="0" />
-              </div>
+              {!editingToner && (
+                <div>
+                  <Label htmlFor="stock">Stock Inicial</Label>
+                  <Input id="stock" type="number" {...form.register("stock")} placeholder="0" />
+                </div>
+              )}
 
 
               <div>
@@ -334,6 +331,39 @@ export default function TonerInventoryPage() {
                 <Input id="pricePerUnit" {...form.register("pricePerUnit")} placeholder="$0.00" />
               </div>
 
+              <div>
+                <Label htmlFor="pageYield">Rendimiento (páginas por cartucho)</Label>
+                <Input id="pageYield" type="number" {...form.register("pageYield")} placeholder="Ej: 2500" />
+              </div>
+
+              <div>
+                <Label htmlFor="compatibleModels">Modelos de impresora compatibles</Label>
+                <Input
+                  id="compatibleModels"
+                  {...form.register("compatibleModels")}
+                  placeholder="Vacío = uso general. Ej: LaserJet Pro M404, LaserJet Pro M428"
+                />
+                {printerModels.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {printerModels.map((model) => {
+                      const selected = parseModels(form.watch("compatibleModels")).some(
+                        (entry) => normalizePrinterModel(entry) === normalizePrinterModel(model)
+                      );
+                      return (
+                        <Badge
+                          key={model}
+                          variant={selected ? "default" : "outline"}
+                          className="cursor-pointer"
+                          onClick={() => toggleModel(model)}
+                        >
+                          {model}
+                        </Badge>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
               <div className="flex gap-2 justify-end">
                 <Button variant="outline" onClick={() => setIsOpen(false)}>
                   Cancelar
@@ -350,6 +380,8 @@ export default function TonerInventoryPage() {
         </Dialog>
       </div>
 
+      {canReconcile && <StockReconciliationCard itemType="toner" unitLabel="unidades" />}
+
       {isLoading ? (
         <Card>
           <CardContent className="p-8 text-center">Cargando...</CardContent>
@@ -368,6 +400,7 @@ export default function TonerInventoryPage() {
                     <TableHead>Marca</TableHead>
                     <TableHead>Modelo</TableHead>
                     <TableHead>Color</TableHead>
+                    <TableHead>Compatible con</TableHead>
                     <TableHead className="text-right">Stock</TableHead>
                     <TableHead className="text-right">Precio</TableHead>
                     <TableHead className="text-right">Acciones</TableHead>
@@ -384,38 +417,40 @@ export default function TonerInventoryPage() {
                           {colorLabels[toner.color]}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        {toner.compatibleModels.length > 0 ? (
+                          <div className="flex flex-wrap gap-1">
+                            {toner.compatibleModels.map((model) => (
+                              <Badge key={model} variant="outline">{model}</Badge>
+                            ))}
+                          </div>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">Uso general</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{toner.stock}</TableCell>
                       <TableCell className="text-right">
-                        <div className="flex items-center justify-end gap-2">
+                        ${parseFloat(toner.pricePerUnit?.toString() || "0").toFixed(2)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex gap-2 justify-end">
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => {
-                              setAdjustingToner(toner);
-                              setAdjustmentType("remove");
-                            }}
-                            className="text-red-500 hover:text-red-700"
+                            onClick={() => setMovingToner(toner)}
+                            title="Registrar movimiento"
+                            data-testid={`button-stock-movement-${toner.id}`}
                           >
-                            ↓
+                            <ArrowUpDown className="w-4 h-4" />
                           </Button>
-                          <span className="w-8 text-center">{toner.stock}</span>
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => {
-                              setAdjustingToner(toner);
-                              setAdjustmentType("add");
-                            }}
-                            className="text-green-500 hover:text-green-700"
+                            onClick={() => setHistoryToner(toner)}
+                            title="Historial de movimientos"
                           >
-                            ↑
+                            <History className="w-4 h-4" />
                           </Button>
-                        </div>
-                      </TableCell>
-                      <TableCell className="text-right">
-                        ${parseFloat(toner.pricePerUnit?.toString() || "0").toFixed(2)}
-                      </TableCell>
-                      <TableCell className="text-right">
-                        <div className="flex gap-2 justify-end">
                           <Button
                             variant="ghost"
                             size="sm"
@@ -441,48 +476,19 @@ export default function TonerInventoryPage() {
         </Card>
       )}
 
-      {adjustingToner && (
-        <Dialog open={!!adjustingToner} onOpenChange={() => setAdjustingToner(null)}>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>
-                {adjustmentType === "add" ? "Agregar Stock" : "Remover Stock"}
-              </DialogTitle>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div>
-                <Label>Producto: {adjustingToner.name}</Label>
-              </div>
-              <div>
-                <Label>Stock Actual: {adjustingToner.stock}</Label>
-              </div>
-              <div>
-                <Label htmlFor="quantity">Cantidad</Label>
-                <Input
-                  id="quantity"
-                  type="number"
-                  min="1"
-                  value={adjustmentQuantity}
-                  onChange={(e) => setAdjustmentQuantity(parseInt(e.target.value) || 0)}
-                  placeholder="0"
-                />
-              </div>
-              <div className="flex gap-2 justify-end">
-                <Button variant="outline" onClick={() => setAdjustingToner(null)}>
-                  Cancelar
-                </Button>
-                <Button
-                  onClick={() => adjustStockMutation.mutate()}
-                  disabled={adjustStockMutation.isPending || adjustmentQuantity <= 0}
-                  className={adjustmentType === "add" ? "bg-green-600" : "bg-red-600"}
-                >
-                  Confirmar
-                </Button>
-              </div>
-            </div>
-          </DialogContent>
-        </Dialog>
-      )}
+      <StockMovementDialog
+        itemType="toner"
+        item={movingToner ? toStockItem(movingToner) : null}
+        items={(tonerList || []).map(toStockItem)}
+        unitLabel="unidades"
+        onOpenChange={(open) => !open && setMovingToner(null)}
+      />
+
+      <StockMovementHistoryDialog
+        itemType="toner"
+        item={historyToner ? toStockItem(historyToner) : null}
+        onOpenChange={(open) => !open && setHistoryToner(null)}
+      />
 
       <AlertDialog open={!!deletingToner} onOpenChange={() => setDeletingToner(null)}>
         <AlertDialogContent>
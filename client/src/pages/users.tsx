@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, Pencil, Trash2, Loader2, AlertCircle } from "lucide-react";
+import { Plus, Pencil, Trash2, Loader2, AlertCircle, IdCard } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -50,6 +50,8 @@ import { useAuth } from "@/lib/auth";
 
 export default function UsersPage() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [badgeUser, setBadgeUser] = useState<User | null>(null);
+  const [badgeId, setBadgeId] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { user: currentUser } = useAuth() || {};
@@ -118,6 +120,29 @@ export default function UsersPage() {
     },
   });
 
+  const setBadgeMutation = useMutation({
+    mutationFn: async ({ userId, badgeId }: { userId: string; badgeId: string | null }) => {
+      return await apiRequest("PUT", `/api/users/${userId}/badge`, { badgeId });
+    },
+    onSuccess: (_, { badgeId }) => {
+      toast({
+        title: badgeId ? "Credencial asignada" : "Credencial removida",
+        description: badgeId
+          ? "El usuario puede liberar trabajos con su credencial"
+          : "El usuario ya no puede liberar trabajos con credencial",
+      });
+      setBadgeUser(null);
+      setBadgeId("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al asignar la credencial",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: z.infer<typeof insertUserSchema>) => {
     if (currentUser?.role === "admin" && currentUser?.companyId) {
       data.companyId = currentUser.companyId;
@@ -372,6 +397,17 @@ export default function UsersPage() {
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex items-center justify-end gap-2">
+                          {currentUser?.role === "admin" && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setBadgeUser(user)}
+                              title="Credencial de impresión segura"
+                              data-testid={`button-badge-${user.id}`}
+                            >
+                              <IdCard className="h-4 w-4" />
+                            </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="icon"
@@ -407,6 +443,38 @@ export default function UsersPage() {
           )}
         </CardContent>
       </Card>
+
+      <Dialog open={!!badgeUser} onOpenChange={() => setBadgeUser(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Credencial de Impresión Segura</DialogTitle>
+            <DialogDescription>
+              Tarjeta o credencial con la que {badgeUser?.fullName} libera sus trabajos en la impresora
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            placeholder="ID de la credencial"
+            value={badgeId}
+            onChange={(e) => setBadgeId(e.target.value)}
+            data-testid="input-badge-id"
+          />
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => badgeUser && setBadgeMutation.mutate({ userId: badgeUser.id, badgeId: null })}
+              disabled={setBadgeMutation.isPending}
+            >
+              Quitar credencial
+            </Button>
+            <Button
+              onClick={() => badgeUser && setBadgeMutation.mutate({ userId: badgeUser.id, badgeId })}
+              disabled={setBadgeMutation.isPending || !badgeId.trim()}
+            >
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,305 @@
+import fs from "fs";
+import { StringDecoder } from "string_decoder";
+import { storage } from "./storage";
+import type { CupsIngestSummary } from "@shared/schema";
+
+// Importación del page_log de CUPS. Con el PageLogFormat por defecto cada línea es:
+//   cola usuario job-id [fecha] página copias facturación host nombre-del-trabajo medio caras
+// CUPS escribe una línea por página impresa, o una sola línea "total" con las impresiones del trabajo.
+
+// Archivo que se sigue en segundo plano; sin configurar, solo se importa por la API
+const PAGE_LOG_PATH = process.env.CUPS_PAGE_LOG_PATH;
+const PAGE_LOG_COMPANY_ID = process.env.CUPS_COMPANY_ID;
+export const PAGE_LOG_POLL_MS = parseInt(process.env.CUPS_PAGE_LOG_POLL_MS || "30000", 10);
+// Un trabajo sin páginas nuevas durante este lapso se da por terminado aunque su cola no haya impreso otro
+export const PAGE_LOG_QUIET_MS = parseInt(process.env.CUPS_PAGE_LOG_QUIET_MS || "120000", 10);
+// Lo máximo que se lee del archivo por vez: un page_log histórico no se carga entero en memoria
+const PAGE_LOG_READ_CHUNK_BYTES = 1024 * 1024;
+
+const LINE_PATTERN = /^(\S+) (\S+) (\d+) \[([^\]]+)\] (\d+|total) (\d+)(?: (.*))?$/;
+const DATE_PATTERN = /^(\d{2})\/(\w{3})\/(\d{4}):(\d{2}):(\d{2}):(\d{2}) ([+-]\d{4})$/;
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const SIDES = ["one-sided", "two-sided-long-edge", "two-sided-short-edge"];
+const COLOR_MODES = ["color", "monochrome", "auto", "bi-level", "process-monochrome"];
+
+export type PageLogEntry = {
+  queue: string;
+  user: string;
+  jobId: string;
+  printedAt: Date;
+  page: number | "total";
+  copies: number;
+  jobName?: string;
+  media?: string;
+  sides?: string;
+  colorMode?: string;
+};
+
+type CupsJob = {
+  externalJobId: string;
+  queue: string;
+  user: string;
+  printedAt: Date;
+  pageCount: number;
+  copies: number;
+  jobName: string;
+  media?: string;
+  sides?: string;
+  colorMode?: string;
+};
+
+// [20/May/1999:19:21:05 +0000]
+function parseCupsDate(value: string): Date | null {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return null;
+  const [, day, month, year, hour, minute, second, offset] = match;
+  const monthIndex = MONTHS.indexOf(month);
+  if (monthIndex === -1) return null;
+
+  const iso = `${year}-${String(monthIndex + 1).padStart(2, "0")}-${day}T${hour}:${minute}:${second}${offset.slice(0, 3)}:${offset.slice(3)}`;
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function parsePageLogLine(line: string): PageLogEntry | null {
+  const match = LINE_PATTERN.exec(line.trim());
+  if (!match) return null;
+
+  const [, queue, user, jobId, rawDate, rawPage, rawCopies, rest] = match;
+  const printedAt = parseCupsDate(rawDate);
+  if (!printedAt) return null;
+
+  const entry: PageLogEntry = {
+    queue,
+    user,
+    jobId,
+    printedAt,
+    page: rawPage === "total" ? "total" : parseInt(rawPage, 10),
+    copies: parseInt(rawCopies, 10),
+  };
+
+  // Campos opcionales: facturación, host, nombre (puede tener espacios), medio, caras y modo de color
+  const tokens = rest ? rest.split(" ").filter(Boolean) : [];
+  if (tokens.length > 0 && COLOR_MODES.includes(tokens[tokens.length - 1])) {
+    entry.colorMode = tokens.pop();
+  }
+  if (tokens.length > 0 && SIDES.includes(tokens[tokens.length - 1])) {
+    entry.sides = tokens.pop();
+    entry.media = tokens.pop();
+  }
+  const jobName = tokens.slice(2).join(" ");
+  if (jobName && jobName !== "-") entry.jobName = jobName;
+
+  return entry;
+}
+
+export function parsePageLog(text: string): { entries: PageLogEntry[]; lines: number; invalidLines: number } {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  const entries: PageLogEntry[] = [];
+  for (const line of lines) {
+    const entry = parsePageLogLine(line);
+    if (entry) entries.push(entry);
+  }
+  return { entries, lines: lines.length, invalidLines: lines.length - entries.length };
+}
+
+// Agrupa las líneas por trabajo: las páginas distintas son el conteo y las copias se toman del máximo
+function groupEntries(entries: PageLogEntry[]): CupsJob[] {
+  const jobs = new Map<string, { job: CupsJob; pages: Set<number>; total?: number }>();
+
+  for (const entry of entries) {
+    const externalJobId = `cups:${entry.queue}:${entry.jobId}`;
+    let group = jobs.get(externalJobId);
+    if (!group) {
+      group = {
+        job: {
+          externalJobId,
+          queue: entry.queue,
+          user: entry.user,
+          printedAt: entry.printedAt,
+          pageCount: 0,
+          copies: 1,
+          jobName: entry.jobName || `Trabajo CUPS ${entry.jobId}`,
+          media: entry.media,
+          sides: entry.sides,
+          colorMode: entry.colorMode,
+        },
+        pages: new Set(),
+      };
+      jobs.set(externalJobId, group);
+    }
+
+    if (entry.page === "total") {
+      // En la línea "total" el campo de copias trae las impresiones del trabajo completo
+      group.total = entry.copies;
+    } else {
+      group.pages.add(entry.page);
+      group.job.copies = Math.max(group.job.copies, entry.copies);
+    }
+  }
+
+  return Array.from(jobs.values()).map(({ job, pages, total }) => ({
+    ...job,
+    pageCount: total ?? pages.size,
+    copies: total !== undefined ? 1 : job.copies,
+  }));
+}
+
+function toPaperSize(media?: string): "letter" | "legal" | "a4" | "a3" {
+  const value = media?.toLowerCase() || "";
+  if (value.includes("legal")) return "legal";
+  if (value.includes("a4")) return "a4";
+  if (value.includes("a3")) return "a3";
+  return "letter";
+}
+
+export async function ingestPageLogEntries(companyId: string, entries: PageLogEntry[]): Promise<Omit<CupsIngestSummary, "lines" | "invalidLines">> {
+  const summary = { jobs: 0, created: 0, duplicates: 0, unmatched: 0 };
+  const paperTypes = await storage.getAllPaperTypes(companyId);
+
+  for (const job of groupEntries(entries)) {
+    summary.jobs++;
+    if (job.pageCount < 1) continue;
+
+    if (await storage.hasImportedPrintJob(companyId, job.externalJobId)) {
+      summary.duplicates++;
+      continue;
+    }
+
+    const [printer, user] = await Promise.all([
+      storage.findPrinterByCupsQueue(companyId, job.queue),
+      storage.findUserByCupsUsername(companyId, job.user),
+    ]);
+    if (!printer) await storage.recordCupsUnmatchedName(companyId, "queue", job.queue, job.jobName);
+    if (!user) await storage.recordCupsUnmatchedName(companyId, "user", job.user, job.jobName);
+    if (!printer || !user) {
+      summary.unmatched++;
+      continue;
+    }
+
+    const paperSize = toPaperSize(job.media);
+    const paperType = paperTypes.find((type) => type.size === paperSize);
+
+    // Lo registrado por CUPS ya se imprimió: se descuenta el papel aunque no alcance el stock
+    await storage.createPrintJob(
+      {
+        userId: user.id,
+        printerId: printer.id,
+        documentName: job.jobName,
+        fileName: job.jobName,
+        fileSize: 0,
+        pageCount: job.pageCount,
+        copies: job.copies,
+        duplex: job.sides?.startsWith("two-sided") ?? false,
+        nUp: 1,
+        colorMode: job.colorMode === "color" ? "color" : "bw",
+        paperSize,
+        paperTypeId: paperType?.id,
+        status: "completed",
+        pageCountMismatch: false,
+      },
+      {
+        overrideStock: true,
+        reason: `Importado del page_log de CUPS (cola ${job.queue})`,
+        imported: { source: "cups", externalJobId: job.externalJobId, printedAt: job.printedAt },
+      }
+    );
+    summary.created++;
+  }
+
+  return summary;
+}
+
+export async function ingestPageLog(companyId: string, text: string): Promise<CupsIngestSummary> {
+  const { entries, lines, invalidLines } = parsePageLog(text);
+  const result = await ingestPageLogEntries(companyId, entries);
+  return { lines, invalidLines, ...result };
+}
+
+// Sigue el page_log como "tail -f". Una cola imprime un trabajo a la vez, así que las líneas de un trabajo
+// se retienen hasta que aparece otro trabajo en la misma cola o pasa PAGE_LOG_QUIET_MS sin páginas suyas;
+// así no se importa un trabajo a medio escribir cuando sus páginas se demoran entre dos lecturas.
+export function startPageLogTail(): boolean {
+  if (!PAGE_LOG_PATH || !PAGE_LOG_COMPANY_ID) return false;
+
+  const logPath = PAGE_LOG_PATH;
+  const companyId = PAGE_LOG_COMPANY_ID;
+  let offset = 0;
+  let decoder = new StringDecoder("utf8");
+  let partialLine = "";
+  const pending = new Map<string, { queue: string; entries: PageLogEntry[]; lastSeenAt: number }>();
+  let running = false;
+
+  // Agrega las líneas nuevas a los trabajos retenidos y devuelve las de los trabajos que ya terminaron
+  const collect = (entries: PageLogEntry[], now: number): PageLogEntry[] => {
+    const ready: PageLogEntry[] = [];
+    for (const entry of entries) {
+      const key = `${entry.queue}:${entry.jobId}`;
+      for (const [otherKey, job] of Array.from(pending.entries())) {
+        if (otherKey !== key && job.queue === entry.queue) {
+          ready.push(...job.entries);
+          pending.delete(otherKey);
+        }
+      }
+      const job = pending.get(key) ?? { queue: entry.queue, entries: [], lastSeenAt: now };
+      job.entries.push(entry);
+      job.lastSeenAt = now;
+      pending.set(key, job);
+    }
+    return ready;
+  };
+
+  const poll = async () => {
+    const now = Date.now();
+    const stats = await fs.promises.stat(logPath);
+    if (stats.size < offset) {
+      // El archivo se rotó: se vuelve a leer desde el inicio (los trabajos ya importados se omiten)
+      offset = 0;
+      decoder = new StringDecoder("utf8");
+      partialLine = "";
+    }
+
+    if (stats.size > offset) {
+      const handle = await fs.promises.open(logPath, "r");
+      try {
+        const buffer = Buffer.alloc(Math.min(PAGE_LOG_READ_CHUNK_BYTES, stats.size - offset));
+        while (offset < stats.size) {
+          const { bytesRead } = await handle.read(buffer, 0, Math.min(buffer.length, stats.size - offset), offset);
+          if (bytesRead === 0) break;
+          offset += bytesRead;
+
+          // El decodificador guarda los caracteres multibyte que quedan partidos entre dos lecturas
+          const text = partialLine + decoder.write(buffer.subarray(0, bytesRead));
+          const lastNewline = text.lastIndexOf("\n");
+          partialLine = text.slice(lastNewline + 1);
+          const ready = collect(parsePageLog(text.slice(0, lastNewline + 1)).entries, now);
+          if (ready.length > 0) await ingestPageLogEntries(companyId, ready);
+        }
+      } finally {
+        await handle.close();
+      }
+    }
+
+    const quiet: PageLogEntry[] = [];
+    for (const [key, job] of Array.from(pending.entries())) {
+      if (now - job.lastSeenAt >= PAGE_LOG_QUIET_MS) {
+        quiet.push(...job.entries);
+        pending.delete(key);
+      }
+    }
+    if (quiet.length > 0) await ingestPageLogEntries(companyId, quiet);
+  };
+  setInterval(() => {
+    if (running) return;
+    running = true;
+    poll()
+      .catch((error) => {
+        console.error("Error importing CUPS page_log:", error);
+      })
+      .finally(() => {
+        running = false;
+      });
+  }, PAGE_LOG_POLL_MS).unref();
+
+  return true;
+}
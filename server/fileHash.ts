@@ -0,0 +1,17 @@
+import crypto from "crypto";
+import fs from "fs";
+
+// Huella SHA-256 del contenido subido; dos archivos iguales dan el mismo valor sin importar su nombre
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("error", reject)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")));
+  });
+}
+
+export function isContentHash(value: unknown): value is string {
+  return typeof value === "string" && /^[a-f0-9]{64}$/.test(value);
+}
@@ -0,0 +1,128 @@
+import fs from "fs";
+import path from "path";
+import { PDFDocument } from "pdf-lib";
+import { defaultAllowedUploadTypes } from "@shared/schema";
+
+// Bytes que se leen del inicio del archivo para identificar su tipo real
+const SNIFF_BYTES = 8192;
+
+// Scripts y ejecutables que pasarían como texto plano
+const EXECUTABLE_EXTENSIONS = [
+  ".exe", ".dll", ".com", ".scr", ".msi", ".bat", ".cmd", ".ps1", ".vbs", ".js", ".jar", ".sh", ".app",
+];
+
+// Extensión con que se guarda cada tipo reconocido. Nunca se usa la del nombre original: un .html o .svg
+// subido como texto se serviría con ese tipo
+const STORED_EXTENSIONS: Record<string, string> = {
+  "application/pdf": ".pdf",
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/bmp": ".bmp",
+  "image/tiff": ".tiff",
+  "text/plain": ".txt",
+  "application/msword": ".doc",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": ".docx",
+};
+
+export function getStoredExtension(mimeType: string): string {
+  return STORED_EXTENSIONS[mimeType] || ".bin";
+}
+
+export class UploadValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UploadValidationError";
+  }
+}
+
+function startsWith(buffer: Buffer, signature: number[], offset = 0): boolean {
+  return buffer.length >= offset + signature.length && signature.every((byte, i) => buffer[offset + i] === byte);
+}
+
+function isExecutable(buffer: Buffer): boolean {
+  return (
+    startsWith(buffer, [0x4d, 0x5a]) || // PE (Windows): "MZ"
+    startsWith(buffer, [0x7f, 0x45, 0x4c, 0x46]) || // ELF
+    startsWith(buffer, [0xfe, 0xed, 0xfa, 0xce]) || // Mach-O 32
+    startsWith(buffer, [0xfe, 0xed, 0xfa, 0xcf]) || // Mach-O 64
+    startsWith(buffer, [0xce, 0xfa, 0xed, 0xfe]) ||
+    startsWith(buffer, [0xcf, 0xfa, 0xed, 0xfe]) ||
+    startsWith(buffer, [0xca, 0xfe, 0xba, 0xbe]) || // Mach-O universal / clase Java
+    startsWith(buffer, [0x23, 0x21]) // script con shebang: "#!"
+  );
+}
+
+// Texto plano: sin bytes nulos y UTF-8 válido (se tolera un carácter cortado al final del bloque)
+function isPlainText(buffer: Buffer): boolean {
+  if (buffer.includes(0)) return false;
+  const decoded = buffer.toString("utf-8");
+  const replacements = decoded.split("\uFFFD").length - 1;
+  return replacements <= (buffer.length === SNIFF_BYTES ? 1 : 0);
+}
+
+// Identifica el tipo por su firma binaria, sin confiar en el MIME ni la extensión que envía el navegador
+export function sniffMimeType(buffer: Buffer, originalName: string): string | null {
+  const extension = path.extname(originalName).toLowerCase();
+
+  if (startsWith(buffer, [0x25, 0x50, 0x44, 0x46, 0x2d])) return "application/pdf"; // "%PDF-"
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (buffer.toString("ascii", 0, 6) === "GIF87a" || buffer.toString("ascii", 0, 6) === "GIF89a") return "image/gif";
+  if (buffer.toString("ascii", 0, 4) === "RIFF" && buffer.toString("ascii", 8, 12) === "WEBP") return "image/webp";
+  if (startsWith(buffer, [0x49, 0x49, 0x2a, 0x00]) || startsWith(buffer, [0x4d, 0x4d, 0x00, 0x2a])) return "image/tiff";
+  if (startsWith(buffer, [0x42, 0x4d]) && extension === ".bmp") return "image/bmp";
+
+  // Formatos contenedor: se distinguen por la extensión una vez confirmada la firma
+  if (startsWith(buffer, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]) && extension === ".doc") {
+    return "application/msword";
+  }
+  if (startsWith(buffer, [0x50, 0x4b, 0x03, 0x04]) && extension === ".docx") {
+    return "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+  }
+
+  if (isPlainText(buffer)) return "text/plain";
+
+  return null;
+}
+
+export async function validateUpload(
+  filePath: string,
+  originalName: string,
+  allowedTypes: string[] | null
+): Promise<string> {
+  const handle = await fs.promises.open(filePath, "r");
+  let header: Buffer;
+  try {
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    header = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  if (header.length === 0) {
+    throw new UploadValidationError("El archivo está vacío");
+  }
+
+  if (isExecutable(header) || EXECUTABLE_EXTENSIONS.includes(path.extname(originalName).toLowerCase())) {
+    throw new UploadValidationError("No se permiten archivos ejecutables");
+  }
+
+  const mimeType = sniffMimeType(header, originalName);
+  if (!mimeType || !(allowedTypes || defaultAllowedUploadTypes).includes(mimeType)) {
+    throw new UploadValidationError("El tipo de archivo no está permitido");
+  }
+
+  if (mimeType === "application/pdf") {
+    try {
+      const bytes = await fs.promises.readFile(filePath);
+      await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+    } catch {
+      throw new UploadValidationError("El PDF está dañado o no se puede leer");
+    }
+  }
+
+  return mimeType;
+}
@@ -44,7 +44,7 @@ export async function validateCompanyResource(
 declare global {
   namespace Express {
     interface Request {
-      user?: Omit<User, "password">;
+      user?: Omit<User, "password" | "releasePinHash" | "badgeIdHash">;
     }
   }
 }
@@ -70,7 +70,7 @@ export async function requireAuth(
       return res.status(401).send("Unauthorized");
     }
 
-    const { password, ...userWithoutPassword } = user;
+    const { password, releasePinHash, badgeIdHash, ...userWithoutPassword } = user;
     req.user = userWithoutPassword;
 
     try {
@@ -0,0 +1,95 @@
+import fs from "fs";
+import path from "path";
+import { PDFDocument } from "pdf-lib";
+
+// Parámetros para estimar páginas de texto plano (carta, 12pt, márgenes estándar)
+const TEXT_LINES_PER_PAGE = 60;
+const TEXT_CHARS_PER_LINE = 80;
+
+const IMAGE_EXTENSIONS = [".png", ".jpg", ".jpeg", ".gif", ".bmp", ".webp"];
+const TIFF_EXTENSIONS = [".tif", ".tiff"];
+const TEXT_EXTENSIONS = [".txt", ".csv", ".log", ".md"];
+
+export type PageCountResult = {
+  detectedPageCount: number | null;
+  method: "pdf" | "image" | "tiff" | "text" | "unsupported";
+};
+
+async function countPdfPages(filePath: string): Promise<number> {
+  const bytes = await fs.promises.readFile(filePath);
+  const pdf = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+  return pdf.getPageCount();
+}
+
+// Cuenta los IFD (Image File Directory) de un TIFF; cada IFD es una página
+async function countTiffPages(filePath: string): Promise<number> {
+  const buffer = await fs.promises.readFile(filePath);
+  if (buffer.length < 8) return 0;
+
+  const byteOrder = buffer.toString("ascii", 0, 2);
+  const littleEndian = byteOrder === "II";
+  if (!littleEndian && byteOrder !== "MM") return 0;
+
+  const readUInt16 = (offset: number) => littleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset);
+  const readUInt32 = (offset: number) => littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset);
+
+  let pages = 0;
+  let offset = readUInt32(4);
+  const visited = new Set<number>();
+
+  while (offset > 0 && offset + 2 <= buffer.length && !visited.has(offset)) {
+    visited.add(offset);
+    pages++;
+    const entries = readUInt16(offset);
+    const nextPointer = offset + 2 + entries * 12;
+    if (nextPointer + 4 > buffer.length) break;
+    offset = readUInt32(nextPointer);
+  }
+
+  return pages;
+}
+
+async function countTextPages(filePath: string): Promise<number> {
+  const content = await fs.promises.readFile(filePath, "utf-8");
+  if (content.trim().length === 0) return 1;
+
+  // El salto de página (form feed) fuerza una nueva página
+  return content.split("\f").reduce((total, section) => {
+    const lines = section.split(/\r?\n/).reduce(
+      (sum, line) => sum + Math.max(1, Math.ceil(line.length / TEXT_CHARS_PER_LINE)),
+      0
+    );
+    return total + Math.max(1, Math.ceil(lines / TEXT_LINES_PER_PAGE));
+  }, 0);
+}
+
+export async function countDocumentPages(
+  filePath: string,
+  mimeType: string,
+  originalName: string
+): Promise<PageCountResult> {
+  const extension = path.extname(originalName).toLowerCase();
+
+  try {
+    if (mimeType === "application/pdf" || extension === ".pdf") {
+      return { detectedPageCount: await countPdfPages(filePath), method: "pdf" };
+    }
+
+    if (mimeType === "image/tiff" || TIFF_EXTENSIONS.includes(extension)) {
+      const pages = await countTiffPages(filePath);
+      return { detectedPageCount: pages > 0 ? pages : null, method: "tiff" };
+    }
+
+    if (mimeType.startsWith("image/") || IMAGE_EXTENSIONS.includes(extension)) {
+      return { detectedPageCount: 1, method: "image" };
+    }
+
+    if (mimeType.startsWith("text/") || TEXT_EXTENSIONS.includes(extension)) {
+      return { detectedPageCount: await countTextPages(filePath), method: "text" };
+    }
+  } catch (error) {
+    console.error(`Error counting pages for ${originalName}:`, error);
+  }
+
+  return { detectedPageCount: null, method: "unsupported" };
+}
@@ -0,0 +1,216 @@
+import { storage } from "./storage";
+import { snmpGet } from "./snmp";
+import { probePort } from "./printerProbe";
+import { getSnmpTarget, parsePrinterAddress } from "./printerPoller";
+import { insertPrinterSchema } from "@shared/schema";
+import type {
+  DiscoveredPrinter,
+  DiscoveredPrinterImport,
+  DiscoveryImportResult,
+  Printer,
+  PrinterDiscoveryResult,
+} from "@shared/schema";
+
+// Exploración de un rango de la red en busca de impresoras (IPP 631, JetDirect 9100 y SNMP) para darlas
+// de alta en bloque. Una /22 es suficiente para una oficina y mantiene la exploración en segundos.
+const DISCOVERY_MAX_HOSTS = parseInt(process.env.DISCOVERY_MAX_HOSTS || "1024", 10);
+const DISCOVERY_CONCURRENCY = parseInt(process.env.DISCOVERY_CONCURRENCY || "32", 10);
+const DISCOVERY_TIMEOUT_MS = parseInt(process.env.DISCOVERY_TIMEOUT_MS || "1000", 10);
+
+const IPP_PORT = 631;
+const JETDIRECT_PORT = 9100;
+
+const OID = {
+  sysDescr: "1.3.6.1.2.1.1.1.0",
+  sysName: "1.3.6.1.2.1.1.5.0",
+  hrDeviceDescr: "1.3.6.1.2.1.25.3.2.1.3.1",
+  prtGeneralSerialNumber: "1.3.6.1.2.1.43.5.1.1.17.1",
+  prtMarkerLifeCount: "1.3.6.1.2.1.43.10.2.1.4.1.1",
+};
+
+// El fabricante se deduce del modelo informado; "Hewlett-Packard" se normaliza a HP
+const MANUFACTURERS: Array<[RegExp, string]> = [
+  [/\b(hp|hewlett[- ]packard)\b/i, "HP"],
+  [/\bbrother\b/i, "Brother"],
+  [/\bcanon\b/i, "Canon"],
+  [/\bepson\b/i, "Epson"],
+  [/\bkyocera\b/i, "Kyocera"],
+  [/\blexmark\b/i, "Lexmark"],
+  [/\bricoh\b/i, "Ricoh"],
+  [/\bxerox\b/i, "Xerox"],
+  [/\bkonica\b/i, "Konica Minolta"],
+  [/\bsharp\b/i, "Sharp"],
+  [/\bsamsung\b/i, "Samsung"],
+  [/\btoshiba\b/i, "Toshiba"],
+  [/\boki\b/i, "OKI"],
+];
+
+export class DiscoveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DiscoveryError";
+  }
+}
+
+// Evita dos exploraciones simultáneas de la misma empresa
+const runningScans = new Set<string>();
+
+function toIpNumber(address: string): number | null {
+  const octets = address.split(".").map(Number);
+  if (octets.length !== 4 || octets.some((octet) => !Number.isInteger(octet) || octet < 0 || octet > 255)) {
+    return null;
+  }
+  return ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0;
+}
+
+function fromIpNumber(value: number): string {
+  return [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff].join(".");
+}
+
+// Direcciones de host de un rango CIDR, sin la de red ni la de broadcast (salvo en /31 y /32)
+export function expandCidr(cidr: string): string[] {
+  const [address, prefixText] = cidr.trim().split("/");
+  const base = toIpNumber(address);
+  const prefix = Number(prefixText);
+  if (base === null || !Number.isInteger(prefix) || prefix < 0 || prefix > 32) {
+    throw new DiscoveryError(`Rango CIDR inválido: ${cidr}`);
+  }
+
+  const size = 2 ** (32 - prefix);
+  const network = prefix === 0 ? 0 : (base & (0xffffffff << (32 - prefix))) >>> 0;
+  const first = prefix <= 30 ? network + 1 : network;
+  const last = prefix <= 30 ? network + size - 2 : network + size - 1;
+  if (last - first + 1 > DISCOVERY_MAX_HOSTS) {
+    throw new DiscoveryError(`El rango tiene ${last - first + 1} direcciones; el máximo es ${DISCOVERY_MAX_HOSTS}`);
+  }
+
+  const hosts: string[] = [];
+  for (let value = first; value <= last; value++) hosts.push(fromIpNumber(value));
+  return hosts;
+}
+
+function toText(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function detectManufacturer(model: string | null): string | null {
+  if (!model) return null;
+  return MANUFACTURERS.find(([pattern]) => pattern.test(model))?.[1] ?? null;
+}
+
+function normalizeSerial(serial: string | null | undefined): string | null {
+  return serial?.trim() ? serial.trim().toUpperCase() : null;
+}
+
+// Impresora ya registrada con la misma IP o el mismo número de serie
+function findRegisteredPrinter(
+  printers: Printer[],
+  device: { ipAddress?: string; serialNumber?: string | null }
+): Printer | undefined {
+  const host = device.ipAddress ? parsePrinterAddress(device.ipAddress).host : null;
+  const serial = normalizeSerial(device.serialNumber);
+  return printers.find(
+    (printer) =>
+      (host !== null && printer.ipAddress && parsePrinterAddress(printer.ipAddress).host === host) ||
+      (serial !== null && normalizeSerial(printer.serialNumber) === serial)
+  );
+}
+
+async function probeDevice(host: string): Promise<Omit<DiscoveredPrinter, "registeredPrinterId"> | null> {
+  const [ipp, jetdirect, varbinds] = await Promise.all([
+    probePort(host, IPP_PORT, DISCOVERY_TIMEOUT_MS),
+    probePort(host, JETDIRECT_PORT, DISCOVERY_TIMEOUT_MS),
+    // Sin reintentos: en un rango la mayoría de las direcciones no responde
+    snmpGet({ ...getSnmpTarget(host, 0), timeoutMs: DISCOVERY_TIMEOUT_MS }, Object.values(OID)).catch(() => null),
+  ]);
+
+  const values = new Map((varbinds || []).map(({ oid, value }) => [oid, value]));
+  // Un agente SNMP sin Printer-MIB (router, switch, PC) no es una impresora
+  const isPrinterAgent =
+    values.get(OID.prtGeneralSerialNumber) != null || values.get(OID.prtMarkerLifeCount) != null;
+  if (!ipp && !jetdirect && !isPrinterAgent) return null;
+
+  const protocols: DiscoveredPrinter["protocols"] = [];
+  if (ipp) protocols.push("ipp");
+  if (jetdirect) protocols.push("jetdirect");
+  if (isPrinterAgent) protocols.push("snmp");
+
+  const model = isPrinterAgent
+    ? toText(values.get(OID.hrDeviceDescr)) || toText(values.get(OID.sysDescr))
+    : null;
+
+  return {
+    ipAddress: host,
+    protocols,
+    model,
+    serialNumber: isPrinterAgent ? toText(values.get(OID.prtGeneralSerialNumber)) : null,
+    manufacturer: detectManufacturer(model),
+    sysName: isPrinterAgent ? toText(values.get(OID.sysName)) : null,
+  };
+}
+
+export async function discoverPrinters(cidr: string, companyId: string): Promise<PrinterDiscoveryResult> {
+  const hosts = expandCidr(cidr);
+  if (runningScans.has(companyId)) {
+    throw new DiscoveryError("Ya hay una exploración en curso");
+  }
+  runningScans.add(companyId);
+
+  try {
+    const found: Array<Omit<DiscoveredPrinter, "registeredPrinterId">> = [];
+    // Grupos de direcciones en paralelo: acota los sockets abiertos a la vez
+    for (let i = 0; i < hosts.length; i += DISCOVERY_CONCURRENCY) {
+      const batch = await Promise.all(hosts.slice(i, i + DISCOVERY_CONCURRENCY).map(probeDevice));
+      for (const device of batch) {
+        if (device) found.push(device);
+      }
+    }
+
+    const printers = await storage.getAllPrinters(companyId);
+    return {
+      cidr,
+      scanned: hosts.length,
+      devices: found.map((device) => ({
+        ...device,
+        registeredPrinterId: findRegisteredPrinter(printers, device)?.id ?? null,
+      })),
+    };
+  } finally {
+    runningScans.delete(companyId);
+  }
+}
+
+// Alta en bloque; se omiten los equipos que ya existen en la empresa (por IP o número de serie),
+// incluidos los repetidos dentro del mismo lote
+export async function importDiscoveredPrinters(
+  companyId: string,
+  devices: DiscoveredPrinterImport[]
+): Promise<DiscoveryImportResult> {
+  const printers = await storage.getAllPrinters(companyId);
+  const result: DiscoveryImportResult = { created: [], skipped: [] };
+
+  for (const device of devices) {
+    const existing = findRegisteredPrinter(printers, device);
+    if (existing) {
+      result.skipped.push({ ipAddress: device.ipAddress, reason: `Ya registrada como "${existing.name}"` });
+      continue;
+    }
+
+    const printer = await storage.createPrinter(
+      insertPrinterSchema.parse({
+        name: device.name,
+        location: device.location,
+        model: device.model,
+        ipAddress: device.ipAddress,
+        serialNumber: device.serialNumber || null,
+        manufacturer: device.manufacturer || null,
+        locationId: device.locationId || null,
+        companyId,
+      })
+    );
+    printers.push(printer);
+    result.created.push(printer);
+  }
+
+  return result;
+}
@@ -0,0 +1,206 @@
+import { storage } from "./storage";
+import { snmpGet, snmpWalk, type SnmpTarget, type SnmpVarbind } from "./snmp";
+import { probeHost } from "./printerProbe";
+import type { Printer, PrinterPollResult } from "@shared/schema";
+
+// Cada cuánto se consulta a las impresoras (0 desactiva el sondeo automático)
+export const PRINTER_POLL_INTERVAL_MS = parseInt(process.env.PRINTER_POLL_INTERVAL_MS || "300000", 10);
+
+// Latido TCP, más frecuente que el sondeo SNMP para detectar caídas a tiempo (0 lo desactiva)
+export const PRINTER_HEARTBEAT_INTERVAL_MS = parseInt(process.env.PRINTER_HEARTBEAT_INTERVAL_MS || "60000", 10);
+
+// Comunidad y puerto por defecto; una impresora puede indicar otro puerto en su dirección ("10.0.0.5:1161")
+const SNMP_COMMUNITY = process.env.SNMP_COMMUNITY || "public";
+const SNMP_PORT = parseInt(process.env.SNMP_PORT || "161", 10);
+const SNMP_TIMEOUT_MS = parseInt(process.env.SNMP_TIMEOUT_MS || "2000", 10);
+const SNMP_RETRIES = parseInt(process.env.SNMP_RETRIES || "1", 10);
+
+const OID = {
+  sysDescr: "1.3.6.1.2.1.1.1.0",
+  hrDeviceStatus: "1.3.6.1.2.1.25.3.2.1.5",
+  prtMarkerLifeCount: "1.3.6.1.2.1.43.10.2.1.4",
+  prtMarkerSuppliesColorantIndex: "1.3.6.1.2.1.43.11.1.1.3",
+  prtMarkerSuppliesType: "1.3.6.1.2.1.43.11.1.1.5",
+  prtMarkerSuppliesDescription: "1.3.6.1.2.1.43.11.1.1.6",
+  prtMarkerSuppliesMaxCapacity: "1.3.6.1.2.1.43.11.1.1.8",
+  prtMarkerSuppliesLevel: "1.3.6.1.2.1.43.11.1.1.9",
+  prtMarkerColorantValue: "1.3.6.1.2.1.43.12.1.1.4",
+};
+
+// hrDeviceStatus (Host-Resources-MIB)
+const DEVICE_STATUSES: Record<number, string> = {
+  1: "unknown",
+  2: "running",
+  3: "warning",
+  4: "testing",
+  5: "down",
+};
+
+// PrtMarkerSuppliesTypeTC agrupado en las categorías que se muestran
+const SUPPLY_TYPES: Record<number, string> = {
+  3: "toner",
+  21: "toner",
+  5: "ink",
+  6: "ink",
+  9: "drum",
+  10: "drum",
+  4: "waste",
+  8: "waste",
+};
+
+const COLOR_NAMES: Array<[RegExp, string]> = [
+  [/black|negro|\bk\b/i, "black"],
+  [/cyan|cian/i, "cyan"],
+  [/magenta/i, "magenta"],
+  [/yellow|amarillo/i, "yellow"],
+];
+
+export function parsePrinterAddress(address: string): { host: string; port: number } {
+  const trimmed = address.trim();
+  const bracketed = /^\[([^\]]+)\](?::(\d+))?$/.exec(trimmed); // [::1]:1161
+  if (bracketed) {
+    return { host: bracketed[1], port: bracketed[2] ? parseInt(bracketed[2], 10) : SNMP_PORT };
+  }
+  const hostPort = /^([^:]+):(\d+)$/.exec(trimmed);
+  if (hostPort) {
+    return { host: hostPort[1], port: parseInt(hostPort[2], 10) };
+  }
+  return { host: trimmed, port: SNMP_PORT };
+}
+
+export function getSnmpTarget(address: string, retries = SNMP_RETRIES): SnmpTarget {
+  return {
+    ...parsePrinterAddress(address),
+    community: SNMP_COMMUNITY,
+    timeoutMs: SNMP_TIMEOUT_MS,
+    retries,
+  };
+}
+
+function getTarget(printer: Printer): SnmpTarget {
+  return getSnmpTarget(printer.ipAddress!);
+}
+
+// Filas de una columna indexadas por el sufijo del OID (p. ej. "1.2" para hrDeviceIndex 1, fila 2)
+function byIndex(rows: SnmpVarbind[], column: string): Map<string, SnmpVarbind["value"]> {
+  return new Map(rows.map((row) => [row.oid.slice(column.length + 1), row.value]));
+}
+
+function toLevelPercent(level: SnmpVarbind["value"], maxCapacity: SnmpVarbind["value"]): number | null {
+  // Valores negativos: -1 otro, -2 desconocido, -3 "queda algo"
+  if (typeof level !== "number" || level < 0) return null;
+  if (typeof maxCapacity !== "number" || maxCapacity <= 0) return null;
+  return Math.max(0, Math.min(100, Math.round((level / maxCapacity) * 100)));
+}
+
+function toColor(colorant: SnmpVarbind["value"], description: string): string | null {
+  const source = typeof colorant === "string" && colorant ? colorant : description;
+  const match = COLOR_NAMES.find(([pattern]) => pattern.test(source));
+  return match ? match[1] : typeof colorant === "string" && colorant ? colorant.toLowerCase() : null;
+}
+
+export async function queryPrinter(target: SnmpTarget): Promise<PrinterPollResult> {
+  try {
+    // Un GET simple confirma que el agente responde antes de recorrer las tablas
+    await snmpGet(target, [OID.sysDescr]);
+  } catch (error) {
+    return {
+      reachable: false,
+      deviceStatus: "unreachable",
+      pageCounter: null,
+      supplies: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const walk = (oid: string) => snmpWalk(target, oid);
+  const statusRows = await walk(OID.hrDeviceStatus);
+  const counterRows = await walk(OID.prtMarkerLifeCount);
+  const descriptions = byIndex(await walk(OID.prtMarkerSuppliesDescription), OID.prtMarkerSuppliesDescription);
+  const types = byIndex(await walk(OID.prtMarkerSuppliesType), OID.prtMarkerSuppliesType);
+  const maxCapacities = byIndex(await walk(OID.prtMarkerSuppliesMaxCapacity), OID.prtMarkerSuppliesMaxCapacity);
+  const levels = byIndex(await walk(OID.prtMarkerSuppliesLevel), OID.prtMarkerSuppliesLevel);
+  const colorantIndexes = byIndex(await walk(OID.prtMarkerSuppliesColorantIndex), OID.prtMarkerSuppliesColorantIndex);
+  const colorants = byIndex(await walk(OID.prtMarkerColorantValue), OID.prtMarkerColorantValue);
+
+  const statusValue = statusRows[0]?.value;
+  const counterValue = counterRows[0]?.value;
+
+  const supplies = Array.from(descriptions.entries()).map(([index, rawDescription]) => {
+    const description = String(rawDescription ?? "").trim() || `Consumible ${index}`;
+    // El colorante se indexa por hrDeviceIndex + prtMarkerColorantIndex
+    const deviceIndex = index.split(".")[0];
+    const colorantIndex = colorantIndexes.get(index);
+    const colorant = colorantIndex ? colorants.get(`${deviceIndex}.${colorantIndex}`) : null;
+    const typeValue = types.get(index);
+
+    return {
+      supplyIndex: parseInt(index.split(".").pop() || "0", 10),
+      description,
+      supplyType: (typeof typeValue === "number" && SUPPLY_TYPES[typeValue]) || "other",
+      color: toColor(colorant ?? null, description),
+      levelPercent: toLevelPercent(levels.get(index) ?? null, maxCapacities.get(index) ?? null),
+    };
+  });
+
+  return {
+    reachable: true,
+    deviceStatus: (typeof statusValue === "number" && DEVICE_STATUSES[statusValue]) || "unknown",
+    pageCounter: typeof counterValue === "number" ? counterValue : null,
+    supplies,
+  };
+}
+
+export async function pollPrinter(printer: Printer): Promise<{ printer: Printer; result: PrinterPollResult }> {
+  const target = getTarget(printer);
+  let result = await queryPrinter(target);
+  // Muchas impresoras tienen SNMP deshabilitado: antes de darla por caída se confirma por TCP
+  if (!result.reachable && (await probeHost(target.host)).reachable) {
+    result = { ...result, deviceStatus: "unknown" };
+  }
+  const updated = await storage.recordPrinterPoll(printer, result);
+  return { printer: updated, result };
+}
+
+// Una impresora a la vez: el sondeo es liviano y evita ráfagas de UDP en la red
+export async function pollAllPrinters(): Promise<{ polled: number; offline: number }> {
+  const printers = await storage.getPollablePrinters();
+  let offline = 0;
+  for (const printer of printers) {
+    try {
+      const { printer: updated } = await pollPrinter(printer);
+      if (updated.status === "offline") offline++;
+    } catch (error) {
+      console.error(`Error polling printer ${printer.id}:`, error);
+    }
+  }
+  return { polled: printers.length, offline };
+}
+
+export async function checkPrinterHeartbeat(printer: Printer): Promise<Printer> {
+  const probe = await probeHost(parsePrinterAddress(printer.ipAddress!).host);
+  return storage.recordPrinterHeartbeat(printer, probe);
+}
+
+// Evita que un latido lento (muchas impresoras caídas esperando el timeout) se superponga con el siguiente
+let heartbeatRunning = false;
+
+export async function checkAllPrinterHeartbeats(): Promise<{ checked: number; offline: number }> {
+  if (heartbeatRunning) return { checked: 0, offline: 0 };
+  heartbeatRunning = true;
+  try {
+    const printers = await storage.getPollablePrinters();
+    let offline = 0;
+    for (const printer of printers) {
+      try {
+        const updated = await checkPrinterHeartbeat(printer);
+        if (updated.status === "offline") offline++;
+      } catch (error) {
+        console.error(`Error checking printer ${printer.id}:`, error);
+      }
+    }
+    return { checked: printers.length, offline };
+  } finally {
+    heartbeatRunning = false;
+  }
+}
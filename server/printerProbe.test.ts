@@ -0,0 +1,56 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import net from "net";
+import type { AddressInfo } from "net";
+import { probeHost, probePort, setReachabilityProbe } from "./printerProbe";
+
+afterEach(() => {
+  setReachabilityProbe();
+});
+
+test("probeHost prueba los puertos en orden y devuelve el primero que responde", async () => {
+  const attempts: number[] = [];
+  setReachabilityProbe(async (_host, port) => {
+    attempts.push(port);
+    if (port === 9100) throw new Error("connect ECONNREFUSED");
+  });
+
+  assert.deepEqual(await probeHost("10.0.0.5"), { reachable: true, port: 631 });
+  assert.deepEqual(attempts, [9100, 631]);
+});
+
+test("probeHost informa el último error si ningún puerto responde", async () => {
+  setReachabilityProbe(async (host, port) => {
+    throw new Error(`Sin respuesta en ${host}:${port}`);
+  });
+
+  assert.deepEqual(await probeHost("10.0.0.5"), { reachable: false, error: "Sin respuesta en 10.0.0.5:631" });
+});
+
+test("probePort usa la conexión reemplazada con el timeout indicado", async () => {
+  const calls: Array<[string, number, number]> = [];
+  setReachabilityProbe(async (host, port, timeoutMs) => {
+    calls.push([host, port, timeoutMs]);
+    if (port !== 631) throw new Error("connect ECONNREFUSED");
+  });
+
+  assert.equal(await probePort("10.0.0.5", 631, 500), true);
+  assert.equal(await probePort("10.0.0.5", 9100, 500), false);
+  assert.deepEqual(calls, [["10.0.0.5", 631, 500], ["10.0.0.5", 9100, 500]]);
+});
+
+test("sin reemplazo, probePort vuelve a conectarse por TCP", async () => {
+  const server = net.createServer((socket) => socket.destroy());
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    setReachabilityProbe(async () => {
+      throw new Error("reemplazo activo");
+    });
+    setReachabilityProbe();
+    assert.equal(await probePort("127.0.0.1", port, 1000), true);
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+});
@@ -0,0 +1,67 @@
+import net from "net";
+
+// Comprobación de conectividad por TCP: basta con que la impresora acepte la conexión en alguno de sus
+// puertos de impresión (9100 RAW/JetDirect, 631 IPP). No depende de que tenga SNMP habilitado.
+
+const PROBE_PORTS = (process.env.PRINTER_PROBE_PORTS || "9100,631")
+  .split(",")
+  .map((port) => parseInt(port.trim(), 10))
+  .filter((port) => port > 0 && port < 65536);
+const PROBE_TIMEOUT_MS = parseInt(process.env.PRINTER_PROBE_TIMEOUT_MS || "2000", 10);
+
+export type ProbeResult = {
+  reachable: boolean;
+  port?: number;
+  error?: string;
+};
+
+export type ReachabilityProbe = (host: string, port: number, timeoutMs: number) => Promise<void>;
+
+function tcpConnect(host: string, port: number, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect({ host, port });
+    socket.setTimeout(timeoutMs);
+    socket.once("connect", () => {
+      socket.destroy();
+      resolve();
+    });
+    socket.once("timeout", () => {
+      socket.destroy();
+      reject(new Error(`Sin respuesta en ${host}:${port}`));
+    });
+    socket.once("error", (error) => {
+      socket.destroy();
+      reject(error);
+    });
+  });
+}
+
+let probe: ReachabilityProbe = tcpConnect;
+
+// Reemplaza la conexión real (p. ej. en pruebas o con un simulador); sin argumento vuelve a TCP
+export function setReachabilityProbe(replacement?: ReachabilityProbe): void {
+  probe = replacement || tcpConnect;
+}
+
+export async function probeHost(host: string): Promise<ProbeResult> {
+  let lastError = "";
+  for (const port of PROBE_PORTS) {
+    try {
+      await probe(host, port, PROBE_TIMEOUT_MS);
+      return { reachable: true, port };
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+  }
+  return { reachable: false, error: lastError || "Sin puertos configurados" };
+}
+
+// Un puerto concreto, con la misma conexión reemplazable; la usa la exploración de red
+export async function probePort(host: string, port: number, timeoutMs = PROBE_TIMEOUT_MS): Promise<boolean> {
+  try {
+    await probe(host, port, timeoutMs);
+    return true;
+  } catch {
+    return false;
+  }
+}
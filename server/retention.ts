@@ -0,0 +1,83 @@
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+
+// Cada cuánto se ejecuta la purga de documentos vencidos y archivos huérfanos
+export const UPLOAD_PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Un archivo sin trabajo asociado puede ser una subida en curso; se espera antes de borrarlo
+const ORPHAN_GRACE_MS = 60 * 60 * 1000;
+
+export type PurgeSummary = {
+  expiredFiles: number;
+  orphanedFiles: number;
+  purgedJobs: number;
+  freedBytes: number;
+};
+
+// Borra un documento subido; devuelve los bytes liberados (0 si ya no existía)
+export async function deleteStoredFile(uploadsDir: string, filePath: string): Promise<number> {
+  const target = path.join(uploadsDir, path.basename(filePath));
+  try {
+    const stats = await fs.promises.stat(target);
+    await fs.promises.unlink(target);
+    return stats.size;
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return 0;
+    throw error;
+  }
+}
+
+export async function purgeUploads(uploadsDir: string): Promise<PurgeSummary> {
+  const summary: PurgeSummary = { expiredFiles: 0, orphanedFiles: 0, purgedJobs: 0, freedBytes: 0 };
+
+  // 1. Documentos que superaron la retención de su empresa
+  const expiredJobs = await storage.getPrintJobsWithExpiredFiles();
+  const deletedIds: string[] = [];
+  for (const job of expiredJobs) {
+    try {
+      if (job.filePath) {
+        summary.freedBytes += await deleteStoredFile(uploadsDir, job.filePath);
+      }
+      if (job.thumbnailPath) {
+        summary.freedBytes += await deleteStoredFile(uploadsDir, job.thumbnailPath);
+      }
+      deletedIds.push(job.id);
+    } catch (error) {
+      console.error(`Error deleting expired upload for print job ${job.id}:`, error);
+    }
+  }
+  await storage.markPrintJobFilesDeleted(deletedIds);
+  summary.expiredFiles = deletedIds.length;
+
+  // 2. Historial de trabajos que superó la retención de metadatos
+  const { purgedJobs, filePaths } = await storage.purgeExpiredPrintJobs();
+  summary.purgedJobs = purgedJobs;
+  for (const filePath of filePaths) {
+    try {
+      summary.freedBytes += await deleteStoredFile(uploadsDir, filePath);
+    } catch (error) {
+      console.error(`Error deleting upload ${filePath}:`, error);
+    }
+  }
+
+  // 3. Archivos que ningún trabajo referencia (p. ej. de usuarios eliminados)
+  const referenced = new Set((await storage.getReferencedUploadPaths()).map((filePath) => path.basename(filePath)));
+  const entries = await fs.promises.readdir(uploadsDir, { withFileTypes: true });
+  for (const entry of entries) {
+    if (!entry.isFile() || referenced.has(entry.name)) continue;
+
+    const target = path.join(uploadsDir, entry.name);
+    try {
+      const stats = await fs.promises.stat(target);
+      if (Date.now() - stats.mtimeMs < ORPHAN_GRACE_MS) continue;
+      await fs.promises.unlink(target);
+      summary.orphanedFiles++;
+      summary.freedBytes += stats.size;
+    } catch (error) {
+      console.error(`Error deleting orphaned upload ${entry.name}:`, error);
+    }
+  }
+
+  return summary;
+}
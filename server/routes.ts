@@ -1,12 +1,39 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
-import express from "express";
 import multer from "multer";
 import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
 import path from "path";
 import fs from "fs";
-import { storage, db, sql } from "./storage";
+import crypto from "crypto";
+import {
+  storage,
+  db,
+  sql,
+  InsufficientStockError,
+  InvalidStatusTransitionError,
+  MeterReadingError,
+  LocationError,
+  PurchaseOrderError,
+  PULL_PRINT_EXPIRY_HOURS,
+  DUPLICATE_WINDOW_DAYS,
+  getPullPrintExpiry,
+} from "./storage";
+import { countDocumentPages } from "./pageCounter";
+import { createSignedFileUrl, verifySignedFileUrl, type FileDisposition } from "./signedUrls";
+import { purgeUploads, deleteStoredFile, UPLOAD_PURGE_INTERVAL_MS } from "./retention";
+import { validateUpload, getStoredExtension, UploadValidationError } from "./fileValidation";
+import { generateThumbnail } from "./thumbnails";
+import { hashFile, isContentHash } from "./fileHash";
+import { ingestPageLog, startPageLogTail } from "./cupsPageLog";
+import {
+  pollAllPrinters,
+  pollPrinter,
+  checkAllPrinterHeartbeats,
+  PRINTER_POLL_INTERVAL_MS,
+  PRINTER_HEARTBEAT_INTERVAL_MS,
+} from "./printerPoller";
+import { discoverPrinters, importDiscoveredPrinters, DiscoveryError } from "./printerDiscovery";
 import { requireAuth, requireRole, requireCompanyAccess, validateCompanyResource, clearSecurityContext, validateMultiTenantIntegrity, requireStrictCompanyAccess } from "./middleware/auth";
 import {
   insertUserSchema,
@@ -18,6 +45,45 @@ import {
   insertTonerInventorySchema,
   insertMaintenanceLogSchema,
   insertConsumptionExpenseSchema,
+  updatePrintJobStatusSchema,
+  printJobSearchSchema,
+  updateRetentionSchema,
+  updateUploadPolicySchema,
+  cupsPageLogSchema,
+  mapCupsNameSchema,
+  insertPrinterMeterReadingSchema,
+  tonerCompatibilitySchema,
+  meterReconciliationQuerySchema,
+  defaultAllowedUploadTypes,
+  isPrintJobTransitionAllowed,
+  calculateImpressions,
+  insertDepartmentSchema,
+  insertPrintQuotaSchema,
+  updatePrintQuotaSchema,
+  insertApprovalPolicySchema,
+  updateApprovalPolicySchema,
+  reviewPrintJobSchema,
+  setReleasePinSchema,
+  setBadgeIdSchema,
+  releaseCredentialsSchema,
+  calculatePrinterDepreciation,
+  insertLocationSchema,
+  updateLocationSchema,
+  locationFilterSchema,
+  formatLocationPath,
+  getCapabilityViolations,
+  printerDiscoverySchema,
+  importDiscoveredPrintersSchema,
+  insertStockMovementSchema,
+  stockTransferSchema,
+  stockMovementQuerySchema,
+  insertPurchaseOrderSchema,
+  updatePurchaseOrderSchema,
+  updatePurchaseOrderStatusSchema,
+  receivePurchaseOrderSchema,
+  insertSupplierSchema,
+  updateSupplierSchema,
+  supplierItemsSchema,
   users,
   printers,
   printJobs,
@@ -26,6 +92,7 @@ import {
   maintenanceLogs,
   consumptionExpenses,
 } from "@shared/schema";
+import type { User, StockItemType } from "@shared/schema";
 import { z } from "zod";
 import { eq } from "drizzle-orm";
 
@@ -38,13 +105,143 @@ const upload = multer({
   storage: multer.diskStorage({
     destination: uploadsDir,
     filename: (req, file, cb) => {
-      const uniqueName = `${Date.now()}-${Math.random().toString(36).substring(7)}${path.extname(file.originalname)}`;
+      // La extensión se agrega al validar el archivo, según su tipo real
+      const uniqueName = `${Date.now()}-${Math.random().toString(36).substring(7)}`;
       cb(null, uniqueName);
     },
   }),
   limits: { fileSize: 10 * 1024 * 1024 },
 });
 
+// "flag" registra el trabajo con las páginas detectadas y marca la diferencia; "reject" lo rechaza
+const PAGE_COUNT_MISMATCH_POLICY = process.env.PAGE_COUNT_MISMATCH_POLICY === "reject" ? "reject" : "flag";
+
+// Cada cuánto se buscan trabajos de impresión segura vencidos
+const PULL_PRINT_EXPIRY_CHECK_MS = 15 * 60 * 1000;
+
+// Revisión diaria de garantías por vencer
+const WARRANTY_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Campos con comas, comillas o saltos de línea (nombres, ubicaciones) no deben romper las columnas, y un
+// texto que empieza con =, +, - o @ (salvo un número negativo) no debe convertirse en fórmula en una planilla
+function toCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+  if (typeof value === "string" && /^[=+\-@]/.test(text) && !/^-\d+(\.\d+)?$/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Bloqueo temporal de una cuenta tras varios intentos fallidos de PIN/credencial
+const RELEASE_MAX_ATTEMPTS = 5;
+const RELEASE_LOCKOUT_MS = 15 * 60 * 1000;
+const RELEASE_ATTEMPTS_MAX_ENTRIES = 10000;
+const releaseAttempts = new Map<string, { failures: number; lockedUntil: number; lastFailureAt: number }>();
+
+function hashBadgeId(badgeId: string): string {
+  return crypto.createHash("sha256").update(badgeId.trim()).digest("hex");
+}
+
+// Insumo (papel o toner) visible para el usuario; undefined si no existe o es de otra empresa
+async function getCompanyStockItem(itemType: StockItemType, itemId: string, user: Pick<User, "role" | "companyId">) {
+  const item = itemType === "paper" ? await storage.getPaperType(itemId) : await storage.getTonerInventory(itemId);
+  if (!item || (user.role !== "super-admin" && item.companyId !== user.companyId)) return undefined;
+  return item;
+}
+
+// Los insumos de una orden de compra deben ser de la empresa que la emite
+async function findForeignOrderItem(lines: Array<{ itemType?: StockItemType; itemId?: string }>, companyId: string) {
+  for (const line of lines) {
+    const item = await getCompanyStockItem(line.itemType, line.itemId, { role: "admin", companyId });
+    if (!item) return line;
+  }
+  return undefined;
+}
+
+async function getCompanyPurchaseOrder(id: string, user: Pick<User, "role" | "companyId">) {
+  const order = await storage.getPurchaseOrder(id);
+  if (!order || (user.role !== "super-admin" && order.companyId !== user.companyId)) return undefined;
+  return order;
+}
+
+async function getCompanySupplier(id: string, user: Pick<User, "role" | "companyId">) {
+  const supplier = await storage.getSupplier(id);
+  if (!supplier || (user.role !== "super-admin" && supplier.companyId !== user.companyId)) return undefined;
+  return supplier;
+}
+
+// Una orden de compra solo puede asociarse a un proveedor de su propia empresa
+async function isCompanySupplier(supplierId: string | null | undefined, companyId: string | null | undefined): Promise<boolean> {
+  if (!supplierId) return true;
+  const supplier = await storage.getSupplier(supplierId);
+  return !!supplier && supplier.companyId === companyId;
+}
+
+// Una impresora o un usuario solo puede ubicarse en un nodo de su propia empresa
+async function isCompanyLocation(locationId: string | null | undefined, companyId: string | null | undefined): Promise<boolean> {
+  if (!locationId) return true;
+  const location = await storage.getLocation(locationId);
+  return !!location && location.companyId === companyId;
+}
+
+type ReleaseAuthResult = { user: User } | { status: number; message: string };
+
+// Registra un intento fallido de la cuenta; al llegar al máximo la bloquea por RELEASE_LOCKOUT_MS
+function recordReleaseFailure(attemptKey: string, now: number) {
+  // Se descartan los contadores viejos y, si aun así hay demasiados, los más antiguos
+  for (const [key, entry] of Array.from(releaseAttempts.entries())) {
+    if (Math.max(entry.lockedUntil, entry.lastFailureAt + RELEASE_LOCKOUT_MS) <= now) releaseAttempts.delete(key);
+  }
+  while (releaseAttempts.size >= RELEASE_ATTEMPTS_MAX_ENTRIES) {
+    releaseAttempts.delete(releaseAttempts.keys().next().value);
+  }
+
+  const failures = (releaseAttempts.get(attemptKey)?.failures || 0) + 1;
+  const locked = failures >= RELEASE_MAX_ATTEMPTS;
+  releaseAttempts.delete(attemptKey);
+  releaseAttempts.set(attemptKey, {
+    failures: locked ? 0 : failures,
+    lockedUntil: locked ? now + RELEASE_LOCKOUT_MS : 0,
+    lastFailureAt: now,
+  });
+}
+
+// Una impresora inexistente o de otra empresa responde igual que una credencial incorrecta, para que no
+// sirva de oráculo para adivinar el PIN cambiando la impresora en cada intento
+async function authenticateReleaseCaller(
+  printerId: string,
+  credentials: { username?: string; pin?: string; badgeId?: string }
+): Promise<ReleaseAuthResult> {
+  const invalid = { status: 401, message: "Credenciales de liberación inválidas" };
+  const printer = await storage.getPrinter(printerId);
+  if (!printer) return invalid;
+
+  // El bloqueo es por cuenta (usuario o credencial), no por impresora
+  const badgeHash = credentials.badgeId ? hashBadgeId(credentials.badgeId) : null;
+  const attemptKey = badgeHash ? `badge:${badgeHash}` : `user:${(credentials.username || "").toLowerCase()}`;
+  const now = Date.now();
+  if ((releaseAttempts.get(attemptKey)?.lockedUntil || 0) > now) {
+    return { status: 429, message: "Demasiados intentos fallidos. Intenta más tarde" };
+  }
+
+  let user: User | undefined;
+  if (badgeHash) {
+    user = await storage.getUserByBadgeIdHash(badgeHash);
+  } else if (credentials.username && credentials.pin) {
+    const candidate = await storage.getUserByUsername(credentials.username);
+    if (candidate?.releasePinHash && (await bcrypt.compare(credentials.pin, candidate.releasePinHash))) {
+      user = candidate;
+    }
+  }
+
+  if (!user || printer.companyId !== user.companyId) {
+    recordReleaseFailure(attemptKey, now);
+    return invalid;
+  }
+
+  releaseAttempts.delete(attemptKey);
+  return { user };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   if (!process.env.SESSION_SECRET) {
     console.warn(
@@ -55,45 +252,149 @@ export async function registerRoutes(app: Express): Promise<Server> {
   await storage.initializeDatabase();
   await storage.initializeSuperAdmin();
 
-  app.use("/uploads", express.static(uploadsDir));
+  // Saldo inicial en el libro de movimientos para los insumos que aún no tienen movimientos
+  await storage.reconcileStockLedger(undefined, null, true).catch(error => {
+    console.error("Error recording opening stock balances:", error);
+  });
+
+  // Vencimiento automático de trabajos de impresión segura que nadie liberó
+  setInterval(() => {
+    storage.expireHeldJobs().catch(error => {
+      console.error("Error expiring held print jobs:", error);
+    });
+  }, PULL_PRINT_EXPIRY_CHECK_MS).unref();
+
+  // Purga de documentos según la retención de cada empresa y de archivos huérfanos
+  setInterval(() => {
+    purgeUploads(uploadsDir).catch(error => {
+      console.error("Error purging uploads:", error);
+    });
+  }, UPLOAD_PURGE_INTERVAL_MS).unref();
+
+  // Estado y niveles de consumibles de las impresoras por SNMP
+  if (PRINTER_POLL_INTERVAL_MS > 0) {
+    setInterval(() => {
+      pollAllPrinters().catch(error => {
+        console.error("Error polling printers:", error);
+      });
+    }, PRINTER_POLL_INTERVAL_MS).unref();
+  }
+
+  // Latido TCP: detecta impresoras caídas y registra sus periodos sin conexión
+  if (PRINTER_HEARTBEAT_INTERVAL_MS > 0) {
+    setInterval(() => {
+      checkAllPrinterHeartbeats().catch(error => {
+        console.error("Error checking printer heartbeats:", error);
+      });
+    }, PRINTER_HEARTBEAT_INTERVAL_MS).unref();
+  }
+
+  // Avisos de garantías de impresoras próximas a vencer
+  setInterval(() => {
+    storage.generateWarrantyAlerts().catch(error => {
+      console.error("Error generating warranty alerts:", error);
+    });
+  }, WARRANTY_CHECK_INTERVAL_MS).unref();
+
+  // Captura automática de trabajos desde el page_log de CUPS (si está configurado)
+  startPageLogTail();
 
-  app.get("/api/files/download/:filename", requireAuth, clearSecurityContext, (req, res) => {
+  // Enlace firmado y de corta duración para ver o descargar el documento de un trabajo
+  app.get("/api/print-jobs/:id/file-url", requireAuth, async (req, res) => {
     try {
-      const filename = req.params.filename;
-      const filePath = path.join(uploadsDir, filename);
-      
-      if (!filePath.startsWith(uploadsDir)) {
-        return res.status(403).send("Forbidden");
+      const disposition: FileDisposition = req.query.disposition === "download" ? "download" : "view";
+
+      const job = await storage.getPrintJob(req.params.id);
+      if (!job) {
+        return res.status(404).send("Print job not found");
       }
-      
-      if (!fs.existsSync(filePath)) {
-        return res.status(404).send("File not found");
+
+      const owner = await storage.getUser(job.userId);
+      if (req.user.role !== "super-admin" && (!owner || owner.companyId !== req.user.companyId)) {
+        return res.status(403).send("No puedes acceder a documentos de otra empresa");
       }
-      
-      res.download(filePath);
+
+      if (!job.filePath) {
+        return res.status(404).send("Este trabajo se importó sin documento");
+      }
+      if (job.fileDeletedAt) {
+        return res.status(410).send("El documento fue eliminado por la política de retención");
+      }
+
+      res.json(createSignedFileUrl(job.id, disposition, req.user.id));
     } catch (error) {
-      console.error("Download file error:", error);
-      res.status(500).send("Failed to download file");
+      console.error("Create file URL error:", error);
+      res.status(500).send("Failed to create file URL");
     }
   });
 
-  app.get("/api/files/view/:filename", (req, res) => {
+  // Sin JWT: la firma del enlace identifica al usuario y se vuelve a validar su empresa
+  app.get("/api/files/:jobId/:disposition", async (req, res) => {
     try {
-      const filename = req.params.filename;
-      const filePath = path.join(uploadsDir, filename);
-      
-      if (!filePath.startsWith(uploadsDir)) {
-        return res.status(403).send("Forbidden");
+      const disposition = req.params.disposition;
+      if (disposition !== "view" && disposition !== "download" && disposition !== "thumbnail") {
+        return res.status(404).send("File not found");
       }
-      
-      if (!fs.existsSync(filePath)) {
+
+      const userId = verifySignedFileUrl(req.params.jobId, disposition, req.query);
+      if (!userId) {
+        return res.status(403).send("El enlace no es válido o ya venció");
+      }
+
+      const [requester, job] = await Promise.all([
+        storage.getUser(userId),
+        storage.getPrintJob(req.params.jobId),
+      ]);
+      if (!requester || !job) {
         return res.status(404).send("File not found");
       }
-      
-      res.sendFile(filePath);
+
+      const owner = await storage.getUser(job.userId);
+      const companyId = owner?.companyId;
+      if (!companyId || (requester.role !== "super-admin" && requester.companyId !== companyId)) {
+        return res.status(403).send("No puedes acceder a documentos de otra empresa");
+      }
+
+      if (job.fileDeletedAt) {
+        return res.status(410).send("El documento fue eliminado por la política de retención");
+      }
+
+      // La miniatura es solo una vista previa: no se registra como descarga
+      if (disposition === "thumbnail") {
+        const thumbnailPath = job.thumbnailPath && path.join(uploadsDir, path.basename(job.thumbnailPath));
+        if (!thumbnailPath || !fs.existsSync(thumbnailPath)) {
+          return res.status(404).send("File not found");
+        }
+        res.setHeader("Cache-Control", "private, max-age=300");
+        res.setHeader("X-Content-Type-Options", "nosniff");
+        res.setHeader("Content-Security-Policy", "sandbox");
+        return res.sendFile(thumbnailPath);
+      }
+
+      const filePath = job.filePath && path.join(uploadsDir, path.basename(job.filePath));
+      if (!filePath || !fs.existsSync(filePath)) {
+        return res.status(404).send("File not found");
+      }
+
+      await storage.recordFileAccess(job, companyId, requester.id, disposition, {
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      // El tipo sale del contenido validado al subirlo, no de la extensión del archivo, y el documento se
+      // muestra aislado del origen de la aplicación
+      res.setHeader("Cache-Control", "private, no-store");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Content-Security-Policy", "sandbox");
+      res.type(job.mimeType || "application/octet-stream");
+      if (disposition === "download") {
+        res.download(filePath, job.fileName);
+      } else {
+        res.sendFile(filePath);
+      }
     } catch (error) {
-      console.error("View file error:", error);
-      res.status(500).send("Failed to view file");
+      console.error("Serve file error:", error);
+      res.status(500).send("Failed to serve file");
     }
   });
 
@@ -224,7 +525,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           .select()
           .from(users)
           .where(eq(users.role, "admin"));
-        const result = adminUsers.map(({ password, ...user }) => user);
+        const result = adminUsers.map(({ password, releasePinHash, badgeIdHash, ...user }) => user);
         res.json(result);
       }
     } catch (error) {
@@ -297,6 +598,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).send("No puedes eliminar usuarios de otra empresa");
       }
 
+      // Los documentos de sus trabajos se borran junto con el historial
+      const userJobs = await sql`SELECT file_path, thumbnail_path FROM print_jobs WHERE user_id = ${req.params.id} AND file_deleted_at IS NULL`;
+      for (const job of userJobs) {
+        for (const storedPath of [job.file_path, job.thumbnail_path].filter(Boolean)) {
+          await deleteStoredFile(uploadsDir, storedPath).catch(error => {
+            console.error("Error deleting upload of removed user:", error);
+          });
+        }
+      }
+
+      await sql`DELETE FROM print_job_events WHERE print_job_id IN (SELECT id FROM print_jobs WHERE user_id = ${req.params.id})`;
       await sql`DELETE FROM print_jobs WHERE user_id = ${req.params.id}`;
       
       await storage.deleteUser(req.params.id);
@@ -307,223 +619,750 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/printers", requireAuth, requireCompanyAccess(), async (req, res) => {
+  app.patch("/api/users/:id/department", requireAuth, requireRole(["admin"]), async (req, res) => {
     try {
-      let companyId: string | undefined;
+      const userToUpdate = await storage.getUser(req.params.id);
+      if (!userToUpdate || userToUpdate.companyId !== req.user.companyId) {
+        return res.status(404).send("Usuario no encontrado");
+      }
 
-      if (req.user.role === "super-admin") {
-        companyId = undefined;
-      } else {
-        companyId = req.user.companyId;
+      const departmentId = req.body.departmentId || null;
+      if (departmentId) {
+        const department = await storage.getDepartment(departmentId);
+        if (!department || department.companyId !== req.user.companyId) {
+          return res.status(403).send("Departamento no valido");
+        }
       }
 
-      const printerList = await storage.getAllPrinters(companyId);
-      res.json(printerList);
+      const updated = await storage.updateUserDepartment(req.params.id, departmentId);
+      const { password, releasePinHash, badgeIdHash, ...userWithoutPassword } = updated;
+      res.json(userWithoutPassword);
     } catch (error) {
-      console.error("Get printers error:", error);
-      res.status(500).send("Failed to fetch printers");
+      console.error("Update user department error:", error);
+      res.status(500).send("Failed to update user department");
     }
   });
 
-  app.post("/api/printers", requireAuth, clearSecurityContext, requireRole(["admin", "operator"]), requireCompanyAccess(), validateMultiTenantIntegrity(), requireStrictCompanyAccess('create'), async (req, res) => {
+  app.put("/api/users/me/release-pin", requireAuth, async (req, res) => {
     try {
-      const data = insertPrinterSchema.parse(req.body);
+      const data = setReleasePinSchema.parse(req.body);
 
-      data.companyId = req.user.companyId;
+      const user = await storage.getUser(req.user.id);
+      if (!user || !(await bcrypt.compare(data.password, user.password))) {
+        return res.status(401).send("Contraseña incorrecta");
+      }
 
-      const printer = await storage.createPrinter(data);
-      res.json(printer);
+      const releasePinHash = await bcrypt.hash(data.pin, 10);
+      await storage.updateUserReleaseCredentials(req.user.id, { releasePinHash });
+      res.json({ success: true });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).send(error.errors[0].message);
       }
-      console.error("Create printer error:", error);
-      res.status(500).send("Failed to create printer");
+      console.error("Set release PIN error:", error);
+      res.status(500).send("Failed to set release PIN");
     }
   });
 
-  app.put("/api/printers/:id", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+  app.put("/api/users/:id/badge", requireAuth, requireRole(["admin"]), async (req, res) => {
     try {
-      await validateCompanyResource(req, res, () => {}, req.params.id, async (id) => {
-        const printer = await storage.getPrinter(id);
-        return printer?.companyId;
-      });
+      const { badgeId } = setBadgeIdSchema.parse(req.body);
 
-      const data = insertPrinterSchema.partial().parse(req.body);
-      const updatedPrinter = await storage.updatePrinter(req.params.id, data);
-      res.json(updatedPrinter);
+      const userToUpdate = await storage.getUser(req.params.id);
+      if (!userToUpdate || userToUpdate.companyId !== req.user.companyId) {
+        return res.status(404).send("Usuario no encontrado");
+      }
+
+      const badgeIdHash = badgeId ? hashBadgeId(badgeId) : null;
+      if (badgeIdHash) {
+        const existing = await storage.getUserByBadgeIdHash(badgeIdHash);
+        if (existing && existing.id !== userToUpdate.id) {
+          return res.status(400).send("La credencial ya está asignada a otro usuario");
+        }
+      }
+
+      await storage.updateUserReleaseCredentials(req.params.id, { badgeIdHash });
+      res.json({ success: true });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).send(error.errors[0].message);
       }
-      console.error("Update printer error:", error);
-      res.status(500).send("Failed to update printer");
+      console.error("Set badge error:", error);
+      res.status(500).send("Failed to set badge");
     }
   });
 
-  app.delete("/api/printers/:id", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+  // DEPARTMENTS
+  app.get("/api/departments", requireAuth, requireCompanyAccess(), async (req, res) => {
     try {
-      await validateCompanyResource(req, res, () => {}, req.params.id, async (id) => {
-        const printer = await storage.getPrinter(id);
-        return printer?.companyId;
-      });
+      if (!req.user.companyId) {
+        return res.json([]);
+      }
 
-      await storage.deletePrinter(req.params.id);
-      res.json({ success: true });
+      const departmentList = await storage.getAllDepartments(req.user.companyId);
+      res.json(departmentList);
     } catch (error) {
-      console.error("Delete printer error:", error);
-      res.status(500).send("Failed to delete printer");
+      console.error("Get departments error:", error);
+      res.status(500).send("Failed to fetch departments");
     }
   });
 
-// PAPER TYPES CRUD
-  app.get("/api/paper-types", requireAuth, requireCompanyAccess(), async (req, res) => {
+  app.post("/api/departments", requireAuth, requireRole(["admin"]), requireCompanyAccess(), async (req, res) => {
     try {
-      let companyId: string | undefined;
+      const data = insertDepartmentSchema.parse({
+        ...req.body,
+        companyId: req.user.companyId,
+      });
 
-      if (req.user.role === "super-admin") {
-        companyId = undefined;
-      } else {
-        companyId = req.user.companyId;
+      const department = await storage.createDepartment(data);
+      res.json(department);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Create department error:", error);
+      res.status(500).send("Failed to create department");
+    }
+  });
+
+  app.delete("/api/departments/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
+    try {
+      const department = await storage.getDepartment(req.params.id);
+      if (!department || department.companyId !== req.user.companyId) {
+        return res.status(404).send("Departamento no encontrado");
       }
 
-      const types = await storage.getAllPaperTypes(companyId);
-      res.json(types);
+      await storage.deleteDepartment(req.params.id);
+      res.json({ success: true });
     } catch (error) {
-      console.error("Get paper types error:", error);
-      res.status(500).send("Failed to fetch paper types");
+      console.error("Delete department error:", error);
+      res.status(500).send("Failed to delete department");
     }
   });
 
-  app.post("/api/paper-types", requireAuth, requireRole(["admin", "operator"]), requireCompanyAccess(), async (req, res) => {
+  // LOCATIONS
+  app.get("/api/locations", requireAuth, requireCompanyAccess(), async (req, res) => {
     try {
-      console.log("Paper type request body:", req.body);
-      const data = insertPaperTypeSchema.parse({
+      const companyId = req.user.role === "super-admin" ? undefined : req.user.companyId;
+      const locationList = await storage.getAllLocations(companyId);
+      res.json(locationList);
+    } catch (error) {
+      console.error("Get locations error:", error);
+      res.status(500).send("Failed to fetch locations");
+    }
+  });
+
+  app.post("/api/locations", requireAuth, requireRole(["admin"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const data = insertLocationSchema.parse({
         ...req.body,
         companyId: req.user.companyId,
-        weight: parseInt(req.body.weight),
-        stock: parseInt(req.body.stock || "0"),
       });
 
-      console.log("Paper type parsed data:", data);
-      const paperType = await storage.createPaperType(data, req.user.id);
-      res.json(paperType);
+      const location = await storage.createLocation(data);
+      res.json(location);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        console.error("Paper type validation error:", error.errors);
-        return res.status(400).send(JSON.stringify(error.errors));
+        return res.status(400).send(error.errors[0].message);
       }
-      console.error("Create paper type error:", error);
-      res.status(500).send("Failed to create paper type");
+      if (error instanceof LocationError) {
+        return res.status(400).send(error.message);
+      }
+      console.error("Create location error:", error);
+      res.status(500).send("Failed to create location");
     }
   });
 
-  app.put("/api/paper-types/:id", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+  app.patch("/api/locations/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
     try {
-      await validateCompanyResource(req, res, () => {}, req.params.id, async (id) => {
-        const paperType = await storage.getPaperType(id);
-        return paperType?.companyId;
-      });
+      const location = await storage.getLocation(req.params.id);
+      if (!location || location.companyId !== req.user.companyId) {
+        return res.status(404).send("Ubicación no encontrada");
+      }
 
-      const data = insertPaperTypeSchema.partial().parse({
-        ...req.body,
-        weight: req.body.weight ? parseInt(req.body.weight) : undefined,
-        stock: req.body.stock ? parseInt(req.body.stock) : undefined,
-      });
-      const updatedPaperType = await storage.updatePaperType(req.params.id, data, req.user.id);
-      res.json(updatedPaperType);
+      const { name } = updateLocationSchema.parse(req.body);
+      const updated = await storage.updateLocation(req.params.id, name);
+      res.json(updated);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).send(error.errors[0].message);
       }
-      console.error("Update paper type error:", error);
-      res.status(500).send("Failed to update paper type");
+      if (error instanceof LocationError) {
+        return res.status(409).send(error.message);
+      }
+      console.error("Update location error:", error);
+      res.status(500).send("Failed to update location");
     }
   });
 
-  app.delete("/api/paper-types/:id", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+  app.delete("/api/locations/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
     try {
-      await validateCompanyResource(req, res, () => {}, req.params.id, async (id) => {
-        const paperType = await storage.getPaperType(id);
-        return paperType?.companyId;
-      });
+      const location = await storage.getLocation(req.params.id);
+      if (!location || location.companyId !== req.user.companyId) {
+        return res.status(404).send("Ubicación no encontrada");
+      }
 
-      await storage.deletePaperType(req.params.id, req.user.id);
+      await storage.deleteLocation(req.params.id);
       res.json({ success: true });
     } catch (error) {
-      console.error("Delete paper type error:", error);
-      res.status(500).send("Failed to delete paper type");
+      if (error instanceof LocationError) {
+        return res.status(409).send(error.message);
+      }
+      console.error("Delete location error:", error);
+      res.status(500).send("Failed to delete location");
     }
   });
 
-  // TONER INVENTORY CRUD
-  app.get("/api/toner-inventory", requireAuth, requireCompanyAccess(), async (req, res) => {
+  app.patch("/api/users/:id/location", requireAuth, requireRole(["admin"]), async (req, res) => {
     try {
-      let companyId: string | undefined;
+      const userToUpdate = await storage.getUser(req.params.id);
+      if (!userToUpdate || userToUpdate.companyId !== req.user.companyId) {
+        return res.status(404).send("Usuario no encontrado");
+      }
 
-      if (req.user.role === "super-admin") {
-        companyId = undefined;
-      } else {
-        companyId = req.user.companyId;
+      const locationId = req.body.locationId || null;
+      if (!(await isCompanyLocation(locationId, req.user.companyId))) {
+        return res.status(403).send("Ubicación no válida");
       }
 
-      const inventory = await storage.getAllTonerInventory(companyId);
-      res.json(inventory);
+      const updated = await storage.updateUserLocation(req.params.id, locationId);
+      const { password, releasePinHash, badgeIdHash, ...userWithoutPassword } = updated;
+      res.json(userWithoutPassword);
     } catch (error) {
-      console.error("Get toner inventory error:", error);
-      res.status(500).send("Failed to fetch toner inventory");
+      console.error("Update user location error:", error);
+      res.status(500).send("Failed to update user location");
     }
   });
 
-  app.post("/api/toner-inventory", requireAuth, requireRole(["admin", "operator"]), requireCompanyAccess(), async (req, res) => {
+  // PRINT QUOTAS
+  app.get("/api/quotas/me", requireAuth, async (req, res) => {
     try {
-      const data = insertTonerInventorySchema.parse({
+      const statuses = await storage.getQuotaStatusForUser(req.user.id);
+      res.json(statuses);
+    } catch (error) {
+      console.error("Get my quota error:", error);
+      res.status(500).send("Failed to fetch quota");
+    }
+  });
+
+  app.get("/api/quotas", requireAuth, requireRole(["admin"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const quotas = await storage.getAllPrintQuotas(req.user.companyId);
+      res.json(quotas);
+    } catch (error) {
+      console.error("Get quotas error:", error);
+      res.status(500).send("Failed to fetch quotas");
+    }
+  });
+
+  app.post("/api/quotas", requireAuth, requireRole(["admin"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const data = insertPrintQuotaSchema.parse({
         ...req.body,
         companyId: req.user.companyId,
-        stock: parseInt(req.body.stock || "0"),
-        minStock: parseInt(req.body.minStock || "5"),
       });
 
-      const toner = await storage.createTonerInventory(data, req.user.id);
-      res.json(toner);
+      if (data.scope === "user") {
+        const quotaUser = await storage.getUser(data.userId);
+        if (!quotaUser || quotaUser.companyId !== req.user.companyId) {
+          return res.status(403).send("Usuario no valido");
+        }
+        data.departmentId = undefined;
+      } else {
+        const department = await storage.getDepartment(data.departmentId);
+        if (!department || department.companyId !== req.user.companyId) {
+          return res.status(403).send("Departamento no valido");
+        }
+        data.userId = undefined;
+      }
+
+      const quota = await storage.createPrintQuota(data, req.user.id);
+      res.json(quota);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).send(error.errors[0].message);
       }
-      console.error("Create toner inventory error:", error);
-      res.status(500).send("Failed to create toner inventory");
+      console.error("Create quota error:", error);
+      res.status(500).send("Failed to create quota");
     }
   });
 
-  app.put("/api/toner-inventory/:id", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+  app.put("/api/quotas/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
     try {
-      await validateCompanyResource(req, res, () => {}, req.params.id, async (id) => {
-        const toner = await storage.getTonerInventory(id);
-        return toner?.companyId;
-      });
+      const quota = await storage.getPrintQuota(req.params.id);
+      if (!quota || quota.companyId !== req.user.companyId) {
+        return res.status(404).send("Cuota no encontrada");
+      }
 
-      const data = insertTonerInventorySchema.partial().parse({
-        ...req.body,
-        stock: req.body.stock ? parseInt(req.body.stock) : undefined,
-        minStock: req.body.minStock ? parseInt(req.body.minStock) : undefined,
-      });
-      const updatedToner = await storage.updateTonerInventory(req.params.id, data, req.user.id);
-      res.json(updatedToner);
+      const data = updatePrintQuotaSchema.parse(req.body);
+      const updatedQuota = await storage.updatePrintQuota(req.params.id, data, req.user.id);
+      res.json(updatedQuota);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).send(error.errors[0].message);
       }
-      console.error("Update toner inventory error:", error);
-      res.status(500).send("Failed to update toner inventory");
+      console.error("Update quota error:", error);
+      res.status(500).send("Failed to update quota");
     }
   });
 
-  app.delete("/api/toner-inventory/:id", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+  app.delete("/api/quotas/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
     try {
-      await validateCompanyResource(req, res, () => {}, req.params.id, async (id) => {
-        const toner = await storage.getTonerInventory(id);
-        return toner?.companyId;
-      });
+      const quota = await storage.getPrintQuota(req.params.id);
+      if (!quota || quota.companyId !== req.user.companyId) {
+        return res.status(404).send("Cuota no encontrada");
+      }
+
+      await storage.deletePrintQuota(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete quota error:", error);
+      res.status(500).send("Failed to delete quota");
+    }
+  });
+
+  app.get("/api/printers", requireAuth, requireCompanyAccess(), async (req, res) => {
+    try {
+      let companyId: string | undefined;
+
+      if (req.user.role === "super-admin") {
+        companyId = undefined;
+      } else {
+        companyId = req.user.companyId;
+      }
+
+      const printerList = await storage.getAllPrinters(companyId);
+      res.json(printerList);
+    } catch (error) {
+      console.error("Get printers error:", error);
+      res.status(500).send("Failed to fetch printers");
+    }
+  });
+
+  app.get("/api/printers/supply-levels", requireAuth, requireCompanyAccess(), async (req, res) => {
+    try {
+      const companyId = req.user.role === "super-admin" ? undefined : req.user.companyId;
+      const levels = await storage.getPrinterSupplyLevels(companyId);
+      res.json(levels);
+    } catch (error) {
+      console.error("Get supply levels error:", error);
+      res.status(500).send("Failed to fetch supply levels");
+    }
+  });
+
+  app.get("/api/printers/availability", requireAuth, requireCompanyAccess(), async (req, res) => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+      const companyId = req.user.role === "super-admin" ? undefined : req.user.companyId;
+      const availability = await storage.getPrinterAvailability(companyId, days);
+      res.json(availability);
+    } catch (error) {
+      console.error("Get printer availability error:", error);
+      res.status(500).send("Failed to fetch printer availability");
+    }
+  });
+
+  // Registro de activos para contabilidad: depreciación lineal calculada a la fecha indicada (hoy por defecto)
+  app.get("/api/printers/asset-register", requireAuth, requireRole(["super-admin", "admin"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const asOf = req.query.asOf ? new Date(req.query.asOf as string) : new Date();
+      if (isNaN(asOf.getTime())) {
+        return res.status(400).send("Fecha de corte inválida");
+      }
+
+      const companyId = req.user.role === "super-admin" ? undefined : req.user.companyId;
+      const printerList = await storage.getAllPrinters(companyId);
+
+      const header = [
+        "Nombre", "Número de serie", "Fabricante", "Modelo", "Ubicación", "Estado", "Propiedad",
+        "Fecha de compra", "Precio de compra", "Vida útil (meses)", "Meses en servicio",
+        "Depreciación mensual", "Depreciación acumulada", "Valor en libros", "Fin de garantía",
+      ];
+      const rows = printerList.map((printer) => {
+        const depreciation = calculatePrinterDepreciation(printer, asOf);
+        return [
+          printer.name,
+          printer.serialNumber,
+          printer.manufacturer,
+          printer.model,
+          printer.location,
+          printer.status,
+          printer.ownership === "leased" ? "Arrendada" : "Propia",
+          printer.purchaseDate,
+          printer.purchasePrice,
+          printer.expectedLifetimeMonths,
+          depreciation?.monthsInService,
+          depreciation?.monthlyDepreciation.toFixed(2),
+          depreciation?.accumulatedDepreciation.toFixed(2),
+          depreciation?.bookValue.toFixed(2),
+          printer.warrantyEndDate,
+        ].map(toCsvValue).join(",");
+      });
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename=asset-register-${asOf.toISOString().slice(0, 10)}.csv`);
+      res.send([header.join(","), ...rows].join("\n"));
+    } catch (error) {
+      console.error("Asset register export error:", error);
+      res.status(500).send("Failed to export asset register");
+    }
+  });
+
+  // Exploración de un rango de la red; responde cuando termina (unos segundos según el tamaño del rango)
+  app.post("/api/printers/discovery", requireAuth, requireRole(["admin"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const { cidr } = printerDiscoverySchema.parse(req.body);
+      const result = await discoverPrinters(cidr, req.user.companyId);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      if (error instanceof DiscoveryError) {
+        return res.status(400).send(error.message);
+      }
+      console.error("Printer discovery error:", error);
+      res.status(500).send("Failed to discover printers");
+    }
+  });
+
+  app.post("/api/printers/discovery/import", requireAuth, requireRole(["admin"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const { devices } = importDiscoveredPrintersSchema.parse(req.body);
+      for (const device of devices) {
+        if (!(await isCompanyLocation(device.locationId, req.user.companyId))) {
+          return res.status(400).send("Ubicación no válida");
+        }
+      }
+
+      const result = await importDiscoveredPrinters(req.user.companyId, devices);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Import discovered printers error:", error);
+      res.status(500).send("Failed to import printers");
+    }
+  });
+
+  // Consulta SNMP inmediata, sin esperar al sondeo periódico
+  app.post("/api/printers/:id/poll", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+    try {
+      const printer = await storage.getPrinter(req.params.id);
+      if (!printer || (req.user.role !== "super-admin" && printer.companyId !== req.user.companyId)) {
+        return res.status(404).send("Impresora no encontrada");
+      }
+      if (!printer.ipAddress) {
+        return res.status(400).send("La impresora no tiene dirección IP configurada");
+      }
+
+      const { printer: updated, result } = await pollPrinter(printer);
+      res.json({ printer: updated, result });
+    } catch (error) {
+      console.error("Poll printer error:", error);
+      res.status(500).send("Failed to poll printer");
+    }
+  });
+
+  // CONTADORES DE PÁGINAS
+  app.get("/api/printers/:id/meter-readings", requireAuth, async (req, res) => {
+    try {
+      const printer = await storage.getPrinter(req.params.id);
+      if (!printer || (req.user.role !== "super-admin" && printer.companyId !== req.user.companyId)) {
+        return res.status(404).send("Impresora no encontrada");
+      }
+
+      const readings = await storage.getMeterReadings(printer.id);
+      res.json(readings);
+    } catch (error) {
+      console.error("Get meter readings error:", error);
+      res.status(500).send("Failed to fetch meter readings");
+    }
+  });
+
+  app.post("/api/printers/:id/meter-readings", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+    try {
+      const printer = await storage.getPrinter(req.params.id);
+      if (!printer || (req.user.role !== "super-admin" && printer.companyId !== req.user.companyId)) {
+        return res.status(404).send("Impresora no encontrada");
+      }
+
+      const data = insertPrinterMeterReadingSchema.parse(req.body);
+      const reading = await storage.createMeterReading(printer, data, "manual", req.user.id);
+      res.json(reading);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      if (error instanceof MeterReadingError) {
+        return res.status(409).send(error.message);
+      }
+      console.error("Create meter reading error:", error);
+      res.status(500).send("Failed to create meter reading");
+    }
+  });
+
+  app.delete("/api/meter-readings/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
+    try {
+      const reading = await storage.getMeterReading(req.params.id);
+      if (!reading || (req.user.role !== "super-admin" && reading.companyId !== req.user.companyId)) {
+        return res.status(404).send("Lectura no encontrada");
+      }
+
+      await storage.deleteMeterReading(reading.id, req.user.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete meter reading error:", error);
+      res.status(500).send("Failed to delete meter reading");
+    }
+  });
+
+  // Avance del contador frente a los trabajos registrados; por defecto los últimos 30 días
+  app.get("/api/meter-reconciliation", requireAuth, requireRole(["admin", "operator"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const query = meterReconciliationQuerySchema.parse(req.query);
+      const to = query.to || new Date();
+      const from = query.from || new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+      if (from >= to) {
+        return res.status(400).send("La fecha inicial debe ser anterior a la final");
+      }
+
+      const companyId = req.user.role === "super-admin" ? undefined : req.user.companyId;
+      const report = await storage.getMeterReconciliation(companyId, from, to, query.printerId);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Get meter reconciliation error:", error);
+      res.status(500).send("Failed to fetch meter reconciliation");
+    }
+  });
+
+  app.post("/api/printers", requireAuth, clearSecurityContext, requireRole(["admin", "operator"]), requireCompanyAccess(), validateMultiTenantIntegrity(), requireStrictCompanyAccess('create'), async (req, res) => {
+    try {
+      const data = insertPrinterSchema.parse(req.body);
+
+      data.companyId = req.user.companyId;
+      if (!(await isCompanyLocation(data.locationId, data.companyId))) {
+        return res.status(400).send("Ubicación no válida");
+      }
+
+      const printer = await storage.createPrinter(data);
+      res.json(printer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Create printer error:", error);
+      res.status(500).send("Failed to create printer");
+    }
+  });
+
+  app.put("/api/printers/:id", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+    try {
+      await validateCompanyResource(req, res, () => {}, req.params.id, async (id) => {
+        const printer = await storage.getPrinter(id);
+        return printer?.companyId;
+      });
+
+      const data = insertPrinterSchema.partial().parse(req.body);
+      if (data.locationId) {
+        const printer = await storage.getPrinter(req.params.id);
+        if (!(await isCompanyLocation(data.locationId, printer?.companyId))) {
+          return res.status(400).send("Ubicación no válida");
+        }
+      }
+      const updatedPrinter = await storage.updatePrinter(req.params.id, data);
+      res.json(updatedPrinter);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Update printer error:", error);
+      res.status(500).send("Failed to update printer");
+    }
+  });
+
+  app.delete("/api/printers/:id", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+    try {
+      await validateCompanyResource(req, res, () => {}, req.params.id, async (id) => {
+        const printer = await storage.getPrinter(id);
+        return printer?.companyId;
+      });
+
+      await storage.deletePrinter(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete printer error:", error);
+      res.status(500).send("Failed to delete printer");
+    }
+  });
+
+// PAPER TYPES CRUD
+  app.get("/api/paper-types", requireAuth, requireCompanyAccess(), async (req, res) => {
+    try {
+      let companyId: string | undefined;
+
+      if (req.user.role === "super-admin") {
+        companyId = undefined;
+      } else {
+        companyId = req.user.companyId;
+      }
+
+      const types = await storage.getAllPaperTypes(companyId);
+      res.json(types);
+    } catch (error) {
+      console.error("Get paper types error:", error);
+      res.status(500).send("Failed to fetch paper types");
+    }
+  });
+
+  app.post("/api/paper-types", requireAuth, requireRole(["admin", "operator"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      console.log("Paper type request body:", req.body);
+      const data = insertPaperTypeSchema.parse({
+        ...req.body,
+        companyId: req.user.companyId,
+        weight: parseInt(req.body.weight),
+        stock: parseInt(req.body.stock || "0"),
+      });
+
+      console.log("Paper type parsed data:", data);
+      const paperType = await storage.createPaperType(data, req.user.id);
+      res.json(paperType);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        console.error("Paper type validation error:", error.errors);
+        return res.status(400).send(JSON.stringify(error.errors));
+      }
+      console.error("Create paper type error:", error);
+      res.status(500).send("Failed to create paper type");
+    }
+  });
+
+  app.put("/api/paper-types/:id", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+    try {
+      await validateCompanyResource(req, res, () => {}, req.params.id, async (id) => {
+        const paperType = await storage.getPaperType(id);
+        return paperType?.companyId;
+      });
+
+      if (req.body.stock !== undefined) {
+        return res.status(400).send("El stock no se edita directamente: registra un movimiento de inventario");
+      }
+
+      const data = insertPaperTypeSchema.omit({ stock: true }).partial().parse({
+        ...req.body,
+        weight: req.body.weight ? parseInt(req.body.weight) : undefined,
+      });
+      const updatedPaperType = await storage.updatePaperType(req.params.id, data, req.user.id);
+      res.json(updatedPaperType);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Update paper type error:", error);
+      res.status(500).send("Failed to update paper type");
+    }
+  });
+
+  app.delete("/api/paper-types/:id", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+    try {
+      await validateCompanyResource(req, res, () => {}, req.params.id, async (id) => {
+        const paperType = await storage.getPaperType(id);
+        return paperType?.companyId;
+      });
+
+      await storage.deletePaperType(req.params.id, req.user.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete paper type error:", error);
+      res.status(500).send("Failed to delete paper type");
+    }
+  });
+
+  // TONER INVENTORY CRUD
+  app.get("/api/toner-inventory", requireAuth, requireCompanyAccess(), async (req, res) => {
+    try {
+      let companyId: string | undefined;
+
+      if (req.user.role === "super-admin") {
+        companyId = undefined;
+      } else {
+        companyId = req.user.companyId;
+      }
+
+      const inventory = await storage.getAllTonerInventoryWithCompatibility(companyId);
+      res.json(inventory);
+    } catch (error) {
+      console.error("Get toner inventory error:", error);
+      res.status(500).send("Failed to fetch toner inventory");
+    }
+  });
+
+  app.post("/api/toner-inventory", requireAuth, requireRole(["admin", "operator"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const data = insertTonerInventorySchema.parse({
+        ...req.body,
+        companyId: req.user.companyId,
+        stock: parseInt(req.body.stock || "0"),
+        minStock: parseInt(req.body.minStock || "5"),
+      });
+      const { compatibleModels } = tonerCompatibilitySchema.parse(req.body);
+
+      const toner = await storage.createTonerInventory(data, req.user.id);
+      const models = await storage.setTonerCompatibleModels(toner.id, compatibleModels || [], req.user.id);
+      res.json({ ...toner, compatibleModels: models });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Create toner inventory error:", error);
+      res.status(500).send("Failed to create toner inventory");
+    }
+  });
+
+  app.put("/api/toner-inventory/:id", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+    try {
+      await validateCompanyResource(req, res, () => {}, req.params.id, async (id) => {
+        const toner = await storage.getTonerInventory(id);
+        return toner?.companyId;
+      });
+
+      if (req.body.stock !== undefined) {
+        return res.status(400).send("El stock no se edita directamente: registra un movimiento de inventario");
+      }
+
+      const data = insertTonerInventorySchema.omit({ stock: true }).partial().parse({
+        ...req.body,
+        minStock: req.body.minStock ? parseInt(req.body.minStock) : undefined,
+      });
+      // Sin compatibleModels en el cuerpo los modelos no cambian
+      const { compatibleModels } = tonerCompatibilitySchema.parse(req.body);
+
+      const updatedToner = await storage.updateTonerInventory(req.params.id, data, req.user.id);
+      if (updatedToner && compatibleModels) {
+        const models = await storage.setTonerCompatibleModels(updatedToner.id, compatibleModels, req.user.id);
+        return res.json({ ...updatedToner, compatibleModels: models });
+      }
+      res.json(updatedToner);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Update toner inventory error:", error);
+      res.status(500).send("Failed to update toner inventory");
+    }
+  });
+
+  app.delete("/api/toner-inventory/:id", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+    try {
+      await validateCompanyResource(req, res, () => {}, req.params.id, async (id) => {
+        const toner = await storage.getTonerInventory(id);
+        return toner?.companyId;
+      });
 
       await storage.deleteTonerInventory(req.params.id, req.user.id);
       res.json({ success: true });
@@ -533,6 +1372,321 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // MOVIMIENTOS DE INVENTARIO: el stock de papel y toner solo cambia registrando un movimiento
+  app.get("/api/stock-movements", requireAuth, requireCompanyAccess(), async (req, res) => {
+    try {
+      const query = stockMovementQuerySchema.parse(req.query);
+      const companyId = req.user.role === "super-admin" ? undefined : req.user.companyId;
+      const movements = await storage.getStockMovements(companyId, query);
+      res.json(movements);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Get stock movements error:", error);
+      res.status(500).send("Failed to fetch stock movements");
+    }
+  });
+
+  app.post("/api/stock-movements", requireAuth, requireRole(["admin", "operator"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const data = insertStockMovementSchema.parse(req.body);
+      if (!(await getCompanyStockItem(data.itemType, data.itemId, req.user))) {
+        return res.status(404).send("Insumo no encontrado");
+      }
+
+      const movement = await storage.recordStockMovement(data, req.user.id);
+      res.json(movement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).send(error.message);
+      }
+      console.error("Create stock movement error:", error);
+      res.status(500).send("Failed to record stock movement");
+    }
+  });
+
+  app.post("/api/stock-movements/transfer", requireAuth, requireRole(["admin", "operator"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const data = stockTransferSchema.parse(req.body);
+      const from = await getCompanyStockItem(data.itemType, data.fromItemId, req.user);
+      const to = await getCompanyStockItem(data.itemType, data.toItemId, req.user);
+      if (!from || !to) {
+        return res.status(404).send("Insumo no encontrado");
+      }
+      if (from.companyId !== to.companyId) {
+        return res.status(400).send("Solo se puede transferir entre insumos de la misma empresa");
+      }
+
+      const movements = await storage.transferStock(data, req.user.id);
+      res.json(movements);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).send(error.message);
+      }
+      console.error("Transfer stock error:", error);
+      res.status(500).send("Failed to transfer stock");
+    }
+  });
+
+  // Stock guardado frente al saldo del libro de cada insumo
+  app.get("/api/stock-movements/reconciliation", requireAuth, requireRole(["super-admin", "admin"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const companyId = req.user.role === "super-admin" ? undefined : req.user.companyId;
+      const rows = await storage.getStockReconciliation(companyId);
+      res.json(rows);
+    } catch (error) {
+      console.error("Get stock reconciliation error:", error);
+      res.status(500).send("Failed to fetch stock reconciliation");
+    }
+  });
+
+  // Registra un ajuste por cada diferencia, de modo que el libro explique el stock actual
+  app.post("/api/stock-movements/reconcile", requireAuth, requireRole(["super-admin", "admin"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const companyId = req.user.role === "super-admin" ? undefined : req.user.companyId;
+      const adjusted = await storage.reconcileStockLedger(companyId, req.user.id);
+      res.json({ adjusted });
+    } catch (error) {
+      console.error("Reconcile stock ledger error:", error);
+      res.status(500).send("Failed to reconcile stock ledger");
+    }
+  });
+
+  // ÓRDENES DE COMPRA de papel y toner; la recepción suma al stock y registra el gasto
+  app.get("/api/purchase-orders", requireAuth, requireCompanyAccess(), async (req, res) => {
+    try {
+      const companyId = req.user.role === "super-admin" ? undefined : req.user.companyId;
+      const orders = await storage.getPurchaseOrders(companyId);
+      res.json(orders);
+    } catch (error) {
+      console.error("Get purchase orders error:", error);
+      res.status(500).send("Failed to fetch purchase orders");
+    }
+  });
+
+  app.get("/api/purchase-orders/:id", requireAuth, requireCompanyAccess(), async (req, res) => {
+    try {
+      const order = await getCompanyPurchaseOrder(req.params.id, req.user);
+      if (!order) {
+        return res.status(404).send("Orden de compra no encontrada");
+      }
+      res.json(order);
+    } catch (error) {
+      console.error("Get purchase order error:", error);
+      res.status(500).send("Failed to fetch purchase order");
+    }
+  });
+
+  app.post("/api/purchase-orders", requireAuth, requireRole(["admin", "operator"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const data = insertPurchaseOrderSchema.parse({
+        ...req.body,
+        companyId: req.user.companyId,
+      });
+      if (await findForeignOrderItem(data.lines, data.companyId)) {
+        return res.status(400).send("Uno de los insumos no existe en tu empresa");
+      }
+      if (!(await isCompanySupplier(data.supplierId, data.companyId))) {
+        return res.status(400).send("El proveedor no existe en tu empresa");
+      }
+
+      const order = await storage.createPurchaseOrder(data, req.user.id);
+      res.json(order);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Create purchase order error:", error);
+      res.status(500).send("Failed to create purchase order");
+    }
+  });
+
+  app.put("/api/purchase-orders/:id", requireAuth, requireRole(["admin", "operator"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const order = await getCompanyPurchaseOrder(req.params.id, req.user);
+      if (!order) {
+        return res.status(404).send("Orden de compra no encontrada");
+      }
+
+      const data = updatePurchaseOrderSchema.parse(req.body);
+      if (await findForeignOrderItem(data.lines, order.companyId)) {
+        return res.status(400).send("Uno de los insumos no existe en tu empresa");
+      }
+      if (!(await isCompanySupplier(data.supplierId, order.companyId))) {
+        return res.status(400).send("El proveedor no existe en tu empresa");
+      }
+
+      const updated = await storage.updatePurchaseOrder(order.id, data);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      if (error instanceof PurchaseOrderError) {
+        return res.status(409).send(error.message);
+      }
+      console.error("Update purchase order error:", error);
+      res.status(500).send("Failed to update purchase order");
+    }
+  });
+
+  // Envío al proveedor o cancelación; la recepción tiene su propio endpoint
+  app.patch("/api/purchase-orders/:id/status", requireAuth, requireRole(["admin", "operator"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const order = await getCompanyPurchaseOrder(req.params.id, req.user);
+      if (!order) {
+        return res.status(404).send("Orden de compra no encontrada");
+      }
+
+      const { status } = updatePurchaseOrderStatusSchema.parse(req.body);
+      const updated = await storage.setPurchaseOrderStatus(order.id, status, req.user.id);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      if (error instanceof PurchaseOrderError) {
+        return res.status(409).send(error.message);
+      }
+      console.error("Update purchase order status error:", error);
+      res.status(500).send("Failed to update purchase order status");
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/receive", requireAuth, requireRole(["admin", "operator"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const order = await getCompanyPurchaseOrder(req.params.id, req.user);
+      if (!order) {
+        return res.status(404).send("Orden de compra no encontrada");
+      }
+
+      const data = receivePurchaseOrderSchema.parse(req.body);
+      const updated = await storage.receivePurchaseOrder(order.id, data, req.user.id);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      if (error instanceof PurchaseOrderError) {
+        return res.status(409).send(error.message);
+      }
+      console.error("Receive purchase order error:", error);
+      res.status(500).send("Failed to receive purchase order");
+    }
+  });
+
+  app.delete("/api/purchase-orders/:id", requireAuth, requireRole(["admin", "operator"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const order = await getCompanyPurchaseOrder(req.params.id, req.user);
+      if (!order) {
+        return res.status(404).send("Orden de compra no encontrada");
+      }
+
+      await storage.deletePurchaseOrder(order.id);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof PurchaseOrderError) {
+        return res.status(409).send(error.message);
+      }
+      console.error("Delete purchase order error:", error);
+      res.status(500).send("Failed to delete purchase order");
+    }
+  });
+
+  // PROVEEDORES con su catálogo de precios y plazos de entrega, usados al calcular cuándo reponer
+  app.get("/api/suppliers", requireAuth, requireCompanyAccess(), async (req, res) => {
+    try {
+      const companyId = req.user.role === "super-admin" ? undefined : req.user.companyId;
+      const supplierList = await storage.getSuppliers(companyId);
+      res.json(supplierList);
+    } catch (error) {
+      console.error("Get suppliers error:", error);
+      res.status(500).send("Failed to fetch suppliers");
+    }
+  });
+
+  app.post("/api/suppliers", requireAuth, requireRole(["admin", "operator"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const data = insertSupplierSchema.parse({
+        ...req.body,
+        companyId: req.user.companyId,
+      });
+      const supplier = await storage.createSupplier(data);
+      res.json(supplier);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Create supplier error:", error);
+      res.status(500).send("Failed to create supplier");
+    }
+  });
+
+  app.put("/api/suppliers/:id", requireAuth, requireRole(["admin", "operator"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const supplier = await getCompanySupplier(req.params.id, req.user);
+      if (!supplier) {
+        return res.status(404).send("Proveedor no encontrado");
+      }
+
+      const data = updateSupplierSchema.parse(req.body);
+      const updated = await storage.updateSupplier(supplier.id, data);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Update supplier error:", error);
+      res.status(500).send("Failed to update supplier");
+    }
+  });
+
+  // Reemplaza el catálogo del proveedor; marcar un insumo como preferido lo desmarca en los demás proveedores
+  app.put("/api/suppliers/:id/items", requireAuth, requireRole(["admin", "operator"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const supplier = await getCompanySupplier(req.params.id, req.user);
+      if (!supplier) {
+        return res.status(404).send("Proveedor no encontrado");
+      }
+
+      const { items } = supplierItemsSchema.parse(req.body);
+      if (await findForeignOrderItem(items, supplier.companyId)) {
+        return res.status(400).send("Uno de los insumos no existe en tu empresa");
+      }
+
+      const updated = await storage.setSupplierItems(supplier, items);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Update supplier items error:", error);
+      res.status(500).send("Failed to update supplier items");
+    }
+  });
+
+  app.delete("/api/suppliers/:id", requireAuth, requireRole(["admin", "operator"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const supplier = await getCompanySupplier(req.params.id, req.user);
+      if (!supplier) {
+        return res.status(404).send("Proveedor no encontrado");
+      }
+
+      await storage.deleteSupplier(supplier.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete supplier error:", error);
+      res.status(500).send("Failed to delete supplier");
+    }
+  });
+
   // MAINTENANCE LOGS CRUD
   app.get("/api/maintenance-logs", requireAuth, async (req, res) => {
     try {
@@ -587,73 +1741,207 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).send(error.errors[0].message);
       }
-      console.error("Create maintenance log error:", error);
-      res.status(500).send("Failed to create maintenance log");
+      console.error("Create maintenance log error:", error);
+      res.status(500).send("Failed to create maintenance log");
+    }
+  });
+
+  app.put("/api/maintenance-logs/:id", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+    try {
+      const log = await storage.getMaintenanceLog(req.params.id);
+      if (!log) {
+        return res.status(404).send("Registro de mantenimiento no encontrado");
+      }
+
+      const logCompanyId = log.printer?.companyId || (log as any).companyId;
+      if (logCompanyId !== req.user.companyId) {
+        return res.status(403).send("No puedes editar registros de otra empresa");
+      }
+
+      const data = insertMaintenanceLogSchema.partial().parse(req.body);
+      const updatedLog = await storage.updateMaintenanceLog(req.params.id, data);
+      res.json(updatedLog);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Update maintenance log error:", error);
+      res.status(500).send("Failed to update maintenance log");
+    }
+  });
+
+  app.delete("/api/maintenance-logs/:id", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+    try {
+      const log = await storage.getMaintenanceLog(req.params.id);
+      if (!log) {
+        return res.status(404).send("Registro de mantenimiento no encontrado");
+      }
+
+      if (log.printer.companyId !== req.user.companyId) {
+        return res.status(403).send("No puedes eliminar registros de otra empresa");
+      }
+
+      await storage.deleteMaintenanceLog(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete maintenance log error:", error);
+      res.status(500).send("Failed to delete maintenance log");
+    }
+  });
+
+  // PRINT JOBS
+  app.get("/api/print-jobs", requireAuth, async (req, res) => {
+    try {
+      let companyId: string | undefined;
+      
+      if (req.user.role === "super-admin") {
+        companyId = undefined;
+      } else {
+        if (!req.user.companyId) {
+          return res.status(403).send("Error: Tu usuario no tiene una empresa asignada");
+        }
+        companyId = req.user.companyId;
+      }
+      
+      const params = printJobSearchSchema.parse(req.query);
+      const result = await storage.searchPrintJobs(companyId, params);
+
+      // Enlaces firmados a las miniaturas para que la tabla muestre la vista previa
+      result.items = result.items.map((job) => ({
+        ...job,
+        thumbnailUrl: job.thumbnailPath && !job.fileDeletedAt
+          ? createSignedFileUrl(job.id, "thumbnail", req.user.id).url
+          : undefined,
+      }));
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Get print jobs error:", error);
+      res.status(500).send("Failed to fetch print jobs");
+    }
+  });
+
+  // El formulario calcula el SHA-256 del archivo elegido y consulta si el usuario ya lo imprimió
+  app.get("/api/print-jobs/duplicates", requireAuth, async (req, res) => {
+    try {
+      if (!isContentHash(req.query.hash)) {
+        return res.status(400).send("Huella de archivo inválida");
+      }
+      const matches = await storage.findRecentDuplicateJobs(req.user.id, req.query.hash);
+      res.json({ windowDays: DUPLICATE_WINDOW_DAYS, matches });
+    } catch (error) {
+      console.error("Find duplicate print jobs error:", error);
+      res.status(500).send("Failed to check duplicate print jobs");
+    }
+  });
+
+  async function reviewPrintJob(req: Request, res: Response, decision: "approve" | "reject") {
+    try {
+      const { reason } = reviewPrintJobSchema.parse(req.body);
+      if (decision === "reject" && !reason?.trim()) {
+        return res.status(400).send("Debes indicar el motivo del rechazo");
+      }
+
+      const job = await storage.getPrintJob(req.params.id);
+      if (!job) {
+        return res.status(404).send("Print job not found");
+      }
+
+      const owner = await storage.getUser(job.userId);
+      if (!owner || owner.companyId !== req.user.companyId) {
+        return res.status(403).send("No puedes modificar trabajos de otra empresa");
+      }
+
+      if (job.status !== "pending_approval") {
+        return res.status(409).send("El trabajo no está pendiente de aprobación");
+      }
+
+      const updatedJob = await storage.reviewPrintJob(req.params.id, decision, req.user.id, reason);
+      res.json(updatedJob);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      if (error instanceof InvalidStatusTransitionError || error instanceof InsufficientStockError) {
+        return res.status(409).send(error.message);
+      }
+      console.error("Review print job error:", error);
+      res.status(500).send("Failed to review print job");
+    }
+  }
+
+  app.get("/api/approvals", requireAuth, requireRole(["admin"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const jobs = await storage.getPendingApprovalJobs(req.user.companyId);
+      res.json(jobs);
+    } catch (error) {
+      console.error("Get approvals error:", error);
+      res.status(500).send("Failed to fetch approvals");
     }
   });
 
-  app.put("/api/maintenance-logs/:id", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+  // APPROVAL POLICIES
+  app.get("/api/approval-policies", requireAuth, requireRole(["admin"]), requireCompanyAccess(), async (req, res) => {
     try {
-      const log = await storage.getMaintenanceLog(req.params.id);
-      if (!log) {
-        return res.status(404).send("Registro de mantenimiento no encontrado");
-      }
+      const policies = await storage.getAllApprovalPolicies(req.user.companyId);
+      res.json(policies);
+    } catch (error) {
+      console.error("Get approval policies error:", error);
+      res.status(500).send("Failed to fetch approval policies");
+    }
+  });
 
-      const logCompanyId = log.printer?.companyId || (log as any).companyId;
-      if (logCompanyId !== req.user.companyId) {
-        return res.status(403).send("No puedes editar registros de otra empresa");
-      }
+  app.post("/api/approval-policies", requireAuth, requireRole(["admin"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const data = insertApprovalPolicySchema.parse({
+        ...req.body,
+        companyId: req.user.companyId,
+      });
 
-      const data = insertMaintenanceLogSchema.partial().parse(req.body);
-      const updatedLog = await storage.updateMaintenanceLog(req.params.id, data);
-      res.json(updatedLog);
+      const policy = await storage.createApprovalPolicy(data, req.user.id);
+      res.json(policy);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).send(error.errors[0].message);
       }
-      console.error("Update maintenance log error:", error);
-      res.status(500).send("Failed to update maintenance log");
+      console.error("Create approval policy error:", error);
+      res.status(500).send("Failed to create approval policy");
     }
   });
 
-  app.delete("/api/maintenance-logs/:id", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+  app.put("/api/approval-policies/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
     try {
-      const log = await storage.getMaintenanceLog(req.params.id);
-      if (!log) {
-        return res.status(404).send("Registro de mantenimiento no encontrado");
-      }
-
-      if (log.printer.companyId !== req.user.companyId) {
-        return res.status(403).send("No puedes eliminar registros de otra empresa");
+      const policy = await storage.getApprovalPolicy(req.params.id);
+      if (!policy || policy.companyId !== req.user.companyId) {
+        return res.status(404).send("Política no encontrada");
       }
 
-      await storage.deleteMaintenanceLog(req.params.id);
-      res.json({ success: true });
+      const data = updateApprovalPolicySchema.parse(req.body);
+      const updatedPolicy = await storage.updateApprovalPolicy(req.params.id, data, req.user.id);
+      res.json(updatedPolicy);
     } catch (error) {
-      console.error("Delete maintenance log error:", error);
-      res.status(500).send("Failed to delete maintenance log");
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Update approval policy error:", error);
+      res.status(500).send("Failed to update approval policy");
     }
   });
 
-  // PRINT JOBS
-  app.get("/api/print-jobs", requireAuth, async (req, res) => {
+  app.delete("/api/approval-policies/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
     try {
-      let companyId: string | undefined;
-      
-      if (req.user.role === "super-admin") {
-        companyId = undefined;
-      } else {
-        if (!req.user.companyId) {
-          return res.status(403).send("Error: Tu usuario no tiene una empresa asignada");
-        }
-        companyId = req.user.companyId;
+      const policy = await storage.getApprovalPolicy(req.params.id);
+      if (!policy || policy.companyId !== req.user.companyId) {
+        return res.status(404).send("Política no encontrada");
       }
-      
-      const jobs = await storage.getAllPrintJobs(companyId);
-      res.json(jobs);
+
+      await storage.deleteApprovalPolicy(req.params.id);
+      res.json({ success: true });
     } catch (error) {
-      console.error("Get print jobs error:", error);
-      res.status(500).send("Failed to fetch print jobs");
+      console.error("Delete approval policy error:", error);
+      res.status(500).send("Failed to delete approval policy");
     }
   });
 
@@ -663,23 +1951,160 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).send("No file uploaded");
       }
 
+      // El tipo se identifica por el contenido y se valida contra la lista permitida de la empresa
+      const company = req.user.companyId ? await storage.getCompany(req.user.companyId) : undefined;
+      let mimeType: string;
+      try {
+        mimeType = await validateUpload(req.file.path, req.file.originalname, company?.allowedUploadTypes ?? null);
+      } catch (error) {
+        fs.promises.unlink(req.file.path).catch(() => {});
+        if (error instanceof UploadValidationError) {
+          return res.status(400).send(error.message);
+        }
+        throw error;
+      }
+
+      const storedPath = `${req.file.path}${getStoredExtension(mimeType)}`;
+      await fs.promises.rename(req.file.path, storedPath);
+      req.file.path = storedPath;
+      req.file.filename = path.basename(storedPath);
+
+      const contentHash = await hashFile(req.file.path);
+      const declaredPageCount = parseInt(req.body.pageCount);
+
+      // Contar páginas reales del archivo; el valor declarado solo se usa si no se puede detectar
+      const { detectedPageCount } = await countDocumentPages(req.file.path, mimeType, req.file.originalname);
+      const pageCountMismatch = detectedPageCount !== null && detectedPageCount !== declaredPageCount;
+
+      if (pageCountMismatch && PAGE_COUNT_MISMATCH_POLICY === "reject") {
+        fs.promises.unlink(req.file.path).catch(() => {});
+        return res.status(400).send(
+          `La cantidad de páginas declarada (${declaredPageCount}) no coincide con la detectada en el archivo (${detectedPageCount})`
+        );
+      }
+
+      // El dueño es quien registra el trabajo y el estado lo decide el servidor; el cliente no puede
+      // cargarlo a otro usuario (ni a su cuota) ni saltarse el ciclo de vida
       const data = insertPrintJobSchema.parse({
         ...req.body,
-        pageCount: parseInt(req.body.pageCount),
+        userId: req.user.id,
+        status: undefined,
+        pageCount: detectedPageCount ?? declaredPageCount,
+        declaredPageCount: Number.isNaN(declaredPageCount) ? undefined : declaredPageCount,
+        detectedPageCount: detectedPageCount ?? undefined,
+        pageCountMismatch,
+        paperTypeId: req.body.paperTypeId || undefined,
+        approvalReason: undefined,
+        releaseExpiresAt: undefined,
         copies: parseInt(req.body.copies),
+        duplex: req.body.duplex === "true",
+        stapled: req.body.stapled === "true",
+        nUp: req.body.nUp ? parseInt(req.body.nUp) : 1,
         fileSize: parseInt(req.body.fileSize),
       });
 
+      const printer = await storage.getPrinter(data.printerId);
+      if (!printer || printer.companyId !== req.user.companyId) {
+        fs.promises.unlink(req.file.path).catch(() => {});
+        return res.status(403).send("Impresora no valida");
+      }
+
+      const paperType = data.paperTypeId ? await storage.getPaperType(data.paperTypeId) : undefined;
+      if (data.paperTypeId && (!paperType || paperType.companyId !== req.user.companyId)) {
+        fs.promises.unlink(req.file.path).catch(() => {});
+        return res.status(403).send("Tipo de papel no valido");
+      }
+
+      // Combinaciones que la impresora no puede imprimir (color en monocromática, A3 en una de carta, etc.)
+      const capabilityViolations = getCapabilityViolations(printer, data, paperType);
+      if (capabilityViolations.length > 0) {
+        fs.promises.unlink(req.file.path).catch(() => {});
+        return res.status(400).send(`No se puede imprimir en "${printer.name}": ${capabilityViolations.join("; ")}`);
+      }
+
+      // Verificar cuotas mensuales del usuario y su departamento
+      const jobPages = calculateImpressions(data);
+      const jobColorPages = data.colorMode === "color" ? jobPages : 0;
+      const quotaStatuses = await storage.getQuotaStatusForUser(data.userId);
+      const exceededQuotas = quotaStatuses.filter((status) =>
+        (status.remainingPages !== null && jobPages > status.remainingPages) ||
+        (status.remainingColorPages !== null && jobColorPages > status.remainingColorPages)
+      );
+
+      if (exceededQuotas.some((status) => status.quota.enforcement === "block")) {
+        fs.promises.unlink(req.file.path).catch(() => {});
+        return res.status(403).send("El trabajo excede la cuota mensual de impresión disponible");
+      }
+
+      // Motivos por los que el trabajo debe esperar la aprobación de un admin
+      const approvalReasons: string[] = [];
+      if (exceededQuotas.length > 0) {
+        approvalReasons.push("Cuota mensual excedida");
+      }
+
+      // Las políticas de aprobación no aplican a trabajos registrados por un admin
+      if (req.user.role !== "admin" && req.user.companyId) {
+        const matchingPolicies = await storage.getMatchingApprovalPolicies(req.user.companyId, data);
+        approvalReasons.push(...matchingPolicies.map((policy) => `Política: ${policy.name}`));
+      }
+
+      // Impresión segura: el trabajo queda retenido hasta que el usuario lo libere en la impresora
+      const pullPrinting = req.body.pullPrinting === "true";
+      if (pullPrinting) {
+        const owner = await storage.getUser(data.userId);
+        if (!owner?.releasePinHash && !owner?.badgeIdHash) {
+          fs.promises.unlink(req.file.path).catch(() => {});
+          return res.status(400).send("Configura tu PIN de liberación antes de usar impresión segura");
+        }
+        data.status = "held";
+        data.releaseExpiresAt = getPullPrintExpiry();
+      }
+
+      let reason: string | undefined = pullPrinting ? "Impresión segura: pendiente de liberar en la impresora" : undefined;
+      if (approvalReasons.length > 0) {
+        data.status = "pending_approval";
+        data.approvalReason = approvalReasons.join("; ");
+        reason = `Requiere aprobación: ${data.approvalReason}`;
+      }
+
+      // Solo un admin puede registrar un trabajo sin stock suficiente de papel
+      const overrideStock = req.body.overrideStock === "true" && req.user.role === "admin";
+
       const job = await storage.createPrintJob({
         ...data,
         filePath: `/uploads/${req.file.filename}`,
+        mimeType,
+        contentHash,
+      }, { overrideStock, reason });
+
+      // La miniatura se genera en background; si falla, el trabajo queda sin vista previa
+      const uploadedPath = req.file.path;
+      setImmediate(() => {
+        generateThumbnail(uploadedPath, mimeType)
+          .then(thumbnailPath => thumbnailPath ? storage.setPrintJobThumbnail(job.id, thumbnailPath) : undefined)
+          .catch(error => {
+            console.error(`Error generating thumbnail for print job ${job.id}:`, error);
+          });
       });
 
+      // Generar alertas de cuota en background (no bloquea la respuesta). Un trabajo pendiente aún no
+      // cuenta para la cuota: sus alertas se generan al aprobarlo
+      if (job.status !== "pending_approval") {
+        setImmediate(() => {
+          storage.raiseQuotaAlerts(job.userId, jobPages, jobColorPages).catch(error => {
+            console.error("Error raising quota alerts:", error);
+          });
+        });
+      }
+
       res.json(job);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).send(error.errors[0].message);
       }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).send(error.message);
+      }
       console.error("Create print job error:", error);
       res.status(500).send("Failed to create print job");
     }
@@ -699,6 +2124,265 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/print-jobs/:id/status", requireAuth, requireRole(["admin", "operator"]), async (req, res) => {
+    try {
+      const { status, reason } = updatePrintJobStatusSchema.parse(req.body);
+
+      const job = await storage.getPrintJob(req.params.id);
+      if (!job) {
+        return res.status(404).send("Print job not found");
+      }
+
+      const owner = await storage.getUser(job.userId);
+      if (!owner || owner.companyId !== req.user.companyId) {
+        return res.status(403).send("No puedes modificar trabajos de otra empresa");
+      }
+
+      // Los operadores solo gestionan sus propios trabajos
+      if (req.user.role === "operator" && job.userId !== req.user.id) {
+        return res.status(403).send("Solo puedes modificar tus propios trabajos");
+      }
+
+      if (!isPrintJobTransitionAllowed(job.status, status, req.user.role)) {
+        return res.status(409).send(`No puedes cambiar el trabajo de "${job.status}" a "${status}"`);
+      }
+
+      // Aprobar o rechazar desde aquí equivale a usar los endpoints de aprobación
+      let auditAction: "UPDATE" | "APPROVE" | "REJECT" = "UPDATE";
+      if (job.status === "pending_approval" && status === "queued") auditAction = "APPROVE";
+      if (job.status === "pending_approval" && status === "rejected") auditAction = "REJECT";
+
+      // La aprobación de un trabajo de impresión segura lo deja retenido, no en cola
+      const updatedJob = auditAction === "APPROVE"
+        ? await storage.reviewPrintJob(req.params.id, "approve", req.user.id, reason)
+        : await storage.updatePrintJobStatus(req.params.id, status, req.user.id, reason, auditAction);
+      res.json(updatedJob);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      if (error instanceof InvalidStatusTransitionError || error instanceof InsufficientStockError) {
+        return res.status(409).send(error.message);
+      }
+      console.error("Update print job status error:", error);
+      res.status(500).send("Failed to update print job status");
+    }
+  });
+
+  app.post("/api/print-jobs/:id/approve", requireAuth, requireRole(["admin"]), async (req, res) => {
+    await reviewPrintJob(req, res, "approve");
+  });
+
+  app.post("/api/print-jobs/:id/reject", requireAuth, requireRole(["admin"]), async (req, res) => {
+    await reviewPrintJob(req, res, "reject");
+  });
+
+  // PULL PRINTING - endpoints usados por la impresora; el PIN o la credencial reemplazan al token
+  app.post("/api/printers/:printerId/release/jobs", async (req, res) => {
+    try {
+      const credentials = releaseCredentialsSchema.parse(req.body);
+      const auth = await authenticateReleaseCaller(req.params.printerId, credentials);
+      if ("status" in auth) {
+        return res.status(auth.status).send(auth.message);
+      }
+
+      const jobs = await storage.getReleasableJobs(auth.user.id, req.params.printerId);
+      res.json(jobs);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("List releasable jobs error:", error);
+      res.status(500).send("Failed to fetch held jobs");
+    }
+  });
+
+  app.post("/api/printers/:printerId/release", async (req, res) => {
+    try {
+      const credentials = releaseCredentialsSchema.parse(req.body);
+      const auth = await authenticateReleaseCaller(req.params.printerId, credentials);
+      if ("status" in auth) {
+        return res.status(auth.status).send(auth.message);
+      }
+
+      const released = await storage.releaseHeldJobs(auth.user.id, req.params.printerId, credentials.jobIds);
+      res.json(released);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Release held jobs error:", error);
+      res.status(500).send("Failed to release held jobs");
+    }
+  });
+
+  app.get("/api/reports/pull-printing", requireAuth, requireRole(["admin"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const days = parseInt(req.query.days as string) || 30;
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+      const report = await storage.getPullPrintingReport(req.user.companyId, since);
+      res.json({ ...report, days, expiryHours: PULL_PRINT_EXPIRY_HOURS });
+    } catch (error) {
+      console.error("Get pull printing report error:", error);
+      res.status(500).send("Failed to fetch pull printing report");
+    }
+  });
+
+  app.get("/api/retention", requireAuth, requireRole(["admin"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const company = await storage.getCompany(req.user.companyId);
+      if (!company) {
+        return res.status(404).send("Empresa no encontrada");
+      }
+      res.json({
+        documentRetentionDays: company.documentRetentionDays,
+        metadataRetentionDays: company.metadataRetentionDays,
+      });
+    } catch (error) {
+      console.error("Get retention error:", error);
+      res.status(500).send("Failed to fetch retention settings");
+    }
+  });
+
+  app.put("/api/retention", requireAuth, requireRole(["admin"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const data = updateRetentionSchema.parse(req.body);
+      const company = await storage.updateCompanyRetention(req.user.companyId, data, req.user.id);
+      if (!company) {
+        return res.status(404).send("Empresa no encontrada");
+      }
+      res.json({
+        documentRetentionDays: company.documentRetentionDays,
+        metadataRetentionDays: company.metadataRetentionDays,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Update retention error:", error);
+      res.status(500).send("Failed to update retention settings");
+    }
+  });
+
+  app.get("/api/upload-policy", requireAuth, requireRole(["admin"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const company = await storage.getCompany(req.user.companyId);
+      if (!company) {
+        return res.status(404).send("Empresa no encontrada");
+      }
+      res.json({ allowedUploadTypes: company.allowedUploadTypes ?? defaultAllowedUploadTypes });
+    } catch (error) {
+      console.error("Get upload policy error:", error);
+      res.status(500).send("Failed to fetch upload policy");
+    }
+  });
+
+  app.put("/api/upload-policy", requireAuth, requireRole(["admin"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const data = updateUploadPolicySchema.parse(req.body);
+      const company = await storage.updateCompanyUploadPolicy(req.user.companyId, data.allowedUploadTypes, req.user.id);
+      if (!company) {
+        return res.status(404).send("Empresa no encontrada");
+      }
+      res.json({ allowedUploadTypes: company.allowedUploadTypes ?? defaultAllowedUploadTypes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Update upload policy error:", error);
+      res.status(500).send("Failed to update upload policy");
+    }
+  });
+
+  // CUPS: importación del page_log y mapeo de colas/usuarios sin coincidencia.
+  // Acepta JSON ({ log }) o el archivo tal cual como text/plain, p. ej. con curl --data-binary
+  app.post("/api/cups/page-log", requireAuth, requireRole(["admin"]), requireCompanyAccess(), express.text({ type: "text/plain", limit: "5mb" }), async (req, res) => {
+    try {
+      const { log } = cupsPageLogSchema.parse(typeof req.body === "string" ? { log: req.body } : req.body);
+      const summary = await ingestPageLog(req.user.companyId, log);
+      res.json(summary);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Import CUPS page_log error:", error);
+      res.status(500).send("Failed to import CUPS page_log");
+    }
+  });
+
+  app.get("/api/cups/unmatched", requireAuth, requireRole(["admin"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const unmatched = await storage.getCupsUnmatchedNames(req.user.companyId);
+      res.json(unmatched);
+    } catch (error) {
+      console.error("Get CUPS unmatched names error:", error);
+      res.status(500).send("Failed to fetch unmatched CUPS names");
+    }
+  });
+
+  app.post("/api/cups/mappings", requireAuth, requireRole(["admin"]), requireCompanyAccess(), async (req, res) => {
+    try {
+      const { kind, name, targetId } = mapCupsNameSchema.parse(req.body);
+      const mapped = await storage.mapCupsName(req.user.companyId, kind, name, targetId, req.user.id);
+      if (!mapped) {
+        return res.status(404).send(kind === "queue" ? "Impresora no encontrada" : "Usuario no encontrado");
+      }
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
+      console.error("Map CUPS name error:", error);
+      res.status(500).send("Failed to map CUPS name");
+    }
+  });
+
+  app.post("/api/retention/purge", requireAuth, requireRole(["super-admin"]), async (req, res) => {
+    try {
+      const summary = await purgeUploads(uploadsDir);
+      res.json(summary);
+    } catch (error) {
+      console.error("Purge uploads error:", error);
+      res.status(500).send("Failed to purge uploads");
+    }
+  });
+
+  app.get("/api/reports/storage", requireAuth, requireRole(["super-admin", "admin"]), async (req, res) => {
+    try {
+      if (req.user.role === "admin" && !req.user.companyId) {
+        return res.status(403).send("Error: Tu usuario no tiene una empresa asignada");
+      }
+      const report = await storage.getStorageReport(req.user.role === "super-admin" ? undefined : req.user.companyId);
+      res.json(report);
+    } catch (error) {
+      console.error("Get storage report error:", error);
+      res.status(500).send("Failed to fetch storage report");
+    }
+  });
+
+  app.get("/api/print-jobs/:id/events", requireAuth, async (req, res) => {
+    try {
+      const job = await storage.getPrintJob(req.params.id);
+      if (!job) {
+        return res.status(404).send("Print job not found");
+      }
+
+      if (req.user.role !== "super-admin") {
+        const owner = await storage.getUser(job.userId);
+        if (!owner || owner.companyId !== req.user.companyId) {
+          return res.status(403).send("No tienes acceso a este recurso");
+        }
+      }
+
+      const events = await storage.getPrintJobEvents(req.params.id);
+      res.json(events);
+    } catch (error) {
+      console.error("Get print job events error:", error);
+      res.status(500).send("Failed to fetch print job events");
+    }
+  });
+
   app.get("/api/dashboard", requireAuth, async (req, res) => {
     try {
       let companyId: string | undefined;
@@ -712,9 +2396,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         companyId = req.user.companyId;
       }
       
-      const stats = await storage.getDashboardStats(companyId);
+      const locationFilter = locationFilterSchema.parse(req.query);
+      const stats = await storage.getDashboardStats(companyId, locationFilter);
       res.json(stats);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
       console.error("Get dashboard stats error:", error);
       res.status(500).send("Failed to fetch dashboard stats");
     }
@@ -727,9 +2415,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const period = (req.query.period as string) || "month";
-      const stats = await storage.getConsumptionStats(period, req.user.companyId);
+      const locationFilter = locationFilterSchema.parse(req.query);
+      const stats = await storage.getConsumptionStats(period, req.user.companyId, locationFilter);
       res.json(stats);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
       console.error("Get consumption stats error:", error);
       res.status(500).send("Failed to fetch consumption stats");
     }
@@ -789,10 +2481,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/companies/:id", requireAuth, clearSecurityContext, requireRole(["super-admin"]), async (req, res) => {
     try {
+      await sql`DELETE FROM print_job_events WHERE print_job_id IN (SELECT id FROM print_jobs WHERE user_id IN (SELECT id FROM users WHERE company_id = ${req.params.id}))`;
       await sql`DELETE FROM print_jobs WHERE user_id IN (SELECT id FROM users WHERE company_id = ${req.params.id})`;
       await sql`DELETE FROM maintenance_logs WHERE printer_id IN (SELECT id FROM printers WHERE company_id = ${req.params.id})`;
+      await sql`DELETE FROM toner_compatibility WHERE toner_id IN (SELECT id FROM toner_inventory WHERE company_id = ${req.params.id})`;
       await sql`DELETE FROM toner_inventory WHERE company_id = ${req.params.id}`;
       await sql`DELETE FROM paper_types WHERE company_id = ${req.params.id}`;
+      await sql`DELETE FROM stock_movements WHERE company_id = ${req.params.id}`;
+      await sql`DELETE FROM purchase_order_lines WHERE purchase_order_id IN (SELECT id FROM purchase_orders WHERE company_id = ${req.params.id})`;
+      await sql`DELETE FROM purchase_orders WHERE company_id = ${req.params.id}`;
+      await sql`DELETE FROM supplier_items WHERE supplier_id IN (SELECT id FROM suppliers WHERE company_id = ${req.params.id})`;
+      await sql`DELETE FROM suppliers WHERE company_id = ${req.params.id}`;
+      await sql`DELETE FROM locations WHERE company_id = ${req.params.id}`;
       await db.delete(users).where(eq(users.companyId, req.params.id));
       await db.delete(printers).where(eq(printers.companyId, req.params.id));
       
@@ -822,9 +2522,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/analytics", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
-      const analytics = await storage.getAnalyticsData(user.companyId);
+      const locationFilter = locationFilterSchema.parse(req.query);
+      const analytics = await storage.getAnalyticsData(user.companyId, locationFilter);
       res.json(analytics);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
       console.error("Analytics error:", error);
       res.status(500).send("Failed to get analytics");
     }
@@ -953,20 +2657,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const user = req.user as any;
       const { startDate, endDate } = req.body;
+      const locationFilter = locationFilterSchema.parse({
+        locationId: req.body.locationId || undefined,
+        groupBy: req.body.groupBy || undefined,
+        basis: req.body.basis || undefined,
+      });
       const jobs = await storage.getAllPrintJobs(user.companyId);
       
-      const filtered = jobs.filter(j => {
+      const dated = jobs.filter(j => {
         const d = new Date(j.printedAt);
         return d >= new Date(startDate) && d <= new Date(endDate);
       });
+      const { jobs: filtered, locationBreakdown } = await storage.filterPrintJobsByLocation(dated, user.companyId, locationFilter);
+
+      // Con groupBy se exporta el resumen por ubicación en lugar del detalle de trabajos
+      if (locationBreakdown) {
+        const summary = "Location,Path,Jobs,Pages,Color Pages,Sheets,Impressions,Total Cost\n" +
+          locationBreakdown.map(row => [row.name, row.path, row.jobs, row.pages, row.colorPages, row.sheets, row.impressions, row.totalCost.toFixed(2)].map(toCsvValue).join(",")).join("\n");
+
+        res.setHeader("Content-Type", "text/csv");
+        res.setHeader("Content-Disposition", `attachment; filename=report-by-${locationFilter.groupBy}.csv`);
+        return res.send(summary);
+      }
 
-      const csv = "Date,User,Printer,Pages,Color Mode,Document\n" +
-        filtered.map(j => `${j.printedAt},${j.user.username},${j.printer.name},${j.pageCount},${j.colorMode},${j.documentName}`).join("\n");
+      const locationsById = new Map((await storage.getAllLocations(user.companyId)).map(location => [location.id, location]));
+      const locationPath = (locationId: string | null) => locationId ? formatLocationPath(locationId, locationsById) : "";
+
+      const csv = "Date,User,Printer,Location,Pages,Color Mode,Document,Paper Cost,Toner Cost,Click Cost,Total Cost\n" +
+        filtered.map(j => [
+          new Date(j.printedAt).toISOString(),
+          j.user.username,
+          j.printer.name,
+          locationPath(locationFilter.basis === "user" ? j.user.locationId : j.printer.locationId),
+          j.pageCount,
+          j.colorMode,
+          j.documentName,
+          j.paperCost,
+          j.tonerCost,
+          j.clickCost,
+          j.totalCost,
+        ].map(toCsvValue).join(",")).join("\n");
 
       res.setHeader("Content-Type", "text/csv");
       res.setHeader("Content-Disposition", "attachment; filename=report.csv");
       res.send(csv);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).send(error.errors[0].message);
+      }
       console.error("Export error:", error);
       res.status(500).send("Failed to export report");
     }
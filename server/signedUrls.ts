@@ -0,0 +1,62 @@
+import crypto from "crypto";
+
+// Vigencia de los enlaces firmados a documentos subidos
+export const FILE_URL_TTL_SECONDS = parseInt(process.env.FILE_URL_TTL_SECONDS || "300", 10);
+
+export type FileDisposition = "view" | "download" | "thumbnail";
+
+export type SignedFileUrl = {
+  url: string;
+  expiresAt: string;
+};
+
+function getSigningSecret(): string {
+  return process.env.FILE_URL_SECRET || process.env.SESSION_SECRET || "sentinel-pro-dev-secret-change-for-production";
+}
+
+// La firma cubre el trabajo, el modo de acceso, el usuario y el vencimiento
+function sign(jobId: string, disposition: FileDisposition, userId: string, expires: number): string {
+  return crypto
+    .createHmac("sha256", getSigningSecret())
+    .update(`${jobId}:${disposition}:${userId}:${expires}`)
+    .digest("hex");
+}
+
+export function createSignedFileUrl(jobId: string, disposition: FileDisposition, userId: string): SignedFileUrl {
+  const expires = Math.floor(Date.now() / 1000) + FILE_URL_TTL_SECONDS;
+  const params = new URLSearchParams({
+    uid: userId,
+    expires: String(expires),
+    sig: sign(jobId, disposition, userId, expires),
+  });
+
+  return {
+    url: `/api/files/${jobId}/${disposition}?${params.toString()}`,
+    expiresAt: new Date(expires * 1000).toISOString(),
+  };
+}
+
+// Devuelve el usuario que firmó el enlace, o null si la firma no coincide o ya venció
+export function verifySignedFileUrl(
+  jobId: string,
+  disposition: FileDisposition,
+  query: { uid?: unknown; expires?: unknown; sig?: unknown }
+): string | null {
+  const { uid, expires, sig } = query;
+  if (typeof uid !== "string" || typeof expires !== "string" || typeof sig !== "string") {
+    return null;
+  }
+
+  const expiresAt = parseInt(expires, 10);
+  if (!Number.isFinite(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(jobId, disposition, uid, expiresAt), "hex");
+  const provided = Buffer.from(sig, "hex");
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return null;
+  }
+
+  return uid;
+}
@@ -0,0 +1,290 @@
+import dgram from "dgram";
+import crypto from "crypto";
+
+// Cliente SNMP v2c mínimo (GET y GETNEXT) sobre UDP, suficiente para leer el Printer-MIB y el Host-Resources-MIB.
+// Solo usa dgram: se puede probar contra un simulador local (p. ej. snmpsim) apuntando a 127.0.0.1:<puerto>.
+
+export type SnmpTarget = {
+  host: string;
+  port: number;
+  community: string;
+  timeoutMs: number;
+  retries: number;
+};
+
+export type SnmpValue = number | string | null;
+
+export type SnmpVarbind = {
+  oid: string;
+  value: SnmpValue;
+};
+
+export class SnmpError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnmpError";
+  }
+}
+
+const SNMP_VERSION_2C = 1;
+
+const TAG = {
+  INTEGER: 0x02,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  SEQUENCE: 0x30,
+  IP_ADDRESS: 0x40,
+  COUNTER32: 0x41,
+  GAUGE32: 0x42,
+  TIMETICKS: 0x43,
+  COUNTER64: 0x46,
+  NO_SUCH_OBJECT: 0x80,
+  NO_SUCH_INSTANCE: 0x81,
+  END_OF_MIB_VIEW: 0x82,
+  GET_REQUEST: 0xa0,
+  GET_NEXT_REQUEST: 0xa1,
+  RESPONSE: 0xa2,
+};
+
+// Marca el fin de la MIB en un GETNEXT; no es un valor que se devuelva al llamador
+const END_OF_MIB = Symbol("endOfMibView");
+
+// Corta un recorrido que nunca termina (agentes que no respetan el orden lexicográfico)
+const MAX_WALK_ROWS = 500;
+
+// --- Codificación BER ---
+
+function encodeLength(length: number): Buffer {
+  if (length < 0x80) return Buffer.from([length]);
+  const bytes: number[] = [];
+  while (length > 0) {
+    bytes.unshift(length & 0xff);
+    length >>= 8;
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+function encodeTlv(tag: number, value: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([tag]), encodeLength(value.length), value]);
+}
+
+function encodeInteger(value: number): Buffer {
+  const bytes: number[] = [];
+  let remaining = value;
+  do {
+    bytes.unshift(remaining & 0xff);
+    remaining >>= 8;
+  } while (remaining !== 0 && remaining !== -1);
+  // Agregar un byte de signo si el bit alto no coincide con el signo del número
+  if (value >= 0 && bytes[0] & 0x80) bytes.unshift(0x00);
+  if (value < 0 && !(bytes[0] & 0x80)) bytes.unshift(0xff);
+  return encodeTlv(TAG.INTEGER, Buffer.from(bytes));
+}
+
+function encodeOid(oid: string): Buffer {
+  const parts = oid.split(".").map(Number);
+  if (parts.length < 2 || parts.some((part) => !Number.isInteger(part) || part < 0)) {
+    throw new SnmpError(`OID inválido: ${oid}`);
+  }
+  const bytes: number[] = [parts[0] * 40 + parts[1]];
+  for (const part of parts.slice(2)) {
+    const chunk: number[] = [part & 0x7f];
+    let remaining = Math.floor(part / 128);
+    while (remaining > 0) {
+      chunk.unshift((remaining & 0x7f) | 0x80);
+      remaining = Math.floor(remaining / 128);
+    }
+    bytes.push(...chunk);
+  }
+  return encodeTlv(TAG.OID, Buffer.from(bytes));
+}
+
+function encodeRequest(pduTag: number, requestId: number, community: string, oids: string[]): Buffer {
+  const varbinds = oids.map((oid) => encodeTlv(TAG.SEQUENCE, Buffer.concat([encodeOid(oid), encodeTlv(TAG.NULL, Buffer.alloc(0))])));
+  const pdu = encodeTlv(
+    pduTag,
+    Buffer.concat([
+      encodeInteger(requestId),
+      encodeInteger(0),
+      encodeInteger(0),
+      encodeTlv(TAG.SEQUENCE, Buffer.concat(varbinds)),
+    ])
+  );
+  return encodeTlv(
+    TAG.SEQUENCE,
+    Buffer.concat([encodeInteger(SNMP_VERSION_2C), encodeTlv(TAG.OCTET_STRING, Buffer.from(community)), pdu])
+  );
+}
+
+// --- Decodificación BER ---
+
+type Tlv = { tag: number; value: Buffer; next: number };
+
+function readTlv(buffer: Buffer, offset: number): Tlv {
+  if (offset + 2 > buffer.length) throw new SnmpError("Respuesta SNMP truncada");
+  const tag = buffer[offset];
+  let length = buffer[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes > 4 || start + lengthBytes > buffer.length) throw new SnmpError("Longitud BER inválida");
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) length = length * 256 + buffer[start + i];
+    start += lengthBytes;
+  }
+  if (start + length > buffer.length) throw new SnmpError("Respuesta SNMP truncada");
+  return { tag, value: buffer.subarray(start, start + length), next: start + length };
+}
+
+function readChildren(buffer: Buffer): Tlv[] {
+  const children: Tlv[] = [];
+  let offset = 0;
+  while (offset < buffer.length) {
+    const child = readTlv(buffer, offset);
+    children.push(child);
+    offset = child.next;
+  }
+  return children;
+}
+
+function decodeInteger(value: Buffer): number {
+  // Complemento a dos: si el bit alto está encendido se parte de -1
+  let result = value.length > 0 && value[0] & 0x80 ? -1 : 0;
+  for (let i = 0; i < value.length; i++) result = result * 256 + value[i];
+  return result;
+}
+
+function decodeUnsigned(value: Buffer): number {
+  let result = 0;
+  for (let i = 0; i < value.length; i++) result = result * 256 + value[i];
+  return result;
+}
+
+function decodeOid(value: Buffer): string {
+  if (value.length === 0) return "";
+  const parts = [Math.floor(value[0] / 40), value[0] % 40];
+  let current = 0;
+  for (let i = 1; i < value.length; i++) {
+    const byte = value[i];
+    current = current * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      parts.push(current);
+      current = 0;
+    }
+  }
+  return parts.join(".");
+}
+
+function decodeValue(tlv: Tlv): SnmpValue | typeof END_OF_MIB {
+  switch (tlv.tag) {
+    case TAG.INTEGER:
+      return decodeInteger(tlv.value);
+    case TAG.OCTET_STRING:
+      return tlv.value.toString("utf-8").replace(/\0+$/, "");
+    case TAG.OID:
+      return decodeOid(tlv.value);
+    case TAG.IP_ADDRESS:
+      return Array.from(tlv.value).join(".");
+    case TAG.COUNTER32:
+    case TAG.GAUGE32:
+    case TAG.TIMETICKS:
+    case TAG.COUNTER64:
+      return decodeUnsigned(tlv.value);
+    case TAG.END_OF_MIB_VIEW:
+      return END_OF_MIB;
+    default:
+      // NULL, noSuchObject, noSuchInstance
+      return null;
+  }
+}
+
+function decodeResponse(buffer: Buffer): { requestId: number; errorStatus: number; varbinds: Array<{ oid: string; value: SnmpValue | typeof END_OF_MIB }> } {
+  const message = readTlv(buffer, 0);
+  if (message.tag !== TAG.SEQUENCE) throw new SnmpError("Respuesta SNMP inválida");
+  const [, , pdu] = readChildren(message.value);
+  if (!pdu || pdu.tag !== TAG.RESPONSE) throw new SnmpError("Respuesta SNMP inválida");
+
+  const [requestId, errorStatus, , varbindList] = readChildren(pdu.value);
+  return {
+    requestId: decodeInteger(requestId.value),
+    errorStatus: decodeInteger(errorStatus.value),
+    varbinds: readChildren(varbindList.value).map((varbind) => {
+      const [oid, value] = readChildren(varbind.value);
+      return { oid: decodeOid(oid.value), value: decodeValue(value) };
+    }),
+  };
+}
+
+// --- Transporte ---
+
+function sendRequest(target: SnmpTarget, pduTag: number, oids: string[]) {
+  const requestId = crypto.randomInt(1, 0x7fffffff);
+  const packet = encodeRequest(pduTag, requestId, target.community, oids);
+
+  return new Promise<ReturnType<typeof decodeResponse>>((resolve, reject) => {
+    const socket = dgram.createSocket(target.host.includes(":") ? "udp6" : "udp4");
+    let attempts = 0;
+    let done = false;
+    let timer: NodeJS.Timeout;
+
+    const finish = (error: Error | null, response?: ReturnType<typeof decodeResponse>) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      socket.close();
+      if (error) reject(error);
+      else resolve(response!);
+    };
+
+    const attempt = () => {
+      attempts++;
+      socket.send(packet, target.port, target.host, (error) => {
+        if (error) finish(error);
+      });
+      timer = setTimeout(() => {
+        if (attempts <= target.retries) attempt();
+        else finish(new SnmpError(`Sin respuesta SNMP de ${target.host}:${target.port}`));
+      }, target.timeoutMs);
+    };
+
+    socket.on("message", (message) => {
+      try {
+        const response = decodeResponse(message);
+        if (response.requestId !== requestId) return; // respuesta tardía de un intento anterior
+        finish(null, response);
+      } catch (error) {
+        finish(error as Error);
+      }
+    });
+    socket.on("error", (error) => finish(error));
+
+    attempt();
+  });
+}
+
+export async function snmpGet(target: SnmpTarget, oids: string[]): Promise<SnmpVarbind[]> {
+  const response = await sendRequest(target, TAG.GET_REQUEST, oids);
+  if (response.errorStatus !== 0) {
+    throw new SnmpError(`El agente SNMP respondió con error ${response.errorStatus}`);
+  }
+  return response.varbinds.map(({ oid, value }) => ({ oid, value: value === END_OF_MIB ? null : value }));
+}
+
+// Recorre una rama con GETNEXT y devuelve las filas indexadas por el sufijo del OID
+export async function snmpWalk(target: SnmpTarget, baseOid: string): Promise<SnmpVarbind[]> {
+  const rows: SnmpVarbind[] = [];
+  let current = baseOid;
+
+  while (rows.length < MAX_WALK_ROWS) {
+    const response = await sendRequest(target, TAG.GET_NEXT_REQUEST, [current]);
+    const [varbind] = response.varbinds;
+    if (response.errorStatus !== 0 || !varbind || varbind.value === END_OF_MIB) break;
+    if (!varbind.oid.startsWith(`${baseOid}.`)) break;
+
+    rows.push({ oid: varbind.oid, value: varbind.value });
+    current = varbind.oid;
+  }
+
+  return rows;
+}
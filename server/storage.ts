@@ -1,9 +1,16 @@
 import { drizzle } from "drizzle-orm/postgres-js";
-import { eq, and, inArray, desc } from "drizzle-orm";
+import { eq, ne, and, or, inArray, notInArray, asc, desc, gt, gte, lt, lte, ilike, isNull, isNotNull, count, sum, max } from "drizzle-orm";
+import type { InferInsertModel, InferSelectModel, Table } from "drizzle-orm";
 import postgres from "postgres";
+import { randomUUID } from "crypto";
 import {
   users, printers, printJobs, companies,
-  paperTypes, tonerInventory, maintenanceLogs, alerts, consumptionExpenses, auditLogs
+  paperTypes, tonerInventory, maintenanceLogs, alerts, consumptionExpenses, auditLogs,
+  printJobEvents, isPrintJobTransitionAllowed, departments, printQuotas, approvalPolicies, cupsUnmatchedNames,
+  printerSupplyLevels, printerMeterReadings, printerDowntime, tonerCompatibility, locations, stockMovements,
+  purchaseOrders, purchaseOrderLines, suppliers, supplierItems,
+  calculateSheetsUsed, calculateImpressions, normalizePrinterModel, isTonerCompatible,
+  LOCATION_LEVELS, getLocationAncestors, formatLocationPath, purchaseOrderStatusLabels, formatPurchaseOrderNumber
 } from "@shared/schema";
 import type {
   User,
@@ -26,13 +33,301 @@ import type {
   MaintenanceLogWithDetails,
   Alert,
   InsertAlert,
+  PrintJobStatus,
+  PrintJobEventWithUser,
+  Department,
+  InsertDepartment,
+  PrintQuota,
+  InsertPrintQuota,
+  QuotaStatus,
+  ApprovalPolicy,
+  InsertApprovalPolicy,
+  PullPrintingReport,
+  PrintJobSearch,
+  PaginatedResult,
+  UpdateRetention,
+  StorageReportRow,
+  DuplicatePrintMatch,
+  DuplicatePrintStats,
+  CupsUnmatchedName,
+  PrinterSupplyLevel,
+  PrinterPollResult,
+  PrinterMeterReading,
+  InsertPrinterMeterReading,
+  MeterReconciliationRow,
+  PrinterAvailability,
+  TonerInventoryWithCompatibility,
+  Location,
+  InsertLocation,
+  LocationFilter,
+  LocationLevel,
+  LocationUsageRow,
+  StockItemType,
+  StockMovementType,
+  StockMovement,
+  InsertStockMovement,
+  StockTransfer,
+  StockMovementQuery,
+  StockMovementWithDetails,
+  StockReconciliationRow,
+  ConsumptionExpense,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  PurchaseOrderWithDetails,
+  InsertPurchaseOrder,
+  UpdatePurchaseOrder,
+  ReceivePurchaseOrder,
+  Supplier,
+  InsertSupplier,
+  UpdateSupplier,
+  SupplierItemsInput,
+  SupplierWithItems,
+  SupplyProjection,
 } from "@shared/schema";
 
-type UserWithoutPassword = Omit<User, "password">;
+type UserWithoutPassword = Omit<User, "password" | "releasePinHash" | "badgeIdHash">;
+
+// Estados a los que puede pasar una orden de compra desde cada estado
+const PURCHASE_ORDER_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ["sent", "cancelled"],
+  sent: ["partially_received", "received", "cancelled"],
+  partially_received: ["partially_received", "received", "cancelled"],
+  received: [],
+  cancelled: [],
+};
+
+export type CreatePrintJobOptions = {
+  overrideStock?: boolean;
+  reason?: string;
+  // Trabajo capturado por otro sistema (p. ej. CUPS): conserva su fecha y su identificador de origen
+  imported?: { source: string; externalJobId: string; printedAt: Date };
+};
+
+// Estados en los que el papel descontado vuelve al inventario
+const RESTOCK_STATUSES = ["failed", "cancelled", "rejected", "expired"];
+
+// Horas que un trabajo de impresión segura espera a ser liberado antes de vencer
+export const PULL_PRINT_EXPIRY_HOURS = parseInt(process.env.PULL_PRINT_EXPIRY_HOURS || "24", 10);
+
+export function getPullPrintExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + PULL_PRINT_EXPIRY_HOURS * 60 * 60 * 1000);
+}
+
+// Trabajos que todavía no cuentan como impresos en estadísticas de consumo
+const UNAPPROVED_STATUSES = ["pending_approval", "rejected"];
+
+// Trabajos en curso: su documento no se elimina aunque haya vencido la retención
+const ACTIVE_STATUSES = ["pending_approval", "queued", "held", "printing"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Días hacia atrás en los que un mismo documento del mismo usuario cuenta como reimpresión
+export const DUPLICATE_WINDOW_DAYS = parseInt(process.env.DUPLICATE_WINDOW_DAYS || "7", 10);
+
+// Trabajos que ya salieron (o están saliendo) por la impresora; son los que debería reflejar el contador
+const PRINTED_STATUSES = ["printing", "completed"];
+
+// Diferencia entre el contador y los trabajos registrados a partir de la cual se alerta impresión no registrada
+const METER_GAP_ALERT_PERCENT = parseFloat(process.env.METER_GAP_ALERT_PERCENT || "10");
+const METER_GAP_ALERT_MIN_PAGES = parseInt(process.env.METER_GAP_ALERT_MIN_PAGES || "50", 10);
+
+// Movimientos de inventario que devuelve una consulta del libro, los más recientes primero
+const STOCK_MOVEMENT_LIST_LIMIT = 500;
+
+// Campos comunes de papel y toner que usa el libro de movimientos
+type StockItem = { id: string; name: string; stock: number; companyId: string | null };
+
+// Plazo de entrega con que se calcula la reposición de un insumo sin proveedor en el catálogo
+const DEFAULT_REORDER_LEAD_TIME_DAYS = parseInt(process.env.DEFAULT_REORDER_LEAD_TIME_DAYS || "7", 10);
+
+// Crítico: se agota antes de que llegue un pedido hecho hoy. Advertencia y precaución: queda menos de una
+// o de dos semanas para pedir a tiempo. daysRemaining está redondeado hacia abajo, así que un pedido que
+// llega justo ese día todavía llega a tiempo.
+function getSupplyStatus(daysRemaining: number, leadTimeDays: number): SupplyProjection["status"] {
+  if (daysRemaining < leadTimeDays) return "critical";
+  if (daysRemaining < leadTimeDays + 7) return "warning";
+  if (daysRemaining < leadTimeDays + 14) return "caution";
+  return "normal";
+}
+
+// Cada cuánto el contador leído por SNMP se guarda como lectura
+const SNMP_METER_READING_INTERVAL_HOURS = parseInt(process.env.SNMP_METER_READING_INTERVAL_HOURS || "24", 10);
+
+// Días de anticipación con que se avisa el vencimiento de la garantía de una impresora
+const WARRANTY_ALERT_DAYS = parseInt(process.env.WARRANTY_ALERT_DAYS || "30", 10);
+
+// Rendimiento por defecto de un cartucho cuando no se registró el del fabricante
+const DEFAULT_TONER_PAGE_YIELD: Record<string, number> = { black: 2500, tricolor: 1500 };
+
+export function getTonerPageYield(toner: TonerInventory): number {
+  return toner.pageYield || DEFAULT_TONER_PAGE_YIELD[toner.color] || 1200;
+}
+
+// Un trabajo genera costo solo si llegó a imprimirse (o está por imprimirse)
+function isCostBearingJob(job: PrintJob): boolean {
+  return !RESTOCK_STATUSES.includes(job.status) && !UNAPPROVED_STATUSES.includes(job.status);
+}
+
+// Un trabajo es reimpresión si el mismo usuario imprimió el mismo contenido dentro de la ventana
+function summarizeDuplicatePrints(jobs: PrintJobWithDetails[]): DuplicatePrintStats {
+  const groups = new Map<string, PrintJobWithDetails[]>();
+  for (const job of jobs) {
+    if (!job.contentHash || !isCostBearingJob(job)) continue;
+    const key = `${job.userId}:${job.contentHash}`;
+    groups.set(key, [...(groups.get(key) || []), job]);
+  }
+
+  const windowMs = DUPLICATE_WINDOW_DAYS * DAY_MS;
+  const documents = new Map<string, DuplicatePrintStats["topDocuments"][number]>();
+  const stats: DuplicatePrintStats = { windowDays: DUPLICATE_WINDOW_DAYS, duplicateJobs: 0, wastedPages: 0, wastedCost: 0, topDocuments: [] };
+
+  for (const [key, group] of Array.from(groups)) {
+    group.sort((a, b) => new Date(a.printedAt).getTime() - new Date(b.printedAt).getTime());
+    for (let i = 1; i < group.length; i++) {
+      const job = group[i];
+      if (new Date(job.printedAt).getTime() - new Date(group[i - 1].printedAt).getTime() > windowMs) continue;
+
+      const pages = job.pageCount * job.copies;
+      const cost = parseFloat(job.totalCost.toString());
+      stats.duplicateJobs++;
+      stats.wastedPages += pages;
+      stats.wastedCost += cost;
+
+      const document = documents.get(key) || { documentName: group[0].documentName, username: job.user.username, duplicates: 0, wastedPages: 0, wastedCost: 0 };
+      document.duplicates++;
+      document.wastedPages += pages;
+      document.wastedCost += cost;
+      documents.set(key, document);
+    }
+  }
+
+  stats.wastedCost = Math.round(stats.wastedCost * 100) / 100;
+  stats.topDocuments = Array.from(documents.values())
+    .sort((a, b) => b.wastedPages - a.wastedPages)
+    .slice(0, 10)
+    .map((document) => ({ ...document, wastedCost: Math.round(document.wastedCost * 100) / 100 }));
+  return stats;
+}
+
+type MeterInterval = Pick<
+  MeterReconciliationRow,
+  "meterPages" | "recordedPages" | "recordedBwPages" | "recordedColorPages" | "unrecordedPages" | "gapPercent" | "flagged"
+>;
+
+// Compara el avance del contador entre dos lecturas con las impresiones de los trabajos del intervalo
+function reconcileMeterInterval(start: PrinterMeterReading | null, end: PrinterMeterReading | null, jobs: PrintJob[]): MeterInterval {
+  const recordedBwPages = jobs.filter((job) => job.colorMode !== "color").reduce((sum, job) => sum + calculateImpressions(job), 0);
+  const recordedColorPages = jobs.filter((job) => job.colorMode === "color").reduce((sum, job) => sum + calculateImpressions(job), 0);
+  const recordedPages = recordedBwPages + recordedColorPages;
+
+  // Un contador que retrocede indica un reinicio o cambio de placa: ese intervalo no se puede comparar
+  const meterPages = start && end && start.id !== end.id && end.totalCount >= start.totalCount
+    ? end.totalCount - start.totalCount
+    : null;
+  if (meterPages === null) {
+    return { meterPages, recordedPages, recordedBwPages, recordedColorPages, unrecordedPages: null, gapPercent: null, flagged: false };
+  }
+
+  const unrecordedPages = meterPages - recordedPages;
+  const gapPercent = meterPages > 0 ? Math.round((unrecordedPages / meterPages) * 1000) / 10 : null;
+  const flagged = unrecordedPages >= METER_GAP_ALERT_MIN_PAGES && gapPercent !== null && gapPercent >= METER_GAP_ALERT_PERCENT;
+  return { meterPages, recordedPages, recordedBwPages, recordedColorPages, unrecordedPages, gapPercent, flagged };
+}
+
+function isWithinLocation(locationId: string | null, ancestorId: string, byId: Map<string, Location>): boolean {
+  return !!locationId && getLocationAncestors(locationId, byId).some((location) => location.id === ancestorId);
+}
+
+// Acumula los trabajos en el nodo del nivel pedido que contiene la ubicación de cada trabajo
+function summarizeUsageByLocation(
+  jobs: PrintJobWithDetails[],
+  locationList: Location[],
+  level: LocationLevel,
+  basis: LocationFilter["basis"]
+): LocationUsageRow[] {
+  const byId = new Map(locationList.map((location) => [location.id, location]));
+  const rows = new Map<string | null, LocationUsageRow>();
+
+  for (const job of jobs) {
+    const locationId = basis === "user" ? job.user.locationId : job.printer.locationId;
+    const node = locationId ? getLocationAncestors(locationId, byId).find((location) => location.level === level) : undefined;
+    const key = node ? node.id : null;
+
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        locationId: key,
+        name: node ? node.name : "Sin ubicación",
+        path: node ? formatLocationPath(node.id, byId) : "",
+        jobs: 0,
+        pages: 0,
+        colorPages: 0,
+        sheets: 0,
+        impressions: 0,
+        totalCost: 0,
+      };
+      rows.set(key, row);
+    }
+
+    const pages = job.pageCount * job.copies;
+    row.jobs++;
+    row.pages += pages;
+    if (job.colorMode === "color") row.colorPages += pages;
+    row.sheets += calculateSheetsUsed(job);
+    row.impressions += calculateImpressions(job);
+    if (isCostBearingJob(job)) row.totalCost += parseFloat(job.totalCost.toString());
+  }
+
+  return Array.from(rows.values())
+    .map((row) => ({ ...row, totalCost: Math.round(row.totalCost * 100) / 100 }))
+    .sort((a, b) => b.pages - a.pages);
+}
+
+export class InvalidStatusTransitionError extends Error {
+  constructor(public fromStatus: string, public toStatus: string) {
+    super(`No se puede cambiar un trabajo de "${fromStatus}" a "${toStatus}"`);
+    this.name = "InvalidStatusTransitionError";
+  }
+}
+
+export class MeterReadingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MeterReadingError";
+  }
+}
+
+export class LocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LocationError";
+  }
+}
+
+export class PurchaseOrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PurchaseOrderError";
+  }
+}
+
+export class InsufficientStockError extends Error {
+  constructor(
+    public paperTypeName: string,
+    public available: number,
+    public required: number,
+    unit = "hojas"
+  ) {
+    super(`Stock insuficiente de "${paperTypeName}": se requieren ${required} ${unit} y hay ${available} disponibles`);
+    this.name = "InsufficientStockError";
+  }
+}
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByBadgeIdHash(badgeIdHash: string): Promise<User | undefined>;
+  updateUserReleaseCredentials(userId: string, credentials: { releasePinHash?: string; badgeIdHash?: string | null }): Promise<void>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   getAllUsers(companyId?: string): Promise<UserWithoutPassword[]>;
@@ -44,10 +339,30 @@ export interface IStorage {
   createPrinter(printer: InsertPrinter): Promise<Printer>;
   updatePrinter(id: string, printer: Partial<InsertPrinter>): Promise<Printer | undefined>;
   deletePrinter(id: string): Promise<void>;
+  getPollablePrinters(): Promise<Printer[]>;
+  recordPrinterPoll(printer: Printer, result: PrinterPollResult): Promise<Printer>;
+  getPrinterSupplyLevels(companyId?: string): Promise<PrinterSupplyLevel[]>;
+  recordPrinterHeartbeat(printer: Printer, probe: { reachable: boolean; error?: string }): Promise<Printer>;
+  getPrinterAvailability(companyId: string | undefined, days: number): Promise<PrinterAvailability[]>;
+  generateWarrantyAlerts(): Promise<number>;
+  getMeterReading(id: string): Promise<PrinterMeterReading | undefined>;
+  getMeterReadings(printerId: string, limit?: number): Promise<PrinterMeterReading[]>;
+  createMeterReading(printer: Printer, reading: InsertPrinterMeterReading, source: "manual" | "snmp", userId?: string): Promise<PrinterMeterReading>;
+  deleteMeterReading(id: string, userId: string): Promise<void>;
+  getMeterReconciliation(companyId: string | undefined, from: Date, to: Date, printerId?: string): Promise<MeterReconciliationRow[]>;
 
   getPrintJob(id: string): Promise<PrintJobWithDetails | undefined>;
   getAllPrintJobs(companyId?: string): Promise<PrintJobWithDetails[]>;
-  createPrintJob(job: InsertPrintJob): Promise<PrintJob>;
+  searchPrintJobs(companyId: string | undefined, params: PrintJobSearch): Promise<PaginatedResult<PrintJobWithDetails>>;
+  createPrintJob(job: InsertPrintJob, options?: CreatePrintJobOptions): Promise<PrintJob>;
+  updatePrintJobStatus(
+    id: string,
+    status: PrintJobStatus,
+    userId: string,
+    reason?: string,
+    auditAction?: "UPDATE" | "APPROVE" | "REJECT"
+  ): Promise<PrintJob | undefined>;
+  getPrintJobEvents(printJobId: string): Promise<PrintJobEventWithUser[]>;
 
   getCompany(id: string): Promise<Company | undefined>;
   getAllCompanies(): Promise<Company[]>;
@@ -58,29 +373,109 @@ export interface IStorage {
   getPaperType(id: string): Promise<PaperType | undefined>;
   getAllPaperTypes(companyId?: string): Promise<PaperType[]>;
   createPaperType(paperType: InsertPaperType, userId?: string): Promise<PaperType>;
-  updatePaperType(id: string, paperType: Partial<InsertPaperType>, userId?: string): Promise<PaperType | undefined>;
+  updatePaperType(id: string, paperType: Partial<Omit<InsertPaperType, "stock">>, userId?: string): Promise<PaperType | undefined>;
   deletePaperType(id: string, userId?: string): Promise<void>;
 
   getTonerInventory(id: string): Promise<TonerInventory | undefined>;
   getAllTonerInventory(companyId?: string): Promise<TonerInventory[]>;
+  getAllTonerInventoryWithCompatibility(companyId?: string): Promise<TonerInventoryWithCompatibility[]>;
+  setTonerCompatibleModels(tonerId: string, models: string[], userId?: string): Promise<string[]>;
   createTonerInventory(toner: InsertTonerInventory, userId?: string): Promise<TonerInventory>;
-  updateTonerInventory(id: string, toner: Partial<InsertTonerInventory>, userId?: string): Promise<TonerInventory | undefined>;
+  updateTonerInventory(id: string, toner: Partial<Omit<InsertTonerInventory, "stock">>, userId?: string): Promise<TonerInventory | undefined>;
   deleteTonerInventory(id: string, userId?: string): Promise<void>;
 
+  recordStockMovement(movement: InsertStockMovement, userId: string): Promise<StockMovement>;
+  transferStock(transfer: StockTransfer, userId: string): Promise<StockMovement[]>;
+  getStockMovements(companyId: string | undefined, query: StockMovementQuery): Promise<StockMovementWithDetails[]>;
+  getStockReconciliation(companyId?: string): Promise<StockReconciliationRow[]>;
+  reconcileStockLedger(companyId: string | undefined, userId: string | null, onlyUntracked?: boolean): Promise<number>;
+
+  getPurchaseOrder(id: string): Promise<PurchaseOrderWithDetails | undefined>;
+  getPurchaseOrders(companyId?: string): Promise<PurchaseOrderWithDetails[]>;
+  createPurchaseOrder(order: InsertPurchaseOrder, userId: string): Promise<PurchaseOrderWithDetails>;
+  updatePurchaseOrder(id: string, order: UpdatePurchaseOrder): Promise<PurchaseOrderWithDetails>;
+  setPurchaseOrderStatus(id: string, status: "sent" | "cancelled", userId: string): Promise<PurchaseOrderWithDetails>;
+  receivePurchaseOrder(id: string, receipt: ReceivePurchaseOrder, userId: string): Promise<PurchaseOrderWithDetails>;
+  deletePurchaseOrder(id: string): Promise<void>;
+
+  getSupplier(id: string): Promise<Supplier | undefined>;
+  getSuppliers(companyId?: string): Promise<SupplierWithItems[]>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  updateSupplier(id: string, supplier: UpdateSupplier): Promise<Supplier | undefined>;
+  deleteSupplier(id: string): Promise<void>;
+  setSupplierItems(supplier: Supplier, items: SupplierItemsInput["items"]): Promise<SupplierWithItems>;
+
   getMaintenanceLog(id: string): Promise<MaintenanceLogWithDetails | undefined>;
   getAllMaintenanceLogs(companyId?: string): Promise<MaintenanceLogWithDetails[]>;
   createMaintenanceLog(log: InsertMaintenanceLog): Promise<MaintenanceLog>;
   updateMaintenanceLog(id: string, log: Partial<InsertMaintenanceLog>): Promise<MaintenanceLog | undefined>;
   deleteMaintenanceLog(id: string): Promise<void>;
 
+  getDepartment(id: string): Promise<Department | undefined>;
+  getAllDepartments(companyId: string): Promise<Department[]>;
+  createDepartment(department: InsertDepartment): Promise<Department>;
+  deleteDepartment(id: string): Promise<void>;
+  updateUserDepartment(userId: string, departmentId: string | null): Promise<User | undefined>;
+  getLocation(id: string): Promise<Location | undefined>;
+  getAllLocations(companyId?: string): Promise<Location[]>;
+  createLocation(location: InsertLocation): Promise<Location>;
+  updateLocation(id: string, name: string): Promise<Location | undefined>;
+  deleteLocation(id: string): Promise<void>;
+  updateUserLocation(userId: string, locationId: string | null): Promise<User | undefined>;
+
+  getPrintQuota(id: string): Promise<PrintQuota | undefined>;
+  getAllPrintQuotas(companyId: string): Promise<PrintQuota[]>;
+  createPrintQuota(quota: InsertPrintQuota, userId?: string): Promise<PrintQuota>;
+  updatePrintQuota(id: string, quota: Partial<InsertPrintQuota>, userId?: string): Promise<PrintQuota | undefined>;
+  deletePrintQuota(id: string): Promise<void>;
+  getQuotaStatusForUser(userId: string): Promise<QuotaStatus[]>;
+  raiseQuotaAlerts(userId: string, addedPages: number, addedColorPages: number): Promise<void>;
+
+  getApprovalPolicy(id: string): Promise<ApprovalPolicy | undefined>;
+  getAllApprovalPolicies(companyId: string): Promise<ApprovalPolicy[]>;
+  createApprovalPolicy(policy: InsertApprovalPolicy, userId?: string): Promise<ApprovalPolicy>;
+  updateApprovalPolicy(id: string, policy: Partial<InsertApprovalPolicy>, userId?: string): Promise<ApprovalPolicy | undefined>;
+  deleteApprovalPolicy(id: string): Promise<void>;
+  getMatchingApprovalPolicies(companyId: string, job: Pick<InsertPrintJob, "pageCount" | "copies" | "colorMode">): Promise<ApprovalPolicy[]>;
+  getPendingApprovalJobs(companyId: string): Promise<PrintJobWithDetails[]>;
+  reviewPrintJob(id: string, decision: "approve" | "reject", reviewerId: string, reason?: string): Promise<PrintJob | undefined>;
+
+  getReleasableJobs(userId: string, printerId: string): Promise<PrintJobWithDetails[]>;
+  releaseHeldJobs(userId: string, printerId: string, jobIds?: string[]): Promise<PrintJob[]>;
+  expireHeldJobs(): Promise<number>;
+  getPullPrintingReport(companyId: string, since: Date): Promise<PullPrintingReport>;
+  updateCompanyRetention(companyId: string, retention: UpdateRetention, userId: string): Promise<Company | undefined>;
+  getPrintJobsWithExpiredFiles(): Promise<Array<Pick<PrintJob, "id" | "filePath" | "thumbnailPath">>>;
+  markPrintJobFilesDeleted(ids: string[]): Promise<void>;
+  purgeExpiredPrintJobs(): Promise<{ purgedJobs: number; filePaths: string[] }>;
+  getReferencedUploadPaths(): Promise<string[]>;
+  getStorageReport(companyId?: string): Promise<StorageReportRow[]>;
+  findRecentDuplicateJobs(userId: string, contentHash: string): Promise<DuplicatePrintMatch[]>;
+  setPrintJobThumbnail(id: string, thumbnailPath: string): Promise<void>;
+  updateCompanyUploadPolicy(companyId: string, allowedUploadTypes: string[], userId: string): Promise<Company | undefined>;
+  findPrinterByCupsQueue(companyId: string, queue: string): Promise<Printer | undefined>;
+  findUserByCupsUsername(companyId: string, cupsUsername: string): Promise<User | undefined>;
+  hasImportedPrintJob(companyId: string, externalJobId: string): Promise<boolean>;
+  recordCupsUnmatchedName(companyId: string, kind: "queue" | "user", name: string, jobName: string): Promise<void>;
+  getCupsUnmatchedNames(companyId: string): Promise<CupsUnmatchedName[]>;
+  mapCupsName(companyId: string, kind: "queue" | "user", name: string, targetId: string, userId: string): Promise<boolean>;
+  recordFileAccess(
+    job: PrintJob,
+    companyId: string,
+    userId: string,
+    disposition: "view" | "download",
+    client?: { ipAddress?: string; userAgent?: string }
+  ): Promise<void>;
+
   getAllAlerts(companyId: string): Promise<Alert[]>;
   createAlert(alert: InsertAlert): Promise<Alert>;
   markAlertRead(id: string): Promise<void>;
   deleteAlert(id: string): Promise<void>;
 
-  getDashboardStats(companyId?: string): Promise<DashboardStats>;
-  getConsumptionStats(period: string, companyId?: string): Promise<ConsumptionStats>;
-  getAnalyticsData(companyId?: string): Promise<any>;
+  getDashboardStats(companyId?: string, locationFilter?: LocationFilter): Promise<DashboardStats>;
+  getConsumptionStats(period: string, companyId?: string, locationFilter?: LocationFilter): Promise<ConsumptionStats>;
+  getAnalyticsData(companyId?: string, locationFilter?: LocationFilter): Promise<any>;
+  filterPrintJobsByLocation(jobs: PrintJobWithDetails[], companyId: string | undefined, locationFilter?: LocationFilter): Promise<{ jobs: PrintJobWithDetails[]; locationBreakdown?: LocationUsageRow[] }>;
   createConsumptionExpense(expense: any): Promise<any>;
 
   createAuditLog(log: any): Promise<any>;
@@ -102,12 +497,20 @@ export const sql = postgres(getDatabaseUrl(), {
 });
 export const db = drizzle(sql);
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Sin strict, los tipos de insert y update de drizzle pierden las columnas opcionales o con default y rechazan
+// cualquier objeto que las incluya. Los valores se comprueban contra la fila completa de la tabla.
+function columnValues<TTable extends Table>(_table: TTable, values: Partial<InferSelectModel<TTable>>): InferInsertModel<TTable> {
+  return values as InferInsertModel<TTable>;
+}
+
 export class PostgresStorage implements IStorage {
   // Helper para crear logs de auditoría
   private async createAuditLogEntry(
     companyId: string,
     userId: string,
-    action: "CREATE" | "UPDATE" | "DELETE",
+    action: "CREATE" | "UPDATE" | "DELETE" | "APPROVE" | "REJECT" | "DOWNLOAD",
     tableName: string,
     recordId: string,
     oldValues?: any,
@@ -262,6 +665,226 @@ export class PostgresStorage implements IStorage {
         );
       `);
 
+      // El historial de eventos llegó junto con el ciclo de vida: si aún no existe, la base es anterior a él
+      const [{ hasJobEvents }] = await sql`SELECT to_regclass('print_job_events') IS NOT NULL AS "hasJobEvents"`;
+
+      await sql.unsafe(`
+        CREATE TABLE IF NOT EXISTS print_job_events (
+          id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+          print_job_id varchar NOT NULL,
+          company_id varchar,
+          user_id varchar,
+          from_status text,
+          to_status text NOT NULL,
+          reason text,
+          created_at timestamp NOT NULL DEFAULT now()
+        );
+        CREATE INDEX IF NOT EXISTS idx_print_job_events_job_id ON print_job_events(print_job_id);
+      `);
+
+      await sql.unsafe(`
+        CREATE TABLE IF NOT EXISTS departments (
+          id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+          name text NOT NULL,
+          company_id varchar NOT NULL,
+          created_at timestamp NOT NULL DEFAULT now()
+        );
+      `);
+
+      await sql.unsafe(`
+        CREATE TABLE IF NOT EXISTS locations (
+          id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+          company_id varchar NOT NULL,
+          parent_id varchar,
+          level text NOT NULL,
+          name text NOT NULL,
+          created_at timestamp NOT NULL DEFAULT now()
+        );
+        CREATE INDEX IF NOT EXISTS idx_locations_company_id ON locations(company_id);
+      `);
+
+      await sql.unsafe(`
+        CREATE TABLE IF NOT EXISTS stock_movements (
+          id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+          company_id varchar,
+          item_type text NOT NULL,
+          item_id varchar NOT NULL,
+          movement_type text NOT NULL,
+          quantity integer NOT NULL,
+          balance_after integer NOT NULL,
+          reason text,
+          reference text,
+          print_job_id varchar,
+          transfer_id varchar,
+          purchase_order_id varchar,
+          user_id varchar,
+          created_at timestamp NOT NULL DEFAULT now()
+        );
+        ALTER TABLE stock_movements ADD COLUMN IF NOT EXISTS purchase_order_id varchar;
+        CREATE INDEX IF NOT EXISTS idx_stock_movements_item ON stock_movements(item_type, item_id);
+        CREATE INDEX IF NOT EXISTS idx_stock_movements_company_created ON stock_movements(company_id, created_at);
+      `);
+
+      await sql.unsafe(`
+        CREATE TABLE IF NOT EXISTS purchase_orders (
+          id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+          company_id varchar NOT NULL,
+          order_number integer NOT NULL,
+          supplier text NOT NULL,
+          status text NOT NULL DEFAULT 'draft',
+          expected_date timestamp,
+          notes text,
+          created_by varchar,
+          sent_at timestamp,
+          received_at timestamp,
+          cancelled_at timestamp,
+          created_at timestamp NOT NULL DEFAULT now()
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_purchase_orders_company_number ON purchase_orders(company_id, order_number);
+        CREATE TABLE IF NOT EXISTS purchase_order_lines (
+          id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+          purchase_order_id varchar NOT NULL,
+          item_type text NOT NULL,
+          item_id varchar NOT NULL,
+          quantity_ordered integer NOT NULL,
+          quantity_received integer NOT NULL DEFAULT 0,
+          unit_price decimal(10,2) NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_order ON purchase_order_lines(purchase_order_id);
+        ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS supplier_id varchar;
+      `);
+
+      await sql.unsafe(`
+        CREATE TABLE IF NOT EXISTS suppliers (
+          id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+          company_id varchar NOT NULL,
+          name text NOT NULL,
+          contact_name text,
+          email text,
+          phone text,
+          notes text,
+          lead_time_days integer NOT NULL DEFAULT 7,
+          created_at timestamp NOT NULL DEFAULT now()
+        );
+        CREATE INDEX IF NOT EXISTS idx_suppliers_company_id ON suppliers(company_id);
+        CREATE TABLE IF NOT EXISTS supplier_items (
+          id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+          supplier_id varchar NOT NULL,
+          item_type text NOT NULL,
+          item_id varchar NOT NULL,
+          unit_price decimal(10,2),
+          lead_time_days integer,
+          preferred boolean NOT NULL DEFAULT false
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_supplier_items_supplier_item ON supplier_items(supplier_id, item_type, item_id);
+        CREATE INDEX IF NOT EXISTS idx_supplier_items_item ON supplier_items(item_type, item_id);
+      `);
+
+      await sql.unsafe(`
+        CREATE TABLE IF NOT EXISTS print_quotas (
+          id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+          company_id varchar NOT NULL,
+          scope text NOT NULL,
+          user_id varchar,
+          department_id varchar,
+          monthly_page_limit integer,
+          monthly_color_page_limit integer,
+          enforcement text NOT NULL DEFAULT 'block',
+          alert_thresholds integer[] NOT NULL DEFAULT '{80,100}',
+          created_at timestamp NOT NULL DEFAULT now()
+        );
+      `);
+
+      await sql.unsafe(`
+        CREATE TABLE IF NOT EXISTS approval_policies (
+          id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+          company_id varchar NOT NULL,
+          name text NOT NULL,
+          min_total_pages integer,
+          min_copies integer,
+          require_for_color boolean NOT NULL DEFAULT false,
+          enabled boolean NOT NULL DEFAULT true,
+          created_at timestamp NOT NULL DEFAULT now()
+        );
+      `);
+
+      await sql.unsafe(`
+        CREATE TABLE IF NOT EXISTS cups_unmatched_names (
+          id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+          company_id varchar NOT NULL,
+          kind text NOT NULL,
+          name text NOT NULL,
+          skipped_jobs integer NOT NULL DEFAULT 0,
+          last_job_name text,
+          first_seen_at timestamp NOT NULL DEFAULT now(),
+          last_seen_at timestamp NOT NULL DEFAULT now()
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_cups_unmatched_names_key ON cups_unmatched_names(company_id, kind, name);
+      `);
+
+      await sql.unsafe(`
+        CREATE TABLE IF NOT EXISTS printer_supply_levels (
+          id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+          printer_id varchar NOT NULL,
+          supply_index integer NOT NULL,
+          description text NOT NULL,
+          supply_type text NOT NULL,
+          color text,
+          level_percent integer,
+          updated_at timestamp NOT NULL DEFAULT now()
+        );
+        CREATE INDEX IF NOT EXISTS idx_printer_supply_levels_printer_id ON printer_supply_levels(printer_id);
+      `);
+
+      await sql.unsafe(`
+        CREATE TABLE IF NOT EXISTS printer_meter_readings (
+          id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+          printer_id varchar NOT NULL,
+          company_id varchar NOT NULL,
+          total_count integer NOT NULL,
+          mono_count integer,
+          color_count integer,
+          source text NOT NULL DEFAULT 'manual',
+          recorded_by varchar,
+          notes text,
+          read_at timestamp NOT NULL DEFAULT now(),
+          created_at timestamp NOT NULL DEFAULT now()
+        );
+        CREATE INDEX IF NOT EXISTS idx_printer_meter_readings_printer_read_at ON printer_meter_readings(printer_id, read_at);
+      `);
+
+      await sql.unsafe(`
+        CREATE TABLE IF NOT EXISTS printer_downtime (
+          id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+          printer_id varchar NOT NULL,
+          company_id varchar NOT NULL,
+          started_at timestamp NOT NULL DEFAULT now(),
+          ended_at timestamp,
+          detected_by text NOT NULL,
+          reason text
+        );
+        CREATE INDEX IF NOT EXISTS idx_printer_downtime_printer_id ON printer_downtime(printer_id, started_at);
+      `);
+
+      await sql.unsafe(`
+        CREATE TABLE IF NOT EXISTS toner_compatibility (
+          id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+          toner_id varchar NOT NULL,
+          printer_model text NOT NULL,
+          created_at timestamp NOT NULL DEFAULT now()
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_toner_compatibility_model ON toner_compatibility(toner_id, lower(printer_model));
+      `);
+
+      // Migration: toner_inventory.printer_id (un toner por impresora) pasa a ser compatibilidad por modelo.
+      // La columna queda sin uso; se vacía para que la conversión corra una sola vez.
+      await sql.unsafe(`
+        INSERT INTO toner_compatibility (toner_id, printer_model)
+        SELECT t.id, p.model FROM toner_inventory t JOIN printers p ON p.id = t.printer_id
+        ON CONFLICT DO NOTHING;
+        UPDATE toner_inventory SET printer_id = NULL WHERE printer_id IS NOT NULL;
+      `);
+
       await sql.unsafe(`
         CREATE TABLE IF NOT EXISTS session (
           sid varchar PRIMARY KEY,
@@ -273,20 +896,83 @@ export class PostgresStorage implements IStorage {
       // Migration: Add missing columns if they don't exist
       await sql.unsafe(`
         ALTER TABLE users ADD COLUMN IF NOT EXISTS department_id varchar;
+        ALTER TABLE users ADD COLUMN IF NOT EXISTS release_pin_hash text;
+        ALTER TABLE users ADD COLUMN IF NOT EXISTS badge_id_hash text;
+        ALTER TABLE users ADD COLUMN IF NOT EXISTS cups_username text;
+        ALTER TABLE users ADD COLUMN IF NOT EXISTS location_id varchar;
       `);
 
       await sql.unsafe(`
         ALTER TABLE printers ADD COLUMN IF NOT EXISTS department_id varchar;
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS click_charge_bw decimal(10,4);
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS click_charge_color decimal(10,4);
+        ALTER TABLE toner_inventory ADD COLUMN IF NOT EXISTS page_yield integer;
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS cups_queue text;
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS device_status text;
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS page_counter integer;
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS last_polled_at timestamp;
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS last_seen_at timestamp;
+        ALTER TABLE alerts ADD COLUMN IF NOT EXISTS resolved_at timestamp;
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS serial_number text;
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS manufacturer text;
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS ownership text NOT NULL DEFAULT 'owned';
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS purchase_date timestamp;
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS purchase_price decimal(10,2);
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS expected_lifetime_months integer;
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS warranty_end_date timestamp;
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS warranty_alerted_at timestamp;
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS location_id varchar;
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS supports_color boolean NOT NULL DEFAULT true;
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS supports_duplex boolean NOT NULL DEFAULT true;
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS supported_paper_sizes text[];
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS max_paper_weight integer;
+        ALTER TABLE printers ADD COLUMN IF NOT EXISTS supports_stapling boolean NOT NULL DEFAULT false;
       `);
 
       await sql.unsafe(`
         ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS paper_type_id varchar;
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS stapled boolean NOT NULL DEFAULT false;
       `);
 
       await sql.unsafe(`
         ALTER TABLE maintenance_logs ADD COLUMN IF NOT EXISTS company_id varchar;
       `);
 
+      await sql.unsafe(`
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS declared_page_count integer;
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS detected_page_count integer;
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS page_count_mismatch boolean NOT NULL DEFAULT false;
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS paper_sheets_deducted integer NOT NULL DEFAULT 0;
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS approval_reason text;
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS release_expires_at timestamp;
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS duplex boolean NOT NULL DEFAULT false;
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS n_up integer NOT NULL DEFAULT 1;
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS paper_cost decimal(10,4) NOT NULL DEFAULT 0;
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS toner_cost decimal(10,4) NOT NULL DEFAULT 0;
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS click_cost decimal(10,4) NOT NULL DEFAULT 0;
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS total_cost decimal(10,4) NOT NULL DEFAULT 0;
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS file_deleted_at timestamp;
+        ALTER TABLE companies ADD COLUMN IF NOT EXISTS document_retention_days integer DEFAULT 30;
+        ALTER TABLE companies ADD COLUMN IF NOT EXISTS metadata_retention_days integer DEFAULT 730;
+        ALTER TABLE companies ADD COLUMN IF NOT EXISTS allowed_upload_types text[];
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS mime_type text;
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS thumbnail_path text;
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS content_hash text;
+        CREATE INDEX IF NOT EXISTS idx_print_jobs_user_content_hash ON print_jobs(user_id, content_hash);
+        ALTER TABLE print_jobs ALTER COLUMN file_path DROP NOT NULL;
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'upload';
+        ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS external_job_id text;
+        CREATE INDEX IF NOT EXISTS idx_print_jobs_external_job_id ON print_jobs(external_job_id);
+      `);
+
+      // Migration: el estado "pending" fue reemplazado por "queued" en el ciclo de vida; corre una sola vez,
+      // en la primera ejecución sobre una base anterior a ese cambio
+      if (!hasJobEvents) {
+        await sql.unsafe(`
+          UPDATE print_jobs SET status = 'queued' WHERE status = 'pending';
+        `);
+      }
+
       await sql.unsafe(`
         CREATE TABLE IF NOT EXISTS consumption_expenses (
           id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -297,6 +983,7 @@ export class PostgresStorage implements IStorage {
           date timestamp NOT NULL DEFAULT now(),
           created_at timestamp NOT NULL DEFAULT now()
         );
+        ALTER TABLE consumption_expenses ADD COLUMN IF NOT EXISTS purchase_order_id varchar;
       `);
 
       await sql.unsafe(`
@@ -349,14 +1036,14 @@ export class PostgresStorage implements IStorage {
         
         const defaultCompanyExists = await this.getCompany("00000000-0000-0000-0000-000000000010");
         if (!defaultCompanyExists) {
-          await db.insert(companies).values({
+          await db.insert(companies).values(columnValues(companies, {
             id: "00000000-0000-0000-0000-000000000010",
             name: "Empresa De Prueba",
             email: "empresa.prueba@sentinel.cl",
-          }).onConflictDoNothing();
+          })).onConflictDoNothing();
         }
 
-        await db.insert(users).values({
+        await db.insert(users).values(columnValues(users, {
           id: "00000000-0000-0000-0000-000000000001",
           username: "sentinelpro",
           password: hashedPassword,
@@ -364,12 +1051,12 @@ export class PostgresStorage implements IStorage {
           fullName: "Sentinel Pro - Super Admin",
           role: "super-admin",
           companyId: undefined,
-        }).onConflictDoNothing();
+        })).onConflictDoNothing();
         
         const adminExists = await this.getUserByUsername("admin");
         if (!adminExists) {
           const adminPassword = await bcrypt.default.hash("123456", 10);
-          await db.insert(users).values({
+          await db.insert(users).values(columnValues(users, {
             id: "00000000-0000-0000-0000-000000000002",
             username: "admin",
             password: adminPassword,
@@ -377,10 +1064,10 @@ export class PostgresStorage implements IStorage {
             fullName: "Administrador",
             role: "admin",
             companyId: "00000000-0000-0000-0000-000000000010",
-          }).onConflictDoNothing();
+          })).onConflictDoNothing();
         }
 
-        await db.insert(paperTypes).values({
+        await db.insert(paperTypes).values(columnValues(paperTypes, {
           id: "00000000-0000-0000-0000-000000000030",
           name: "Papel Bond Carta",
           size: "letter",
@@ -389,9 +1076,9 @@ export class PostgresStorage implements IStorage {
           pricePerSheet: "0.01",
           stock: 5000,
           companyId: "00000000-0000-0000-0000-000000000010",
-        }).onConflictDoNothing();
+        })).onConflictDoNothing();
 
-        await db.insert(paperTypes).values({
+        await db.insert(paperTypes).values(columnValues(paperTypes, {
           id: "00000000-0000-0000-0000-000000000031",
           name: "Papel Bond A4",
           size: "a4",
@@ -400,7 +1087,7 @@ export class PostgresStorage implements IStorage {
           pricePerSheet: "0.012",
           stock: 3000,
           companyId: "00000000-0000-0000-0000-000000000010",
-        }).onConflictDoNothing();
+        })).onConflictDoNothing();
         
         console.log("Super admin created: sentinelpro / 123456");
         console.log("Test admin created: admin / 123456 (Empresa De Prueba)");
@@ -415,6 +1102,18 @@ export class PostgresStorage implements IStorage {
     return result[0];
   }
 
+  async getUserByBadgeIdHash(badgeIdHash: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.badgeIdHash, badgeIdHash));
+    return result[0];
+  }
+
+  async updateUserReleaseCredentials(
+    userId: string,
+    credentials: { releasePinHash?: string; badgeIdHash?: string | null }
+  ): Promise<void> {
+    await db.update(users).set(columnValues(users, credentials)).where(eq(users.id, userId));
+  }
+
   async getUserByUsername(username: string): Promise<User | undefined> {
     const result = await db.select().from(users).where(eq(users.username, username));
     return result[0];
@@ -426,7 +1125,7 @@ export class PostgresStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const result = await db.insert(users).values(insertUser).returning();
+    const result = await db.insert(users).values(columnValues(users, insertUser)).returning();
     const user = result[0];
 
     // Registrar auditoría para creación de usuarios (operación administrativa crítica)
@@ -453,7 +1152,7 @@ export class PostgresStorage implements IStorage {
     }
     
     const result = await query.orderBy(users.createdAt);
-    return result.map(({ password, ...user }) => user).filter((u: any) => u.role !== "super-admin");
+    return result.map(({ password, releasePinHash, badgeIdHash, ...user }) => user).filter((u: any) => u.role !== "super-admin");
   }
 
   async getUsersByCompany(companyId: string): Promise<UserWithoutPassword[]> {
@@ -464,7 +1163,7 @@ export class PostgresStorage implements IStorage {
       .orderBy(users.createdAt);
     
     return result
-      .map(({ password, ...user }) => user)
+      .map(({ password, releasePinHash, badgeIdHash, ...user }) => user)
       .filter((u: any) => u.role !== "super-admin");
   }
 
@@ -485,86 +1184,469 @@ export class PostgresStorage implements IStorage {
   }
 
   async createPrinter(insertPrinter: InsertPrinter): Promise<Printer> {
-    const result = await db.insert(printers).values(insertPrinter).returning();
+    const result = await db.insert(printers).values(columnValues(printers, insertPrinter)).returning();
     return result[0];
   }
 
   async updatePrinter(id: string, data: Partial<InsertPrinter>): Promise<Printer | undefined> {
-    const result = await db.update(printers).set(data).where(eq(printers.id, id)).returning();
+    // Si se cambia la fecha de fin de garantía (p. ej. una extensión) se vuelve a avisar antes del nuevo vencimiento
+    const changes = data.warrantyEndDate !== undefined ? { ...data, warrantyAlertedAt: null } : data;
+    const result = await db.update(printers).set(columnValues(printers, changes)).where(eq(printers.id, id)).returning();
+    // Al retirarla del servicio deja de monitorearse: una caída abierta se cierra en ese momento
+    if (result[0] && (data.status === "inactive" || data.status === "maintenance")) {
+      await this.trackPrinterOutage(result[0], false, "manual", null, new Date());
+    }
     return result[0];
   }
 
   async deletePrinter(id: string): Promise<void> {
+    await db.delete(printerSupplyLevels).where(eq(printerSupplyLevels.printerId, id));
+    await db.delete(printerMeterReadings).where(eq(printerMeterReadings.printerId, id));
+    await db.delete(printerDowntime).where(eq(printerDowntime.printerId, id));
     await db.delete(printers).where(eq(printers.id, id));
   }
 
-async getPaperType(id: string): Promise<PaperType | undefined> {
-    const result = await db.select().from(paperTypes).where(eq(paperTypes.id, id));
-    return result[0];
+  // Impresoras con dirección que no fueron retiradas del servicio a mano
+  async getPollablePrinters(): Promise<Printer[]> {
+    return db
+      .select()
+      .from(printers)
+      .where(and(isNotNull(printers.ipAddress), notInArray(printers.status, ["inactive", "maintenance"])));
   }
 
-  async getAllPaperTypes(companyId?: string): Promise<PaperType[]> {
-    if (companyId) {
-      return db.select().from(paperTypes).where(eq(paperTypes.companyId, companyId)).orderBy(paperTypes.createdAt);
+  async recordPrinterPoll(printer: Printer, result: PrinterPollResult): Promise<Printer> {
+    const now = new Date();
+    // "unreachable": no respondió ni por SNMP ni por TCP
+    const isOffline = result.deviceStatus === "unreachable" || result.deviceStatus === "down";
+    // Solo se cambia entre active y offline; inactive y maintenance los decide un administrador
+    const status = isOffline ? "offline" : printer.status === "offline" ? "active" : printer.status;
+
+    const updated = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(printers)
+        .set(columnValues(printers, {
+          status,
+          deviceStatus: result.deviceStatus,
+          lastPolledAt: now,
+          ...(result.deviceStatus !== "unreachable" && { lastSeenAt: now }),
+          ...(result.pageCounter !== null && { pageCounter: result.pageCounter }),
+        }))
+        .where(eq(printers.id, printer.id))
+        .returning();
+
+      if (result.reachable) {
+        await tx.delete(printerSupplyLevels).where(eq(printerSupplyLevels.printerId, printer.id));
+        if (result.supplies.length > 0) {
+          await tx
+            .insert(printerSupplyLevels)
+            .values(result.supplies.map((supply) => ({ ...supply, printerId: printer.id, updatedAt: now })));
+        }
+      }
+
+      return row;
+    });
+
+    await this.trackPrinterOutage(
+      printer,
+      status === "offline",
+      "snmp",
+      result.deviceStatus === "down" ? "La impresora informa que está fuera de servicio" : result.error || null,
+      now
+    );
+
+    if (result.pageCounter !== null && printer.companyId) {
+      await this.captureSnmpMeterReading(updated, result.pageCounter, now);
     }
-    return db.select().from(paperTypes).orderBy(paperTypes.createdAt);
+
+    return updated;
   }
 
-  async createPaperType(insertPaperType: InsertPaperType, userId?: string): Promise<PaperType> {
-    const result = await db.insert(paperTypes).values(insertPaperType).returning();
-    const paperType = result[0];
+  async recordPrinterHeartbeat(printer: Printer, probe: { reachable: boolean; error?: string }): Promise<Printer> {
+    const now = new Date();
+    // Que acepte conexiones no la saca de una caída informada por SNMP (atasco, sin papel): esa caída
+    // la cierra el sondeo SNMP cuando la impresora deja de informar "down"
+    const reportedDown = probe.reachable && printer.deviceStatus === "down";
+    const offline = !probe.reachable || reportedDown;
+    const status = offline ? "offline" : printer.status === "offline" ? "active" : printer.status;
+
+    const [updated] = await db
+      .update(printers)
+      .set(columnValues(printers, { status, ...(probe.reachable && { lastSeenAt: now }) }))
+      .where(eq(printers.id, printer.id))
+      .returning();
 
-    // Registrar auditoría si hay userId
-    if (userId && paperType.companyId) {
-      await this.createAuditLogEntry(
-        paperType.companyId,
-        userId,
-        "CREATE",
-        "paper_types",
-        paperType.id,
-        null,
-        paperType
-      );
+    if (!reportedDown) {
+      await this.trackPrinterOutage(printer, offline, "tcp", probe.error || null, now);
     }
+    return updated;
+  }
 
-    return paperType;
+  // Abre o cierra el periodo sin conexión de la impresora. La caída abierta (y no el estado de la impresora)
+  // decide si hubo un cambio, así el sondeo SNMP y el latido TCP no duplican periodos ni alertas.
+  private async trackPrinterOutage(
+    printer: Printer,
+    offline: boolean,
+    detectedBy: "tcp" | "snmp" | "manual",
+    reason: string | null,
+    now: Date
+  ): Promise<void> {
+    if (!printer.companyId) return;
+
+    const [open] = await db
+      .select()
+      .from(printerDowntime)
+      .where(and(eq(printerDowntime.printerId, printer.id), isNull(printerDowntime.endedAt)))
+      .limit(1);
+
+    if (offline && !open) {
+      await db.insert(printerDowntime).values(columnValues(printerDowntime, {
+        printerId: printer.id,
+        companyId: printer.companyId,
+        startedAt: now,
+        detectedBy,
+        reason,
+      }));
+      await this.createAlert({
+        companyId: printer.companyId,
+        type: "printer_offline",
+        title: "Impresora sin conexión",
+        message: `${printer.name} (${printer.location}, ${printer.ipAddress}) está sin conexión${reason ? `: ${reason}` : ""}.`,
+        severity: "error",
+        resourceId: printer.id,
+        resourceType: "printer",
+      });
+    } else if (!offline && open) {
+      await db.update(printerDowntime).set(columnValues(printerDowntime, { endedAt: now })).where(eq(printerDowntime.id, open.id));
+      await db
+        .update(alerts)
+        .set(columnValues(alerts, { read: true, resolvedAt: now }))
+        .where(and(
+          eq(alerts.resourceId, printer.id),
+          eq(alerts.type, "printer_offline"),
+          isNull(alerts.resolvedAt)
+        ));
+    }
   }
 
-  async updatePaperType(id: string, data: Partial<InsertPaperType>, userId?: string): Promise<PaperType | undefined> {
-    // Obtener valores anteriores para auditoría
-    const oldPaperType = userId ? await this.getPaperType(id) : null;
+  async getPrinterAvailability(companyId: string | undefined, days: number): Promise<PrinterAvailability[]> {
+    const now = new Date();
+    const since = new Date(now.getTime() - days * DAY_MS);
 
-    const result = await db.update(paperTypes).set(data).where(eq(paperTypes.id, id)).returning();
-    const paperType = result[0];
+    const printerRows = await db
+      .select()
+      .from(printers)
+      .where(companyId ? eq(printers.companyId, companyId) : undefined);
+    if (printerRows.length === 0) return [];
 
-    // Registrar auditoría si hay userId y valores anteriores
-    if (userId && oldPaperType && paperType?.companyId) {
-      const fieldChanges = [];
+    const outages = await db
+      .select()
+      .from(printerDowntime)
+      .where(and(
+        inArray(printerDowntime.printerId, printerRows.map((printer) => printer.id)),
+        or(isNull(printerDowntime.endedAt), gt(printerDowntime.endedAt, since))
+      ));
+
+    return printerRows.map((printer) => {
+      // La ventana empieza cuando se registró la impresora si es posterior
+      const windowStart = Math.max(since.getTime(), printer.createdAt.getTime());
+      const windowMs = Math.max(now.getTime() - windowStart, 1);
+      const own = outages.filter((outage) => outage.printerId === printer.id);
+
+      const downtimeMs = own.reduce((sum, outage) => {
+        const start = Math.max(outage.startedAt.getTime(), windowStart);
+        const end = outage.endedAt ? outage.endedAt.getTime() : now.getTime();
+        return sum + Math.max(end - start, 0);
+      }, 0);
+      const current = own.find((outage) => !outage.endedAt);
 
-      // Detectar cambios en campos relevantes para auditoría
-      if (data.stock !== undefined && data.stock !== oldPaperType.stock) {
-        fieldChanges.push({
-          field: "stock",
-          oldValue: oldPaperType.stock,
-          newValue: data.stock
-        });
-      }
+      return {
+        printerId: printer.id,
+        windowDays: days,
+        availabilityPercent: Math.round(Math.max(0, 1 - downtimeMs / windowMs) * 1000) / 10,
+        downtimeMinutes: Math.round(downtimeMs / 60000),
+        outages: own.length,
+        offlineSince: current ? current.startedAt : null,
+      };
+    });
+  }
 
-      if (data.pricePerSheet !== undefined && data.pricePerSheet !== oldPaperType.pricePerSheet) {
-        fieldChanges.push({
-          field: "price_per_sheet",
-          oldValue: oldPaperType.pricePerSheet,
-          newValue: data.pricePerSheet
-        });
-      }
+  // Avisa una sola vez por impresora cuando su garantía vence dentro de WARRANTY_ALERT_DAYS
+  async generateWarrantyAlerts(): Promise<number> {
+    const now = new Date();
+    const limit = new Date(now.getTime() + WARRANTY_ALERT_DAYS * DAY_MS);
 
-      if (fieldChanges.length > 0) {
-        await this.createAuditLogEntry(
-          paperType.companyId,
-          userId,
-          "UPDATE",
-          "paper_types",
-          id,
+    const expiring = await db
+      .select()
+      .from(printers)
+      .where(and(
+        isNotNull(printers.warrantyEndDate),
+        gt(printers.warrantyEndDate, now),
+        lte(printers.warrantyEndDate, limit),
+        isNull(printers.warrantyAlertedAt),
+        ne(printers.status, "inactive")
+      ));
+
+    for (const printer of expiring) {
+      const daysLeft = Math.ceil((printer.warrantyEndDate!.getTime() - now.getTime()) / DAY_MS);
+      await db.transaction(async (tx) => {
+        await tx.insert(alerts).values(columnValues(alerts, {
+          companyId: printer.companyId,
+          type: "warranty_expiring",
+          title: `Garantía por vencer: ${printer.name}`,
+          message: `La garantía de "${printer.name}"${printer.serialNumber ? ` (serie ${printer.serialNumber})` : ""} vence en ${daysLeft} día(s), el ${printer.warrantyEndDate!.toLocaleDateString("es")}.`,
+          severity: daysLeft <= 7 ? "warning" : "info",
+          resourceId: printer.id,
+          resourceType: "printer",
+        }));
+        await tx.update(printers).set(columnValues(printers, { warrantyAlertedAt: now })).where(eq(printers.id, printer.id));
+      });
+    }
+    return expiring.length;
+  }
+
+  // El contador se consulta en cada sondeo, pero solo se guarda una lectura por intervalo
+  private async captureSnmpMeterReading(printer: Printer, pageCounter: number, now: Date): Promise<void> {
+    const [last] = await db
+      .select()
+      .from(printerMeterReadings)
+      .where(and(eq(printerMeterReadings.printerId, printer.id), eq(printerMeterReadings.source, "snmp")))
+      .orderBy(desc(printerMeterReadings.readAt))
+      .limit(1);
+    if (last && now.getTime() - last.readAt.getTime() < SNMP_METER_READING_INTERVAL_HOURS * 60 * 60 * 1000) return;
+
+    await this.createMeterReading(printer, { totalCount: pageCounter, readAt: now }, "snmp");
+  }
+
+  async getMeterReading(id: string): Promise<PrinterMeterReading | undefined> {
+    const [reading] = await db.select().from(printerMeterReadings).where(eq(printerMeterReadings.id, id));
+    return reading;
+  }
+
+  async getMeterReadings(printerId: string, limit: number = 100): Promise<PrinterMeterReading[]> {
+    return db
+      .select()
+      .from(printerMeterReadings)
+      .where(eq(printerMeterReadings.printerId, printerId))
+      .orderBy(desc(printerMeterReadings.readAt))
+      .limit(limit);
+  }
+
+  async createMeterReading(
+    printer: Printer,
+    reading: InsertPrinterMeterReading,
+    source: "manual" | "snmp",
+    userId?: string
+  ): Promise<PrinterMeterReading> {
+    if (!printer.companyId) {
+      throw new MeterReadingError("La impresora no pertenece a ninguna empresa");
+    }
+    const readAt = reading.readAt || new Date();
+
+    const [previous] = await db
+      .select()
+      .from(printerMeterReadings)
+      .where(and(eq(printerMeterReadings.printerId, printer.id), lte(printerMeterReadings.readAt, readAt)))
+      .orderBy(desc(printerMeterReadings.readAt))
+      .limit(1);
+
+    // Las lecturas manuales deben respetar el orden del contador; las de SNMP pueden reflejar un reinicio
+    if (source === "manual") {
+      const [next] = await db
+        .select()
+        .from(printerMeterReadings)
+        .where(and(eq(printerMeterReadings.printerId, printer.id), gt(printerMeterReadings.readAt, readAt)))
+        .orderBy(asc(printerMeterReadings.readAt))
+        .limit(1);
+      if (previous && reading.totalCount < previous.totalCount) {
+        throw new MeterReadingError(`El contador (${reading.totalCount}) es menor que la lectura anterior (${previous.totalCount})`);
+      }
+      if (next && reading.totalCount > next.totalCount) {
+        throw new MeterReadingError(`El contador (${reading.totalCount}) es mayor que la lectura posterior (${next.totalCount})`);
+      }
+    }
+
+    const [created] = await db
+      .insert(printerMeterReadings)
+      .values(columnValues(printerMeterReadings, {
+        ...reading,
+        readAt,
+        printerId: printer.id,
+        companyId: printer.companyId,
+        source,
+        recordedBy: userId ?? null,
+      }))
+      .returning();
+
+    if (userId) {
+      await this.createAuditLogEntry(printer.companyId, userId, "CREATE", "printer_meter_readings", created.id, null, created);
+    }
+
+    if (previous) {
+      const jobs = await this.getPrintedJobs([printer.id], previous.readAt, created.readAt);
+      const interval = reconcileMeterInterval(previous, created, jobs);
+      if (interval.flagged) {
+        await this.createAlert({
+          companyId: printer.companyId,
+          type: "meter_gap",
+          title: "Impresión sin registrar",
+          message: `El contador de ${printer.name} (${printer.location}) avanzó ${interval.meterPages} páginas desde la lectura anterior, pero solo hay ${interval.recordedPages} registradas (${interval.unrecordedPages} sin registrar).`,
+          severity: "warning",
+          resourceId: printer.id,
+          resourceType: "printer",
+        });
+      }
+    }
+
+    return created;
+  }
+
+  async deleteMeterReading(id: string, userId: string): Promise<void> {
+    const reading = await this.getMeterReading(id);
+    if (!reading) return;
+
+    await db.delete(printerMeterReadings).where(eq(printerMeterReadings.id, id));
+    await this.createAuditLogEntry(reading.companyId, userId, "DELETE", "printer_meter_readings", id, reading, null);
+  }
+
+  // Trabajos impresos en (from, to]: el mismo criterio de intervalo que separa dos lecturas consecutivas
+  private async getPrintedJobs(printerIds: string[], from: Date, to: Date): Promise<PrintJob[]> {
+    return db
+      .select()
+      .from(printJobs)
+      .where(and(
+        inArray(printJobs.printerId, printerIds),
+        inArray(printJobs.status, PRINTED_STATUSES),
+        gt(printJobs.printedAt, from),
+        lte(printJobs.printedAt, to)
+      ));
+  }
+
+  async getMeterReconciliation(companyId: string | undefined, from: Date, to: Date, printerId?: string): Promise<MeterReconciliationRow[]> {
+    const printerRows = await db
+      .select()
+      .from(printers)
+      .where(and(
+        companyId ? eq(printers.companyId, companyId) : undefined,
+        printerId ? eq(printers.id, printerId) : undefined
+      ))
+      .orderBy(printers.name);
+    if (printerRows.length === 0) return [];
+
+    const printerIds = printerRows.map((printer) => printer.id);
+    const readings = await db
+      .select()
+      .from(printerMeterReadings)
+      .where(and(inArray(printerMeterReadings.printerId, printerIds), lte(printerMeterReadings.readAt, to)))
+      .orderBy(asc(printerMeterReadings.readAt));
+
+    const intervals = printerRows.map((printer) => {
+      const own = readings.filter((reading) => reading.printerId === printer.id);
+      // Inicio: la última lectura antes del período o, si no la hay, la primera dentro de él
+      const start = own.filter((reading) => reading.readAt <= from).pop() || own.find((reading) => reading.readAt > from) || null;
+      const end = own.length > 0 ? own[own.length - 1] : null;
+      const hasInterval = start !== null && end !== null && start.id !== end.id;
+      return { printer, start, end, jobsFrom: hasInterval ? start.readAt : from, jobsTo: hasInterval ? end.readAt : to };
+    });
+
+    const earliest = new Date(Math.min(...intervals.map((interval) => interval.jobsFrom.getTime())));
+    const jobs = await this.getPrintedJobs(printerIds, earliest, to);
+
+    return intervals.map(({ printer, start, end, jobsFrom, jobsTo }) => {
+      const printerJobs = jobs.filter((job) =>
+        job.printerId === printer.id && job.printedAt > jobsFrom && job.printedAt <= jobsTo
+      );
+      return {
+        printerId: printer.id,
+        printerName: printer.name,
+        location: printer.location,
+        startReading: start && { totalCount: start.totalCount, readAt: start.readAt },
+        endReading: end && { totalCount: end.totalCount, readAt: end.readAt },
+        ...reconcileMeterInterval(start, end, printerJobs),
+      };
+    });
+  }
+
+  async getPrinterSupplyLevels(companyId?: string): Promise<PrinterSupplyLevel[]> {
+    const rows = await db
+      .select({ level: printerSupplyLevels })
+      .from(printerSupplyLevels)
+      .innerJoin(printers, eq(printerSupplyLevels.printerId, printers.id))
+      .where(companyId ? eq(printers.companyId, companyId) : undefined)
+      .orderBy(printerSupplyLevels.printerId, printerSupplyLevels.supplyIndex);
+    return rows.map((row) => row.level);
+  }
+
+async getPaperType(id: string): Promise<PaperType | undefined> {
+    const result = await db.select().from(paperTypes).where(eq(paperTypes.id, id));
+    return result[0];
+  }
+
+  async getAllPaperTypes(companyId?: string): Promise<PaperType[]> {
+    if (companyId) {
+      return db.select().from(paperTypes).where(eq(paperTypes.companyId, companyId)).orderBy(paperTypes.createdAt);
+    }
+    return db.select().from(paperTypes).orderBy(paperTypes.createdAt);
+  }
+
+  async createPaperType(insertPaperType: InsertPaperType, userId?: string): Promise<PaperType> {
+    // El stock inicial entra por el libro de movimientos, como cualquier otro cambio de stock
+    const paperType = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(paperTypes).values(columnValues(paperTypes, { ...insertPaperType, stock: 0 })).returning();
+      if (!insertPaperType.stock) return created;
+      const { movement } = await this.applyStockMovement(tx, {
+        itemType: "paper",
+        itemId: created.id,
+        movementType: "adjustment",
+        quantity: insertPaperType.stock,
+        reason: "Stock inicial",
+        userId,
+      });
+      return { ...created, stock: movement.balanceAfter };
+    });
+
+    // Registrar auditoría si hay userId
+    if (userId && paperType.companyId) {
+      await this.createAuditLogEntry(
+        paperType.companyId,
+        userId,
+        "CREATE",
+        "paper_types",
+        paperType.id,
+        null,
+        paperType
+      );
+    }
+
+    return paperType;
+  }
+
+  async updatePaperType(id: string, data: Partial<Omit<InsertPaperType, "stock">>, userId?: string): Promise<PaperType | undefined> {
+    // Obtener valores anteriores para auditoría
+    const oldPaperType = userId ? await this.getPaperType(id) : null;
+
+    const result = await db.update(paperTypes).set(data).where(eq(paperTypes.id, id)).returning();
+    const paperType = result[0];
+
+    // Registrar auditoría si hay userId y valores anteriores
+    if (userId && oldPaperType && paperType?.companyId) {
+      const fieldChanges = [];
+
+      // Detectar cambios en campos relevantes para auditoría (el stock solo cambia con movimientos)
+      if (data.pricePerSheet !== undefined && data.pricePerSheet !== oldPaperType.pricePerSheet) {
+        fieldChanges.push({
+          field: "price_per_sheet",
+          oldValue: oldPaperType.pricePerSheet,
+          newValue: data.pricePerSheet
+        });
+      }
+
+      if (fieldChanges.length > 0) {
+        await this.createAuditLogEntry(
+          paperType.companyId,
+          userId,
+          "UPDATE",
+          "paper_types",
+          id,
           oldPaperType,
           paperType,
           fieldChanges
@@ -607,9 +1689,72 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
     return db.select().from(tonerInventory).orderBy(tonerInventory.createdAt);
   }
 
+  async getAllTonerInventoryWithCompatibility(companyId?: string): Promise<TonerInventoryWithCompatibility[]> {
+    const toners = await this.getAllTonerInventory(companyId);
+    if (toners.length === 0) return [];
+
+    const compatibility = await db
+      .select()
+      .from(tonerCompatibility)
+      .where(inArray(tonerCompatibility.tonerId, toners.map((toner) => toner.id)))
+      .orderBy(tonerCompatibility.printerModel);
+
+    return toners.map((toner) => ({
+      ...toner,
+      compatibleModels: compatibility.filter((row) => row.tonerId === toner.id).map((row) => row.printerModel),
+    }));
+  }
+
+  // Reemplaza la lista de modelos compatibles; los repetidos (sin distinguir mayúsculas) se guardan una vez
+  async setTonerCompatibleModels(tonerId: string, models: string[], userId?: string): Promise<string[]> {
+    const unique = new Map<string, string>();
+    for (const model of models) {
+      const trimmed = model.trim().replace(/\s+/g, " ");
+      if (trimmed && !unique.has(normalizePrinterModel(trimmed))) unique.set(normalizePrinterModel(trimmed), trimmed);
+    }
+    const printerModels = Array.from(unique.values()).sort();
+
+    const previous = await db
+      .select()
+      .from(tonerCompatibility)
+      .where(eq(tonerCompatibility.tonerId, tonerId))
+      .orderBy(tonerCompatibility.printerModel);
+    const previousModels = previous.map((row) => row.printerModel);
+    if (previousModels.join("\n") === printerModels.join("\n")) return printerModels;
+
+    await db.transaction(async (tx) => {
+      await tx.delete(tonerCompatibility).where(eq(tonerCompatibility.tonerId, tonerId));
+      if (printerModels.length > 0) {
+        await tx.insert(tonerCompatibility).values(printerModels.map((printerModel) => ({ tonerId, printerModel })));
+      }
+    });
+
+    const toner = userId ? await this.getTonerInventory(tonerId) : undefined;
+    if (userId && toner?.companyId) {
+      await this.createAuditLogEntry(toner.companyId, userId, "UPDATE", "toner_inventory", tonerId, null, null, [{
+        field: "compatible_models",
+        oldValue: previousModels.join(", "),
+        newValue: printerModels.join(", ")
+      }]);
+    }
+
+    return printerModels;
+  }
+
   async createTonerInventory(insertToner: InsertTonerInventory, userId?: string): Promise<TonerInventory> {
-    const result = await db.insert(tonerInventory).values(insertToner).returning();
-    const toner = result[0];
+    const toner = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(tonerInventory).values(columnValues(tonerInventory, { ...insertToner, stock: 0 })).returning();
+      if (!insertToner.stock) return created;
+      const { movement } = await this.applyStockMovement(tx, {
+        itemType: "toner",
+        itemId: created.id,
+        movementType: "adjustment",
+        quantity: insertToner.stock,
+        reason: "Stock inicial",
+        userId,
+      });
+      return { ...created, stock: movement.balanceAfter };
+    });
 
     // Registrar auditoría si hay userId
     if (userId && toner.companyId) {
@@ -627,7 +1772,7 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
     return toner;
   }
 
-  async updateTonerInventory(id: string, data: Partial<InsertTonerInventory>, userId?: string): Promise<TonerInventory | undefined> {
+  async updateTonerInventory(id: string, data: Partial<Omit<InsertTonerInventory, "stock">>, userId?: string): Promise<TonerInventory | undefined> {
     // Obtener valores anteriores para auditoría
     const oldToner = userId ? await this.getTonerInventory(id) : null;
 
@@ -638,15 +1783,7 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
     if (userId && oldToner && toner?.companyId) {
       const fieldChanges = [];
 
-      // Detectar cambios en campos relevantes para auditoría
-      if (data.stock !== undefined && data.stock !== oldToner.stock) {
-        fieldChanges.push({
-          field: "stock",
-          oldValue: oldToner.stock,
-          newValue: data.stock
-        });
-      }
-
+      // Detectar cambios en campos relevantes para auditoría (el stock solo cambia con movimientos)
       if (data.pricePerUnit !== undefined && data.pricePerUnit !== oldToner.pricePerUnit) {
         fieldChanges.push({
           field: "price_per_unit",
@@ -663,6 +1800,14 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
         });
       }
 
+      if (data.pageYield !== undefined && data.pageYield !== oldToner.pageYield) {
+        fieldChanges.push({
+          field: "page_yield",
+          oldValue: oldToner.pageYield,
+          newValue: data.pageYield
+        });
+      }
+
       if (fieldChanges.length > 0) {
         await this.createAuditLogEntry(
           toner.companyId,
@@ -684,6 +1829,7 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
     // Obtener valores antes de eliminar para auditoría
     const toner = userId ? await this.getTonerInventory(id) : null;
 
+    await db.delete(tonerCompatibility).where(eq(tonerCompatibility.tonerId, id));
     await db.delete(tonerInventory).where(eq(tonerInventory.id, id));
 
     // Registrar auditoría si hay userId y toner
@@ -700,6 +1846,577 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
     }
   }
 
+  // Insumo bloqueado hasta el fin de la transacción: dos movimientos simultáneos se suman en lugar de pisarse
+  private async lockStockItem(tx: Transaction, itemType: StockItemType, itemId: string): Promise<StockItem | undefined> {
+    if (itemType === "paper") {
+      const [paperType] = await tx
+        .select({ id: paperTypes.id, name: paperTypes.name, stock: paperTypes.stock, companyId: paperTypes.companyId })
+        .from(paperTypes)
+        .where(eq(paperTypes.id, itemId))
+        .for("update");
+      return paperType;
+    }
+    const [toner] = await tx
+      .select({ id: tonerInventory.id, name: tonerInventory.name, stock: tonerInventory.stock, companyId: tonerInventory.companyId })
+      .from(tonerInventory)
+      .where(eq(tonerInventory.id, itemId))
+      .for("update");
+    return toner;
+  }
+
+  // Registra el movimiento y deja en el insumo el saldo resultante; una salida mayor que el stock se rechaza
+  private async applyStockMovement(
+    tx: Transaction,
+    movement: {
+      itemType: StockItemType;
+      itemId: string;
+      movementType: StockMovementType;
+      quantity: number;
+      reason?: string | null;
+      reference?: string | null;
+      printJobId?: string | null;
+      transferId?: string | null;
+      purchaseOrderId?: string | null;
+      userId?: string | null;
+    }
+  ): Promise<{ movement: StockMovement; item: StockItem }> {
+    const item = await this.lockStockItem(tx, movement.itemType, movement.itemId);
+    if (!item) {
+      throw new Error(`Stock item ${movement.itemType}/${movement.itemId} not found`);
+    }
+
+    const balanceAfter = item.stock + movement.quantity;
+    if (balanceAfter < 0) {
+      throw new InsufficientStockError(item.name, item.stock, -movement.quantity, movement.itemType === "paper" ? "hojas" : "unidades");
+    }
+
+    if (movement.itemType === "paper") {
+      await tx.update(paperTypes).set(columnValues(paperTypes, { stock: balanceAfter })).where(eq(paperTypes.id, item.id));
+    } else {
+      await tx.update(tonerInventory).set(columnValues(tonerInventory, { stock: balanceAfter })).where(eq(tonerInventory.id, item.id));
+    }
+
+    const [created] = await tx
+      .insert(stockMovements)
+      .values(columnValues(stockMovements, { ...movement, companyId: item.companyId, balanceAfter }))
+      .returning();
+    return { movement: created, item };
+  }
+
+  private async auditStockMovement(item: StockItem, movement: StockMovement, userId: string): Promise<void> {
+    if (!item.companyId) return;
+    await this.createAuditLogEntry(
+      item.companyId,
+      userId,
+      "UPDATE",
+      movement.itemType === "paper" ? "paper_types" : "toner_inventory",
+      item.id,
+      null,
+      null,
+      [{ field: "stock", oldValue: item.stock, newValue: movement.balanceAfter }]
+    );
+  }
+
+  async recordStockMovement(data: InsertStockMovement, userId: string): Promise<StockMovement> {
+    // Las entradas suman y las salidas restan; el ajuste ya trae su signo
+    const quantity = data.movementType === "consumption" || data.movementType === "write_off" ? -data.quantity : data.quantity;
+    const { movement, item } = await db.transaction((tx) =>
+      this.applyStockMovement(tx, {
+        itemType: data.itemType,
+        itemId: data.itemId,
+        movementType: data.movementType,
+        quantity,
+        reason: data.reason || null,
+        reference: data.reference || null,
+        userId,
+      })
+    );
+    await this.auditStockMovement(item, movement, userId);
+    return movement;
+  }
+
+  async transferStock(transfer: StockTransfer, userId: string): Promise<StockMovement[]> {
+    const transferId = randomUUID();
+    const legs = await db.transaction(async (tx) => {
+      // Bloquear siempre en el mismo orden evita un interbloqueo entre dos traspasos en sentidos opuestos
+      for (const itemId of [transfer.fromItemId, transfer.toItemId].sort()) {
+        await this.lockStockItem(tx, transfer.itemType, itemId);
+      }
+      const common = {
+        itemType: transfer.itemType,
+        movementType: "transfer" as const,
+        reason: transfer.reason || null,
+        reference: transfer.reference || null,
+        transferId,
+        userId,
+      };
+      const out = await this.applyStockMovement(tx, { ...common, itemId: transfer.fromItemId, quantity: -transfer.quantity });
+      const into = await this.applyStockMovement(tx, { ...common, itemId: transfer.toItemId, quantity: transfer.quantity });
+      return [out, into];
+    });
+
+    for (const { item, movement } of legs) {
+      await this.auditStockMovement(item, movement, userId);
+    }
+    return legs.map(({ movement }) => movement);
+  }
+
+  // El insumo puede ser papel o toner (o haberse eliminado), así que los nombres se buscan aparte
+  private async getStockItemNames(refs: Array<{ itemType: string; itemId: string }>): Promise<Map<string, string>> {
+    const idsOf = (itemType: StockItemType) =>
+      Array.from(new Set(refs.filter((ref) => ref.itemType === itemType).map((ref) => ref.itemId)));
+    const paperIds = idsOf("paper");
+    const tonerIds = idsOf("toner");
+    const names = new Map<string, string>();
+    if (paperIds.length > 0) {
+      for (const row of await db.select({ id: paperTypes.id, name: paperTypes.name }).from(paperTypes).where(inArray(paperTypes.id, paperIds))) {
+        names.set(row.id, row.name);
+      }
+    }
+    if (tonerIds.length > 0) {
+      for (const row of await db.select({ id: tonerInventory.id, name: tonerInventory.name }).from(tonerInventory).where(inArray(tonerInventory.id, tonerIds))) {
+        names.set(row.id, row.name);
+      }
+    }
+    return names;
+  }
+
+  async getStockMovements(companyId: string | undefined, query: StockMovementQuery): Promise<StockMovementWithDetails[]> {
+    const conditions = [];
+    if (companyId) conditions.push(eq(stockMovements.companyId, companyId));
+    if (query.itemType) conditions.push(eq(stockMovements.itemType, query.itemType));
+    if (query.itemId) conditions.push(eq(stockMovements.itemId, query.itemId));
+    if (query.movementType) conditions.push(eq(stockMovements.movementType, query.movementType));
+    if (query.from) conditions.push(gte(stockMovements.createdAt, query.from));
+    if (query.to) conditions.push(lte(stockMovements.createdAt, query.to));
+
+    const rows = await db
+      .select({ movement: stockMovements, userName: users.fullName })
+      .from(stockMovements)
+      .leftJoin(users, eq(stockMovements.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(stockMovements.createdAt))
+      .limit(STOCK_MOVEMENT_LIST_LIMIT);
+
+    const names = await this.getStockItemNames(rows.map(({ movement }) => movement));
+
+    return rows.map(({ movement, userName }) => ({
+      ...movement,
+      itemName: names.get(movement.itemId) ?? null,
+      userName: userName ?? null,
+    }));
+  }
+
+  async getStockReconciliation(companyId?: string): Promise<StockReconciliationRow[]> {
+    const balances = await db
+      .select({
+        itemType: stockMovements.itemType,
+        itemId: stockMovements.itemId,
+        balance: sum(stockMovements.quantity),
+      })
+      .from(stockMovements)
+      .where(companyId ? eq(stockMovements.companyId, companyId) : undefined)
+      .groupBy(stockMovements.itemType, stockMovements.itemId);
+    const ledger = new Map(balances.map((row) => [`${row.itemType}:${row.itemId}`, Number(row.balance || 0)]));
+
+    const items: Array<{ itemType: StockItemType; item: StockItem }> = [
+      ...(await this.getAllPaperTypes(companyId)).map((item) => ({ itemType: "paper" as const, item })),
+      ...(await this.getAllTonerInventory(companyId)).map((item) => ({ itemType: "toner" as const, item })),
+    ];
+
+    return items
+      .map(({ itemType, item }) => {
+        const key = `${itemType}:${item.id}`;
+        const ledgerBalance = ledger.get(key) ?? 0;
+        return {
+          itemType,
+          itemId: item.id,
+          name: item.name,
+          stock: item.stock,
+          ledgerBalance,
+          difference: item.stock - ledgerBalance,
+          hasMovements: ledger.has(key),
+        };
+      })
+      .sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference) || a.name.localeCompare(b.name));
+  }
+
+  // Registra un ajuste por la diferencia entre el stock guardado y el libro, para que el libro explique el
+  // stock actual. Con onlyUntracked solo se toman los insumos sin movimientos: es su saldo inicial.
+  async reconcileStockLedger(companyId: string | undefined, userId: string | null, onlyUntracked = false): Promise<number> {
+    const rows = await this.getStockReconciliation(companyId);
+    let adjusted = 0;
+
+    for (const row of rows) {
+      if (row.difference === 0 || (onlyUntracked && row.hasMovements)) continue;
+
+      const recorded = await db.transaction(async (tx) => {
+        // Se recalcula con el insumo bloqueado por si hubo movimientos desde la consulta
+        const item = await this.lockStockItem(tx, row.itemType, row.itemId);
+        if (!item) return false;
+        const [{ balance }] = await tx
+          .select({ balance: sum(stockMovements.quantity) })
+          .from(stockMovements)
+          .where(and(eq(stockMovements.itemType, row.itemType), eq(stockMovements.itemId, row.itemId)));
+        const difference = item.stock - Number(balance || 0);
+        if (difference === 0) return false;
+
+        await tx.insert(stockMovements).values(columnValues(stockMovements, {
+          companyId: item.companyId,
+          itemType: row.itemType,
+          itemId: item.id,
+          movementType: "adjustment",
+          quantity: difference,
+          balanceAfter: item.stock,
+          reason: onlyUntracked ? "Saldo inicial" : "Conciliación: cambio de stock sin movimiento registrado",
+          userId,
+        }));
+        return true;
+      });
+      if (recorded) adjusted++;
+    }
+
+    return adjusted;
+  }
+
+  private async withPurchaseOrderDetails(orders: PurchaseOrder[]): Promise<PurchaseOrderWithDetails[]> {
+    if (orders.length === 0) return [];
+    const orderIds = orders.map((order) => order.id);
+    const lines = await db
+      .select()
+      .from(purchaseOrderLines)
+      .where(inArray(purchaseOrderLines.purchaseOrderId, orderIds))
+      .orderBy(asc(purchaseOrderLines.id));
+    const expenses: ConsumptionExpense[] = await db
+      .select()
+      .from(consumptionExpenses)
+      .where(inArray(consumptionExpenses.purchaseOrderId, orderIds))
+      .orderBy(asc(consumptionExpenses.date));
+    const names = await this.getStockItemNames(lines);
+    const money = (value: number) => Math.round(value * 100) / 100;
+
+    return orders.map((order) => {
+      const orderLines = lines
+        .filter((line) => line.purchaseOrderId === order.id)
+        .map((line) => ({ ...line, itemName: names.get(line.itemId) ?? null }));
+      const valueOf = (quantity: (line: (typeof orderLines)[number]) => number) =>
+        money(orderLines.reduce((total, line) => total + quantity(line) * parseFloat(line.unitPrice.toString()), 0));
+      return {
+        ...order,
+        lines: orderLines,
+        total: valueOf((line) => line.quantityOrdered),
+        receivedTotal: valueOf((line) => line.quantityReceived),
+        expenses: expenses.filter((expense) => expense.purchaseOrderId === order.id),
+      };
+    });
+  }
+
+  // Orden bloqueada hasta el fin de la transacción: dos recepciones simultáneas no pueden superar lo pedido
+  private async lockPurchaseOrder(tx: Transaction, id: string): Promise<PurchaseOrder> {
+    const [order] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for("update");
+    if (!order) {
+      throw new PurchaseOrderError("La orden de compra no existe");
+    }
+    return order;
+  }
+
+  private assertPurchaseOrderTransition(order: PurchaseOrder, status: PurchaseOrderStatus): void {
+    const current = order.status as PurchaseOrderStatus;
+    if (!PURCHASE_ORDER_TRANSITIONS[current]?.includes(status)) {
+      throw new PurchaseOrderError(
+        `No se puede pasar la orden ${formatPurchaseOrderNumber(order.orderNumber)} de "${purchaseOrderStatusLabels[current] ?? current}" a "${purchaseOrderStatusLabels[status]}"`
+      );
+    }
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrderWithDetails | undefined> {
+    const [order] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+    if (!order) return undefined;
+    const [detailed] = await this.withPurchaseOrderDetails([order]);
+    return detailed;
+  }
+
+  async getPurchaseOrders(companyId?: string): Promise<PurchaseOrderWithDetails[]> {
+    const orders = await db
+      .select()
+      .from(purchaseOrders)
+      .where(companyId ? eq(purchaseOrders.companyId, companyId) : undefined)
+      .orderBy(desc(purchaseOrders.orderNumber));
+    return this.withPurchaseOrderDetails(orders);
+  }
+
+  async createPurchaseOrder(order: InsertPurchaseOrder, userId: string): Promise<PurchaseOrderWithDetails> {
+    const { lines, ...fields } = order;
+    const created = await db.transaction(async (tx) => {
+      // La empresa bloqueada serializa las altas, de modo que el correlativo no se repite
+      await tx.select({ id: companies.id }).from(companies).where(eq(companies.id, order.companyId)).for("update");
+      const [{ last }] = await tx
+        .select({ last: max(purchaseOrders.orderNumber) })
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.companyId, order.companyId));
+
+      const [row] = await tx
+        .insert(purchaseOrders)
+        .values(columnValues(purchaseOrders, { ...fields, orderNumber: (last ?? 0) + 1, createdBy: userId }))
+        .returning();
+      await tx.insert(purchaseOrderLines).values(lines.map((line) => columnValues(purchaseOrderLines, { ...line, purchaseOrderId: row.id })));
+      return row;
+    });
+
+    await this.createAuditLogEntry(order.companyId, userId, "CREATE", "purchase_orders", created.id, null, { ...created, lines });
+    return (await this.getPurchaseOrder(created.id))!;
+  }
+
+  // Solo los borradores se editan: una orden enviada es lo que se pidió al proveedor
+  async updatePurchaseOrder(id: string, order: UpdatePurchaseOrder): Promise<PurchaseOrderWithDetails> {
+    const { lines, ...fields } = order;
+    await db.transaction(async (tx) => {
+      const current = await this.lockPurchaseOrder(tx, id);
+      if (current.status !== "draft") {
+        throw new PurchaseOrderError("Solo se pueden editar órdenes en borrador");
+      }
+      await tx.update(purchaseOrders).set(fields).where(eq(purchaseOrders.id, id));
+      await tx.delete(purchaseOrderLines).where(eq(purchaseOrderLines.purchaseOrderId, id));
+      await tx.insert(purchaseOrderLines).values(lines.map((line) => columnValues(purchaseOrderLines, { ...line, purchaseOrderId: id })));
+    });
+    return (await this.getPurchaseOrder(id))!;
+  }
+
+  async setPurchaseOrderStatus(id: string, status: "sent" | "cancelled", userId: string): Promise<PurchaseOrderWithDetails> {
+    const previous = await db.transaction(async (tx) => {
+      const current = await this.lockPurchaseOrder(tx, id);
+      this.assertPurchaseOrderTransition(current, status);
+      await tx
+        .update(purchaseOrders)
+        .set(columnValues(purchaseOrders, status === "sent" ? { status, sentAt: new Date() } : { status, cancelledAt: new Date() }))
+        .where(eq(purchaseOrders.id, id));
+      return current;
+    });
+
+    await this.createAuditLogEntry(previous.companyId, userId, "UPDATE", "purchase_orders", id, null, null, [
+      { field: "status", oldValue: previous.status, newValue: status },
+    ]);
+    return (await this.getPurchaseOrder(id))!;
+  }
+
+  // Cada cantidad recibida entra al stock como movimiento "receipt" y su importe se registra como un único
+  // gasto de la recepción, ligado a la orden. Una recepción parcial deja la orden abierta para el resto.
+  async receivePurchaseOrder(id: string, receipt: ReceivePurchaseOrder, userId: string): Promise<PurchaseOrderWithDetails> {
+    const { previous, status, received } = await db.transaction(async (tx) => {
+      const order = await this.lockPurchaseOrder(tx, id);
+      if (order.status !== "sent" && order.status !== "partially_received") {
+        throw new PurchaseOrderError("Solo se reciben órdenes enviadas al proveedor");
+      }
+
+      const lines = await tx.select().from(purchaseOrderLines).where(eq(purchaseOrderLines.purchaseOrderId, id));
+      const linesById = new Map(lines.map((line) => [line.id, line]));
+      const orderLabel = formatPurchaseOrderNumber(order.orderNumber);
+      const received: Array<{ movement: StockMovement; item: StockItem }> = [];
+      let amount = 0;
+
+      for (const entry of receipt.lines) {
+        if (entry.quantity === 0) continue;
+        const line = linesById.get(entry.lineId);
+        if (!line) {
+          throw new PurchaseOrderError(`La línea ${entry.lineId} no pertenece a la orden ${orderLabel}`);
+        }
+        const pending = line.quantityOrdered - line.quantityReceived;
+        if (entry.quantity > pending) {
+          throw new PurchaseOrderError(`Se indicaron ${entry.quantity} unidades recibidas y quedan ${pending} pendientes en la línea`);
+        }
+        if (!(await this.lockStockItem(tx, line.itemType as StockItemType, line.itemId))) {
+          throw new PurchaseOrderError("Uno de los insumos de la orden ya no existe");
+        }
+
+        line.quantityReceived += entry.quantity;
+        await tx
+          .update(purchaseOrderLines)
+          .set(columnValues(purchaseOrderLines, { quantityReceived: line.quantityReceived }))
+          .where(eq(purchaseOrderLines.id, line.id));
+        received.push(
+          await this.applyStockMovement(tx, {
+            itemType: line.itemType as StockItemType,
+            itemId: line.itemId,
+            movementType: "receipt",
+            quantity: entry.quantity,
+            reason: `Recepción de la orden de compra ${orderLabel}`,
+            reference: receipt.reference || null,
+            purchaseOrderId: id,
+            userId,
+          })
+        );
+        amount += entry.quantity * parseFloat(line.unitPrice.toString());
+      }
+
+      const complete = lines.every((line) => line.quantityReceived >= line.quantityOrdered);
+      const status: PurchaseOrderStatus = complete ? "received" : "partially_received";
+      this.assertPurchaseOrderTransition(order, status);
+      await tx
+        .update(purchaseOrders)
+        .set(columnValues(purchaseOrders, { status, receivedAt: complete ? new Date() : null }))
+        .where(eq(purchaseOrders.id, id));
+
+      if (amount > 0) {
+        await tx.insert(consumptionExpenses).values(columnValues(consumptionExpenses, {
+          companyId: order.companyId,
+          expenseType: "supply_purchase",
+          amount: amount.toFixed(2),
+          description: `Recepción de la orden de compra ${orderLabel} (${order.supplier})${receipt.reference ? ` - ${receipt.reference}` : ""}`,
+          purchaseOrderId: id,
+        }));
+      }
+
+      return { previous: order, status, received };
+    });
+
+    for (const { item, movement } of received) {
+      await this.auditStockMovement(item, movement, userId);
+    }
+    if (previous.status !== status) {
+      await this.createAuditLogEntry(previous.companyId, userId, "UPDATE", "purchase_orders", id, null, null, [
+        { field: "status", oldValue: previous.status, newValue: status },
+      ]);
+    }
+    return (await this.getPurchaseOrder(id))!;
+  }
+
+  async deletePurchaseOrder(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const order = await this.lockPurchaseOrder(tx, id);
+      if (order.status !== "draft") {
+        throw new PurchaseOrderError("Solo se pueden eliminar órdenes en borrador; cancela la orden en su lugar");
+      }
+      await tx.delete(purchaseOrderLines).where(eq(purchaseOrderLines.purchaseOrderId, id));
+      await tx.delete(purchaseOrders).where(eq(purchaseOrders.id, id));
+    });
+  }
+
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier;
+  }
+
+  async getSuppliers(companyId?: string): Promise<SupplierWithItems[]> {
+    const supplierList = await db
+      .select()
+      .from(suppliers)
+      .where(companyId ? eq(suppliers.companyId, companyId) : undefined)
+      .orderBy(asc(suppliers.name));
+    if (supplierList.length === 0) return [];
+
+    const items = await db
+      .select()
+      .from(supplierItems)
+      .where(inArray(supplierItems.supplierId, supplierList.map((supplier) => supplier.id)));
+    const names = await this.getStockItemNames(items);
+
+    return supplierList.map((supplier) => ({
+      ...supplier,
+      items: items
+        .filter((item) => item.supplierId === supplier.id)
+        .map((item) => ({ ...item, itemName: names.get(item.itemId) ?? null }))
+        .sort((a, b) => (a.itemName || "").localeCompare(b.itemName || "")),
+    }));
+  }
+
+  async createSupplier(insertSupplier: InsertSupplier): Promise<Supplier> {
+    const [supplier] = await db.insert(suppliers).values(columnValues(suppliers, { ...insertSupplier, email: insertSupplier.email || null })).returning();
+    return supplier;
+  }
+
+  async updateSupplier(id: string, supplier: UpdateSupplier): Promise<Supplier | undefined> {
+    const changes = supplier.email !== undefined ? { ...supplier, email: supplier.email || null } : supplier;
+    const [updated] = await db.update(suppliers).set(changes).where(eq(suppliers.id, id)).returning();
+    return updated;
+  }
+
+  // Las órdenes emitidas conservan el nombre del proveedor aunque se elimine del catálogo
+  async deleteSupplier(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(supplierItems).where(eq(supplierItems.supplierId, id));
+      await tx.update(purchaseOrders).set(columnValues(purchaseOrders, { supplierId: null })).where(eq(purchaseOrders.supplierId, id));
+      await tx.delete(suppliers).where(eq(suppliers.id, id));
+    });
+  }
+
+  // Reemplaza el catálogo del proveedor. Un insumo tiene un solo proveedor preferido en la empresa: marcarlo
+  // aquí lo desmarca en los demás.
+  async setSupplierItems(supplier: Supplier, items: SupplierItemsInput["items"]): Promise<SupplierWithItems> {
+    await db.transaction(async (tx) => {
+      await tx.delete(supplierItems).where(eq(supplierItems.supplierId, supplier.id));
+      if (items.length === 0) return;
+
+      const preferred = items.filter((item) => item.preferred);
+      if (preferred.length > 0) {
+        const companySuppliers = tx
+          .select({ id: suppliers.id })
+          .from(suppliers)
+          .where(eq(suppliers.companyId, supplier.companyId));
+        for (const item of preferred) {
+          await tx
+            .update(supplierItems)
+            .set(columnValues(supplierItems, { preferred: false }))
+            .where(
+              and(
+                inArray(supplierItems.supplierId, companySuppliers),
+                eq(supplierItems.itemType, item.itemType),
+                eq(supplierItems.itemId, item.itemId)
+              )
+            );
+        }
+      }
+
+      await tx.insert(supplierItems).values(
+        items.map((item) => ({
+          supplierId: supplier.id,
+          itemType: item.itemType,
+          itemId: item.itemId,
+          unitPrice: item.unitPrice ?? null,
+          leadTimeDays: item.leadTimeDays ?? null,
+          preferred: item.preferred,
+        }))
+      );
+    });
+
+    const [detailed] = (await this.getSuppliers(supplier.companyId)).filter((entry) => entry.id === supplier.id);
+    return detailed;
+  }
+
+  // Proveedor con que se repone cada insumo ("paper:<id>" o "toner:<id>"): el preferido o, si no hay, el de
+  // menor plazo de entrega
+  private async getReorderSuppliers(
+    companyId?: string
+  ): Promise<Map<string, { supplierId: string; supplierName: string; leadTimeDays: number }>> {
+    const rows = await db
+      .select({ item: supplierItems, supplier: suppliers })
+      .from(supplierItems)
+      .innerJoin(suppliers, eq(supplierItems.supplierId, suppliers.id))
+      .where(companyId ? eq(suppliers.companyId, companyId) : undefined);
+
+    const chosen = new Map<string, { supplierId: string; supplierName: string; leadTimeDays: number; preferred: boolean }>();
+    for (const { item, supplier } of rows) {
+      const key = `${item.itemType}:${item.itemId}`;
+      const candidate = {
+        supplierId: supplier.id,
+        supplierName: supplier.name,
+        leadTimeDays: item.leadTimeDays ?? supplier.leadTimeDays,
+        preferred: item.preferred,
+      };
+      const current = chosen.get(key);
+      if (
+        !current ||
+        (candidate.preferred && !current.preferred) ||
+        (candidate.preferred === current.preferred && candidate.leadTimeDays < current.leadTimeDays)
+      ) {
+        chosen.set(key, candidate);
+      }
+    }
+
+    return new Map(
+      Array.from(chosen.entries()).map(([key, { preferred, ...terms }]) => [key, terms])
+    );
+  }
+
   async getMaintenanceLog(id: string): Promise<MaintenanceLogWithDetails | undefined> {
     const result = await db.select().from(maintenanceLogs).where(eq(maintenanceLogs.id, id));
     if (!result[0]) return undefined;
@@ -788,52 +2505,187 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
         id: user.id,
         username: user.username,
         fullName: user.fullName,
+        locationId: user.locationId,
       },
       printer: {
         id: printer.id,
         name: printer.name,
         location: printer.location,
+        locationId: printer.locationId,
       },
     };
   }
 
+  // Trabajos con su usuario e impresora en una sola consulta; la empresa se toma del usuario
+  private selectPrintJobsWithDetails() {
+    return db
+      .select({
+        job: printJobs,
+        user: { id: users.id, username: users.username, fullName: users.fullName, locationId: users.locationId },
+        printer: { id: printers.id, name: printers.name, location: printers.location, locationId: printers.locationId },
+      })
+      .from(printJobs)
+      .innerJoin(users, eq(printJobs.userId, users.id))
+      .innerJoin(printers, eq(printJobs.printerId, printers.id));
+  }
+
   async getAllPrintJobs(companyId?: string): Promise<PrintJobWithDetails[]> {
-    const jobs = await db.select().from(printJobs).orderBy(desc(printJobs.printedAt));
-    
-    const jobsWithDetails: PrintJobWithDetails[] = [];
-    for (const job of jobs) {
-      const user = await this.getUser(job.userId);
-      const printer = await this.getPrinter(job.printerId);
+    const rows = await this.selectPrintJobsWithDetails()
+      .where(companyId ? eq(users.companyId, companyId) : undefined)
+      .orderBy(desc(printJobs.printedAt));
 
-      if (!user || !printer) continue;
-      
-      if (companyId && user.companyId !== companyId) continue;
-
-      jobsWithDetails.push({
-        ...job,
-        user: {
-          id: user.id,
-          username: user.username,
-          fullName: user.fullName,
-        },
-        printer: {
-          id: printer.id,
-          name: printer.name,
-          location: printer.location,
-        },
-      });
+    return rows.map(({ job, user, printer }) => ({ ...job, user, printer }));
+  }
+
+  async searchPrintJobs(companyId: string | undefined, params: PrintJobSearch): Promise<PaginatedResult<PrintJobWithDetails>> {
+    const conditions = [];
+    if (companyId) conditions.push(eq(users.companyId, companyId));
+    if (params.from) conditions.push(gte(printJobs.printedAt, params.from));
+    if (params.to) conditions.push(lte(printJobs.printedAt, params.to));
+    if (params.userId) conditions.push(eq(printJobs.userId, params.userId));
+    if (params.printerId) conditions.push(eq(printJobs.printerId, params.printerId));
+    if (params.paperTypeId) conditions.push(eq(printJobs.paperTypeId, params.paperTypeId));
+    if (params.colorMode) conditions.push(eq(printJobs.colorMode, params.colorMode));
+    if (params.status) conditions.push(eq(printJobs.status, params.status));
+    if (params.search) {
+      // Escapar comodines para que el texto se busque literal
+      const pattern = params.search.replace(/[\\%_]/g, "\\$&");
+      conditions.push(ilike(printJobs.documentName, `%${pattern}%`));
     }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const sortColumns = {
+      printedAt: printJobs.printedAt,
+      documentName: printJobs.documentName,
+      pageCount: printJobs.pageCount,
+      totalCost: printJobs.totalCost,
+      status: printJobs.status,
+    };
+    const direction = params.sortDir === "asc" ? asc : desc;
+
+    const [rows, [{ total }]] = await Promise.all([
+      this.selectPrintJobsWithDetails()
+        .where(where)
+        .orderBy(direction(sortColumns[params.sortBy]), desc(printJobs.id))
+        .limit(params.pageSize)
+        .offset((params.page - 1) * params.pageSize),
+      db
+        .select({ total: count() })
+        .from(printJobs)
+        .innerJoin(users, eq(printJobs.userId, users.id))
+        .innerJoin(printers, eq(printJobs.printerId, printers.id))
+        .where(where),
+    ]);
 
-    return jobsWithDetails;
+    return {
+      items: rows.map(({ job, user, printer }) => ({ ...job, user, printer })),
+      total,
+      page: params.page,
+      pageSize: params.pageSize,
+    };
+  }
+
+  // Trabajos del usuario con el mismo contenido dentro de la ventana de duplicados
+  async findRecentDuplicateJobs(userId: string, contentHash: string): Promise<DuplicatePrintMatch[]> {
+    const since = new Date(Date.now() - DUPLICATE_WINDOW_DAYS * DAY_MS);
+    return await db
+      .select({
+        id: printJobs.id,
+        documentName: printJobs.documentName,
+        pageCount: printJobs.pageCount,
+        copies: printJobs.copies,
+        status: printJobs.status,
+        printedAt: printJobs.printedAt,
+        printerName: printers.name,
+      })
+      .from(printJobs)
+      .innerJoin(printers, eq(printJobs.printerId, printers.id))
+      .where(and(
+        eq(printJobs.userId, userId),
+        eq(printJobs.contentHash, contentHash),
+        gte(printJobs.printedAt, since),
+        notInArray(printJobs.status, RESTOCK_STATUSES)
+      ))
+      .orderBy(desc(printJobs.printedAt))
+      .limit(5);
   }
 
-  async createPrintJob(insertJob: InsertPrintJob): Promise<PrintJob> {
-    const result = await db.insert(printJobs).values(insertJob).returning();
-    const printJob = result[0];
+  async createPrintJob(insertJob: InsertPrintJob, options: CreatePrintJobOptions = {}): Promise<PrintJob> {
+    const sheets = calculateSheetsUsed(insertJob);
+    const user = await this.getUser(insertJob.userId);
+    const cost = await this.calculatePrintJobCost(insertJob);
+    let stockChange: { paperType: PaperType; newStock: number } | null = null;
+
+    // Insertar el trabajo y descontar el papel en la misma transacción. Un trabajo pendiente de aprobación
+    // no descuenta nada hasta que un admin lo apruebe
+    const printJob = await db.transaction(async (tx) => {
+      let sheetsDeducted = 0;
+
+      if (
+        insertJob.paperTypeId &&
+        !RESTOCK_STATUSES.includes(insertJob.status) &&
+        !UNAPPROVED_STATUSES.includes(insertJob.status)
+      ) {
+        const [paperType] = await tx
+          .select()
+          .from(paperTypes)
+          .where(eq(paperTypes.id, insertJob.paperTypeId))
+          .for("update");
+
+        if (!paperType) {
+          throw new Error(`Paper type ${insertJob.paperTypeId} not found`);
+        }
+
+        if (paperType.stock < sheets && !options.overrideStock) {
+          throw new InsufficientStockError(paperType.name, paperType.stock, sheets);
+        }
+
+        // Con override el stock queda en 0; solo se registra lo realmente descontado
+        sheetsDeducted = Math.min(sheets, paperType.stock);
+        stockChange = { paperType, newStock: paperType.stock - sheetsDeducted };
+      }
+
+      const result = await tx
+        .insert(printJobs)
+        .values(columnValues(printJobs, {
+          ...insertJob,
+          ...cost,
+          paperSheetsDeducted: sheetsDeducted,
+          ...(options.imported && {
+            source: options.imported.source,
+            externalJobId: options.imported.externalJobId,
+            printedAt: options.imported.printedAt,
+          }),
+        }))
+        .returning();
+      const job = result[0];
+
+      if (sheetsDeducted > 0) {
+        await this.applyStockMovement(tx, {
+          itemType: "paper",
+          itemId: insertJob.paperTypeId!,
+          movementType: "consumption",
+          quantity: -sheetsDeducted,
+          reason: `Trabajo de impresión "${job.documentName}"`,
+          printJobId: job.id,
+          userId: insertJob.userId,
+        });
+      }
+
+      await tx.insert(printJobEvents).values(columnValues(printJobEvents, {
+        printJobId: job.id,
+        companyId: user?.companyId,
+        userId: insertJob.userId,
+        fromStatus: null,
+        toStatus: job.status,
+        reason: options.reason || "Trabajo registrado",
+      }));
+
+      return job;
+    });
 
     // Registrar auditoría para trabajos de impresión (operación crítica de consumo)
     try {
-      const user = await this.getUser(insertJob.userId);
       if (user?.companyId) {
         await this.createAuditLogEntry(
           user.companyId,
@@ -845,11 +2697,30 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
           {
             documentName: printJob.documentName,
             pageCount: printJob.pageCount,
+            declaredPageCount: printJob.declaredPageCount,
+            detectedPageCount: printJob.detectedPageCount,
             copies: printJob.copies,
+            duplex: printJob.duplex,
+            nUp: printJob.nUp,
             colorMode: printJob.colorMode,
-            printerId: printJob.printerId
+            printerId: printJob.printerId,
+            paperSheetsDeducted: printJob.paperSheetsDeducted,
+            totalCost: printJob.totalCost
           }
         );
+
+        if (stockChange) {
+          await this.createAuditLogEntry(
+            user.companyId,
+            insertJob.userId,
+            "UPDATE",
+            "paper_types",
+            stockChange.paperType.id,
+            null,
+            null,
+            [{ field: "stock", oldValue: stockChange.paperType.stock, newValue: stockChange.newStock }]
+          );
+        }
       }
     } catch (error) {
       console.error("Error creando log de auditoría para print job:", error);
@@ -859,6 +2730,203 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
     return printJob;
   }
 
+  // Desglose de costo con los precios vigentes: papel por hoja, toner por impresión y cargo por clic
+  private async calculatePrintJobCost(job: InsertPrintJob) {
+    const sheets = calculateSheetsUsed(job);
+    const impressions = calculateImpressions(job);
+    const printer = await this.getPrinter(job.printerId);
+
+    let paperCost = 0;
+    if (job.paperTypeId) {
+      const paperType = await this.getPaperType(job.paperTypeId);
+      paperCost = sheets * parseFloat(paperType?.pricePerSheet?.toString() || "0");
+    }
+
+    // Se usan los toners compatibles con el modelo de la impresora; si no hay, los de uso general de la empresa
+    const companyToners = await this.getAllTonerInventoryWithCompatibility(printer?.companyId || undefined);
+    const compatibleToners = printer ? companyToners.filter((toner) => isTonerCompatible(toner, printer.model)) : [];
+    const candidateToners = (compatibleToners.length > 0 ? compatibleToners : companyToners.filter((toner) => toner.compatibleModels.length === 0))
+      .filter((toner) => toner.pricePerUnit && (job.colorMode === "color" || toner.color === "black"));
+
+    // Costo por página promedio de cada color; una impresión a color consume todos los colores
+    const costPerPageByColor = new Map<string, number[]>();
+    for (const toner of candidateToners) {
+      const costs = costPerPageByColor.get(toner.color) || [];
+      costs.push(parseFloat(toner.pricePerUnit!.toString()) / getTonerPageYield(toner));
+      costPerPageByColor.set(toner.color, costs);
+    }
+    const tonerCostPerImpression = Array.from(costPerPageByColor.values())
+      .reduce((sum, costs) => sum + costs.reduce((a, b) => a + b, 0) / costs.length, 0);
+    const tonerCost = impressions * tonerCostPerImpression;
+
+    const clickCharge = job.colorMode === "color" ? printer?.clickChargeColor : printer?.clickChargeBw;
+    const clickCost = impressions * parseFloat(clickCharge?.toString() || "0");
+
+    return {
+      paperCost: paperCost.toFixed(4),
+      tonerCost: tonerCost.toFixed(4),
+      clickCost: clickCost.toFixed(4),
+      totalCost: (paperCost + tonerCost + clickCost).toFixed(4),
+    };
+  }
+
+  async updatePrintJobStatus(
+    id: string,
+    status: PrintJobStatus,
+    userId: string,
+    reason?: string,
+    auditAction: "UPDATE" | "APPROVE" | "REJECT" = "UPDATE"
+  ): Promise<PrintJob | undefined> {
+    const user = await this.getUser(userId);
+    let stockChange: { paperType: PaperType; newStock: number } | null = null;
+    let previousStatus: string | null = null;
+
+    const updated = await db.transaction(async (tx) => {
+      const [job] = await tx.select().from(printJobs).where(eq(printJobs.id, id)).for("update");
+      if (!job) return undefined;
+
+      // Se vuelve a validar con la fila bloqueada para evitar carreras entre dos cambios simultáneos
+      if (!isPrintJobTransitionAllowed(job.status, status)) {
+        throw new InvalidStatusTransitionError(job.status, status);
+      }
+      previousStatus = job.status;
+
+      let paperSheetsDeducted = job.paperSheetsDeducted;
+
+      // Al aprobarse, el trabajo descuenta el papel que no descontó al registrarse
+      const approved = UNAPPROVED_STATUSES.includes(job.status) && (status === "queued" || status === "held");
+      if (approved && job.paperTypeId && job.paperSheetsDeducted === 0) {
+        const [paperType] = await tx
+          .select()
+          .from(paperTypes)
+          .where(eq(paperTypes.id, job.paperTypeId))
+          .for("update");
+
+        const sheets = calculateSheetsUsed(job);
+        if (paperType && sheets > 0) {
+          if (paperType.stock < sheets) {
+            throw new InsufficientStockError(paperType.name, paperType.stock, sheets);
+          }
+          const { movement } = await this.applyStockMovement(tx, {
+            itemType: "paper",
+            itemId: paperType.id,
+            movementType: "consumption",
+            quantity: -sheets,
+            reason: `Trabajo de impresión "${job.documentName}"`,
+            printJobId: id,
+            userId,
+          });
+          stockChange = { paperType, newStock: movement.balanceAfter };
+          paperSheetsDeducted = sheets;
+        }
+      }
+
+      // Devolver al inventario el papel de trabajos que no llegaron a imprimirse
+      if (RESTOCK_STATUSES.includes(status) && job.paperTypeId && job.paperSheetsDeducted > 0) {
+        const [paperType] = await tx
+          .select()
+          .from(paperTypes)
+          .where(eq(paperTypes.id, job.paperTypeId))
+          .for("update");
+
+        if (paperType) {
+          // Se registra como consumo positivo: el consumo neto del trabajo queda en cero
+          const { movement } = await this.applyStockMovement(tx, {
+            itemType: "paper",
+            itemId: paperType.id,
+            movementType: "consumption",
+            quantity: job.paperSheetsDeducted,
+            reason: "Papel devuelto: el trabajo no se imprimió",
+            printJobId: id,
+            userId,
+          });
+          stockChange = { paperType, newStock: movement.balanceAfter };
+        }
+        paperSheetsDeducted = 0;
+      }
+
+      const result = await tx
+        .update(printJobs)
+        .set(columnValues(printJobs, { status, paperSheetsDeducted }))
+        .where(eq(printJobs.id, id))
+        .returning();
+
+      await tx.insert(printJobEvents).values(columnValues(printJobEvents, {
+        printJobId: id,
+        companyId: user?.companyId,
+        userId,
+        fromStatus: job.status,
+        toStatus: status,
+        reason: reason || null,
+      }));
+
+      return result[0];
+    });
+
+    if (updated && user?.companyId) {
+      if (auditAction === "UPDATE") {
+        await this.createAuditLogEntry(
+          user.companyId,
+          userId,
+          "UPDATE",
+          "print_jobs",
+          id,
+          null,
+          null,
+          [{ field: "status", oldValue: previousStatus, newValue: status }]
+        );
+      } else {
+        // Aprobaciones y rechazos guardan el motivo junto al cambio de estado
+        await this.createAuditLogEntry(
+          user.companyId,
+          userId,
+          auditAction,
+          "print_jobs",
+          id,
+          { status: previousStatus },
+          { status, reason: reason || null }
+        );
+      }
+
+      if (stockChange) {
+        await this.createAuditLogEntry(
+          user.companyId,
+          userId,
+          "UPDATE",
+          "paper_types",
+          stockChange.paperType.id,
+          null,
+          null,
+          [{ field: "stock", oldValue: stockChange.paperType.stock, newValue: stockChange.newStock }]
+        );
+      }
+    }
+
+    return updated;
+  }
+
+  async getPrintJobEvents(printJobId: string): Promise<PrintJobEventWithUser[]> {
+    const events = await db
+      .select()
+      .from(printJobEvents)
+      .where(eq(printJobEvents.printJobId, printJobId))
+      .orderBy(printJobEvents.createdAt);
+
+    const result: PrintJobEventWithUser[] = [];
+    for (const event of events) {
+      let user: Pick<User, "id" | "fullName"> | undefined;
+      if (event.userId) {
+        const eventUser = await this.getUser(event.userId);
+        if (eventUser) {
+          user = { id: eventUser.id, fullName: eventUser.fullName };
+        }
+      }
+      result.push({ ...event, user });
+    }
+
+    return result;
+  }
+
   async getCompany(id: string): Promise<Company | undefined> {
     const result = await db.select().from(companies).where(eq(companies.id, id));
     return result[0];
@@ -870,7 +2938,7 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
   }
 
   async createCompany(insertCompany: InsertCompany): Promise<Company> {
-    const result = await db.insert(companies).values(insertCompany).returning();
+    const result = await db.insert(companies).values(columnValues(companies, insertCompany)).returning();
     const createdCompany = result[0];
 
     await this.createAuditLogEntry(
@@ -910,25 +2978,29 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
     if (adminId) {
       await db
         .update(users)
-        .set({ companyId: id })
+        .set(columnValues(users, { companyId: id }))
         .where(eq(users.id, adminId));
     }
     
     const result = await db
       .update(companies)
-      .set({ adminId: adminId || undefined })
+      .set(columnValues(companies, { adminId: adminId || undefined }))
       .where(eq(companies.id, id))
       .returning();
     return result[0];
   }
 
-  async getDashboardStats(companyId?: string): Promise<DashboardStats> {
-    const filteredJobs = await this.getAllPrintJobs(companyId);
+  async getDashboardStats(companyId?: string, locationFilter?: LocationFilter): Promise<DashboardStats> {
+    const { jobs: filteredJobs, locationBreakdown } = await this.filterPrintJobsByLocation(
+      await this.getAllPrintJobs(companyId),
+      companyId,
+      locationFilter
+    );
     const now = new Date();
     const firstDayOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
 
     const jobsThisMonth = filteredJobs.filter(
-      (job) => new Date(job.printedAt) >= firstDayOfMonth
+      (job) => new Date(job.printedAt) >= firstDayOfMonth && !UNAPPROVED_STATUSES.includes(job.status)
     );
 
     const pagesThisMonth = jobsThisMonth.reduce(
@@ -964,6 +3036,16 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
       printerCount = allPrinters.length;
     }
 
+    // Con una ubicación seleccionada solo cuentan las impresoras instaladas en ella
+    if (locationFilter?.locationId) {
+      const byId = new Map((await this.getAllLocations(companyId)).map((location) => [location.id, location]));
+      const scopedPrinters = await db
+        .select()
+        .from(printers)
+        .where(companyId ? eq(printers.companyId, companyId) : undefined);
+      printerCount = scopedPrinters.filter((printer) => isWithinLocation(printer.locationId, locationFilter.locationId!, byId)).length;
+    }
+
     const totalCompanies = !companyId 
       ? (await this.getAllCompanies()).length
       : undefined;
@@ -1017,10 +3099,11 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
       topUsers: topUsers,
       topPrinters: topPrinters,
       supplyProjections: supplyProjections,
+      locationBreakdown,
     };
   }
 
-  async getConsumptionStats(period: string, companyId?: string): Promise<ConsumptionStats> {
+  async getConsumptionStats(period: string, companyId?: string, locationFilter?: LocationFilter): Promise<ConsumptionStats> {
     const allJobs = await this.getAllPrintJobs(companyId);
     const now = new Date();
     let startDate: Date;
@@ -1043,8 +3126,10 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
         startDate = new Date(now.getFullYear(), now.getMonth(), 1);
     }
 
-    const filteredJobs = allJobs.filter(
-      (job) => new Date(job.printedAt) >= startDate
+    const { jobs: filteredJobs, locationBreakdown } = await this.filterPrintJobsByLocation(
+      allJobs.filter((job) => new Date(job.printedAt) >= startDate && !UNAPPROVED_STATUSES.includes(job.status)),
+      companyId,
+      locationFilter
     );
 
     const totalPages = filteredJobs.reduce(
@@ -1065,7 +3150,17 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
       0
     );
 
-    const estimatedInkUsed = totalBWPages * 0.5 + totalColorPages * 1.5;
+    // El papel se mide en hojas y la tinta en impresiones (caras), según dúplex y N-up
+    const totalPaperUsed = filteredJobs.reduce((sum, job) => sum + calculateSheetsUsed(job), 0);
+    const totalBWImpressions = bwJobs.reduce((sum, job) => sum + calculateImpressions(job), 0);
+    const totalColorImpressions = colorJobs.reduce((sum, job) => sum + calculateImpressions(job), 0);
+
+    const estimatedInkUsed = totalBWImpressions * 0.5 + totalColorImpressions * 1.5;
+
+    // Costos guardados en cada trabajo al momento de crearlo
+    const costJobs = filteredJobs.filter(isCostBearingJob);
+    const sumCost = (field: "paperCost" | "tonerCost" | "clickCost" | "totalCost") =>
+      Math.round(costJobs.reduce((sum, job) => sum + parseFloat(job[field].toString()), 0) * 100) / 100;
 
     // Get consumption expenses
     let totalExpenses = 0;
@@ -1088,13 +3183,668 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
       totalPages,
       totalBWPages,
       totalColorPages,
-      totalPaperUsed: totalPages,
+      totalPaperUsed,
+      totalImpressions: totalBWImpressions + totalColorImpressions,
       estimatedInkUsed: Math.round(estimatedInkUsed * 10) / 10,
+      totalPaperCost: sumCost("paperCost"),
+      totalTonerCost: sumCost("tonerCost"),
+      totalClickCost: sumCost("clickCost"),
+      totalPrintCost: sumCost("totalCost"),
       totalExpenses,
       period,
+      locationBreakdown,
+    };
+  }
+
+  async getDepartment(id: string): Promise<Department | undefined> {
+    const result = await db.select().from(departments).where(eq(departments.id, id));
+    return result[0];
+  }
+
+  async getAllDepartments(companyId: string): Promise<Department[]> {
+    return db.select().from(departments).where(eq(departments.companyId, companyId)).orderBy(departments.name);
+  }
+
+  async createDepartment(insertDepartment: InsertDepartment): Promise<Department> {
+    const result = await db.insert(departments).values(columnValues(departments, insertDepartment)).returning();
+    return result[0];
+  }
+
+  async deleteDepartment(id: string): Promise<void> {
+    await db.update(users).set(columnValues(users, { departmentId: null })).where(eq(users.departmentId, id));
+    await db.delete(printQuotas).where(eq(printQuotas.departmentId, id));
+    await db.delete(departments).where(eq(departments.id, id));
+  }
+
+  async updateUserDepartment(userId: string, departmentId: string | null): Promise<User | undefined> {
+    const result = await db.update(users).set(columnValues(users, { departmentId })).where(eq(users.id, userId)).returning();
+    return result[0];
+  }
+
+  async getPrintQuota(id: string): Promise<PrintQuota | undefined> {
+    const result = await db.select().from(printQuotas).where(eq(printQuotas.id, id));
+    return result[0];
+  }
+
+  async getAllPrintQuotas(companyId: string): Promise<PrintQuota[]> {
+    return db.select().from(printQuotas).where(eq(printQuotas.companyId, companyId)).orderBy(printQuotas.createdAt);
+  }
+
+  async createPrintQuota(insertQuota: InsertPrintQuota, userId?: string): Promise<PrintQuota> {
+    const result = await db.insert(printQuotas).values(columnValues(printQuotas, insertQuota)).returning();
+    const quota = result[0];
+
+    if (userId) {
+      await this.createAuditLogEntry(quota.companyId, userId, "CREATE", "print_quotas", quota.id, null, quota);
+    }
+
+    return quota;
+  }
+
+  async updatePrintQuota(id: string, data: Partial<InsertPrintQuota>, userId?: string): Promise<PrintQuota | undefined> {
+    const oldQuota = userId ? await this.getPrintQuota(id) : null;
+
+    const result = await db.update(printQuotas).set(data).where(eq(printQuotas.id, id)).returning();
+    const quota = result[0];
+
+    if (userId && oldQuota && quota) {
+      await this.createAuditLogEntry(quota.companyId, userId, "UPDATE", "print_quotas", id, oldQuota, quota);
+    }
+
+    return quota;
+  }
+
+  async deletePrintQuota(id: string): Promise<void> {
+    await db.delete(printQuotas).where(eq(printQuotas.id, id));
+  }
+
+  async getApprovalPolicy(id: string): Promise<ApprovalPolicy | undefined> {
+    const result = await db.select().from(approvalPolicies).where(eq(approvalPolicies.id, id));
+    return result[0];
+  }
+
+  async getAllApprovalPolicies(companyId: string): Promise<ApprovalPolicy[]> {
+    return db
+      .select()
+      .from(approvalPolicies)
+      .where(eq(approvalPolicies.companyId, companyId))
+      .orderBy(approvalPolicies.createdAt);
+  }
+
+  async createApprovalPolicy(insertPolicy: InsertApprovalPolicy, userId?: string): Promise<ApprovalPolicy> {
+    const result = await db.insert(approvalPolicies).values(columnValues(approvalPolicies, insertPolicy)).returning();
+    const policy = result[0];
+
+    if (userId) {
+      await this.createAuditLogEntry(policy.companyId, userId, "CREATE", "approval_policies", policy.id, null, policy);
+    }
+
+    return policy;
+  }
+
+  async updateApprovalPolicy(id: string, data: Partial<InsertApprovalPolicy>, userId?: string): Promise<ApprovalPolicy | undefined> {
+    const oldPolicy = userId ? await this.getApprovalPolicy(id) : null;
+
+    const result = await db.update(approvalPolicies).set(data).where(eq(approvalPolicies.id, id)).returning();
+    const policy = result[0];
+
+    if (userId && oldPolicy && policy) {
+      await this.createAuditLogEntry(policy.companyId, userId, "UPDATE", "approval_policies", id, oldPolicy, policy);
+    }
+
+    return policy;
+  }
+
+  async deleteApprovalPolicy(id: string): Promise<void> {
+    await db.delete(approvalPolicies).where(eq(approvalPolicies.id, id));
+  }
+
+  async getMatchingApprovalPolicies(
+    companyId: string,
+    job: Pick<InsertPrintJob, "pageCount" | "copies" | "colorMode">
+  ): Promise<ApprovalPolicy[]> {
+    const policies = await db
+      .select()
+      .from(approvalPolicies)
+      .where(and(eq(approvalPolicies.companyId, companyId), eq(approvalPolicies.enabled, true)));
+
+    const copies = job.copies || 1;
+    const totalPages = job.pageCount * copies;
+
+    return policies.filter((policy) =>
+      (policy.minTotalPages !== null && totalPages >= policy.minTotalPages) ||
+      (policy.minCopies !== null && copies >= policy.minCopies) ||
+      (policy.requireForColor && job.colorMode === "color")
+    );
+  }
+
+  async getPendingApprovalJobs(companyId: string): Promise<PrintJobWithDetails[]> {
+    const jobs = await this.getAllPrintJobs(companyId);
+    return jobs.filter((job) => job.status === "pending_approval");
+  }
+
+  async reviewPrintJob(id: string, decision: "approve" | "reject", reviewerId: string, reason?: string): Promise<PrintJob | undefined> {
+    if (decision === "reject") {
+      return this.updatePrintJobStatus(id, "rejected", reviewerId, reason, "REJECT");
+    }
+
+    const job = await this.getPrintJob(id);
+    let approved: PrintJob | undefined;
+    if (!job?.releaseExpiresAt) {
+      approved = await this.updatePrintJobStatus(id, "queued", reviewerId, reason || "Aprobado", "APPROVE");
+    } else {
+      // Un trabajo de impresión segura aprobado queda retenido y el plazo de liberación empieza de nuevo
+      approved = await this.updatePrintJobStatus(id, "held", reviewerId, reason || "Aprobado", "APPROVE");
+      if (approved) {
+        const result = await db
+          .update(printJobs)
+          .set(columnValues(printJobs, { releaseExpiresAt: getPullPrintExpiry() }))
+          .where(eq(printJobs.id, id))
+          .returning();
+        approved = result[0];
+      }
+    }
+
+    // Las páginas cuentan para la cuota desde la aprobación, así que recién ahora pueden cruzar un umbral
+    if (approved) {
+      const pages = calculateImpressions(approved);
+      await this.raiseQuotaAlerts(approved.userId, pages, approved.colorMode === "color" ? pages : 0);
+    }
+    return approved;
+  }
+
+  async getReleasableJobs(userId: string, printerId: string): Promise<PrintJobWithDetails[]> {
+    const jobs = await db
+      .select()
+      .from(printJobs)
+      .where(and(
+        eq(printJobs.userId, userId),
+        eq(printJobs.printerId, printerId),
+        eq(printJobs.status, "held"),
+        isNotNull(printJobs.releaseExpiresAt)
+      ))
+      .orderBy(printJobs.printedAt);
+
+    const result: PrintJobWithDetails[] = [];
+    for (const job of jobs) {
+      const details = await this.getPrintJob(job.id);
+      if (details) result.push(details);
+    }
+    return result;
+  }
+
+  async releaseHeldJobs(userId: string, printerId: string, jobIds?: string[]): Promise<PrintJob[]> {
+    const releasable = await this.getReleasableJobs(userId, printerId);
+    const toRelease = jobIds ? releasable.filter((job) => jobIds.includes(job.id)) : releasable;
+
+    const released: PrintJob[] = [];
+    for (const job of toRelease) {
+      try {
+        const updated = await this.updatePrintJobStatus(job.id, "printing", userId, "Liberado en la impresora");
+        if (updated) released.push(updated);
+      } catch (error) {
+        // El trabajo pudo vencer o cancelarse entre la consulta y la liberación
+        if (!(error instanceof InvalidStatusTransitionError)) throw error;
+      }
+    }
+    return released;
+  }
+
+  // Cada apertura o descarga de un documento queda en la auditoría con el origen de la petición
+  async recordFileAccess(
+    job: PrintJob,
+    companyId: string,
+    userId: string,
+    disposition: "view" | "download",
+    client: { ipAddress?: string; userAgent?: string } = {}
+  ): Promise<void> {
+    try {
+      await db.insert(auditLogs).values(columnValues(auditLogs, {
+        companyId,
+        userId,
+        action: "DOWNLOAD",
+        tableName: "print_jobs",
+        recordId: job.id,
+        newValues: JSON.stringify({ disposition, fileName: job.fileName, documentName: job.documentName }),
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+      }));
+    } catch (error) {
+      console.error("Error creando log de auditoría de acceso a archivo:", error);
+    }
+  }
+
+  async expireHeldJobs(): Promise<number> {
+    const expiredJobs = await db
+      .select()
+      .from(printJobs)
+      .where(and(
+        eq(printJobs.status, "held"),
+        isNotNull(printJobs.releaseExpiresAt),
+        lt(printJobs.releaseExpiresAt, new Date())
+      ));
+
+    let expiredCount = 0;
+    for (const job of expiredJobs) {
+      try {
+        await this.updatePrintJobStatus(
+          job.id,
+          "expired",
+          job.userId,
+          `Vencido automáticamente: no se liberó en ${PULL_PRINT_EXPIRY_HOURS} horas`
+        );
+        expiredCount++;
+      } catch (error) {
+        if (!(error instanceof InvalidStatusTransitionError)) throw error;
+      }
+    }
+    return expiredCount;
+  }
+
+  async updateCompanyRetention(companyId: string, retention: UpdateRetention, userId: string): Promise<Company | undefined> {
+    const oldCompany = await this.getCompany(companyId);
+    if (!oldCompany) return undefined;
+
+    const result = await db.update(companies).set(columnValues(companies, retention)).where(eq(companies.id, companyId)).returning();
+    const company = result[0];
+
+    const fieldChanges = [];
+    if (retention.documentRetentionDays !== oldCompany.documentRetentionDays) {
+      fieldChanges.push({
+        field: "document_retention_days",
+        oldValue: oldCompany.documentRetentionDays,
+        newValue: retention.documentRetentionDays
+      });
+    }
+    if (retention.metadataRetentionDays !== oldCompany.metadataRetentionDays) {
+      fieldChanges.push({
+        field: "metadata_retention_days",
+        oldValue: oldCompany.metadataRetentionDays,
+        newValue: retention.metadataRetentionDays
+      });
+    }
+    if (fieldChanges.length > 0) {
+      await this.createAuditLogEntry(companyId, userId, "UPDATE", "companies", companyId, oldCompany, company, fieldChanges);
+    }
+
+    return company;
+  }
+
+  // Documentos que superaron la retención de su empresa y que todavía están en disco
+  async getPrintJobsWithExpiredFiles(): Promise<Array<Pick<PrintJob, "id" | "filePath" | "thumbnailPath">>> {
+    const companiesWithRetention = await db
+      .select()
+      .from(companies)
+      .where(isNotNull(companies.documentRetentionDays));
+
+    const expired: Array<Pick<PrintJob, "id" | "filePath" | "thumbnailPath">> = [];
+    for (const company of companiesWithRetention) {
+      const cutoff = new Date(Date.now() - company.documentRetentionDays! * DAY_MS);
+      const rows = await db
+        .select({ id: printJobs.id, filePath: printJobs.filePath, thumbnailPath: printJobs.thumbnailPath })
+        .from(printJobs)
+        .innerJoin(users, eq(printJobs.userId, users.id))
+        .where(and(
+          eq(users.companyId, company.id),
+          isNotNull(printJobs.filePath),
+          isNull(printJobs.fileDeletedAt),
+          lt(printJobs.printedAt, cutoff),
+          notInArray(printJobs.status, ACTIVE_STATUSES)
+        ));
+      expired.push(...rows);
+    }
+
+    return expired;
+  }
+
+  async markPrintJobFilesDeleted(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(printJobs).set(columnValues(printJobs, { fileDeletedAt: new Date(), thumbnailPath: null })).where(inArray(printJobs.id, ids));
+  }
+
+  // Elimina el historial de trabajos que superó la retención de metadatos de su empresa
+  async purgeExpiredPrintJobs(): Promise<{ purgedJobs: number; filePaths: string[] }> {
+    const companiesWithRetention = await db
+      .select()
+      .from(companies)
+      .where(isNotNull(companies.metadataRetentionDays));
+
+    let purgedJobs = 0;
+    const filePaths: string[] = [];
+
+    for (const company of companiesWithRetention) {
+      const cutoff = new Date(Date.now() - company.metadataRetentionDays! * DAY_MS);
+      const rows = await db
+        .select({
+          id: printJobs.id,
+          filePath: printJobs.filePath,
+          thumbnailPath: printJobs.thumbnailPath,
+          fileDeletedAt: printJobs.fileDeletedAt,
+        })
+        .from(printJobs)
+        .innerJoin(users, eq(printJobs.userId, users.id))
+        .where(and(
+          eq(users.companyId, company.id),
+          lt(printJobs.printedAt, cutoff),
+          notInArray(printJobs.status, ACTIVE_STATUSES)
+        ));
+      if (rows.length === 0) continue;
+
+      const ids = rows.map((row) => row.id);
+      await db.transaction(async (tx) => {
+        await tx.delete(printJobEvents).where(inArray(printJobEvents.printJobId, ids));
+        await tx.delete(printJobs).where(inArray(printJobs.id, ids));
+      });
+
+      purgedJobs += ids.length;
+      for (const row of rows) {
+        if (row.filePath && !row.fileDeletedAt) filePaths.push(row.filePath);
+        if (row.thumbnailPath) filePaths.push(row.thumbnailPath);
+      }
+
+      await this.createAuditLogEntry(
+        company.id,
+        "system",
+        "DELETE",
+        "print_jobs",
+        "retention",
+        null,
+        { purgedJobs: ids.length, olderThan: cutoff.toISOString() }
+      );
+    }
+
+    return { purgedJobs, filePaths };
+  }
+
+  async getReferencedUploadPaths(): Promise<string[]> {
+    const rows = await db
+      .select({ filePath: printJobs.filePath, thumbnailPath: printJobs.thumbnailPath })
+      .from(printJobs)
+      .where(isNull(printJobs.fileDeletedAt));
+    return rows.flatMap((row) => [row.filePath, row.thumbnailPath].filter((filePath): filePath is string => !!filePath));
+  }
+
+  async setPrintJobThumbnail(id: string, thumbnailPath: string): Promise<void> {
+    await db.update(printJobs).set(columnValues(printJobs, { thumbnailPath })).where(eq(printJobs.id, id));
+  }
+
+  async updateCompanyUploadPolicy(companyId: string, allowedUploadTypes: string[], userId: string): Promise<Company | undefined> {
+    const oldCompany = await this.getCompany(companyId);
+    if (!oldCompany) return undefined;
+
+    const result = await db.update(companies).set(columnValues(companies, { allowedUploadTypes })).where(eq(companies.id, companyId)).returning();
+    const company = result[0];
+
+    await this.createAuditLogEntry(companyId, userId, "UPDATE", "companies", companyId, oldCompany, company, [{
+      field: "allowed_upload_types",
+      oldValue: oldCompany.allowedUploadTypes,
+      newValue: allowedUploadTypes
+    }]);
+
+    return company;
+  }
+
+  // La cola se busca primero en el mapeo explícito y luego por nombre de la impresora
+  async findPrinterByCupsQueue(companyId: string, queue: string): Promise<Printer | undefined> {
+    const [mapped] = await db
+      .select()
+      .from(printers)
+      .where(and(eq(printers.companyId, companyId), eq(printers.cupsQueue, queue)));
+    if (mapped) return mapped;
+
+    const pattern = queue.replace(/[\\%_]/g, "\\$&");
+    const [byName] = await db
+      .select()
+      .from(printers)
+      .where(and(eq(printers.companyId, companyId), isNull(printers.cupsQueue), ilike(printers.name, pattern)));
+    return byName;
+  }
+
+  async findUserByCupsUsername(companyId: string, cupsUsername: string): Promise<User | undefined> {
+    const [mapped] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.companyId, companyId), eq(users.cupsUsername, cupsUsername)));
+    if (mapped) return mapped;
+
+    const [byUsername] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.companyId, companyId), isNull(users.cupsUsername), eq(users.username, cupsUsername)));
+    return byUsername;
+  }
+
+  async hasImportedPrintJob(companyId: string, externalJobId: string): Promise<boolean> {
+    const [row] = await db
+      .select({ id: printJobs.id })
+      .from(printJobs)
+      .innerJoin(users, eq(printJobs.userId, users.id))
+      .where(and(eq(users.companyId, companyId), eq(printJobs.externalJobId, externalJobId)))
+      .limit(1);
+    return !!row;
+  }
+
+  async recordCupsUnmatchedName(companyId: string, kind: "queue" | "user", name: string, jobName: string): Promise<void> {
+    const [existing] = await db
+      .select()
+      .from(cupsUnmatchedNames)
+      .where(and(
+        eq(cupsUnmatchedNames.companyId, companyId),
+        eq(cupsUnmatchedNames.kind, kind),
+        eq(cupsUnmatchedNames.name, name)
+      ));
+
+    if (existing) {
+      await db
+        .update(cupsUnmatchedNames)
+        .set(columnValues(cupsUnmatchedNames, { skippedJobs: existing.skippedJobs + 1, lastJobName: jobName, lastSeenAt: new Date() }))
+        .where(eq(cupsUnmatchedNames.id, existing.id));
+    } else {
+      await db.insert(cupsUnmatchedNames).values(columnValues(cupsUnmatchedNames, { companyId, kind, name, skippedJobs: 1, lastJobName: jobName }));
+    }
+  }
+
+  async getCupsUnmatchedNames(companyId: string): Promise<CupsUnmatchedName[]> {
+    return await db
+      .select()
+      .from(cupsUnmatchedNames)
+      .where(eq(cupsUnmatchedNames.companyId, companyId))
+      .orderBy(desc(cupsUnmatchedNames.skippedJobs));
+  }
+
+  // Guarda el nombre de CUPS en la impresora o usuario elegido; devuelve false si no pertenece a la empresa
+  async mapCupsName(companyId: string, kind: "queue" | "user", name: string, targetId: string, userId: string): Promise<boolean> {
+    if (kind === "queue") {
+      const printer = await this.getPrinter(targetId);
+      if (!printer || printer.companyId !== companyId) return false;
+
+      const [updated] = await db.update(printers).set(columnValues(printers, { cupsQueue: name })).where(eq(printers.id, targetId)).returning();
+      await this.createAuditLogEntry(companyId, userId, "UPDATE", "printers", targetId, printer, updated, [{
+        field: "cups_queue",
+        oldValue: printer.cupsQueue,
+        newValue: name
+      }]);
+    } else {
+      const user = await this.getUser(targetId);
+      if (!user || user.companyId !== companyId) return false;
+
+      await db.update(users).set(columnValues(users, { cupsUsername: name })).where(eq(users.id, targetId));
+      await this.createAuditLogEntry(companyId, userId, "UPDATE", "users", targetId, null, null, [{
+        field: "cups_username",
+        oldValue: user.cupsUsername,
+        newValue: name
+      }]);
+    }
+
+    await db
+      .delete(cupsUnmatchedNames)
+      .where(and(
+        eq(cupsUnmatchedNames.companyId, companyId),
+        eq(cupsUnmatchedNames.kind, kind),
+        eq(cupsUnmatchedNames.name, name)
+      ));
+    return true;
+  }
+
+  async getStorageReport(companyId?: string): Promise<StorageReportRow[]> {
+    const companyFilter = companyId ? eq(users.companyId, companyId) : undefined;
+
+    const [companyRows, storedRows, deletedRows] = await Promise.all([
+      companyId
+        ? db.select().from(companies).where(eq(companies.id, companyId))
+        : db.select().from(companies).orderBy(companies.name),
+      db
+        .select({ companyId: users.companyId, files: count(), bytes: sum(printJobs.fileSize) })
+        .from(printJobs)
+        .innerJoin(users, eq(printJobs.userId, users.id))
+        .where(and(companyFilter, isNotNull(printJobs.filePath), isNull(printJobs.fileDeletedAt)))
+        .groupBy(users.companyId),
+      db
+        .select({ companyId: users.companyId, files: count() })
+        .from(printJobs)
+        .innerJoin(users, eq(printJobs.userId, users.id))
+        .where(and(companyFilter, isNotNull(printJobs.fileDeletedAt)))
+        .groupBy(users.companyId),
+    ]);
+
+    return companyRows.map((company) => {
+      const stored = storedRows.find((row) => row.companyId === company.id);
+      const deleted = deletedRows.find((row) => row.companyId === company.id);
+      return {
+        companyId: company.id,
+        companyName: company.name,
+        storedFiles: stored?.files || 0,
+        storedBytes: Number(stored?.bytes || 0),
+        deletedFiles: deleted?.files || 0,
+        documentRetentionDays: company.documentRetentionDays,
+        metadataRetentionDays: company.metadataRetentionDays,
+      };
+    });
+  }
+
+  async getPullPrintingReport(companyId: string, since: Date): Promise<PullPrintingReport> {
+    const jobs = (await this.getAllPrintJobs(companyId)).filter(
+      (job) => job.releaseExpiresAt && new Date(job.printedAt) >= since
+    );
+    const expired = jobs.filter((job) => job.status === "expired");
+
+    return {
+      heldJobs: jobs.filter((job) => job.status === "held").length,
+      releasedJobs: jobs.filter((job) => ["printing", "completed", "failed"].includes(job.status)).length,
+      expiredJobs: expired.length,
+      pagesSaved: expired.reduce((sum, job) => sum + job.pageCount * job.copies, 0),
+      sheetsSaved: expired.reduce((sum, job) => sum + calculateSheetsUsed(job), 0),
     };
   }
 
+  // Páginas y páginas a color impresas en el mes en curso por un conjunto de usuarios
+  private async getMonthlyUsage(userIds: string[]): Promise<{ pages: number; colorPages: number }> {
+    if (userIds.length === 0) return { pages: 0, colorPages: 0 };
+
+    const now = new Date();
+    const firstDayOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+
+    const jobs = await db
+      .select()
+      .from(printJobs)
+      .where(and(
+        inArray(printJobs.userId, userIds),
+        gte(printJobs.printedAt, firstDayOfMonth),
+        // Los pendientes de aprobación no consumen cuota hasta que un admin los apruebe
+        notInArray(printJobs.status, [...RESTOCK_STATUSES, ...UNAPPROVED_STATUSES])
+      ));
+
+    return jobs.reduce(
+      (usage, job) => {
+        const pages = calculateImpressions(job);
+        usage.pages += pages;
+        if (job.colorMode === "color") usage.colorPages += pages;
+        return usage;
+      },
+      { pages: 0, colorPages: 0 }
+    );
+  }
+
+  async getQuotaStatusForUser(userId: string): Promise<QuotaStatus[]> {
+    const user = await this.getUser(userId);
+    if (!user?.companyId) return [];
+
+    const scopeConditions = [and(eq(printQuotas.scope, "user"), eq(printQuotas.userId, userId))];
+    if (user.departmentId) {
+      scopeConditions.push(and(eq(printQuotas.scope, "department"), eq(printQuotas.departmentId, user.departmentId)));
+    }
+
+    const quotas = await db
+      .select()
+      .from(printQuotas)
+      .where(and(eq(printQuotas.companyId, user.companyId), or(...scopeConditions)));
+
+    const statuses: QuotaStatus[] = [];
+    for (const quota of quotas) {
+      let memberIds = [userId];
+      if (quota.scope === "department") {
+        const members = await db.select().from(users).where(eq(users.departmentId, quota.departmentId));
+        memberIds = members.map((member) => member.id);
+      }
+
+      const usage = await this.getMonthlyUsage(memberIds);
+      statuses.push({
+        quota,
+        usedPages: usage.pages,
+        usedColorPages: usage.colorPages,
+        remainingPages: quota.monthlyPageLimit !== null ? quota.monthlyPageLimit - usage.pages : null,
+        remainingColorPages: quota.monthlyColorPageLimit !== null ? quota.monthlyColorPageLimit - usage.colorPages : null,
+      });
+    }
+
+    return statuses;
+  }
+
+  // Genera alertas quota_exceeded cuando un trabajo cruza alguno de los umbrales configurados
+  async raiseQuotaAlerts(userId: string, addedPages: number, addedColorPages: number): Promise<void> {
+    try {
+      const user = await this.getUser(userId);
+      if (!user?.companyId) return;
+
+      const statuses = await this.getQuotaStatusForUser(userId);
+      for (const status of statuses) {
+        const { quota } = status;
+        const target = quota.scope === "department"
+          ? `El departamento "${(await this.getDepartment(quota.departmentId))?.name ?? quota.departmentId}"`
+          : `El usuario ${user.fullName}`;
+
+        const checks = [
+          { limit: quota.monthlyPageLimit, used: status.usedPages, added: addedPages, label: "páginas" },
+          { limit: quota.monthlyColorPageLimit, used: status.usedColorPages, added: addedColorPages, label: "páginas a color" },
+        ];
+
+        for (const check of checks) {
+          if (!check.limit || check.added <= 0) continue;
+
+          const before = ((check.used - check.added) / check.limit) * 100;
+          const after = (check.used / check.limit) * 100;
+          const crossed = [...quota.alertThresholds]
+            .sort((a, b) => b - a)
+            .find((threshold) => before < threshold && after >= threshold);
+
+          if (crossed === undefined) continue;
+
+          await this.createAlert({
+            companyId: user.companyId,
+            type: "quota_exceeded",
+            title: crossed >= 100 ? "Cuota de impresión agotada" : `Cuota de impresión al ${crossed}%`,
+            message: `${target} ha usado ${check.used} de ${check.limit} ${check.label} este mes (${Math.round(after)}%).`,
+            severity: crossed >= 100 ? "error" : "warning",
+            resourceId: quota.id,
+            resourceType: "print_quota",
+          });
+        }
+      }
+    } catch (error) {
+      console.error("Error raising quota alerts:", error);
+    }
+  }
+
   async getAllAlerts(companyId: string): Promise<Alert[]> {
     try {
       return await db.select().from(alerts).where(eq(alerts.companyId, companyId));
@@ -1105,12 +3855,12 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
   }
 
   async createAlert(alert: InsertAlert): Promise<Alert> {
-    const result = await db.insert(alerts).values(alert).returning();
+    const result = await db.insert(alerts).values(columnValues(alerts, alert)).returning();
     return result[0];
   }
 
   async markAlertRead(id: string): Promise<void> {
-    await db.update(alerts).set({ read: true }).where(eq(alerts.id, id));
+    await db.update(alerts).set(columnValues(alerts, { read: true })).where(eq(alerts.id, id));
   }
 
   async deleteAlert(id: string): Promise<void> {
@@ -1127,9 +3877,126 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
     }
   }
 
-  async getAnalyticsData(companyId?: string) {
+  async getLocation(id: string): Promise<Location | undefined> {
+    const [location] = await db.select().from(locations).where(eq(locations.id, id));
+    return location;
+  }
+
+  async getAllLocations(companyId?: string): Promise<Location[]> {
+    return db
+      .select()
+      .from(locations)
+      .where(companyId ? eq(locations.companyId, companyId) : undefined)
+      .orderBy(locations.name);
+  }
+
+  // Cada nivel cuelga del inmediato superior: sede sin padre, edificio dentro de una sede, etc.
+  async createLocation(insertLocation: InsertLocation): Promise<Location> {
+    const levelIndex = LOCATION_LEVELS.indexOf(insertLocation.level);
+    const parentId = insertLocation.parentId || null;
+
+    if (levelIndex === 0) {
+      if (parentId) throw new LocationError("Una sede no puede estar dentro de otra ubicación");
+    } else {
+      const parent = parentId ? await this.getLocation(parentId) : undefined;
+      if (!parent || parent.companyId !== insertLocation.companyId) {
+        throw new LocationError("La ubicación superior no existe");
+      }
+      if (parent.level !== LOCATION_LEVELS[levelIndex - 1]) {
+        throw new LocationError(`Un nivel "${insertLocation.level}" debe estar dentro de un nivel "${LOCATION_LEVELS[levelIndex - 1]}"`);
+      }
+    }
+
+    const siblings = await db
+      .select()
+      .from(locations)
+      .where(and(
+        eq(locations.companyId, insertLocation.companyId),
+        parentId ? eq(locations.parentId, parentId) : isNull(locations.parentId)
+      ));
+    if (siblings.some((sibling) => sibling.name.toLowerCase() === insertLocation.name.toLowerCase())) {
+      throw new LocationError(`Ya existe "${insertLocation.name}" en esta ubicación`);
+    }
+
+    const [location] = await db.insert(locations).values(columnValues(locations, { ...insertLocation, parentId })).returning();
+    return location;
+  }
+
+  async updateLocation(id: string, name: string): Promise<Location | undefined> {
+    const location = await this.getLocation(id);
+    if (!location) return undefined;
+
+    const siblings = await db
+      .select()
+      .from(locations)
+      .where(and(
+        eq(locations.companyId, location.companyId),
+        location.parentId ? eq(locations.parentId, location.parentId) : isNull(locations.parentId),
+        ne(locations.id, id)
+      ));
+    if (siblings.some((sibling) => sibling.name.toLowerCase() === name.toLowerCase())) {
+      throw new LocationError(`Ya existe "${name}" en esta ubicación`);
+    }
+
+    const [updated] = await db.update(locations).set({ name }).where(eq(locations.id, id)).returning();
+    return updated;
+  }
+
+  async deleteLocation(id: string): Promise<void> {
+    const [child] = await db.select().from(locations).where(eq(locations.parentId, id)).limit(1);
+    if (child) {
+      throw new LocationError("Elimina primero las ubicaciones que contiene");
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.update(printers).set(columnValues(printers, { locationId: null })).where(eq(printers.locationId, id));
+      await tx.update(users).set(columnValues(users, { locationId: null })).where(eq(users.locationId, id));
+      await tx.delete(locations).where(eq(locations.id, id));
+    });
+  }
+
+  async updateUserLocation(userId: string, locationId: string | null): Promise<User | undefined> {
+    const result = await db.update(users).set(columnValues(users, { locationId })).where(eq(users.id, userId)).returning();
+    return result[0];
+  }
+
+  // Deja los trabajos ubicados en el nodo pedido o debajo de él y, si se pide, el desglose por nivel
+  async filterPrintJobsByLocation(
+    jobs: PrintJobWithDetails[],
+    companyId: string | undefined,
+    locationFilter?: LocationFilter
+  ): Promise<{ jobs: PrintJobWithDetails[]; locationBreakdown?: LocationUsageRow[] }> {
+    if (!locationFilter?.locationId && !locationFilter?.groupBy) {
+      return { jobs };
+    }
+
+    const locationList = await this.getAllLocations(companyId);
+    const basis = locationFilter.basis;
+    let filtered = jobs;
+
+    if (locationFilter.locationId) {
+      const byId = new Map(locationList.map((location) => [location.id, location]));
+      filtered = jobs.filter((job) =>
+        isWithinLocation(basis === "user" ? job.user.locationId : job.printer.locationId, locationFilter.locationId!, byId)
+      );
+    }
+
+    return {
+      jobs: filtered,
+      locationBreakdown: locationFilter.groupBy
+        ? summarizeUsageByLocation(filtered, locationList, locationFilter.groupBy, basis)
+        : undefined,
+    };
+  }
+
+  async getAnalyticsData(companyId?: string, locationFilter?: LocationFilter) {
     try {
-      const allJobs = await this.getAllPrintJobs(companyId);
+      // Los trabajos que nunca se imprimieron (rechazados, cancelados, vencidos o pendientes) no consumieron nada
+      const { jobs: allJobs, locationBreakdown } = await this.filterPrintJobsByLocation(
+        (await this.getAllPrintJobs(companyId)).filter(isCostBearingJob),
+        companyId,
+        locationFilter
+      );
 
       const jobsByDate: { [key: string]: number } = {};
       const jobsByPrinter: { [key: string]: number } = {};
@@ -1155,6 +4022,10 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
 
       const totalPages = allJobs.reduce((sum, j) => sum + j.pageCount, 0);
       const totalColorPages = allJobs.filter(j => j.colorMode === "color").reduce((sum, j) => sum + j.pageCount, 0);
+      const totalSheets = allJobs.reduce((sum, j) => sum + calculateSheetsUsed(j), 0);
+      const totalImpressions = allJobs.reduce((sum, j) => sum + calculateImpressions(j), 0);
+      const sumCost = (field: "paperCost" | "tonerCost" | "clickCost" | "totalCost") =>
+        Math.round(allJobs.reduce((sum, j) => sum + parseFloat(j[field].toString()), 0) * 100) / 100;
 
       return {
         jobsByDate,
@@ -1163,11 +4034,20 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
         totalJobs: allJobs.length,
         totalPages,
         totalColorPages,
-        costEstimate: (totalPages * 0.05) + (totalColorPages * 0.2),
+        totalSheets,
+        totalImpressions,
+        costEstimate: sumCost("totalCost"),
+        costBreakdown: {
+          paper: sumCost("paperCost"),
+          toner: sumCost("tonerCost"),
+          click: sumCost("clickCost"),
+        },
+        duplicates: summarizeDuplicatePrints(allJobs),
+        locationBreakdown,
       };
     } catch (error) {
       console.error("Error getting analytics:", error);
-      return { jobsByDate: {}, topPrinters: [], topUsers: [], totalJobs: 0, totalPages: 0, totalColorPages: 0, costEstimate: 0 };
+      return { jobsByDate: {}, topPrinters: [], topUsers: [], totalJobs: 0, totalPages: 0, totalColorPages: 0, totalSheets: 0, totalImpressions: 0, costEstimate: 0, costBreakdown: { paper: 0, toner: 0, click: 0 }, duplicates: { windowDays: DUPLICATE_WINDOW_DAYS, duplicateJobs: 0, wastedPages: 0, wastedCost: 0, topDocuments: [] } };
     }
   }
 
@@ -1201,11 +4081,27 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
       const ninetyDaysAgo = new Date();
       ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90);
 
+      // La demanda se proyecta solo con trabajos que realmente consumieron papel y toner
       const allJobs = await this.getAllPrintJobs(companyId);
       const recentJobs = allJobs.filter(job =>
-        new Date(job.printedAt) >= ninetyDaysAgo
+        new Date(job.printedAt) >= ninetyDaysAgo && isCostBearingJob(job)
       );
 
+      // Plazo de reposición de cada insumo según su proveedor; define cuándo el stock es crítico
+      const reorderSuppliers = await this.getReorderSuppliers(companyId);
+      const reorderTerms = (itemType: StockItemType, itemId: string, daysRemaining: number) => {
+        const supplier = reorderSuppliers.get(`${itemType}:${itemId}`);
+        const leadTimeDays = supplier?.leadTimeDays ?? DEFAULT_REORDER_LEAD_TIME_DAYS;
+        const reorderBy = new Date(Date.now() + Math.max(daysRemaining - leadTimeDays, 0) * 24 * 60 * 60 * 1000);
+        return {
+          status: getSupplyStatus(daysRemaining, leadTimeDays),
+          leadTimeDays,
+          supplierId: supplier?.supplierId ?? null,
+          supplierName: supplier?.supplierName ?? null,
+          reorderByDate: reorderBy.toISOString().split('T')[0],
+        };
+      };
+
       // Función helper para calcular regresión lineal simple (tendencia)
       const calculateTrend = (dataPoints: Array<{ date: Date, value: number }>) => {
         if (dataPoints.length < 2) return 0;
@@ -1253,11 +4149,11 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
           );
 
           if (existingEntry) {
-            existingEntry.pages += job.pageCount;
+            existingEntry.pages += calculateSheetsUsed(job);
           } else {
             paperConsumptionByType[job.paperTypeId].push({
               date: jobDate,
-              pages: job.pageCount
+              pages: calculateSheetsUsed(job)
             });
           }
         }
@@ -1296,7 +4192,7 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
               trend: Math.round(trend * 100) / 100,
               daysRemaining: daysRemaining,
               estimatedDepletionDate: new Date(Date.now() + daysRemaining * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-              status: daysRemaining <= 3 ? "critical" : daysRemaining <= 7 ? "warning" : daysRemaining <= 14 ? "caution" : "normal",
+              ...reorderTerms("paper", paperType.id, daysRemaining),
               confidence: confidence,
               dataPoints: consumptionData.length
             });
@@ -1304,40 +4200,47 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
         }
       }
 
-      // Calcular proyección para toner con análisis mejorado
-      const tonerInventory = await this.getAllTonerInventory(companyId);
-      const tonerConsumptionByColor: { [key: string]: Array<{ date: Date, pages: number }> } = {};
+      // Calcular proyección para toner con análisis mejorado. La demanda de cada toner sale de las impresoras
+      // que lo usan: el negro se gasta en todo trabajo y los colores solo en trabajos a color. Si una impresora
+      // acepta varios toners del mismo color, sus impresiones se reparten entre ellos.
+      const tonerInventory = await this.getAllTonerInventoryWithCompatibility(companyId);
+      const printerModels = new Map((await this.getAllPrinters(companyId)).map((printer) => [printer.id, printer.model]));
+      const tonerConsumptionById: { [key: string]: Array<{ date: Date, pages: number }> } = {};
 
       for (const job of recentJobs) {
-        if (job.colorMode === "color") {
-          const jobDate = new Date(job.printedAt);
-          const dateKey = jobDate.toISOString().split('T')[0];
+        const printerModel = printerModels.get(job.printerId);
+        const usable = tonerInventory.filter((toner) => toner.color === "black" || job.colorMode === "color");
+        const compatible = printerModel ? usable.filter((toner) => isTonerCompatible(toner, printerModel)) : [];
+        const candidates = compatible.length > 0 ? compatible : usable.filter((toner) => toner.compatibleModels.length === 0);
 
-          if (!tonerConsumptionByColor[job.colorMode]) {
-            tonerConsumptionByColor[job.colorMode] = [];
+        const jobDate = new Date(job.printedAt);
+        const dateKey = jobDate.toISOString().split('T')[0];
+
+        for (const toner of candidates) {
+          const sameColor = candidates.filter((candidate) => candidate.color === toner.color).length;
+          const pages = calculateImpressions(job) / sameColor;
+
+          if (!tonerConsumptionById[toner.id]) {
+            tonerConsumptionById[toner.id] = [];
           }
 
-          const existingEntry = tonerConsumptionByColor[job.colorMode].find(
+          const existingEntry = tonerConsumptionById[toner.id].find(
             entry => entry.date.toISOString().split('T')[0] === dateKey
           );
 
           if (existingEntry) {
-            existingEntry.pages += job.pageCount;
+            existingEntry.pages += pages;
           } else {
-            tonerConsumptionByColor[job.colorMode].push({
-              date: jobDate,
-              pages: job.pageCount
-            });
+            tonerConsumptionById[toner.id].push({ date: jobDate, pages });
           }
         }
       }
 
       for (const toner of tonerInventory) {
-        // Estimaciones más realistas basadas en tipo de color
-        const estimatedPagesPerCartridge = toner.color === 'black' ? 2500 :
-                                         toner.color === 'tricolor' ? 1500 : 1200;
+        // Rendimiento registrado del cartucho o estimado según el tipo de color
+        const estimatedPagesPerCartridge = getTonerPageYield(toner);
 
-        const consumptionData = tonerConsumptionByColor["color"] || [];
+        const consumptionData = tonerConsumptionById[toner.id] || [];
 
         if (consumptionData.length > 0) {
           consumptionData.sort((a, b) => a.date.getTime() - b.date.getTime());
@@ -1365,7 +4268,7 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
               estimatedPagesPerUnit: estimatedPagesPerCartridge,
               daysRemaining: daysRemaining,
               estimatedDepletionDate: new Date(Date.now() + daysRemaining * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-              status: daysRemaining <= 3 ? "critical" : daysRemaining <= 7 ? "warning" : daysRemaining <= 14 ? "caution" : "normal",
+              ...reorderTerms("toner", toner.id, daysRemaining),
               confidence: confidence,
               dataPoints: consumptionData.length
             });
@@ -1397,6 +4300,7 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
           await this.getSupplyProjections(compId);
 
         for (const projection of companyProjections) {
+          const leadTime = `${projection.leadTimeDays} día(s)${projection.supplierName ? ` con ${projection.supplierName}` : ""}`;
           let alertType = "";
           let title = "";
           let message = "";
@@ -1408,23 +4312,23 @@ async getPaperType(id: string): Promise<PaperType | undefined> {
             title = `${projection.type === "paper" ? "Papel" : "Tóner"} agotado`;
             message = `El ${projection.type === "paper" ? "tipo de papel" : "cartucho de tóner"} "${projection.name}" se ha agotado. Stock actual: ${projection.currentStock}`;
             severity = "error";
-          } else if (projection.daysRemaining <= 3) {
-            // Crítico - menos de 3 días
+          } else if (projection.status === "critical") {
+            // Crítico - se agota antes de que llegue un pedido hecho hoy
             alertType = projection.type === "paper" ? "paper_critical" : "toner_critical";
             title = `¡${projection.type === "paper" ? "Papel" : "Tóner"} crítico!`;
-            message = `${projection.type === "paper" ? "Tipo de papel" : "Cartucho de tóner"} "${projection.name}" se agotará en ${projection.daysRemaining} día(s). Stock actual: ${projection.currentStock}. Consumo diario: ${projection.dailyConsumption}`;
+            message = `${projection.type === "paper" ? "Tipo de papel" : "Cartucho de tóner"} "${projection.name}" se agotará en ${projection.daysRemaining} día(s), antes de que llegue un pedido hecho hoy (plazo de entrega: ${leadTime}). Stock actual: ${projection.currentStock}. Consumo diario: ${projection.dailyConsumption}`;
             severity = "error";
-          } else if (projection.daysRemaining <= 7) {
-            // Advertencia - menos de 7 días
+          } else if (projection.status === "warning") {
+            // Advertencia - queda menos de una semana para pedir a tiempo
             alertType = projection.type === "paper" ? "paper_warning" : "toner_warning";
             title = `${projection.type === "paper" ? "Papel" : "Tóner"} bajo`;
-            message = `${projection.type === "paper" ? "Tipo de papel" : "Cartucho de tóner"} "${projection.name}" se agotará en ${projection.daysRemaining} día(s). Stock actual: ${projection.currentStock}`;
+            message = `${projection.type === "paper" ? "Tipo de papel" : "Cartucho de tóner"} "${projection.name}" se agotará en ${projection.daysRemaining} día(s). Haga el pedido antes del ${projection.reorderByDate} (plazo de entrega: ${leadTime}). Stock actual: ${projection.currentStock}`;
             severity = "warning";
-          } else if (projection.daysRemaining <= 14) {
-            // Precaución - menos de 14 días
+          } else if (projection.status === "caution") {
+            // Precaución - quedan menos de dos semanas para pedir a tiempo
             alertType = projection.type === "paper" ? "paper_caution" : "toner_caution";
             title = `${projection.type === "paper" ? "Papel" : "Tóner"} próximo a agotarse`;
-            message = `${projection.type === "paper" ? "Tipo de papel" : "Cartucho de tóner"} "${projection.name}" se agotará en ${projection.daysRemaining} día(s). Considere reabastecer.`;
+            message = `${projection.type === "paper" ? "Tipo de papel" : "Cartucho de tóner"} "${projection.name}" se agotará en ${projection.daysRemaining} día(s). Considere reabastecer antes del ${projection.reorderByDate}.`;
             severity = "warning";
           }
 
@@ -0,0 +1,118 @@
+import fs from "fs";
+import path from "path";
+import { execFile } from "child_process";
+
+// Tamaño máximo de la miniatura (retrato, proporción carta)
+const THUMBNAIL_WIDTH = 240;
+const THUMBNAIL_HEIGHT = 320;
+const THUMBNAIL_TIMEOUT_MS = 15000;
+
+// ImageMagick rasteriza la primera página de PDF, TIFF e imágenes; para los PDF delega en Ghostscript.
+// Ninguno de los dos es un paquete de npm: deben estar instalados en el sistema (ver README). Si faltan,
+// los trabajos quedan sin miniatura
+const CONVERT_COMMAND = process.env.THUMBNAIL_CONVERT_PATH || "convert";
+const GHOSTSCRIPT_COMMAND = process.env.THUMBNAIL_GHOSTSCRIPT_PATH || "gs";
+const RASTER_TYPES = [
+  "application/pdf",
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "image/bmp",
+  "image/tiff",
+];
+
+// Texto plano: líneas que se dibujan en la miniatura
+const TEXT_PREVIEW_LINES = 32;
+const TEXT_PREVIEW_CHARS = 56;
+
+// Resultado de buscar cada programa externo; se comprueba una sola vez por proceso
+const availableTools = new Map<string, Promise<boolean>>();
+
+function isToolAvailable(command: string): Promise<boolean> {
+  let available = availableTools.get(command);
+  if (!available) {
+    available = new Promise((resolve) => {
+      execFile(command, ["-version"], { timeout: THUMBNAIL_TIMEOUT_MS }, (error) => {
+        if (error) {
+          console.error(`Thumbnails disabled for some types: "${command}" is not available (${error.message})`);
+        }
+        resolve(!error);
+      });
+    });
+    availableTools.set(command, available);
+  }
+  return available;
+}
+
+// Escapa el texto para el SVG y quita los caracteres de control que XML no admite
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+async function renderTextThumbnail(filePath: string, outputPath: string): Promise<void> {
+  const content = await fs.promises.readFile(filePath, "utf-8");
+  const firstPage = content.split("\f")[0];
+  const lines = firstPage
+    .split(/\r?\n/)
+    .slice(0, TEXT_PREVIEW_LINES)
+    .map((line, index) => {
+      const text = escapeXml(line.replace(/\t/g, "  ").slice(0, TEXT_PREVIEW_CHARS));
+      return `<text x="12" y="${20 + index * 9}">${text}</text>`;
+    });
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${THUMBNAIL_WIDTH}" height="${THUMBNAIL_HEIGHT}" viewBox="0 0 ${THUMBNAIL_WIDTH} ${THUMBNAIL_HEIGHT}">` +
+    `<rect width="100%" height="100%" fill="#ffffff"/>` +
+    `<g font-family="monospace" font-size="7" fill="#333333" xml:space="preserve">${lines.join("")}</g>` +
+    `</svg>`;
+
+  await fs.promises.writeFile(outputPath, svg, "utf-8");
+}
+
+function renderRasterThumbnail(filePath: string, outputPath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      CONVERT_COMMAND,
+      [
+        `${filePath}[0]`,
+        "-thumbnail",
+        `${THUMBNAIL_WIDTH}x${THUMBNAIL_HEIGHT}`,
+        "-background",
+        "white",
+        "-flatten",
+        `png:${outputPath}`,
+      ],
+      { timeout: THUMBNAIL_TIMEOUT_MS },
+      (error) => (error ? reject(error) : resolve())
+    );
+  });
+}
+
+// Genera la miniatura junto al archivo subido y devuelve su ruta pública, o null si el tipo no tiene vista previa
+export async function generateThumbnail(filePath: string, mimeType: string): Promise<string | null> {
+  const baseName = path.basename(filePath);
+  const directory = path.dirname(filePath);
+
+  if (mimeType === "text/plain") {
+    const thumbnailName = `${baseName}.thumb.svg`;
+    await renderTextThumbnail(filePath, path.join(directory, thumbnailName));
+    return `/uploads/${thumbnailName}`;
+  }
+
+  if (RASTER_TYPES.includes(mimeType)) {
+    if (!(await isToolAvailable(CONVERT_COMMAND))) return null;
+    if (mimeType === "application/pdf" && !(await isToolAvailable(GHOSTSCRIPT_COMMAND))) return null;
+
+    const thumbnailName = `${baseName}.thumb.png`;
+    await renderRasterThumbnail(filePath, path.join(directory, thumbnailName));
+    return `/uploads/${thumbnailName}`;
+  }
+
+  return null;
+}
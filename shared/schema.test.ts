@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calculateImpressions,
+  calculateSheetsUsed,
+  insertPrintJobSchema,
+  isPrintJobTransitionAllowed,
+} from "./schema";
+
+const job = {
+  userId: "user-1",
+  printerId: "printer-1",
+  documentName: "Informe",
+  fileName: "informe.pdf",
+  fileSize: 1024,
+  pageCount: 3,
+};
+
+test("un trabajo nuevo entra en cola si el servidor no indica otro estado", () => {
+  assert.equal(insertPrintJobSchema.parse(job).status, "queued");
+  assert.equal(insertPrintJobSchema.parse({ ...job, status: "completed" }).status, "completed");
+});
+
+test("el ciclo de vida solo avanza por las transiciones permitidas a cada rol", () => {
+  assert.equal(isPrintJobTransitionAllowed("queued", "printing", "operator"), true);
+  assert.equal(isPrintJobTransitionAllowed("queued", "failed", "operator"), false);
+  assert.equal(isPrintJobTransitionAllowed("queued", "cancelled", "viewer"), false);
+  // Sin rol es el propio servidor: puede retener un trabajo aprobado o vencer uno retenido
+  assert.equal(isPrintJobTransitionAllowed("pending_approval", "held"), true);
+  assert.equal(isPrintJobTransitionAllowed("held", "expired", "admin"), false);
+  // Un trabajo completado ya consumió su papel y no cambia más
+  assert.equal(isPrintJobTransitionAllowed("completed", "failed"), false);
+});
+
+test("las impresiones y hojas consideran copias, páginas por cara y dúplex", () => {
+  const layout = { pageCount: 5, copies: 2, nUp: 2, duplex: true };
+  assert.equal(calculateImpressions(layout), 6);
+  assert.equal(calculateSheetsUsed(layout), 4);
+  assert.equal(calculateSheetsUsed({ pageCount: 5 }), 5);
+});
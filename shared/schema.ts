@@ -9,6 +9,10 @@ export const companies = pgTable("companies", {
   name: text("name").notNull(),
   email: text("email").notNull().unique(),
   adminId: varchar("admin_id"),
+  // Retención: días que se guardan los documentos subidos y el historial de trabajos (null = sin límite)
+  documentRetentionDays: integer("document_retention_days").default(30),
+  metadataRetentionDays: integer("metadata_retention_days").default(730),
+  allowedUploadTypes: text("allowed_upload_types").array(), // null = tipos por defecto
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -21,6 +25,59 @@ export const users = pgTable("users", {
   fullName: text("full_name").notNull(),
   role: text("role").notNull().default("operator"),
   companyId: varchar("company_id"),
+  departmentId: varchar("department_id"),
+  locationId: varchar("location_id"), // ubicación habitual del usuario (opcional)
+  releasePinHash: text("release_pin_hash"), // bcrypt del PIN para liberar trabajos en la impresora
+  badgeIdHash: text("badge_id_hash"), // sha256 del ID de tarjeta/credencial
+  cupsUsername: text("cups_username"), // usuario con el que aparece en el page_log de CUPS (null = su username)
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Departments table
+export const departments = pgTable("departments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  companyId: varchar("company_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Niveles de la jerarquía de ubicaciones, de mayor a menor
+export const LOCATION_LEVELS = ["site", "building", "floor", "room"] as const;
+export type LocationLevel = typeof LOCATION_LEVELS[number];
+
+// Locations table - jerarquía sede → edificio → piso → sala por empresa
+export const locations = pgTable("locations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull(),
+  parentId: varchar("parent_id"), // null solo para las sedes
+  level: text("level").notNull(), // site, building, floor, room
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Print Quotas table - cuotas mensuales por usuario o departamento
+export const printQuotas = pgTable("print_quotas", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull(),
+  scope: text("scope").notNull(), // user, department
+  userId: varchar("user_id"),
+  departmentId: varchar("department_id"),
+  monthlyPageLimit: integer("monthly_page_limit"),
+  monthlyColorPageLimit: integer("monthly_color_page_limit"),
+  enforcement: text("enforcement").notNull().default("block"), // block, approval
+  alertThresholds: integer("alert_thresholds").array().notNull().default(sql`'{80,100}'`),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Approval Policies table - reglas que envían trabajos a aprobación de un admin
+export const approvalPolicies = pgTable("approval_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull(),
+  name: text("name").notNull(),
+  minTotalPages: integer("min_total_pages"), // páginas x copias
+  minCopies: integer("min_copies"),
+  requireForColor: boolean("require_for_color").notNull().default(false),
+  enabled: boolean("enabled").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -47,11 +104,110 @@ export const tonerInventory = pgTable("toner_inventory", {
   stock: integer("stock").notNull().default(0),
   minStock: integer("min_stock").notNull().default(5),
   pricePerUnit: decimal("price_per_unit", { precision: 10, scale: 2 }),
-  printerId: varchar("printer_id"),
+  pageYield: integer("page_yield"), // rendimiento del cartucho en páginas (impresiones)
   companyId: varchar("company_id"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Modelos de impresora que aceptan cada toner: un cartucho sirve a varios modelos y un modelo puede
+// aceptar varios cartuchos (originales y alternativos). Un toner sin modelos es de uso general.
+export const tonerCompatibility = pgTable("toner_compatibility", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tonerId: varchar("toner_id").notNull(),
+  printerModel: text("printer_model").notNull(), // se compara con printers.model sin distinguir mayúsculas
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Insumos con stock y tipos de movimiento del libro de inventario
+export const stockItemTypes = ["paper", "toner"] as const;
+export const stockMovementTypes = ["receipt", "consumption", "adjustment", "transfer", "write_off"] as const;
+
+// Libro de movimientos de inventario: cada cambio de stock de papel o toner queda como una cantidad con
+// signo y no se modifica ni se elimina. El stock de cada insumo es el saldo que resulta del libro.
+export const stockMovements = pgTable("stock_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id"),
+  itemType: text("item_type").notNull(), // paper, toner
+  itemId: varchar("item_id").notNull(),
+  movementType: text("movement_type").notNull(), // receipt, consumption, adjustment, transfer, write_off
+  quantity: integer("quantity").notNull(), // positiva si entra, negativa si sale
+  balanceAfter: integer("balance_after").notNull(), // stock del insumo después del movimiento
+  reason: text("reason"),
+  reference: text("reference"), // remito, factura, n.º de orden...
+  printJobId: varchar("print_job_id"), // consumo (o devolución) de un trabajo de impresión
+  transferId: varchar("transfer_id"), // une la salida y la entrada de una transferencia
+  purchaseOrderId: varchar("purchase_order_id"), // recepción de una orden de compra
+  userId: varchar("user_id"), // null en movimientos del sistema
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const purchaseOrderStatuses = ["draft", "sent", "partially_received", "received", "cancelled"] as const;
+
+// Órdenes de compra de papel y toner. Lo recibido entra al stock como movimiento "receipt" y su
+// importe queda como gasto de consumo ligado a la orden.
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull(),
+  orderNumber: integer("order_number").notNull(), // correlativo por empresa
+  supplierId: varchar("supplier_id"), // proveedor del catálogo; supplier conserva el nombre al emitirla
+  supplier: text("supplier").notNull(),
+  status: text("status").notNull().default("draft"),
+  expectedDate: timestamp("expected_date"),
+  notes: text("notes"),
+  createdBy: varchar("created_by"),
+  sentAt: timestamp("sent_at"),
+  receivedAt: timestamp("received_at"), // recepción completa
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const purchaseOrderLines = pgTable("purchase_order_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  purchaseOrderId: varchar("purchase_order_id").notNull(),
+  itemType: text("item_type").notNull(), // paper, toner
+  itemId: varchar("item_id").notNull(),
+  quantityOrdered: integer("quantity_ordered").notNull(),
+  quantityReceived: integer("quantity_received").notNull().default(0),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+});
+
+// Proveedores de papel y toner de cada empresa
+export const suppliers = pgTable("suppliers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull(),
+  name: text("name").notNull(),
+  contactName: text("contact_name"),
+  email: text("email"),
+  phone: text("phone"),
+  notes: text("notes"),
+  leadTimeDays: integer("lead_time_days").notNull().default(7), // plazo de entrega habitual
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Catálogo de cada proveedor: precio y plazo de entrega por insumo. El proveedor preferido de un insumo
+// (o, si no hay, el más rápido) fija el plazo con que se calcula cuándo reponerlo.
+export const supplierItems = pgTable("supplier_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").notNull(),
+  itemType: text("item_type").notNull(), // paper, toner
+  itemId: varchar("item_id").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }),
+  leadTimeDays: integer("lead_time_days"), // null = plazo habitual del proveedor
+  preferred: boolean("preferred").notNull().default(false),
+});
+
+export const purchaseOrderStatusLabels: Record<(typeof purchaseOrderStatuses)[number], string> = {
+  draft: "Borrador",
+  sent: "Enviada",
+  partially_received: "Recibida parcialmente",
+  received: "Recibida",
+  cancelled: "Cancelada",
+};
+
+export function formatPurchaseOrderNumber(orderNumber: number): string {
+  return `OC-${orderNumber.toString().padStart(5, "0")}`;
+}
+
 // Maintenance Logs table - NEW
 export const maintenanceLogs = pgTable("maintenance_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -75,6 +231,7 @@ export const consumptionExpenses = pgTable("consumption_expenses", {
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   description: text("description").notNull(),
   date: timestamp("date").notNull().defaultNow(),
+  purchaseOrderId: varchar("purchase_order_id"), // gasto generado al recibir una orden de compra
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -89,6 +246,7 @@ export const alerts = pgTable("alerts", {
   read: boolean("read").notNull().default(false),
   resourceId: varchar("resource_id"),
   resourceType: text("resource_type"),
+  resolvedAt: timestamp("resolved_at"), // la condición que la originó desapareció (p. ej. la impresora volvió a responder)
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -97,7 +255,7 @@ export const auditLogs = pgTable("audit_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   companyId: varchar("company_id").notNull(),
   userId: varchar("user_id").notNull(),
-  action: text("action").notNull(), // CREATE, UPDATE, DELETE
+  action: text("action").notNull(), // CREATE, UPDATE, DELETE, APPROVE, REJECT, DOWNLOAD
   tableName: text("table_name").notNull(), // paper_types, toner_inventory, etc.
   recordId: varchar("record_id").notNull(),
   oldValues: text("old_values"), // JSON string of old values
@@ -116,7 +274,7 @@ export const insertConsumptionExpenseSchema = createInsertSchema(consumptionExpe
   createdAt: true,
 }).extend({
   companyId: z.string(),
-  expenseType: z.enum(["paper_removal", "toner_removal", "peripheral"]),
+  expenseType: z.enum(["paper_removal", "toner_removal", "peripheral", "supply_purchase"]),
   amount: z.string().or(z.number()),
   description: z.string().min(1),
   date: z.string().optional(),
@@ -134,6 +292,68 @@ export const printers = pgTable("printers", {
   ipAddress: text("ip_address"),
   companyId: varchar("company_id"),
   status: text("status").notNull().default("active"),
+  locationId: varchar("location_id"), // nodo de la jerarquía; location queda como descripción libre
+  // Capacidades: los trabajos que la impresora no puede imprimir se rechazan al crearlos
+  supportsColor: boolean("supports_color").notNull().default(true),
+  supportsDuplex: boolean("supports_duplex").notNull().default(true),
+  supportedPaperSizes: text("supported_paper_sizes").array(), // null = cualquier tamaño
+  maxPaperWeight: integer("max_paper_weight"), // g/m², null = sin límite
+  supportsStapling: boolean("supports_stapling").notNull().default(false),
+  clickChargeBw: decimal("click_charge_bw", { precision: 10, scale: 4 }), // cargo por clic del contrato de servicio
+  clickChargeColor: decimal("click_charge_color", { precision: 10, scale: 4 }),
+  cupsQueue: text("cups_queue"), // cola de CUPS que imprime en esta impresora (null = su nombre)
+  // Último sondeo SNMP
+  deviceStatus: text("device_status"), // running, warning, testing, down, unknown, unreachable
+  pageCounter: integer("page_counter"), // prtMarkerLifeCount
+  lastPolledAt: timestamp("last_polled_at"),
+  lastSeenAt: timestamp("last_seen_at"), // última respuesta SNMP
+  // Datos del activo fijo
+  serialNumber: text("serial_number"),
+  manufacturer: text("manufacturer"),
+  ownership: text("ownership").notNull().default("owned"), // owned, leased
+  purchaseDate: timestamp("purchase_date"),
+  purchasePrice: decimal("purchase_price", { precision: 10, scale: 2 }),
+  expectedLifetimeMonths: integer("expected_lifetime_months"), // vida útil para la depreciación lineal
+  warrantyEndDate: timestamp("warranty_end_date"),
+  warrantyAlertedAt: timestamp("warranty_alerted_at"), // evita repetir el aviso de vencimiento de garantía
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Niveles de consumibles leídos por SNMP (prtMarkerSuppliesTable); se reemplazan en cada sondeo
+export const printerSupplyLevels = pgTable("printer_supply_levels", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  printerId: varchar("printer_id").notNull(),
+  supplyIndex: integer("supply_index").notNull(),
+  description: text("description").notNull(),
+  supplyType: text("supply_type").notNull(), // toner, ink, drum, waste, other
+  color: text("color"), // black, cyan, magenta, yellow...
+  levelPercent: integer("level_percent"), // null si la impresora no informa el nivel
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Periodos sin conexión de cada impresora; endedAt queda en null mientras la caída sigue abierta
+export const printerDowntime = pgTable("printer_downtime", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  printerId: varchar("printer_id").notNull(),
+  companyId: varchar("company_id").notNull(),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  endedAt: timestamp("ended_at"),
+  detectedBy: text("detected_by").notNull(), // tcp, snmp
+  reason: text("reason"),
+});
+
+// Lecturas del contador total de páginas de cada impresora, manuales o del sondeo SNMP
+export const printerMeterReadings = pgTable("printer_meter_readings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  printerId: varchar("printer_id").notNull(),
+  companyId: varchar("company_id").notNull(),
+  totalCount: integer("total_count").notNull(),
+  monoCount: integer("mono_count"), // desglose opcional; SNMP solo informa el total
+  colorCount: integer("color_count"),
+  source: text("source").notNull().default("manual"), // manual, snmp
+  recordedBy: varchar("recorded_by"), // null en lecturas automáticas
+  notes: text("notes"),
+  readAt: timestamp("read_at").notNull().defaultNow(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -144,34 +364,398 @@ export const printJobs = pgTable("print_jobs", {
   printerId: varchar("printer_id").notNull(),
   documentName: text("document_name").notNull(),
   fileName: text("file_name").notNull(),
-  filePath: text("file_path").notNull(),
+  filePath: text("file_path"), // null en trabajos importados de CUPS, que no tienen documento
   fileSize: integer("file_size").notNull(),
+  mimeType: text("mime_type"), // tipo detectado por la firma del archivo
+  thumbnailPath: text("thumbnail_path"), // miniatura de la primera página
+  contentHash: text("content_hash"), // SHA-256 del archivo, para detectar reimpresiones
   pageCount: integer("page_count").notNull(),
+  declaredPageCount: integer("declared_page_count"),
+  detectedPageCount: integer("detected_page_count"),
+  pageCountMismatch: boolean("page_count_mismatch").notNull().default(false),
   copies: integer("copies").notNull().default(1),
+  duplex: boolean("duplex").notNull().default(false),
+  stapled: boolean("stapled").notNull().default(false),
+  nUp: integer("n_up").notNull().default(1), // páginas por cara
   colorMode: text("color_mode").notNull().default("bw"),
   paperSize: text("paper_size").notNull().default("letter"),
   paperTypeId: varchar("paper_type_id"),
+  paperSheetsDeducted: integer("paper_sheets_deducted").notNull().default(0),
+  // Costo calculado al crear el trabajo; no cambia si después se editan los precios
+  paperCost: decimal("paper_cost", { precision: 10, scale: 4 }).notNull().default("0"),
+  tonerCost: decimal("toner_cost", { precision: 10, scale: 4 }).notNull().default("0"),
+  clickCost: decimal("click_cost", { precision: 10, scale: 4 }).notNull().default("0"),
+  totalCost: decimal("total_cost", { precision: 10, scale: 4 }).notNull().default("0"),
   status: text("status").notNull().default("completed"),
+  approvalReason: text("approval_reason"),
+  releaseExpiresAt: timestamp("release_expires_at"), // impresión segura: vence si no se libera antes
+  fileDeletedAt: timestamp("file_deleted_at"), // el documento se eliminó del disco por la política de retención
+  source: text("source").notNull().default("upload"), // upload, cups
+  externalJobId: text("external_job_id"), // cups:<cola>:<job-id>, evita importar dos veces el mismo trabajo
   printedAt: timestamp("printed_at").notNull().defaultNow(),
 });
 
+// Colas y usuarios del page_log de CUPS que no coinciden con ninguna impresora o usuario
+export const cupsUnmatchedNames = pgTable("cups_unmatched_names", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar("company_id").notNull(),
+  kind: text("kind").notNull(), // queue, user
+  name: text("name").notNull(),
+  skippedJobs: integer("skipped_jobs").notNull().default(0),
+  lastJobName: text("last_job_name"),
+  firstSeenAt: timestamp("first_seen_at").notNull().defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").notNull().defaultNow(),
+});
+
+// Print Job Events table - historial de cambios de estado
+export const printJobEvents = pgTable("print_job_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  printJobId: varchar("print_job_id").notNull(),
+  companyId: varchar("company_id"),
+  userId: varchar("user_id"),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Ciclo de vida de un trabajo: (pending_approval →) queued → held → printing → completed / failed / cancelled
+// Los trabajos de impresión segura quedan en held hasta liberarse en la impresora o pasar a expired
+export const printJobStatuses = [
+  "pending_approval",
+  "queued",
+  "held",
+  "printing",
+  "completed",
+  "failed",
+  "cancelled",
+  "rejected",
+  "expired",
+] as const;
+export type PrintJobStatus = typeof printJobStatuses[number];
+
+// Transiciones permitidas y los roles que pueden ejecutarlas. Las que no tienen roles solo las aplica el
+// servidor: held es exclusivo de la impresión segura, y solo el dueño lo libera en la impresora
+// (o vence); el personal únicamente puede cancelarlo
+export const printJobTransitions: Record<PrintJobStatus, Partial<Record<PrintJobStatus, string[]>>> = {
+  pending_approval: { queued: ["admin"], held: [], rejected: ["admin"], cancelled: ["admin", "operator"] },
+  queued: { printing: ["admin", "operator"], cancelled: ["admin", "operator"], failed: ["admin"] },
+  held: { printing: [], cancelled: ["admin", "operator"], expired: [] },
+  printing: { completed: ["admin", "operator"], failed: ["admin", "operator"], cancelled: ["admin"] },
+  // Un trabajo completado ya consumió su papel: no vuelve a failed, que lo repondría
+  completed: {},
+  failed: {},
+  cancelled: {},
+  rejected: {},
+  expired: {},
+};
+
+// Tipos de archivo que se reconocen al subir un documento
+export const supportedUploadTypes = [
+  "application/pdf",
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "image/bmp",
+  "image/tiff",
+  "text/plain",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+] as const;
+
+export const defaultAllowedUploadTypes: string[] = [...supportedUploadTypes];
+
+// Tamaños de papel de un trabajo
+export const paperSizes = ["letter", "legal", "a4", "a3"] as const;
+export type PaperSize = typeof paperSizes[number];
+
+export const paperSizeLabels: Record<PaperSize, string> = {
+  letter: 'Carta (8.5" × 11")',
+  legal: 'Oficio (8.5" × 14")',
+  a4: "A4",
+  a3: "A3",
+};
+
+type PrinterCapabilities = {
+  supportsColor: boolean;
+  supportsDuplex: boolean;
+  supportedPaperSizes: string[] | null;
+  maxPaperWeight: number | null;
+  supportsStapling: boolean;
+};
+
+// Motivos por los que una impresora no puede imprimir el trabajo; vacío si es posible
+export function getCapabilityViolations(
+  printer: PrinterCapabilities,
+  job: { colorMode: string; duplex?: boolean; paperSize: string; stapled?: boolean },
+  paperType?: { name: string; weight: number } | null
+): string[] {
+  const violations: string[] = [];
+  if (job.colorMode === "color" && !printer.supportsColor) {
+    violations.push("la impresora solo imprime en blanco y negro");
+  }
+  if (job.duplex && !printer.supportsDuplex) {
+    violations.push("la impresora no imprime a doble cara");
+  }
+  if (printer.supportedPaperSizes && printer.supportedPaperSizes.length > 0 && !printer.supportedPaperSizes.includes(job.paperSize)) {
+    violations.push(`la impresora no admite papel ${paperSizeLabels[job.paperSize as PaperSize] ?? job.paperSize}`);
+  }
+  if (paperType && printer.maxPaperWeight !== null && paperType.weight > printer.maxPaperWeight) {
+    violations.push(`"${paperType.name}" (${paperType.weight} g/m²) supera el gramaje máximo de ${printer.maxPaperWeight} g/m²`);
+  }
+  if (job.stapled && !printer.supportsStapling) {
+    violations.push("la impresora no engrapa");
+  }
+  return violations;
+}
+
+// Páginas por cara permitidas (N-up)
+export const nUpOptions = [1, 2, 4, 6, 9, 16] as const;
+
+type PrintLayout = { pageCount: number; copies?: number; nUp?: number; duplex?: boolean };
+
+// Impresiones: caras impresas, que es lo que consume toner
+export function calculateImpressions(job: PrintLayout): number {
+  return Math.ceil(job.pageCount / (job.nUp || 1)) * (job.copies || 1);
+}
+
+// Hojas físicas de papel: en dúplex cada hoja lleva dos impresiones
+export function calculateSheetsUsed(job: PrintLayout): number {
+  const impressionsPerCopy = Math.ceil(job.pageCount / (job.nUp || 1));
+  const sheetsPerCopy = job.duplex ? Math.ceil(impressionsPerCopy / 2) : impressionsPerCopy;
+  return sheetsPerCopy * (job.copies || 1);
+}
+
+// Depreciación lineal sin valor residual, por meses completos desde la compra. Las impresoras
+// arrendadas no son activos propios y no se deprecian.
+export function calculatePrinterDepreciation(
+  printer: Pick<Printer, "ownership" | "purchaseDate" | "purchasePrice" | "expectedLifetimeMonths">,
+  asOf: Date = new Date()
+): PrinterDepreciation | null {
+  if (printer.ownership !== "owned" || !printer.purchaseDate || !printer.purchasePrice || !printer.expectedLifetimeMonths) {
+    return null;
+  }
+
+  const purchaseDate = new Date(printer.purchaseDate);
+  const price = parseFloat(printer.purchasePrice.toString());
+  let monthsInService = (asOf.getFullYear() - purchaseDate.getFullYear()) * 12 + asOf.getMonth() - purchaseDate.getMonth();
+  if (asOf.getDate() < purchaseDate.getDate()) monthsInService--;
+  monthsInService = Math.max(0, monthsInService);
+
+  const monthlyDepreciation = price / printer.expectedLifetimeMonths;
+  const depreciatedMonths = Math.min(monthsInService, printer.expectedLifetimeMonths);
+  const accumulatedDepreciation = Math.round(monthlyDepreciation * depreciatedMonths * 100) / 100;
+
+  return {
+    monthsInService,
+    monthlyDepreciation: Math.round(monthlyDepreciation * 100) / 100,
+    accumulatedDepreciation,
+    bookValue: Math.round((price - accumulatedDepreciation) * 100) / 100,
+    fullyDepreciated: monthsInService >= printer.expectedLifetimeMonths,
+  };
+}
+
+// Cadena de ancestros de un nodo, desde la sede hasta el nodo mismo
+export function getLocationAncestors(locationId: string, byId: Map<string, Location>): Location[] {
+  const chain: Location[] = [];
+  let current = byId.get(locationId);
+  // El límite evita un ciclo infinito si los datos quedaran inconsistentes
+  while (current && chain.length < LOCATION_LEVELS.length) {
+    chain.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return chain;
+}
+
+export function formatLocationPath(locationId: string, byId: Map<string, Location>): string {
+  return getLocationAncestors(locationId, byId).map((location) => location.name).join(" › ");
+}
+
+// Forma comparable de un modelo de impresora ("HP  LaserJet M404" = "hp laserjet m404")
+export function normalizePrinterModel(model: string): string {
+  return model.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function isTonerCompatible(toner: TonerInventoryWithCompatibility, printerModel: string): boolean {
+  const normalized = normalizePrinterModel(printerModel);
+  return toner.compatibleModels.some((model) => normalizePrinterModel(model) === normalized);
+}
+
+export function isPrintJobTransitionAllowed(from: string, to: string, role?: string): boolean {
+  const allowedRoles = printJobTransitions[from as PrintJobStatus]?.[to as PrintJobStatus];
+  if (!allowedRoles) return false;
+  return role === undefined || allowedRoles.includes(role);
+}
+
 // Insert Schemas
 export const insertCompanySchema = createInsertSchema(companies).omit({
   id: true,
   createdAt: true,
 }).extend({
   adminId: z.string().optional(),
+  documentRetentionDays: z.number().int().positive().nullable().optional(),
+  metadataRetentionDays: z.number().int().positive().nullable().optional(),
+  allowedUploadTypes: z.array(z.enum(supportedUploadTypes)).nullable().optional(),
 });
 
+export const updateUploadPolicySchema = z.object({
+  allowedUploadTypes: z.array(z.enum(supportedUploadTypes)).min(1, "Debes permitir al menos un tipo de archivo"),
+});
+
+export const insertPrinterMeterReadingSchema = createInsertSchema(printerMeterReadings).omit({
+  id: true,
+  printerId: true,
+  companyId: true,
+  source: true,
+  recordedBy: true,
+  createdAt: true,
+}).extend({
+  totalCount: z.number().int().min(0, "El contador no puede ser negativo"),
+  monoCount: z.number().int().min(0).nullable().optional(),
+  colorCount: z.number().int().min(0).nullable().optional(),
+  notes: z.string().max(500).optional(),
+  // Margen de unos minutos por diferencias de reloj con el navegador
+  readAt: z.coerce.date().refine((date) => date.getTime() <= Date.now() + 5 * 60 * 1000, "La fecha de lectura no puede estar en el futuro").optional(),
+});
+
+export const meterReconciliationQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  printerId: z.string().optional(),
+});
+
+// Bloque de líneas del page_log de CUPS enviado a la importación
+export const cupsPageLogSchema = z.object({
+  log: z.string().min(1, "El registro está vacío").max(5_000_000, "El registro es demasiado grande"),
+});
+
+// Asocia una cola o usuario de CUPS sin coincidencia a una impresora o usuario existente
+export const mapCupsNameSchema = z.object({
+  kind: z.enum(["queue", "user"]),
+  name: z.string().min(1),
+  targetId: z.string().min(1, "Selecciona a qué corresponde"),
+});
+
+// Rango de la red local a explorar en busca de impresoras (solo IPv4)
+export const printerDiscoverySchema = z.object({
+  cidr: z.string().trim().regex(/^(\d{1,3}\.){3}\d{1,3}\/\d{1,2}$/, "Rango inválido, usa notación CIDR (ej. 192.168.1.0/24)"),
+});
+
+// Equipos descubiertos que el admin decide dar de alta en su empresa
+export const importDiscoveredPrintersSchema = z.object({
+  devices: z.array(z.object({
+    ipAddress: z.string().trim().min(1),
+    name: z.string().trim().min(1, "El nombre es obligatorio"),
+    location: z.string().trim().min(1, "La ubicación es obligatoria"),
+    model: z.string().trim().min(1, "El modelo es obligatorio"),
+    serialNumber: z.string().trim().max(100).nullable().optional(),
+    manufacturer: z.string().trim().max(100).nullable().optional(),
+    locationId: z.string().nullable().optional(),
+  })).min(1, "Selecciona al menos un equipo").max(1024),
+});
+
+export const updateRetentionSchema = z.object({
+  documentRetentionDays: z.number().int().min(1).max(3650).nullable(),
+  metadataRetentionDays: z.number().int().min(30).max(3650).nullable(),
+}).refine(
+  (retention) =>
+    retention.metadataRetentionDays === null ||
+    (retention.documentRetentionDays !== null && retention.documentRetentionDays <= retention.metadataRetentionDays),
+  { message: "Los documentos no pueden conservarse más tiempo que el historial de trabajos" }
+);
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
 }).extend({
   role: z.enum(["super-admin", "admin", "operator", "viewer"]).default("operator"),
   companyId: z.string().optional(),
+  departmentId: z.string().optional(),
   password: z.string().min(6, "La contraseña debe tener al menos 6 caracteres"),
 });
 
+export const insertDepartmentSchema = createInsertSchema(departments).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().min(1, "El nombre es requerido"),
+  companyId: z.string(),
+});
+
+export const insertLocationSchema = createInsertSchema(locations).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "El nombre es requerido").max(100),
+  level: z.enum(LOCATION_LEVELS),
+  parentId: z.string().nullable().optional(),
+  companyId: z.string(),
+});
+
+export const updateLocationSchema = z.object({
+  name: z.string().trim().min(1, "El nombre es requerido").max(100),
+});
+
+// Filtro y agrupación por ubicación para tablero, análisis, consumo y exportación. Por defecto los
+// trabajos se ubican por la impresora; con basis "user" se usa la ubicación del usuario.
+export const locationFilterSchema = z.object({
+  locationId: z.string().optional(),
+  groupBy: z.enum(LOCATION_LEVELS).optional(),
+  basis: z.enum(["printer", "user"]).default("printer"),
+});
+
+export const insertPrintQuotaSchema = createInsertSchema(printQuotas).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  companyId: z.string(),
+  scope: z.enum(["user", "department"]),
+  userId: z.string().optional(),
+  departmentId: z.string().optional(),
+  monthlyPageLimit: z.number().int().positive().nullable().optional(),
+  monthlyColorPageLimit: z.number().int().positive().nullable().optional(),
+  enforcement: z.enum(["block", "approval"]).default("block"),
+  alertThresholds: z.array(z.number().int().min(1).max(100)).default([80, 100]),
+}).refine(
+  (quota) => (quota.scope === "user" ? !!quota.userId : !!quota.departmentId),
+  { message: "La cuota debe indicar el usuario o departamento al que aplica" }
+);
+
+export const updatePrintQuotaSchema = z.object({
+  monthlyPageLimit: z.number().int().positive().nullable(),
+  monthlyColorPageLimit: z.number().int().positive().nullable(),
+  enforcement: z.enum(["block", "approval"]),
+  alertThresholds: z.array(z.number().int().min(1).max(100)),
+}).partial();
+
+export const insertApprovalPolicySchema = createInsertSchema(approvalPolicies).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  companyId: z.string(),
+  name: z.string().min(1, "El nombre es requerido"),
+  minTotalPages: z.number().int().positive().nullable().optional(),
+  minCopies: z.number().int().positive().nullable().optional(),
+  requireForColor: z.boolean().default(false),
+  enabled: z.boolean().default(true),
+}).refine(
+  (policy) => !!policy.minTotalPages || !!policy.minCopies || policy.requireForColor,
+  { message: "La política debe definir al menos un criterio" }
+);
+
+export const updateApprovalPolicySchema = z.object({
+  name: z.string().min(1, "El nombre es requerido"),
+  minTotalPages: z.number().int().positive().nullable(),
+  minCopies: z.number().int().positive().nullable(),
+  requireForColor: z.boolean(),
+  enabled: z.boolean(),
+}).partial();
+
+export const reviewPrintJobSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
 export const insertPaperTypeSchema = createInsertSchema(paperTypes).omit({
   id: true,
   createdAt: true,
@@ -196,10 +780,126 @@ export const insertTonerInventorySchema = createInsertSchema(tonerInventory).omi
   stock: z.number().int().min(0).default(0),
   minStock: z.number().int().min(0).default(5),
   pricePerUnit: z.string().optional(),
-  printerId: z.string().optional(),
+  pageYield: z.number().int().positive().nullable().optional(),
   companyId: z.string().optional(),
 });
 
+export const tonerCompatibilitySchema = z.object({
+  compatibleModels: z.array(z.string().trim().min(1).max(200)).max(50, "Demasiados modelos compatibles").optional(),
+});
+
+// Movimiento registrado a mano. En receipt, consumption y write_off la cantidad es positiva y el tipo
+// define el sentido; en adjustment lleva el signo de la corrección.
+export const insertStockMovementSchema = z.object({
+  itemType: z.enum(stockItemTypes),
+  itemId: z.string().min(1, "Selecciona el insumo"),
+  movementType: z.enum(["receipt", "consumption", "adjustment", "write_off"]),
+  quantity: z.number().int().refine((quantity) => quantity !== 0, "La cantidad no puede ser cero"),
+  reason: z.string().trim().max(500).optional(),
+  reference: z.string().trim().max(200).optional(),
+}).refine(
+  (movement) => movement.movementType === "adjustment" || movement.quantity > 0,
+  { message: "La cantidad debe ser positiva", path: ["quantity"] }
+).refine(
+  (movement) => (movement.movementType !== "adjustment" && movement.movementType !== "write_off") || !!movement.reason,
+  { message: "Indica el motivo del ajuste o de la baja", path: ["reason"] }
+);
+
+// Traspaso entre dos insumos del mismo tipo (p. ej. el mismo papel guardado en dos bodegas)
+export const stockTransferSchema = z.object({
+  itemType: z.enum(stockItemTypes),
+  fromItemId: z.string().min(1, "Selecciona el origen"),
+  toItemId: z.string().min(1, "Selecciona el destino"),
+  quantity: z.number().int().positive("La cantidad debe ser positiva"),
+  reason: z.string().trim().max(500).optional(),
+  reference: z.string().trim().max(200).optional(),
+}).refine((transfer) => transfer.fromItemId !== transfer.toItemId, {
+  message: "El origen y el destino deben ser distintos",
+  path: ["toItemId"],
+});
+
+export const stockMovementQuerySchema = z.object({
+  itemType: z.enum(stockItemTypes).optional(),
+  itemId: z.string().optional(),
+  movementType: z.enum(stockMovementTypes).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const purchaseOrderLineSchema = z.object({
+  itemType: z.enum(stockItemTypes),
+  itemId: z.string().min(1, "Selecciona el insumo"),
+  quantityOrdered: z.number().int().positive("La cantidad debe ser positiva"),
+  unitPrice: z.string().regex(/^\d+(\.\d{1,2})?$/, "Precio unitario inválido"),
+});
+
+const purchaseOrderFieldsSchema = z.object({
+  supplierId: z.string().nullable().optional(),
+  supplier: z.string().trim().min(1, "Indica el proveedor").max(200),
+  expectedDate: z.coerce.date().nullable().optional(),
+  notes: z.string().trim().max(1000).nullable().optional(),
+  lines: z.array(purchaseOrderLineSchema).min(1, "Agrega al menos un insumo"),
+});
+
+const hasUniqueItems = (order: { lines?: Array<{ itemType?: string; itemId?: string }> }) =>
+  new Set((order.lines || []).map((line) => `${line.itemType}:${line.itemId}`)).size === (order.lines || []).length;
+
+export const insertPurchaseOrderSchema = purchaseOrderFieldsSchema.extend({
+  companyId: z.string(),
+}).refine(hasUniqueItems, { message: "Cada insumo puede aparecer una sola vez en la orden", path: ["lines"] });
+
+// Solo las órdenes en borrador se editan; las líneas se reemplazan completas
+export const updatePurchaseOrderSchema = purchaseOrderFieldsSchema.refine(hasUniqueItems, {
+  message: "Cada insumo puede aparecer una sola vez en la orden",
+  path: ["lines"],
+});
+
+const optionalText = (max: number) => z.string().trim().max(max).nullable().optional();
+
+export const insertSupplierSchema = createInsertSchema(suppliers).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  companyId: z.string(),
+  name: z.string().trim().min(1, "El nombre es requerido").max(200),
+  contactName: optionalText(200),
+  email: z.union([z.literal(""), z.string().trim().email("Correo electrónico inválido")]).nullable().optional(),
+  phone: optionalText(50),
+  notes: optionalText(1000),
+  leadTimeDays: z.number().int().min(0, "El plazo no puede ser negativo").max(365, "El plazo máximo es de 365 días"),
+});
+
+export const updateSupplierSchema = insertSupplierSchema.omit({ companyId: true }).partial();
+
+// Reemplaza el catálogo completo del proveedor
+export const supplierItemsSchema = z.object({
+  items: z.array(z.object({
+    itemType: z.enum(stockItemTypes),
+    itemId: z.string().min(1, "Selecciona el insumo"),
+    unitPrice: z.string().regex(/^\d+(\.\d{1,2})?$/, "Precio unitario inválido").nullable().optional(),
+    leadTimeDays: z.number().int().min(0, "El plazo no puede ser negativo").max(365, "El plazo máximo es de 365 días").nullable().optional(),
+    preferred: z.boolean().default(false),
+  })),
+}).refine((catalog) => hasUniqueItems({ lines: catalog.items }), {
+  message: "Cada insumo puede aparecer una sola vez en el catálogo",
+  path: ["items"],
+});
+
+export const updatePurchaseOrderStatusSchema = z.object({
+  status: z.enum(["sent", "cancelled"]),
+});
+
+export const receivePurchaseOrderSchema = z.object({
+  lines: z.array(z.object({
+    lineId: z.string().min(1),
+    quantity: z.number().int().nonnegative("La cantidad no puede ser negativa"),
+  })).min(1, "Indica lo recibido"),
+  reference: z.string().trim().max(200).optional(), // remito o factura del proveedor
+}).refine((receipt) => receipt.lines.some((line) => line.quantity > 0), {
+  message: "Indica la cantidad recibida de al menos un insumo",
+  path: ["lines"],
+});
+
 export const insertMaintenanceLogSchema = createInsertSchema(maintenanceLogs).omit({
   id: true,
   createdAt: true,
@@ -216,8 +916,10 @@ export const insertMaintenanceLogSchema = createInsertSchema(maintenanceLogs).om
 
 export const insertAlertSchema = createInsertSchema(alerts).omit({
   id: true,
+  resolvedAt: true,
   createdAt: true,
 }).extend({
+  companyId: z.string(),
   type: z.enum([
     "printer_offline",
     "low_stock",
@@ -232,7 +934,9 @@ export const insertAlertSchema = createInsertSchema(alerts).omit({
     "toner_warning",
     "toner_caution",
     "toner_depleted",
-    "projection_unreliable"
+    "projection_unreliable",
+    "meter_gap",
+    "warranty_expiring"
   ]),
   title: z.string().min(1),
   message: z.string().min(1),
@@ -246,7 +950,7 @@ export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
   id: true,
   createdAt: true,
 }).extend({
-  action: z.enum(["CREATE", "UPDATE", "DELETE"]),
+  action: z.enum(["CREATE", "UPDATE", "DELETE", "APPROVE", "REJECT", "DOWNLOAD"]),
   tableName: z.string().min(1),
   recordId: z.string().min(1),
   oldValues: z.string().optional(),
@@ -261,24 +965,120 @@ export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
 export const insertPrinterSchema = createInsertSchema(printers).omit({
   id: true,
   createdAt: true,
+  deviceStatus: true,
+  pageCounter: true,
+  lastPolledAt: true,
+  lastSeenAt: true,
+  warrantyAlertedAt: true,
 }).extend({
-  status: z.enum(["active", "inactive", "maintenance"]).default("active"),
+  name: z.string(),
+  location: z.string(),
+  model: z.string(),
+  ipAddress: z.string().nullable().optional(),
+  // offline lo asigna el sondeo SNMP; inactive y maintenance excluyen a la impresora del sondeo
+  status: z.enum(["active", "inactive", "maintenance", "offline"]).default("active"),
   companyId: z.string().optional(),
+  locationId: z.string().nullable().optional(),
+  supportsColor: z.boolean().default(true),
+  supportsDuplex: z.boolean().default(true),
+  supportedPaperSizes: z.array(z.enum(paperSizes)).min(1, "Selecciona al menos un tamaño de papel").nullable().optional(),
+  maxPaperWeight: z.number().int().positive().max(500).nullable().optional(),
+  supportsStapling: z.boolean().default(false),
+  clickChargeBw: z.string().optional(),
+  clickChargeColor: z.string().optional(),
+  serialNumber: z.string().trim().max(100).nullable().optional(),
+  manufacturer: z.string().trim().max(100).nullable().optional(),
+  ownership: z.enum(["owned", "leased"]).default("owned"),
+  purchaseDate: z.coerce.date().nullable().optional(),
+  purchasePrice: z.string().regex(/^\d+(\.\d{1,2})?$/, "Precio de compra inválido").nullable().optional(),
+  expectedLifetimeMonths: z.number().int().min(1).max(600).nullable().optional(),
+  warrantyEndDate: z.coerce.date().nullable().optional(),
 });
 
 export const insertPrintJobSchema = createInsertSchema(printJobs).omit({
   id: true,
   printedAt: true,
+  fileDeletedAt: true,
+  thumbnailPath: true,
+  source: true,
+  externalJobId: true,
+  paperSheetsDeducted: true,
+  paperCost: true,
+  tonerCost: true,
+  clickCost: true,
+  totalCost: true,
 }).extend({
+  userId: z.string(),
+  printerId: z.string(),
+  documentName: z.string(),
+  fileName: z.string(),
+  filePath: z.string().nullable().optional(),
+  mimeType: z.string().nullable().optional(),
+  contentHash: z.string().nullable().optional(),
+  approvalReason: z.string().nullable().optional(),
+  releaseExpiresAt: z.date().nullable().optional(),
   colorMode: z.enum(["bw", "color"]).default("bw"),
-  paperSize: z.enum(["letter", "legal", "a4", "a3"]).default("letter"),
-  status: z.enum(["completed", "pending", "failed"]).default("completed"),
+  paperSize: z.enum(paperSizes).default("letter"),
+  // Un trabajo nuevo entra en cola; "completed" solo lo asigna el ciclo de vida o la importación de CUPS
+  status: z.enum(printJobStatuses).default("queued"),
   pageCount: z.number().int().positive(),
+  declaredPageCount: z.number().int().positive().optional(),
+  detectedPageCount: z.number().int().positive().optional(),
+  pageCountMismatch: z.boolean().default(false),
   copies: z.number().int().positive().default(1),
+  duplex: z.boolean().default(false),
+  stapled: z.boolean().default(false),
+  nUp: z.number().int().refine(
+    (value) => (nUpOptions as readonly number[]).includes(value),
+    { message: "Páginas por cara no válidas" }
+  ).default(1),
   fileSize: z.number().int().positive(),
   paperTypeId: z.string().optional(),
 });
 
+// Filtros, orden y paginación del listado de trabajos (llegan como query string)
+export const printJobSortFields = ["printedAt", "documentName", "pageCount", "totalCost", "status"] as const;
+
+export const printJobSearchSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+  sortBy: z.enum(printJobSortFields).default("printedAt"),
+  sortDir: z.enum(["asc", "desc"]).default("desc"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  userId: z.string().optional(),
+  printerId: z.string().optional(),
+  paperTypeId: z.string().optional(),
+  colorMode: z.enum(["bw", "color"]).optional(),
+  status: z.enum(printJobStatuses).optional(),
+  search: z.string().trim().max(200).optional(),
+});
+
+export const updatePrintJobStatusSchema = z.object({
+  status: z.enum(printJobStatuses),
+  reason: z.string().max(500).optional(),
+});
+
+export const setReleasePinSchema = z.object({
+  password: z.string().min(1, "La contraseña es requerida"),
+  pin: z.string().regex(/^\d{4,8}$/, "El PIN debe tener entre 4 y 8 dígitos"),
+});
+
+export const setBadgeIdSchema = z.object({
+  badgeId: z.string().min(4, "El ID de credencial debe tener al menos 4 caracteres").nullable(),
+});
+
+// Credenciales presentadas en la impresora: usuario + PIN o tarjeta
+export const releaseCredentialsSchema = z.object({
+  username: z.string().optional(),
+  pin: z.string().optional(),
+  badgeId: z.string().optional(),
+  jobIds: z.array(z.string()).optional(),
+}).refine(
+  (credentials) => !!credentials.badgeId || (!!credentials.username && !!credentials.pin),
+  { message: "Debes indicar usuario y PIN o una credencial" }
+);
+
 export const loginSchema = z.object({
   username: z.string().min(1, "El usuario es requerido"),
   password: z.string().min(1, "La contraseña es requerida"),
@@ -287,18 +1087,70 @@ export const loginSchema = z.object({
 // Types
 export type InsertCompany = z.infer<typeof insertCompanySchema>;
 export type Company = typeof companies.$inferSelect;
+export type UpdateRetention = z.infer<typeof updateRetentionSchema>;
+export type UpdateUploadPolicy = z.infer<typeof updateUploadPolicySchema>;
+export type MapCupsName = z.infer<typeof mapCupsNameSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type UserRole = "super-admin" | "admin" | "operator" | "viewer";
 
 export type InsertDepartment = z.infer<typeof insertDepartmentSchema>;
 export type Department = typeof departments.$inferSelect;
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
+export type Location = typeof locations.$inferSelect;
+export type LocationFilter = z.infer<typeof locationFilterSchema>;
+
+export type InsertPrintQuota = z.infer<typeof insertPrintQuotaSchema>;
+export type PrintQuota = typeof printQuotas.$inferSelect;
+
+export type InsertApprovalPolicy = z.infer<typeof insertApprovalPolicySchema>;
+export type ApprovalPolicy = typeof approvalPolicies.$inferSelect;
 
 export type InsertPaperType = z.infer<typeof insertPaperTypeSchema>;
 export type PaperType = typeof paperTypes.$inferSelect;
 
 export type InsertTonerInventory = z.infer<typeof insertTonerInventorySchema>;
 export type TonerInventory = typeof tonerInventory.$inferSelect;
+export type TonerInventoryWithCompatibility = TonerInventory & { compatibleModels: string[] };
+
+export type StockItemType = (typeof stockItemTypes)[number];
+export type StockMovementType = (typeof stockMovementTypes)[number];
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+export type StockTransfer = z.infer<typeof stockTransferSchema>;
+export type StockMovementQuery = z.infer<typeof stockMovementQuerySchema>;
+export type Supplier = typeof suppliers.$inferSelect;
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+export type UpdateSupplier = z.infer<typeof updateSupplierSchema>;
+export type SupplierItem = typeof supplierItems.$inferSelect;
+export type SupplierItemsInput = z.infer<typeof supplierItemsSchema>;
+export type SupplierWithItems = Supplier & {
+  items: Array<SupplierItem & { itemName: string | null }>;
+};
+export type PurchaseOrderStatus = (typeof purchaseOrderStatuses)[number];
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type PurchaseOrderLine = typeof purchaseOrderLines.$inferSelect;
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type UpdatePurchaseOrder = z.infer<typeof updatePurchaseOrderSchema>;
+export type ReceivePurchaseOrder = z.infer<typeof receivePurchaseOrderSchema>;
+export type PurchaseOrderWithDetails = PurchaseOrder & {
+  lines: Array<PurchaseOrderLine & { itemName: string | null }>;
+  total: number;
+  receivedTotal: number;
+  expenses: ConsumptionExpense[];
+};
+export type StockMovementWithDetails = StockMovement & { itemName: string | null; userName: string | null };
+
+// Stock guardado en el insumo frente al saldo del libro; difference distinto de 0 indica un cambio sin movimiento
+export type StockReconciliationRow = {
+  itemType: StockItemType;
+  itemId: string;
+  name: string;
+  stock: number;
+  ledgerBalance: number;
+  difference: number;
+  hasMovements: boolean;
+};
 
 export type InsertMaintenanceLog = z.infer<typeof insertMaintenanceLogSchema>;
 export type MaintenanceLog = typeof maintenanceLogs.$inferSelect;
@@ -311,14 +1163,133 @@ export type AuditLog = typeof auditLogs.$inferSelect;
 
 export type InsertPrinter = z.infer<typeof insertPrinterSchema>;
 export type Printer = typeof printers.$inferSelect;
+export type PrinterSupplyLevel = typeof printerSupplyLevels.$inferSelect;
+export type PrinterDowntime = typeof printerDowntime.$inferSelect;
+export type InsertPrinterMeterReading = z.infer<typeof insertPrinterMeterReadingSchema>;
+export type PrinterMeterReading = typeof printerMeterReadings.$inferSelect;
 
 export type InsertPrintJob = z.infer<typeof insertPrintJobSchema>;
 export type PrintJob = typeof printJobs.$inferSelect;
 
+// Uso de almacenamiento de documentos por empresa
+export type StorageReportRow = {
+  companyId: string;
+  companyName: string;
+  storedFiles: number;
+  storedBytes: number;
+  deletedFiles: number;
+  documentRetentionDays: number | null;
+  metadataRetentionDays: number | null;
+};
+
+export type PullPrintingReport = {
+  heldJobs: number;
+  releasedJobs: number;
+  expiredJobs: number;
+  pagesSaved: number;
+  sheetsSaved: number;
+};
+
+export type PrintJobSearch = z.infer<typeof printJobSearchSchema>;
+
+export type CupsUnmatchedName = typeof cupsUnmatchedNames.$inferSelect;
+
+// Lectura SNMP de una impresora
+export type PrinterPollResult = {
+  reachable: boolean; // respondió por SNMP
+
+  deviceStatus: string;
+  pageCounter: number | null;
+  supplies: Array<Pick<PrinterSupplyLevel, "supplyIndex" | "description" | "supplyType" | "color" | "levelPercent">>;
+  error?: string;
+};
+
+// Equipo que respondió en la exploración de red; registeredPrinterId indica que ya está dado de alta
+export type DiscoveredPrinter = {
+  ipAddress: string;
+  protocols: Array<"ipp" | "jetdirect" | "snmp">;
+  model: string | null;
+  serialNumber: string | null;
+  manufacturer: string | null;
+  sysName: string | null;
+  registeredPrinterId: string | null;
+};
+
+export type PrinterDiscoveryResult = {
+  cidr: string;
+  scanned: number;
+  devices: DiscoveredPrinter[];
+};
+
+export type DiscoveredPrinterImport = z.infer<typeof importDiscoveredPrintersSchema>["devices"][number];
+
+export type DiscoveryImportResult = {
+  created: Printer[];
+  skipped: Array<{ ipAddress: string; reason: string }>;
+};
+
+export type PrinterDepreciation = {
+  monthsInService: number;
+  monthlyDepreciation: number;
+  accumulatedDepreciation: number;
+  bookValue: number;
+  fullyDepreciated: boolean;
+};
+
+// Disponibilidad de una impresora en los últimos días según sus periodos sin conexión
+export type PrinterAvailability = {
+  printerId: string;
+  windowDays: number;
+  availabilityPercent: number;
+  downtimeMinutes: number;
+  outages: number;
+  offlineSince: Date | null;
+};
+
+// Páginas según el contador frente a las páginas de los trabajos registrados en el mismo intervalo
+export type MeterReconciliationRow = {
+  printerId: string;
+  printerName: string;
+  location: string;
+  startReading: Pick<PrinterMeterReading, "totalCount" | "readAt"> | null;
+  endReading: Pick<PrinterMeterReading, "totalCount" | "readAt"> | null;
+  meterPages: number | null; // null sin dos lecturas o si el contador se reinició
+  recordedPages: number;
+  recordedBwPages: number;
+  recordedColorPages: number;
+  unrecordedPages: number | null;
+  gapPercent: number | null;
+  flagged: boolean;
+};
+
+// Resultado de importar un bloque del page_log de CUPS
+export type CupsIngestSummary = {
+  lines: number;
+  invalidLines: number;
+  jobs: number;
+  created: number;
+  duplicates: number;
+  unmatched: number;
+};
+
+export type PaginatedResult<T> = {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
 // Extended print job type with joined user and printer info
 export type PrintJobWithDetails = PrintJob & {
-  user: Pick<User, "id" | "username" | "fullName">;
-  printer: Pick<Printer, "id" | "name" | "location">;
+  user: Pick<User, "id" | "username" | "fullName" | "locationId">;
+  printer: Pick<Printer, "id" | "name" | "location" | "locationId">;
+  thumbnailUrl?: string; // enlace firmado a la miniatura, solo en el listado
+};
+
+export type PrintJobEvent = typeof printJobEvents.$inferSelect;
+
+export type PrintJobEventWithUser = PrintJobEvent & {
+  user?: Pick<User, "id" | "fullName">;
 };
 
 // Maintenance log with details
@@ -327,16 +1298,58 @@ export type MaintenanceLogWithDetails = MaintenanceLog & {
   technician?: Pick<User, "id" | "fullName">;
 };
 
+// Estado de una cuota en el mes en curso
+export type QuotaStatus = {
+  quota: PrintQuota;
+  usedPages: number;
+  usedColorPages: number;
+  remainingPages: number | null;
+  remainingColorPages: number | null;
+};
+
+// Trabajo anterior del mismo usuario con el mismo contenido
+export type DuplicatePrintMatch = Pick<PrintJob, "id" | "documentName" | "pageCount" | "copies" | "status" | "printedAt"> & {
+  printerName: string;
+};
+
+// Reimpresiones del mismo documento por el mismo usuario dentro de la ventana de duplicados
+export type DuplicatePrintStats = {
+  windowDays: number;
+  duplicateJobs: number;
+  wastedPages: number;
+  wastedCost: number;
+  topDocuments: Array<{ documentName: string; username: string; duplicates: number; wastedPages: number; wastedCost: number }>;
+};
+
+// Uso acumulado de un nodo de la jerarquía (locationId null: trabajos sin ubicación en ese nivel)
+export type LocationUsageRow = {
+  locationId: string | null;
+  name: string;
+  path: string;
+  jobs: number;
+  pages: number;
+  colorPages: number;
+  sheets: number;
+  impressions: number;
+  totalCost: number;
+};
+
 // Consumption summary type for analytics
 export type ConsumptionStats = {
   totalJobs: number;
   totalPages: number;
   totalBWPages: number;
   totalColorPages: number;
-  totalPaperUsed: number;
+  totalPaperUsed: number; // hojas
+  totalImpressions: number;
   estimatedInkUsed: number;
+  totalPaperCost: number;
+  totalTonerCost: number;
+  totalClickCost: number;
+  totalPrintCost: number;
   totalExpenses: number;
   period: string;
+  locationBreakdown?: LocationUsageRow[];
 };
 
 // Dashboard stats type
@@ -350,6 +1363,7 @@ export type DashboardStats = {
   topUsers: Array<{ userId: string; username: string; jobCount: number }>;
   topPrinters: Array<{ printerId: string; printerName: string; jobCount: number }>;
   supplyProjections: SupplyProjection[];
+  locationBreakdown?: LocationUsageRow[];
 };
 
 // Supply projection type
@@ -362,6 +1376,12 @@ export type SupplyProjection = {
   dailyConsumption: number;
   daysRemaining: number;
   estimatedDepletionDate: string;
-  status: "normal" | "warning" | "critical";
+  // critical: se agota antes de que llegue un pedido hecho hoy; warning y caution: quedan menos de una
+  // o dos semanas para pedir a tiempo
+  status: "normal" | "caution" | "warning" | "critical";
   estimatedPagesPerUnit?: number;
+  leadTimeDays: number; // plazo de entrega del proveedor con que se repone
+  supplierId: string | null;
+  supplierName: string | null;
+  reorderByDate: string; // último día para pedir sin quedarse sin stock
 };